@@ -47,7 +47,7 @@ export default defineConfig([
     ],
     languageOptions: {
       parserOptions: {
-        project: ['./tsconfig.json', './src/*/tsconfig.json'],
+        project: ['./tsconfig.json', './src/*/tsconfig.json', './src/*/tsconfig.test.json'],
         tsconfigRootDir: import.meta.dirname,
       },
     },
@@ -1,229 +1,47 @@
 import * as Phaser from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
+import {
+  BossDefinition,
+  BossRoster,
+  DEFAULT_BOSS_ROSTER,
+  WEEKDAYS,
+  Weekday,
+  getWeekday,
+  isWeekday
+} from '../../../shared/game/bosses';
+import { BossRosterResponse } from '../../../shared/types/api';
+import { BossAbilityState, getAbilityPhase } from '../../../shared/game/abilities';
 
 /**
- * Daily boss themes and their data
+ * Boss data comes from the shared roster schema (moderator overrides applied by the server)
  */
-export enum DailyTheme {
-  GAMING = 'Gaming',
-  INTERNET = 'Internet', 
-  SOCIAL_MEDIA = 'Social Media',
-  WORK = 'Work',
-  ENTERTAINMENT = 'Entertainment',
-  SPORTS = 'Sports',
-  MEMES = 'Memes'
-}
-
-/**
- * Animation configuration for boss sprites
- */
-export interface AnimationConfig {
-  frames: number;
-  frameRate: number;
-  repeat?: number;
-}
+export type BossData = BossDefinition;
 
-/**
- * Boss data structure for daily rotation
- */
-export interface BossData {
-  id: string;
-  name: string;
-  theme: DailyTheme;
-  baseHP: number;
-  level: number;
-  spriteKey: string;
-  animations: {
-    idle: AnimationConfig;
-    hit: AnimationConfig;
-    phase2: AnimationConfig;
-    death: AnimationConfig;
-  };
-  hitEffect: {
-    particles: string;
-    screenShake: number;
-    flashColor: number;
-  };
-  attackPattern: {
-    frequency: number;
-    animation: string;
-    message: string;
-  };
-}
+// Active roster; starts as the defaults and is replaced once the server responds
+let activeRoster: BossRoster = DEFAULT_BOSS_ROSTER;
+// Raid day and next reset from the server's calendar (the local clock is only a fallback)
+let activeDay: Weekday | undefined;
+let nextResetAt: number | undefined;
 
 /**
- * Daily boss rotation data (7 themed bosses with shared 50,000 HP)
+ * Fetch the active boss roster from the server (keeps the defaults if the request fails)
  */
-export const DAILY_BOSSES: Record<string, BossData> = {
-  sunday: {
-    id: 'cringe',
-    name: 'The Cringe',
-    theme: DailyTheme.MEMES,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_cringe',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'cringe_particles',
-      screenShake: GameConstants.SHAKE_NORMAL,
-      flashColor: 0xffa500
-    },
-    attackPattern: {
-      frequency: 10000,
-      animation: 'cringe_wave',
-      message: 'So cringe...'
-    }
-  },
-  monday: {
-    id: 'lag_spike',
-    name: 'The Lag Spike',
-    theme: DailyTheme.GAMING,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_lag_spike',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'glitch_particles',
-      screenShake: GameConstants.SHAKE_NORMAL,
-      flashColor: 0xff0000
-    },
-    attackPattern: {
-      frequency: 8000,
-      animation: 'lag_attack',
-      message: 'Connection unstable!'
-    }
-  },
-  tuesday: {
-    id: 'algorithm',
-    name: 'The Algorithm',
-    theme: DailyTheme.INTERNET,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_algorithm',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'code_particles',
-      screenShake: GameConstants.SHAKE_NORMAL,
-      flashColor: 0x00ff00
-    },
-    attackPattern: {
-      frequency: 7000,
-      animation: 'data_stream',
-      message: 'Processing...'
-    }
-  },
-  wednesday: {
-    id: 'influencer',
-    name: 'The Influencer',
-    theme: DailyTheme.SOCIAL_MEDIA,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_influencer',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'heart_particles',
-      screenShake: GameConstants.SHAKE_NORMAL,
-      flashColor: 0xff69b4
-    },
-    attackPattern: {
-      frequency: 6000,
-      animation: 'selfie_flash',
-      message: 'Like and subscribe!'
-    }
-  },
-  thursday: {
-    id: 'deadline',
-    name: 'The Deadline',
-    theme: DailyTheme.WORK,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_deadline',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'stress_particles',
-      screenShake: GameConstants.SHAKE_CRITICAL,
-      flashColor: 0xffff00
-    },
-    attackPattern: {
-      frequency: 5000,
-      animation: 'clock_tick',
-      message: 'Time is running out!'
-    }
-  },
-  friday: {
-    id: 'spoiler',
-    name: 'The Spoiler',
-    theme: DailyTheme.ENTERTAINMENT,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_spoiler',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'reveal_particles',
-      screenShake: GameConstants.SHAKE_NORMAL,
-      flashColor: 0x800080
-    },
-    attackPattern: {
-      frequency: 9000,
-      animation: 'spoiler_reveal',
-      message: 'The ending is...'
-    }
-  },
-  saturday: {
-    id: 'referee',
-    name: 'The Referee',
-    theme: DailyTheme.SPORTS,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_referee',
-    animations: {
-      idle: { frames: 1, frameRate: 1, repeat: -1 },
-      hit: { frames: 1, frameRate: 1, repeat: 0 },
-      phase2: { frames: 1, frameRate: 1, repeat: -1 },
-      death: { frames: 1, frameRate: 1, repeat: 0 }
-    },
-    hitEffect: {
-      particles: 'whistle_particles',
-      screenShake: GameConstants.SHAKE_BOSS_PHASE,
-      flashColor: 0x000000
-    },
-    attackPattern: {
-      frequency: 4000,
-      animation: 'whistle_blow',
-      message: 'FOUL!'
+export async function loadBossRoster(): Promise<BossRoster> {
+  try {
+    const response = await fetch('/api/boss-roster');
+    if (response.ok) {
+      const result: BossRosterResponse = await response.json();
+      if (result.status === 'success' && result.roster) {
+        activeRoster = result.roster;
+        activeDay = result.currentDay;
+        nextResetAt = result.nextResetAt;
+      }
     }
+  } catch (error) {
+    console.warn('Failed to load boss roster, using defaults:', error);
   }
-};
+  return activeRoster;
+}
 
 /**
  * BossEntity - Represents the daily rotating boss with animations and phases
@@ -238,6 +56,13 @@ export class BossEntity extends Phaser.GameObjects.Sprite {
   private _isInPhase2: boolean = false;
   private _isDead: boolean = false;
 
+  // Server-run ability telegraph
+  private ability?: BossAbilityState | undefined;
+  private abilityClockOffset: number = 0;
+  private abilityRing?: Phaser.GameObjects.Graphics | undefined;
+  private abilityText?: Phaser.GameObjects.Text | undefined;
+  private abilityTimer?: Phaser.Time.TimerEvent | undefined;
+
   constructor(scene: Phaser.Scene, x: number, y: number, bossData: BossData) {
     super(scene, x, y, bossData.spriteKey);
     
@@ -348,7 +173,7 @@ export class BossEntity extends Phaser.GameObjects.Sprite {
     this.playHitAnimation();
     
     // Check for phase transition
-    if (!this._isInPhase2 && this.getHPPercentage() <= GameConstants.BOSS_PHASE2_THRESHOLD) {
+    if (!this._isInPhase2 && this.getHPPercentage() <= this.bossData.phase2Threshold) {
       this.enterPhase2();
     }
     
@@ -497,6 +322,125 @@ export class BossEntity extends Phaser.GameObjects.Sprite {
     return this._isInPhase2;
   }
 
+  /**
+   * Show the ability the server says is running (undefined clears it)
+   * @param ability Broadcast ability state
+   * @param serverTime Server clock when the state was sent, to line up countdowns
+   */
+  public showAbility(ability: BossAbilityState | undefined, serverTime?: number): void {
+    if (serverTime !== undefined) {
+      this.abilityClockOffset = serverTime - Date.now();
+    }
+
+    if (!ability) {
+      this.clearAbility();
+      return;
+    }
+
+    // Shake once when a new ability starts its warning
+    if (this.ability?.instanceId !== ability.instanceId) {
+      this.scene.cameras.main.shake(200, 0.005);
+    }
+    this.ability = ability;
+
+    if (!this.abilityRing) {
+      this.abilityRing = this.scene.add.graphics();
+      this.abilityRing.setDepth(this.depth + 1);
+    }
+    if (!this.abilityText) {
+      this.abilityText = this.scene.add.text(this.x, this.y - 110, '', {
+        fontFamily: 'Arial Black',
+        fontSize: '14px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 4,
+        align: 'center'
+      }).setOrigin(0.5).setDepth(this.depth + 2);
+    }
+    if (!this.abilityTimer) {
+      this.abilityTimer = this.scene.time.addEvent({
+        delay: 100,
+        callback: () => this.renderAbility(),
+        loop: true
+      });
+    }
+
+    this.renderAbility();
+  }
+
+  /**
+   * Redraw the telegraph for the current point in the ability's timeline
+   */
+  private renderAbility(): void {
+    if (!this.ability || !this.abilityRing || !this.abilityText) return;
+
+    const now = Date.now() + this.abilityClockOffset;
+    const phase = getAbilityPhase(this.ability, now);
+    if (!phase) {
+      this.clearAbility();
+      return;
+    }
+
+    const phaseEnd = phase === 'telegraph' ? this.ability.activeAt
+      : phase === 'active' ? this.ability.endsAt
+      : this.ability.penaltyEndsAt ?? this.ability.endsAt;
+    const secondsLeft = Math.max(0, Math.ceil((phaseEnd - now) / 1000));
+    const radius = Math.max(this.displayWidth, this.displayHeight) * 0.6;
+
+    this.abilityRing.clear();
+    this.abilityRing.setPosition(this.x, this.y);
+
+    if (phase === 'telegraph') {
+      // Blinking warning ring
+      const blink = Math.floor(now / 250) % 2 === 0;
+      this.abilityRing.lineStyle(4, 0xff3333, blink ? 1 : 0.3);
+      this.abilityRing.strokeCircle(0, 0, radius);
+    } else if (this.ability.kind === 'reflect' && phase === 'active') {
+      this.abilityRing.lineStyle(5, 0x9b59b6, 0.9);
+      this.abilityRing.strokeCircle(0, 0, radius);
+      this.abilityRing.fillStyle(0x9b59b6, 0.15);
+      this.abilityRing.fillCircle(0, 0, radius);
+    } else if (this.ability.kind === 'countdown' && phase === 'active') {
+      // Clock arc that empties as the deadline approaches
+      const progress = (this.ability.endsAt - now) / (this.ability.endsAt - this.ability.activeAt);
+      this.abilityRing.lineStyle(6, 0xffff00, 0.9);
+      this.abilityRing.beginPath();
+      this.abilityRing.arc(0, 0, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress, false);
+      this.abilityRing.strokePath();
+    } else {
+      // Shield bubble (also the penalty for a missed deadline)
+      this.abilityRing.lineStyle(4, 0x3399ff, 0.9);
+      this.abilityRing.strokeCircle(0, 0, radius);
+      this.abilityRing.fillStyle(0x3399ff, 0.2);
+      this.abilityRing.fillCircle(0, 0, radius);
+    }
+
+    let label = `${this.ability.name}: ${this.ability.message} (${secondsLeft}s)`;
+    if (phase === 'active' && this.ability.countdown) {
+      label += `\n${this.ability.countdown.damageDealt.toLocaleString()} / ${this.ability.countdown.requiredDamage.toLocaleString()} damage`;
+    }
+    this.abilityText.setPosition(this.x, this.y - radius - 20);
+    this.abilityText.setText(label);
+  }
+
+  /**
+   * Remove the ability telegraph
+   */
+  private clearAbility(): void {
+    this.ability = undefined;
+    this.abilityTimer?.destroy();
+    this.abilityTimer = undefined;
+    this.abilityRing?.destroy();
+    this.abilityRing = undefined;
+    this.abilityText?.destroy();
+    this.abilityText = undefined;
+  }
+
+  override destroy(fromScene?: boolean): void {
+    this.clearAbility();
+    super.destroy(fromScene);
+  }
+
   /**
    * Set HP (for server synchronization)
    */
@@ -504,7 +448,7 @@ export class BossEntity extends Phaser.GameObjects.Sprite {
     this.currentHP = Math.max(0, Math.min(hp, this.maxHP));
     
     // Check phase transition
-    if (!this._isInPhase2 && this.getHPPercentage() <= GameConstants.BOSS_PHASE2_THRESHOLD) {
+    if (!this._isInPhase2 && this.getHPPercentage() <= this.bossData.phase2Threshold) {
       this.enterPhase2();
     }
     
@@ -516,21 +460,25 @@ export class BossEntity extends Phaser.GameObjects.Sprite {
 }
 
 /**
- * Get current boss data based on day of week
+ * Get current boss data based on the raid day's weekday
  */
 export function getCurrentBoss(): BossData {
-  const dayOfWeek = new Date().getDay();
-  
-  switch (dayOfWeek) {
-    case 0: return DAILY_BOSSES.sunday as BossData;
-    case 1: return DAILY_BOSSES.monday as BossData;
-    case 2: return DAILY_BOSSES.tuesday as BossData;
-    case 3: return DAILY_BOSSES.wednesday as BossData;
-    case 4: return DAILY_BOSSES.thursday as BossData;
-    case 5: return DAILY_BOSSES.friday as BossData;
-    case 6: return DAILY_BOSSES.saturday as BossData;
-    default: return DAILY_BOSSES.monday as BossData;
-  }
+  return activeRoster[activeDay ?? getWeekday()];
+}
+
+/**
+ * Get the boss that spawns at the next daily reset
+ */
+export function getNextBoss(): BossData {
+  const currentDay = activeDay ?? getWeekday();
+  return activeRoster[WEEKDAYS[(WEEKDAYS.indexOf(currentDay) + 1) % WEEKDAYS.length] ?? 'monday'];
+}
+
+/**
+ * Get the next daily reset time (epoch ms), if the server has sent it
+ */
+export function getNextResetAt(): number | undefined {
+  return nextResetAt;
 }
 
 /**
@@ -538,15 +486,5 @@ export function getCurrentBoss(): BossData {
  */
 export function getBossByDay(day: string): BossData {
   const dayKey = day.toLowerCase();
-  
-  switch (dayKey) {
-    case 'sunday': return DAILY_BOSSES.sunday as BossData;
-    case 'monday': return DAILY_BOSSES.monday as BossData;
-    case 'tuesday': return DAILY_BOSSES.tuesday as BossData;
-    case 'wednesday': return DAILY_BOSSES.wednesday as BossData;
-    case 'thursday': return DAILY_BOSSES.thursday as BossData;
-    case 'friday': return DAILY_BOSSES.friday as BossData;
-    case 'saturday': return DAILY_BOSSES.saturday as BossData;
-    default: return DAILY_BOSSES.monday as BossData;
-  }
-}
\ No newline at end of file
+  return isWeekday(dayKey) ? activeRoster[dayKey] : activeRoster.monday;
+}
@@ -131,6 +131,7 @@ export class PlayerCharacter extends Phaser.GameObjects.Sprite {
   private classData: CharacterClassData;
   private originalX: number;
   private originalY: number;
+  private cosmeticTint?: number | undefined; // Bought in the shop; flashes return to it
 
   constructor(
     scene: Phaser.Scene, 
@@ -340,7 +341,7 @@ export class PlayerCharacter extends Phaser.GameObjects.Sprite {
           
           // Add attack flash effect
           this.setTint(0xffffff);
-          this.scene.time.delayedCall(100, () => this.clearTint());
+          this.scene.time.delayedCall(100, () => this.restoreTint());
           
           // Emit attack hit event for damage numbers and effects
           this.scene.events.emit('player-attack-hit', { 
@@ -440,6 +441,18 @@ export class PlayerCharacter extends Phaser.GameObjects.Sprite {
     this.level = level;
   }
 
+  /**
+   * Color the character with a shop tint such as '#e74c3c' (undefined removes it)
+   */
+  public setCosmeticTint(color: string | undefined): this {
+    this.cosmeticTint = color ? Phaser.Display.Color.HexStringToColor(color).color : undefined;
+    return this.restoreTint();
+  }
+
+  private restoreTint(): this {
+    return this.cosmeticTint !== undefined ? this.setTint(this.cosmeticTint) : this.clearTint();
+  }
+
   /**
    * Reset position to original and stop all tweens
    */
@@ -452,7 +465,7 @@ export class PlayerCharacter extends Phaser.GameObjects.Sprite {
     this.y = this.originalY;
     this.setFlipX(false);
     this.setAlpha(1);
-    this.clearTint();
+    this.restoreTint();
     this.setScale(2);
     this.isAttacking = false;
     
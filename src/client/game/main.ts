@@ -5,6 +5,10 @@ import { Battle } from './scenes/Battle';
 import { Results } from './scenes/Results';
 import { Victory } from './scenes/Victory';
 import { HowToPlay } from './scenes/HowToPlay';
+import { RaidRecap } from './scenes/RaidRecap';
+import { Shop } from './scenes/Shop';
+import { Talents } from './scenes/Talents';
+import { Achievements } from './scenes/Achievements';
 import * as Phaser from 'phaser';
 import { AUTO, Game } from 'phaser';
 
@@ -42,7 +46,7 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false,
     },
   },
-  scene: [Boot, Splash, CharacterSelect, HowToPlay, Battle, Results, Victory],
+  scene: [Boot, Splash, CharacterSelect, HowToPlay, RaidRecap, Shop, Talents, Achievements, Battle, Results, Victory],
 };
 
 const StartGame = (parent: string) => {
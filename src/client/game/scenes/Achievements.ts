@@ -0,0 +1,221 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { TransitionSystem } from '../systems/TransitionSystem';
+import { AnimationSystem } from '../systems/AnimationSystem';
+import { MobileUtils } from '../utils/MobileUtils';
+import { AchievementStatus, AchievementsResponse } from '../../../shared/types/api';
+
+// Gallery grid: two columns of cards
+const COLUMNS = 2;
+const CARD_WIDTH = 210;
+const CARD_HEIGHT = 56;
+const CARD_GAP = 8;
+
+/**
+ * Achievements - Gallery of every achievement with progress toward the locked ones
+ * Unlocks are decided by the server; this scene only shows them
+ */
+export class Achievements extends Scene {
+  private transitionSystem?: TransitionSystem;
+  private animationSystem?: AnimationSystem;
+  private backButton?: Phaser.GameObjects.Container;
+  private contentContainer?: Phaser.GameObjects.Container;
+  private gridContainer?: Phaser.GameObjects.Container;
+  private title?: Phaser.GameObjects.Text;
+  private summaryText?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super('Achievements');
+  }
+
+  async create(): Promise<void> {
+    // Setup systems
+    this.transitionSystem = new TransitionSystem(this);
+    this.animationSystem = new AnimationSystem(this);
+
+    // Smooth transition in
+    await this.transitionSystem.transitionIn({
+      type: 'slide',
+      direction: 'up',
+      duration: GameConstants.TRANSITION_DURATION_NORMAL
+    });
+
+    this.createBackground();
+    this.createContent();
+    this.createBackButton();
+
+    this.refreshLayout();
+
+    // Re-calculate positions on resize
+    this.scale.on('resize', () => this.refreshLayout());
+
+    await this.loadAchievements();
+  }
+
+  private createBackground(): void {
+    const { width, height } = this.scale;
+
+    // Dark gradient background matching game theme
+    const graphics = this.add.graphics();
+    graphics.fillGradientStyle(
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.UI_PRIMARY,
+      GameConstants.COLORS.UI_PRIMARY
+    );
+    graphics.fillRect(0, 0, width, height);
+  }
+
+  private createContent(): void {
+    this.contentContainer = this.add.container(0, 0);
+
+    this.title = this.add.text(0, 0, 'ACHIEVEMENTS', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '24px' : '32px',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 3,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.summaryText = this.add.text(0, 0, 'Loading...', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.gridContainer = this.add.container(0, 0);
+
+    this.contentContainer.add([this.title, this.summaryText, this.gridContainer]);
+  }
+
+  private async loadAchievements(): Promise<void> {
+    try {
+      const response = await fetch('/api/achievements');
+      const data = await response.json() as AchievementsResponse;
+      if (data.status !== 'success' || !data.achievements) {
+        throw new Error(data.message ?? 'Failed to load achievements');
+      }
+
+      const unlocked = data.achievements.filter((achievement) => achievement.unlockedAt !== undefined).length;
+      this.summaryText?.setText(`${unlocked} / ${data.achievements.length} unlocked`);
+      this.renderGrid(data.achievements);
+    } catch (error) {
+      console.error('Failed to load achievements:', error);
+      this.summaryText?.setText('Could not load achievements.');
+    }
+  }
+
+  private renderGrid(achievements: AchievementStatus[]): void {
+    if (!this.gridContainer) return;
+    this.gridContainer.removeAll(true);
+
+    achievements.forEach((achievement, index) => {
+      const column = index % COLUMNS;
+      const row = Math.floor(index / COLUMNS);
+      const x = (column - (COLUMNS - 1) / 2) * (CARD_WIDTH + CARD_GAP);
+      const y = row * (CARD_HEIGHT + CARD_GAP);
+      this.gridContainer?.add(this.createCard(achievement, x, y));
+    });
+  }
+
+  private createCard(achievement: AchievementStatus, x: number, y: number): Phaser.GameObjects.Container {
+    const card = this.add.container(x, y);
+    const unlocked = achievement.unlockedAt !== undefined;
+
+    const bg = this.add.rectangle(0, 0, CARD_WIDTH, CARD_HEIGHT, unlocked ? 0x3a3a1a : 0x222222, 0.9)
+      .setStrokeStyle(2, unlocked ? 0xffd700 : 0x555555);
+
+    // Locked achievements show the icon faded until earned
+    const icon = this.add.text(-CARD_WIDTH / 2 + 22, 0, achievement.icon, {
+      fontSize: '22px',
+    }).setOrigin(0.5).setAlpha(unlocked ? 1 : 0.35);
+
+    const status = unlocked && achievement.unlockedAt
+      ? new Date(achievement.unlockedAt).toLocaleDateString()
+      : `${achievement.progress.toLocaleString()} / ${achievement.target.toLocaleString()}`;
+
+    const label = this.add.text(-CARD_WIDTH / 2 + 42, 0, `${achievement.name}\n${achievement.description}\n${status}`, {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color: unlocked ? '#ffd700' : '#aaaaaa',
+      lineSpacing: 1,
+    }).setOrigin(0, 0.5);
+
+    card.add([bg, icon, label]);
+    return card;
+  }
+
+  private createBackButton(): void {
+    const buttonContainer = this.add.container(0, 0);
+
+    // Button background
+    const buttonBg = this.add.rectangle(0, 0,
+      MobileUtils.isMobile() ? 120 : 150,
+      MobileUtils.isMobile() ? 40 : 50,
+      GameConstants.COLORS.BUTTON_ENABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+
+    // Button text
+    const buttonText = this.add.text(0, 0, 'BACK', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    buttonContainer.add([buttonBg, buttonText]);
+
+    // Make interactive
+    buttonBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.UI_SECONDARY);
+        buttonContainer.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
+        buttonContainer.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(buttonContainer);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Splash', 'down');
+        }
+      });
+
+    this.backButton = buttonContainer;
+  }
+
+  private refreshLayout(): void {
+    const { width, height } = this.scale;
+
+    // Resize camera to fill entire screen
+    this.cameras.main.setViewport(0, 0, width, height);
+
+    // Scale factor for responsive design
+    const scaleFactor = Math.min(width / GameConstants.GAME_WIDTH, height / GameConstants.GAME_HEIGHT, 1);
+
+    if (this.contentContainer) {
+      this.contentContainer.setPosition(width / 2, height / 2);
+      this.contentContainer.setScale(scaleFactor);
+
+      // Title and count up top, the card grid below
+      this.title?.setPosition(0, -250);
+      this.summaryText?.setPosition(0, -212);
+      this.gridContainer?.setPosition(0, -170);
+    }
+
+    // Position back button
+    if (this.backButton) {
+      this.backButton.setPosition(
+        MobileUtils.isMobile() ? 70 : 100,
+        MobileUtils.isMobile() ? 40 : 50
+      );
+      this.backButton.setScale(scaleFactor);
+    }
+  }
+}
@@ -1,7 +1,11 @@
+import * as Phaser from 'phaser';
 import { Scene } from 'phaser';
 import { BossEntity, getCurrentBoss } from '../entities/BossEntity';
 import { PlayerCharacter, CharacterClass } from '../entities/PlayerCharacter';
 import { ActionButton, ButtonState } from '../ui/ActionButton';
+import { ItemBar } from '../ui/ItemBar';
+import { FactionWarBar } from '../ui/FactionWarBar';
+import { StatusMessageQueue } from '../ui/StatusMessage';
 import { DamageNumberPool } from '../ui/DamageNumber';
 import { GameConstants } from '../utils/GameConstants';
 import { MobileUtils } from '../utils/MobileUtils';
@@ -11,6 +15,23 @@ import { ParticleSystem } from '../systems/ParticleSystem';
 import { AnimationSystem } from '../systems/AnimationSystem';
 import { PerformanceMonitor } from '../systems/PerformanceMonitor';
 import { TransitionSystem } from '../systems/TransitionSystem';
+import {
+  AchievementUnlock,
+  AttackResponse,
+  BossHPSyncResponse,
+  BossStatusResponse,
+  Cosmetics,
+  InventoryResponse,
+  ItemType,
+  PlayerData,
+  SpecialAbilityUseResponse,
+  StreakUpdate,
+  UseItemResponse
+} from '../../../shared/types/api';
+import { ITEMS } from '../../../shared/game/items';
+import { BossAbilityState } from '../../../shared/game/abilities';
+import { PhaseMultipliers, formatPhaseMultiplier } from '../../../shared/game/bosses';
+import { formatStreak } from '../../../shared/game/streaks';
 
 /**
  * Battle - Main battle scene where combat takes place
@@ -20,6 +41,7 @@ export class Battle extends Scene {
   // Core entities
   private boss?: BossEntity;
   private playerCharacter?: PlayerCharacter;
+  private cosmetics: Cosmetics = {}; // Worn shop cosmetics, from the server's player data
 
   // Systems
   private damageNumberPool?: DamageNumberPool;
@@ -34,12 +56,15 @@ export class Battle extends Scene {
   private selectedClass: CharacterClass = CharacterClass.WARRIOR;
   private bossCurrentHP: number = GameConstants.BOSS_MAX_HP;
   private bossMaxHP: number = GameConstants.BOSS_MAX_HP;
+  private bossPhase: number = 1;
+  private phaseMultipliers?: PhaseMultipliers | undefined;
   private playerCurrentHP: number = GameConstants.PLAYER_MAX_HP;
   private playerMaxHP: number = GameConstants.PLAYER_MAX_HP;
   private sessionDamage: number = 0;
   private sessionAttackCount: number = 0;
   private isAttacking: boolean = false;
   private bossAttackTimer?: Phaser.Time.TimerEvent | undefined;
+  private bossSyncTimer?: Phaser.Time.TimerEvent | undefined;
   
   // Session timer
   private sessionTimeRemaining: number = 60; // 60 seconds
@@ -49,10 +74,15 @@ export class Battle extends Scene {
   // UI elements
   private bossHPBar?: Phaser.GameObjects.Graphics;
   private bossHPText?: Phaser.GameObjects.Text;
+  private phaseModifierText?: Phaser.GameObjects.Text;
+  private factionWarBar?: FactionWarBar;
   private playerHPBar?: Phaser.GameObjects.Graphics;
   private playerHPText?: Phaser.GameObjects.Text;
   private attackButton?: ActionButton;
   private specialButton?: ActionButton;
+  private itemBar?: ItemBar;
+  private isUsingItem: boolean = false;
+  private achievementToasts?: StatusMessageQueue;
 
   constructor() {
     super('Battle');
@@ -112,9 +142,11 @@ export class Battle extends Scene {
     try {
       const response = await fetch('/api/boss-status');
       if (response.ok) {
-        const bossStatus = await response.json();
+        const bossStatus: BossStatusResponse = await response.json();
         this.bossCurrentHP = bossStatus.state.currentHP;
         this.bossMaxHP = bossStatus.state.maxHP;
+        this.bossPhase = bossStatus.state.phase;
+        this.phaseMultipliers = bossStatus.multipliers?.byClass;
         console.log('Loaded boss HP:', this.bossCurrentHP, '/', this.bossMaxHP);
       }
     } catch (error) {
@@ -125,6 +157,17 @@ export class Battle extends Scene {
 
   private async initializeBattleSession(): Promise<void> {
     try {
+      // Store the selected class on the server - attack damage is rolled from it
+      const classResponse = await fetch('/api/select-class', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ characterClass: this.selectedClass })
+      });
+      if (classResponse.ok) {
+        const classResult = await classResponse.json() as { playerData?: PlayerData };
+        this.cosmetics = classResult.playerData?.cosmetics ?? {};
+      }
+
       // Start a new battle session
       const response = await fetch('/api/refresh-session', {
         method: 'POST',
@@ -177,6 +220,7 @@ export class Battle extends Scene {
 
   private setupSystems(): void {
     this.damageNumberPool = new DamageNumberPool(this);
+    this.achievementToasts = new StatusMessageQueue(this, this.scale.width / 2, this.scale.height * 0.25);
     this.responsiveLayout = new ResponsiveLayoutSystem(this);
     this.cameraEffects = new CameraEffectsSystem(this, MobileUtils.isMobile());
     this.particleSystem = new ParticleSystem(this, MobileUtils.isMobile());
@@ -298,13 +342,13 @@ export class Battle extends Scene {
   private async createEntities(): Promise<void> {
     const { width, height } = this.scale;
 
-    // Create boss at top with HP bar as specified
+    // Create boss at top with HP bar as specified (max HP is forecast per boss by the server)
     const currentBossData = getCurrentBoss();
     this.boss = new BossEntity(
       this,
       width / 2,
       height * 0.25, // Position at top
-      currentBossData
+      { ...currentBossData, baseHP: this.bossMaxHP }
     );
 
     // Create player character at bottom as specified
@@ -313,7 +357,7 @@ export class Battle extends Scene {
       width / 2,
       height * 0.75, // Position at bottom
       this.selectedClass
-    );
+    ).setCosmeticTint(this.cosmetics.tint);
 
     // Add smooth entrance animations (Requirements 7.2, 7.5)
     if (this.animationSystem && this.boss && this.playerCharacter) {
@@ -356,6 +400,19 @@ export class Battle extends Scene {
       strokeThickness: 2,
     }).setOrigin(0.5);
 
+    // Damage modifier for the player's class in the current boss phase
+    this.phaseModifierText = this.add.text(width / 2, hpBarY + 40, '', {
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      color: '#ffdd55',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5);
+    this.updatePhaseModifierText();
+
+    // Faction war standings (only shown when the post runs one)
+    this.factionWarBar = new FactionWarBar(this, width / 2, hpBarY + 64, hpBarWidth);
+
     // Session timer at top right
     this.timerText = this.add.text(width - 20, 20, `Time: ${this.sessionTimeRemaining}s`, {
       fontFamily: 'Arial Black',
@@ -394,6 +451,9 @@ export class Battle extends Scene {
     
     // Create special ability button
     this.createSpecialButton();
+
+    // Consumables sit left of the action buttons
+    this.createItemBar();
     
     this.updateUI();
   }
@@ -455,6 +515,87 @@ export class Battle extends Scene {
     }
   }
 
+  private createItemBar(): void {
+    const { width, height } = this.scale;
+
+    this.itemBar = new ItemBar(this, width - 160, height - 90, (item) => void this.useItem(item));
+
+    // Register with responsive layout system
+    if (this.responsiveLayout) {
+      this.responsiveLayout.registerElement('itemBar', this.itemBar,
+        { x: width - 160, y: height - 90 }, // Portrait
+        { x: width - 160, y: height - 75 }  // Landscape
+      );
+    }
+
+    void this.loadInventory();
+  }
+
+  private async loadInventory(): Promise<void> {
+    try {
+      const response = await fetch('/api/inventory');
+      const data = await response.json() as InventoryResponse;
+      if (data.status === 'success' && data.inventory) {
+        this.itemBar?.setCounts(data.inventory.items);
+      }
+    } catch (error) {
+      console.error('Failed to load inventory:', error);
+    }
+  }
+
+  private async useItem(item: ItemType): Promise<void> {
+    const button = this.itemBar?.getButton(item);
+    if (this.isUsingItem || button?.getState() !== ButtonState.ENABLED) {
+      button?.playErrorAnimation();
+      return;
+    }
+
+    this.isUsingItem = true;
+    try {
+      // The server checks the balance and consumes the item; only apply what it confirms
+      const response = await fetch('/api/use-item', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ item })
+      });
+      const result = await response.json() as UseItemResponse;
+
+      if (result.status !== 'success') {
+        console.error('Item use failed:', result.message);
+        button.playErrorAnimation();
+        return;
+      }
+
+      button.playSuccessAnimation();
+      if (result.inventory) {
+        this.itemBar?.setCounts(result.inventory.items);
+      }
+
+      if (result.healAmount && this.playerCharacter) {
+        this.playerCurrentHP = Math.min(this.playerMaxHP, this.playerCurrentHP + result.healAmount);
+        this.damageNumberPool?.showDamage({
+          x: this.playerCharacter.x,
+          y: this.playerCharacter.y - 30,
+          damage: result.healAmount,
+          isCritical: false,
+          isPlayerDamage: true
+        });
+        this.cameraEffects?.flashScreen(0x00ff88, 200, 0.3);
+      }
+
+      if (result.buff) {
+        this.cameraEffects?.flashScreen(0xffd700, 300, 0.4);
+        console.log(`${ITEMS[item].name} active: x${result.buff.damageMultiplier} damage this session`);
+      }
+    } catch (error) {
+      console.error('Item use error:', error);
+      button.playErrorAnimation();
+    } finally {
+      this.isUsingItem = false;
+      this.updateUI();
+    }
+  }
+
   private async performSpecialAbility(): Promise<void> {
     if (this.isAttacking) {
       return;
@@ -498,22 +639,23 @@ export class Battle extends Scene {
 
   private async performRage(): Promise<void> {
     // Warrior Rage: Next 3 attacks deal double damage
-    const damage = this.calculateClassBasedDamage() * 2;
-    
     try {
       const response = await fetch('/api/special-ability', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          characterClass: this.selectedClass,
-          damage: damage
+          characterClass: this.selectedClass
         })
       });
 
       if (response.ok) {
-        const result = await response.json();
-        this.bossCurrentHP = result.newBossHP;
+        const result: SpecialAbilityUseResponse = await response.json();
+        const damage = result.damage ?? 0;
+        this.bossCurrentHP = result.newBossHP ?? this.bossCurrentHP;
         this.sessionDamage += damage;
+        this.handleBossAbility(result.bossAbility, result.reflectedDamage);
+        this.showAchievements(result.achievements);
+        this.showStreak(result.streak);
         
         // Visual effects
         this.cameraEffects?.flashScreen(0xff0000, 300, 0.5);
@@ -521,6 +663,7 @@ export class Battle extends Scene {
           x: this.boss!.x,
           y: this.boss!.y - 50,
           damage: damage,
+          style: this.cosmetics.damage_style,
           isCritical: true,
           isSpecial: true
         });
@@ -534,22 +677,23 @@ export class Battle extends Scene {
 
   private async performFireball(): Promise<void> {
     // Mage Fireball: High damage area attack
-    const damage = this.calculateClassBasedDamage() * 2.5;
-    
     try {
       const response = await fetch('/api/special-ability', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          characterClass: this.selectedClass,
-          damage: damage
+          characterClass: this.selectedClass
         })
       });
 
       if (response.ok) {
-        const result = await response.json();
-        this.bossCurrentHP = result.newBossHP;
+        const result: SpecialAbilityUseResponse = await response.json();
+        const damage = result.damage ?? 0;
+        this.bossCurrentHP = result.newBossHP ?? this.bossCurrentHP;
         this.sessionDamage += damage;
+        this.handleBossAbility(result.bossAbility, result.reflectedDamage);
+        this.showAchievements(result.achievements);
+        this.showStreak(result.streak);
         
         // Visual effects
         this.cameraEffects?.flashScreen(0xff8800, 300, 0.5);
@@ -558,6 +702,7 @@ export class Battle extends Scene {
           x: this.boss!.x,
           y: this.boss!.y - 50,
           damage: damage,
+          style: this.cosmetics.damage_style,
           isCritical: true,
           isSpecial: true
         });
@@ -571,22 +716,23 @@ export class Battle extends Scene {
 
   private async performStealth(): Promise<void> {
     // Rogue Stealth: Guaranteed critical hit on next attack
-    const damage = this.calculateClassBasedDamage() * 3; // Guaranteed crit
-    
     try {
       const response = await fetch('/api/special-ability', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          characterClass: this.selectedClass,
-          damage: damage
+          characterClass: this.selectedClass
         })
       });
 
       if (response.ok) {
-        const result = await response.json();
-        this.bossCurrentHP = result.newBossHP;
+        const result: SpecialAbilityUseResponse = await response.json();
+        const damage = result.damage ?? 0;
+        this.bossCurrentHP = result.newBossHP ?? this.bossCurrentHP;
         this.sessionDamage += damage;
+        this.handleBossAbility(result.bossAbility, result.reflectedDamage);
+        this.showAchievements(result.achievements);
+        this.showStreak(result.streak);
         
         // Visual effects
         this.cameraEffects?.flashScreen(0x00ff00, 300, 0.5);
@@ -594,6 +740,7 @@ export class Battle extends Scene {
           x: this.boss!.x,
           y: this.boss!.y - 50,
           damage: damage,
+          style: this.cosmetics.damage_style,
           isCritical: true,
           isSpecial: true
         });
@@ -608,7 +755,6 @@ export class Battle extends Scene {
   private async performHeal(): Promise<void> {
     // Healer Heal: Restore HP and deal damage
     const healAmount = 150;
-    const damage = this.calculateClassBasedDamage();
     
     // Heal player
     this.playerCurrentHP = Math.min(this.playerMaxHP, this.playerCurrentHP + healAmount);
@@ -618,15 +764,18 @@ export class Battle extends Scene {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          characterClass: this.selectedClass,
-          damage: damage
+          characterClass: this.selectedClass
         })
       });
 
       if (response.ok) {
-        const result = await response.json();
-        this.bossCurrentHP = result.newBossHP;
+        const result: SpecialAbilityUseResponse = await response.json();
+        const damage = result.damage ?? 0;
+        this.bossCurrentHP = result.newBossHP ?? this.bossCurrentHP;
         this.sessionDamage += damage;
+        this.handleBossAbility(result.bossAbility, result.reflectedDamage);
+        this.showAchievements(result.achievements);
+        this.showStreak(result.streak);
         
         // Visual effects
         this.cameraEffects?.flashScreen(0x00ffff, 300, 0.5);
@@ -645,6 +794,7 @@ export class Battle extends Scene {
           x: this.boss!.x,
           y: this.boss!.y - 50,
           damage: damage,
+          style: this.cosmetics.damage_style,
           isCritical: false,
           isSpecial: true
         });
@@ -680,6 +830,14 @@ export class Battle extends Scene {
     
     // Start boss attack system
     this.startBossAttacks();
+
+    // Follow server-run boss abilities so every raider sees the same telegraphs
+    void this.syncBossState();
+    this.bossSyncTimer = this.time.addEvent({
+      delay: GameConstants.BOSS_ABILITY_SYNC_INTERVAL,
+      callback: () => this.syncBossState(),
+      loop: true
+    });
     
     // Check for battle end conditions
     this.time.addEvent({
@@ -697,11 +855,87 @@ export class Battle extends Scene {
     if (this.bossAttackTimer) {
       this.bossAttackTimer.destroy();
     }
+    if (this.bossSyncTimer) {
+      this.bossSyncTimer.destroy();
+    }
     
     // Transition to results
     this.transitionToResults();
   }
 
+  private async syncBossState(): Promise<void> {
+    try {
+      const response = await fetch('/api/boss-hp-sync');
+      if (!response.ok) return;
+
+      const data: BossHPSyncResponse = await response.json();
+      if (data.status !== 'success') return;
+
+      // Other raiders' damage lands too
+      this.bossCurrentHP = Math.min(this.bossCurrentHP, data.currentHP);
+      this.boss?.showAbility(data.ability, data.lastSyncTime);
+      this.updateUI();
+    } catch (error) {
+      console.error('Boss state sync error:', error);
+    }
+  }
+
+  private async refreshPhaseMultipliers(): Promise<void> {
+    await this.loadBossState();
+    this.updatePhaseModifierText();
+  }
+
+  private updatePhaseModifierText(): void {
+    const multiplier = this.phaseMultipliers?.[this.selectedClass];
+    this.phaseModifierText?.setText(
+      multiplier !== undefined && multiplier !== 1 ? formatPhaseMultiplier(this.selectedClass, multiplier) : ''
+    );
+  }
+
+  private showAchievements(achievements: AchievementUnlock[] | undefined): void {
+    achievements?.forEach((achievement) => {
+      this.achievementToasts?.showMessage({
+        message: `🏆 ${achievement.icon} ${achievement.name}`,
+        color: '#ffd700',
+        duration: 2000
+      });
+    });
+  }
+
+  // Only the day's first attack carries a streak update
+  private showStreak(update: StreakUpdate | undefined): void {
+    if (!update) return;
+
+    if (update.saverUsed) {
+      this.achievementToasts?.showMessage({ message: `${ITEMS.streak_saver.icon} Streak saved!`, color: '#00ffff', duration: 2000 });
+    }
+    if (update.milestone) {
+      this.achievementToasts?.showMessage({
+        message: `🔥 ${update.milestone.days}-day streak reward!`,
+        color: '#ffa500',
+        duration: 2500
+      });
+    } else if (update.streak.current > 1) {
+      this.achievementToasts?.showMessage({ message: formatStreak(update.streak.current), color: '#ffa500', duration: 1500 });
+    }
+  }
+
+  private handleBossAbility(ability: BossAbilityState | undefined, reflectedDamage: number = 0): void {
+    this.boss?.showAbility(ability);
+
+    if (reflectedDamage <= 0 || !this.playerCharacter) return;
+
+    // Reflect abilities bounce part of the hit back at the attacker
+    this.playerCurrentHP = Math.max(0, this.playerCurrentHP - reflectedDamage);
+    this.damageNumberPool?.showDamage({
+      x: this.playerCharacter.x,
+      y: this.playerCharacter.y - 30,
+      damage: reflectedDamage,
+      isCritical: false
+    });
+    this.cameraEffects?.flashScreen(0x9b59b6, 200, 0.3);
+  }
+
   private startBossAttacks(): void {
     const scheduleNextAttack = () => {
       const delay = Phaser.Math.Between(
@@ -790,10 +1024,6 @@ export class Battle extends Scene {
     // Show success animation on button
     this.attackButton?.playSuccessAnimation();
 
-    // Calculate damage based on class
-    const damage = this.calculateClassBasedDamage();
-    const isCritical = this.calculateCriticalHit();
-
     try {
       // Call server API to apply damage
       const response = await fetch('/api/attack', {
@@ -802,22 +1032,33 @@ export class Battle extends Scene {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          characterClass: this.selectedClass,
-          damage: damage,
-          isCritical: isCritical
+          characterClass: this.selectedClass
         })
       });
 
       if (response.ok) {
-        const result = await response.json();
+        const result: AttackResponse = await response.json();
         
         if (result.success) {
-          // Update boss HP from server response
+          // Damage and crits are rolled by the server - only animate what it returns
           this.bossCurrentHP = result.newBossHP;
-          this.sessionDamage += damage;
+          this.sessionDamage += result.damage;
+          this.handleBossAbility(result.bossAbility, result.reflectedDamage);
+          this.showAchievements(result.achievements);
+          this.showStreak(result.streak);
+
+          // The first attack puts the player in a faction during a war; show it without waiting for the next poll
+          if (this.sessionAttackCount === 1) {
+            void this.factionWarBar?.refresh();
+          }
+
+          // Class modifiers change with the boss phase
+          if (result.bossPhase !== this.bossPhase) {
+            void this.refreshPhaseMultipliers();
+          }
 
           // Play attack animation sequence
-          this.playAttackSequence(damage);
+          this.playAttackSequence(result.damage, result.isCritical);
 
           // Check for victory
           if (this.bossCurrentHP <= 0) {
@@ -833,7 +1074,7 @@ export class Battle extends Scene {
           this.attackButton?.playErrorAnimation();
           
           // If session expired, try to refresh
-          if (result.message.includes('Session expired')) {
+          if (result.message?.includes('Session expired')) {
             this.handleSessionExpired();
           }
         }
@@ -856,39 +1097,7 @@ export class Battle extends Scene {
     this.isAttacking = false;
   }
 
-  private calculateClassBasedDamage(): number {
-    // Different damage ranges for each class
-    switch (this.selectedClass) {
-      case CharacterClass.WARRIOR:
-        return Phaser.Math.Between(180, 220); // Balanced
-      case CharacterClass.MAGE:
-        return Phaser.Math.Between(200, 250); // High damage
-      case CharacterClass.ROGUE:
-        return Phaser.Math.Between(160, 200); // Lower base, higher crit chance
-      case CharacterClass.HEALER:
-        return Phaser.Math.Between(140, 180); // Lower damage, support focused
-      default:
-        return Phaser.Math.Between(180, 220);
-    }
-  }
-
-  private calculateCriticalHit(): boolean {
-    // Different crit chances for each class
-    switch (this.selectedClass) {
-      case CharacterClass.WARRIOR:
-        return Math.random() < 0.15; // 15% crit chance
-      case CharacterClass.MAGE:
-        return Math.random() < 0.10; // 10% crit chance
-      case CharacterClass.ROGUE:
-        return Math.random() < 0.30; // 30% crit chance as specified
-      case CharacterClass.HEALER:
-        return Math.random() < 0.05; // 5% crit chance
-      default:
-        return Math.random() < 0.15;
-    }
-  }
-
-  private playAttackSequence(damage: number): void {
+  private playAttackSequence(damage: number, isCritical: boolean): void {
     if (!this.playerCharacter || !this.boss || !this.damageNumberPool) {
       return;
     }
@@ -909,7 +1118,8 @@ export class Battle extends Scene {
           x: this.boss!.x,
           y: this.boss!.y - 50,
           damage: damage,
-          isCritical: false,
+          style: this.cosmetics.damage_style,
+          isCritical: isCritical,
           isPlayerDamage: true // Distinguish player damage as specified
         });
         
@@ -923,8 +1133,8 @@ export class Battle extends Scene {
         // Particle effects for attacks (limited to 10 particles on mobile)
         this.particleSystem?.createSlashEffect(this.boss!.x, this.boss!.y);
         
-        // Critical hit effects for high damage
-        if (damage > 300) {
+        // Critical hit effects
+        if (isCritical) {
           this.particleSystem?.createCriticalBurst(this.boss!.x, this.boss!.y);
           this.cameraEffects?.flashScreen(0xffff00, 150, 0.3); // Yellow flash for crit
         }
@@ -956,6 +1166,10 @@ export class Battle extends Scene {
       this.bossAttackTimer.destroy();
     }
     this.bossAttackTimer = undefined;
+    if (this.bossSyncTimer) {
+      this.bossSyncTimer.destroy();
+    }
+    this.bossSyncTimer = undefined;
   }
 
   override update(): void {
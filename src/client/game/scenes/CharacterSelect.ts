@@ -2,7 +2,25 @@ import { Scene } from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
 import { TransitionSystem } from '../systems/TransitionSystem';
 import { AnimationSystem } from '../systems/AnimationSystem';
+import { StatusMessageQueue } from '../ui/StatusMessage';
 import { CharacterClass } from '../entities/PlayerCharacter';
+import { AchievementUnlock, EquipmentResponse, EquipmentSlot, Loadout, PrestigeResponse, ProfileResponse } from '../../../shared/types/api';
+import {
+  CRIT_CHANCE,
+  CRIT_MULTIPLIER,
+  CombatModifiers,
+  DamageCalculator,
+  NO_MODIFIERS,
+  SPECIAL_ABILITY_MULTIPLIERS
+} from '../../../shared/game/damage';
+import { EQUIPMENT_SLOTS, formatModifiers, getEquipment, getLoadoutModifiers } from '../../../shared/game/equipment';
+import { LEVEL_CAP, PRESTIGE_DAMAGE_BONUS, canPrestige, getPrestigeBadge } from '../../../shared/game/progression';
+
+const SLOT_LABELS: Record<EquipmentSlot, string> = {
+  weapon: 'Weapon',
+  armor: 'Armor',
+  trinket: 'Trinket'
+};
 
 /**
  * CharacterSelect - Character class selection screen
@@ -16,6 +34,21 @@ export class CharacterSelect extends Scene {
   private classSprites: Map<CharacterClass, Phaser.GameObjects.Sprite> = new Map();
   private confirmButton?: Phaser.GameObjects.Container;
 
+  // Loadout panel (equipment comes from the player's profile)
+  private loadoutPanel?: Phaser.GameObjects.Container;
+  private slotTexts: Map<EquipmentSlot, Phaser.GameObjects.Text> = new Map();
+  private loadoutStatsText?: Phaser.GameObjects.Text;
+  private ownedEquipment: Record<string, number> = {};
+  private loadout: Loadout = {};
+  private playerLevel: number = 1;
+  private isEquipping: boolean = false;
+
+  // Shown once the profile reaches the level cap; the first tap only asks for confirmation
+  private prestigeButton?: Phaser.GameObjects.Text;
+  private prestigeArmed: boolean = false;
+  private isPrestiging: boolean = false;
+  private toasts: StatusMessageQueue | undefined;
+
   constructor() {
     super('CharacterSelect');
   }
@@ -37,6 +70,10 @@ export class CharacterSelect extends Scene {
     this.createClassSelection();
     this.createConfirmButton();
     this.createBackButton();
+    this.createLoadoutButton();
+    this.createTalentsButton();
+    this.createPrestigeButton();
+    this.createLoadoutPanel();
     
     // Animate elements entrance
     await this.animateElementsEntrance();
@@ -45,6 +82,8 @@ export class CharacterSelect extends Scene {
 
     // Handle screen resize
     this.scale.on('resize', () => this.refreshLayout());
+
+    await this.loadPrestigeStatus();
   }
 
   private createBackground(): void {
@@ -195,6 +234,7 @@ export class CharacterSelect extends Scene {
 
     // Select new
     this.selectedClass = characterClass;
+    this.renderLoadout();
     const button = this.classButtons.get(characterClass);
     if (button) {
       const bg = button.list[0] as Phaser.GameObjects.Rectangle;
@@ -276,6 +316,287 @@ export class CharacterSelect extends Scene {
       });
   }
 
+  private createLoadoutButton(): void {
+    const { width } = this.scale;
+
+    const loadoutButton = this.add.text(width - 40, 40, '🎒 Loadout', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+    }).setOrigin(1, 0.5);
+
+    loadoutButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        loadoutButton.setColor('#ffff00');
+      })
+      .on('pointerout', () => {
+        loadoutButton.setColor('#ffffff');
+      })
+      .on('pointerdown', () => {
+        void this.openLoadout();
+      });
+  }
+
+  private createTalentsButton(): void {
+    const { width } = this.scale;
+
+    const talentsButton = this.add.text(width - 40, 70, '✨ Talents', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+    }).setOrigin(1, 0.5);
+
+    talentsButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        talentsButton.setColor('#ffff00');
+      })
+      .on('pointerout', () => {
+        talentsButton.setColor('#ffffff');
+      })
+      .on('pointerdown', () => {
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Talents', 'up', { characterClass: this.selectedClass });
+        }
+      });
+  }
+
+  private createPrestigeButton(): void {
+    const { width } = this.scale;
+
+    this.prestigeButton = this.add.text(width - 40, 100, '', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffd700',
+    }).setOrigin(1, 0.5).setVisible(false);
+
+    this.prestigeButton.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => {
+        void this.prestige();
+      });
+  }
+
+  private async loadPrestigeStatus(): Promise<void> {
+    try {
+      const response = await fetch('/api/profile');
+      const data = await response.json() as ProfileResponse;
+      if (data.status === 'success' && data.profile && canPrestige(data.profile.level)) {
+        this.prestigeButton?.setText(`🌟 Prestige ${data.profile.prestigeRank + 1}`).setVisible(true);
+      }
+    } catch (error) {
+      console.error('Failed to load prestige status:', error);
+    }
+  }
+
+  /**
+   * Prestiging restarts the level, so the first tap only asks to confirm
+   */
+  private async prestige(): Promise<void> {
+    if (this.isPrestiging) return;
+
+    if (!this.prestigeArmed) {
+      this.prestigeArmed = true;
+      this.prestigeButton?.setText(`Reset to Lv.1 for +${Math.round(PRESTIGE_DAMAGE_BONUS * 100)}% dmg? Tap again`);
+      return;
+    }
+
+    this.isPrestiging = true;
+    try {
+      const response = await fetch('/api/prestige', { method: 'POST' });
+      const data = await response.json() as PrestigeResponse;
+      if (data.status !== 'success' || !data.profile) {
+        throw new Error(data.message ?? 'Failed to prestige');
+      }
+
+      this.playerLevel = data.profile.level;
+      this.prestigeButton?.setText(`${getPrestigeBadge(data.profile.prestigeRank)} Prestiged! Back to Lv.1 of ${LEVEL_CAP}`)
+        .disableInteractive();
+      this.showAchievements(data.achievements);
+    } catch (error) {
+      console.error('Failed to prestige:', error);
+      this.prestigeButton?.setText('Prestige failed - try again');
+      this.prestigeArmed = false;
+    } finally {
+      this.isPrestiging = false;
+    }
+  }
+
+  private showAchievements(achievements: AchievementUnlock[] | undefined): void {
+    if (!achievements?.length) return;
+
+    this.toasts ??= new StatusMessageQueue(this, this.scale.width / 2, this.scale.height * 0.12);
+    achievements.forEach((achievement) => {
+      this.toasts?.showMessage({
+        message: `🏆 ${achievement.icon} ${achievement.name}`,
+        color: '#ffd700',
+        duration: 2000
+      });
+    });
+  }
+
+  private createLoadoutPanel(): void {
+    const { width, height } = this.scale;
+    const panelWidth = Math.min(width * 0.9, 460);
+
+    this.loadoutPanel = this.add.container(width / 2, height / 2).setDepth(100).setVisible(false);
+
+    // Dim everything behind the panel and swallow clicks
+    const shade = this.add.rectangle(0, 0, width, height, 0x000000, 0.6).setInteractive();
+    const bg = this.add.rectangle(0, 0, panelWidth, 320, 0x222222, 0.95).setStrokeStyle(3, 0xffd700);
+    const title = this.add.text(0, -135, 'LOADOUT', {
+      fontFamily: 'Arial Black',
+      fontSize: '22px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+    this.loadoutPanel.add([shade, bg, title]);
+
+    EQUIPMENT_SLOTS.forEach((slot, index) => {
+      const y = -85 + index * 45;
+
+      const label = this.add.text(-panelWidth / 2 + 20, y, SLOT_LABELS[slot], {
+        fontFamily: 'Arial Black',
+        fontSize: '14px',
+        color: '#cccccc',
+      }).setOrigin(0, 0.5);
+
+      const slotText = this.add.text(20, y, '', {
+        fontFamily: 'Arial',
+        fontSize: '13px',
+        color: '#ffffff',
+        align: 'center',
+      }).setOrigin(0.5);
+      this.slotTexts.set(slot, slotText);
+
+      const prev = this.createArrow(-95, y, '◀', () => void this.cycleEquipment(slot, -1));
+      const next = this.createArrow(panelWidth / 2 - 25, y, '▶', () => void this.cycleEquipment(slot, 1));
+
+      this.loadoutPanel?.add([label, slotText, prev, next]);
+    });
+
+    this.loadoutStatsText = this.add.text(0, 60, '', {
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      color: '#ffffff',
+      align: 'center',
+      lineSpacing: 4,
+    }).setOrigin(0.5);
+
+    const close = this.add.text(0, 135, 'DONE', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#4a90e2',
+      padding: { x: 16, y: 6 },
+    }).setOrigin(0.5);
+    close.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.loadoutPanel?.setVisible(false));
+
+    this.loadoutPanel.add([this.loadoutStatsText, close]);
+  }
+
+  private createArrow(x: number, y: number, symbol: string, onClick: () => void): Phaser.GameObjects.Text {
+    const arrow = this.add.text(x, y, symbol, {
+      fontFamily: 'Arial',
+      fontSize: '18px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    arrow.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+
+    return arrow;
+  }
+
+  private async openLoadout(): Promise<void> {
+    this.loadoutPanel?.setVisible(true);
+    this.loadoutStatsText?.setText('Loading...');
+
+    try {
+      const response = await fetch('/api/profile');
+      const data = await response.json() as ProfileResponse;
+      if (data.status !== 'success' || !data.profile) {
+        throw new Error(data.message ?? 'Failed to load profile');
+      }
+
+      this.ownedEquipment = data.profile.equipment;
+      this.loadout = data.profile.loadout;
+      this.playerLevel = data.profile.level;
+      this.renderLoadout();
+    } catch (error) {
+      console.error('Failed to load equipment:', error);
+      this.loadoutStatsText?.setText('Could not load your equipment.');
+    }
+  }
+
+  /**
+   * Wear the previous or next owned piece for a slot (an empty slot is part of the cycle)
+   */
+  private async cycleEquipment(slot: EquipmentSlot, direction: 1 | -1): Promise<void> {
+    if (this.isEquipping) return;
+
+    const options: (string | undefined)[] = [
+      undefined,
+      ...Object.keys(this.ownedEquipment).filter((id) => getEquipment(id)?.slot === slot && this.ownedEquipment[id])
+    ];
+    if (options.length <= 1) return;
+
+    const current = options.indexOf(this.loadout[slot]);
+    const equipmentId = options[(current + direction + options.length) % options.length];
+
+    this.isEquipping = true;
+    try {
+      const response = await fetch('/api/equip', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slot, equipmentId })
+      });
+      const data = await response.json() as EquipmentResponse;
+      if (data.status !== 'success' || !data.loadout) {
+        throw new Error(data.message ?? 'Failed to equip');
+      }
+
+      this.loadout = data.loadout;
+      this.ownedEquipment = data.owned ?? this.ownedEquipment;
+      this.renderLoadout();
+    } catch (error) {
+      console.error('Failed to change equipment:', error);
+    } finally {
+      this.isEquipping = false;
+    }
+  }
+
+  private renderLoadout(): void {
+    if (!this.loadoutPanel?.visible) return;
+
+    EQUIPMENT_SLOTS.forEach((slot) => {
+      const equipment = getEquipment(this.loadout[slot]);
+      const ownedForSlot = Object.keys(this.ownedEquipment).filter((id) => getEquipment(id)?.slot === slot).length;
+      this.slotTexts.get(slot)?.setText(equipment
+        ? `${equipment.icon} ${equipment.name}\n${formatModifiers(equipment.modifiers)}`
+        : ownedForSlot > 0 ? 'Empty' : 'Nothing yet - beat a boss!');
+    });
+
+    this.loadoutStatsText?.setText(this.formatStatDeltas(getLoadoutModifiers(this.loadout)));
+  }
+
+  /**
+   * Class stats without equipment next to the same stats with the current loadout
+   */
+  private formatStatDeltas(modifiers: CombatModifiers): string {
+    const base = DamageCalculator.getDamageRange(this.selectedClass, this.playerLevel, NO_MODIFIERS);
+    const geared = DamageCalculator.getDamageRange(this.selectedClass, this.playerLevel, modifiers);
+    const special = SPECIAL_ABILITY_MULTIPLIERS[this.selectedClass];
+    const delta = (value: number, suffix: string = '') => value > 0 ? ` (+${value}${suffix})` : '';
+
+    return [
+      `Damage: ${base.min}-${base.max} → ${geared.min}-${geared.max}${delta(geared.max - base.max)}`,
+      `Crit chance: ${Math.round(CRIT_CHANCE * 100)}% → ${Math.round((CRIT_CHANCE + modifiers.critChance) * 100)}%` +
+        delta(Math.round(modifiers.critChance * 100), '%'),
+      `Crit damage: x${CRIT_MULTIPLIER.toFixed(1)} → x${(CRIT_MULTIPLIER + modifiers.critMultiplier).toFixed(1)}`,
+      `Special: x${special.toFixed(1)} → x${(special * (1 + modifiers.specialPower)).toFixed(1)}` +
+        delta(Math.round(modifiers.specialPower * 100), '%')
+    ].join('\n');
+  }
+
   private async animateElementsEntrance(): Promise<void> {
     // Collect all UI elements for entrance animation
     const uiElements: Phaser.GameObjects.GameObject[] = [];
@@ -0,0 +1,184 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { TransitionSystem } from '../systems/TransitionSystem';
+import { AnimationSystem } from '../systems/AnimationSystem';
+import { MobileUtils } from '../utils/MobileUtils';
+import { RaidOutcomeRecord, RaidOutcomesResponse } from '../../../shared/types/api';
+import { formatOutcomeHeadline } from '../../../shared/game/outcomes';
+
+// Enough entries to fill the screen on mobile without scrolling
+const RECAP_LIMIT = 5;
+
+/**
+ * RaidRecap - Recap of recent raids where the boss escaped
+ * Lists each failed raid with the HP it kept, the damage dealt and how many raiders joined
+ */
+export class RaidRecap extends Scene {
+  private transitionSystem?: TransitionSystem;
+  private animationSystem?: AnimationSystem;
+  private backButton?: Phaser.GameObjects.Container;
+  private contentContainer?: Phaser.GameObjects.Container;
+  private title?: Phaser.GameObjects.Text;
+  private recapText?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super('RaidRecap');
+  }
+
+  async create(): Promise<void> {
+    // Setup systems
+    this.transitionSystem = new TransitionSystem(this);
+    this.animationSystem = new AnimationSystem(this);
+
+    // Smooth transition in
+    await this.transitionSystem.transitionIn({
+      type: 'slide',
+      direction: 'up',
+      duration: GameConstants.TRANSITION_DURATION_NORMAL
+    });
+
+    this.createBackground();
+    this.createContent();
+    this.createBackButton();
+
+    this.refreshLayout();
+
+    // Re-calculate positions on resize
+    this.scale.on('resize', () => this.refreshLayout());
+
+    await this.loadFailedRaids();
+  }
+
+  private createBackground(): void {
+    const { width, height } = this.scale;
+
+    // Dark gradient background matching game theme
+    const graphics = this.add.graphics();
+    graphics.fillGradientStyle(
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.UI_PRIMARY,
+      GameConstants.COLORS.UI_PRIMARY
+    );
+    graphics.fillRect(0, 0, width, height);
+  }
+
+  private createContent(): void {
+    this.contentContainer = this.add.container(0, 0);
+
+    this.title = this.add.text(0, 0, 'FAILED RAIDS', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '24px' : '32px',
+      color: '#ff6666',
+      stroke: '#000000',
+      strokeThickness: 3,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.recapText = this.add.text(0, 0, 'Loading...', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '13px' : '15px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+      lineSpacing: 4,
+      wordWrap: { width: MobileUtils.isMobile() ? 260 : 360 }
+    }).setOrigin(0.5, 0);
+
+    this.contentContainer.add([this.title, this.recapText]);
+  }
+
+  private async loadFailedRaids(): Promise<void> {
+    try {
+      const response = await fetch(`/api/raid-outcomes?result=failed&limit=${RECAP_LIMIT}`);
+      const data = await response.json() as RaidOutcomesResponse;
+      if (data.status !== 'success' || !data.outcomes) {
+        throw new Error(data.message ?? 'Failed to load raid outcomes');
+      }
+
+      this.recapText?.setText(data.outcomes.length > 0
+        ? data.outcomes.map((outcome) => this.formatOutcome(outcome)).join('\n\n')
+        : 'No boss has escaped yet.\nKeep it that way!');
+    } catch (error) {
+      console.error('Failed to load failed raids:', error);
+      this.recapText?.setText('Could not load the raid recap.');
+    }
+  }
+
+  private formatOutcome(outcome: RaidOutcomeRecord): string {
+    const date = new Date(outcome.endedAt).toLocaleDateString();
+    return `💨 ${formatOutcomeHeadline(outcome)}\n` +
+      `${date} • ${outcome.totalDamage.toLocaleString()} damage • ` +
+      `${outcome.participantCount} raider${outcome.participantCount === 1 ? '' : 's'}`;
+  }
+
+  private createBackButton(): void {
+    const buttonContainer = this.add.container(0, 0);
+
+    // Button background
+    const buttonBg = this.add.rectangle(0, 0,
+      MobileUtils.isMobile() ? 120 : 150,
+      MobileUtils.isMobile() ? 40 : 50,
+      GameConstants.COLORS.BUTTON_ENABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+
+    // Button text
+    const buttonText = this.add.text(0, 0, 'BACK', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    buttonContainer.add([buttonBg, buttonText]);
+
+    // Make interactive
+    buttonBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.UI_SECONDARY);
+        buttonContainer.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
+        buttonContainer.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(buttonContainer);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Splash', 'down');
+        }
+      });
+
+    this.backButton = buttonContainer;
+  }
+
+  private refreshLayout(): void {
+    const { width, height } = this.scale;
+
+    // Resize camera to fill entire screen
+    this.cameras.main.setViewport(0, 0, width, height);
+
+    // Scale factor for responsive design
+    const scaleFactor = Math.min(width / GameConstants.GAME_WIDTH, height / GameConstants.GAME_HEIGHT, 1);
+
+    if (this.contentContainer) {
+      this.contentContainer.setPosition(width / 2, height / 2);
+      this.contentContainer.setScale(scaleFactor);
+
+      // Title up top, recap list flowing down from under it
+      this.title?.setPosition(0, MobileUtils.isMobile() ? -150 : -160);
+      this.recapText?.setPosition(0, MobileUtils.isMobile() ? -110 : -115);
+    }
+
+    // Position back button
+    if (this.backButton) {
+      this.backButton.setPosition(
+        MobileUtils.isMobile() ? 70 : 100,
+        MobileUtils.isMobile() ? 40 : 50
+      );
+      this.backButton.setScale(scaleFactor);
+    }
+  }
+}
@@ -2,6 +2,9 @@ import { Scene } from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
 import { TransitionSystem } from '../systems/TransitionSystem';
 import { AnimationSystem } from '../systems/AnimationSystem';
+import { QuestPanel } from '../ui/QuestPanel';
+import { StreakResponse } from '../../../shared/types/api';
+import { formatStreak } from '../../../shared/game/streaks';
 
 /**
  * Results - Session summary scene showing damage dealt and sharing options
@@ -17,6 +20,7 @@ export class Results extends Scene {
   // Systems
   private transitionSystem?: TransitionSystem;
   private animationSystem?: AnimationSystem;
+  private questPanel: QuestPanel | undefined;
 
   constructor() {
     super('Results');
@@ -33,6 +37,7 @@ export class Results extends Scene {
     this.playerRank = data?.playerRank || 0;
     this.bossName = data?.bossName || 'The Lag Spike';
     this.bossHPRemaining = data?.bossHPRemaining || 45000;
+    this.questPanel = undefined;
     
     console.log('Results scene initialized with:', {
       sessionDamage: this.sessionDamage,
@@ -57,6 +62,7 @@ export class Results extends Scene {
     this.createBackground();
     this.createSessionSummary();
     this.createButtons();
+    void this.loadStreak();
     
     // Animate elements entrance
     await this.animateElementsEntrance();
@@ -150,6 +156,30 @@ export class Results extends Scene {
     }
   }
 
+  /**
+   * Show the player's raid-day streak under the title, with the next milestone to aim for
+   */
+  private async loadStreak(): Promise<void> {
+    try {
+      const response = await fetch('/api/streak');
+      const data = await response.json() as StreakResponse;
+      if (data.status !== 'success' || !data.streak || !this.scene.isActive()) return;
+
+      const { current, best } = data.streak;
+      const next = data.nextMilestone ? `  •  ${data.nextMilestone.days - current} to the ${data.nextMilestone.days}-day reward` : '';
+      const { width, height } = this.scale;
+      this.add.text(width / 2, height * 0.27, `${formatStreak(current)}  •  Best ${best}${next}`, {
+        fontFamily: 'Arial',
+        fontSize: '16px',
+        color: '#ffa500',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5);
+    } catch (error) {
+      console.error('Failed to load streak:', error);
+    }
+  }
+
   private createButtons(): void {
     const { width, height } = this.scale;
 
@@ -210,6 +240,71 @@ export class Results extends Scene {
           this.transitionSystem.quickFade('Splash');
         }
       });
+
+    // Shop button - comes back here with the same summary
+    const shopButton = this.add.container(width / 2 - 90, height * 0.93);
+
+    const shopBg = this.add.rectangle(0, 0, 160, 40, 0x444444)
+      .setStrokeStyle(2, 0xffd700);
+
+    const shopText = this.add.text(0, 0, 'Shop', {
+      fontFamily: 'Arial Black',
+      fontSize: '14px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    shopButton.add([shopBg, shopText]);
+
+    shopBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        shopBg.setFillStyle(0x666666);
+        shopButton.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        shopBg.setFillStyle(0x444444);
+        shopButton.setScale(1);
+      })
+      .on('pointerdown', () => {
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Shop', 'up', {
+            returnScene: 'Results',
+            returnData: {
+              sessionDamage: this.sessionDamage,
+              playerRank: this.playerRank,
+              bossName: this.bossName,
+              bossHPRemaining: this.bossHPRemaining
+            }
+          });
+        }
+      });
+
+    // Quests button - claim anything this session completed
+    const questButton = this.add.container(width / 2 + 90, height * 0.93);
+
+    const questBg = this.add.rectangle(0, 0, 160, 40, 0x444444)
+      .setStrokeStyle(2, 0x00ff88);
+
+    const questText = this.add.text(0, 0, 'Quests', {
+      fontFamily: 'Arial Black',
+      fontSize: '14px',
+      color: '#00ff88',
+    }).setOrigin(0.5);
+
+    questButton.add([questBg, questText]);
+
+    questBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        questBg.setFillStyle(0x666666);
+        questButton.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        questBg.setFillStyle(0x444444);
+        questButton.setScale(1);
+      })
+      .on('pointerdown', () => {
+        this.questPanel ??= new QuestPanel(this);
+        void this.questPanel.open();
+      });
   }
 
   private async shareToReddit(): Promise<void> {
@@ -243,7 +338,7 @@ export class Results extends Scene {
   private showShareSuccess(): void {
     const { width, height } = this.scale;
     
-    const successText = this.add.text(width / 2, height * 0.95, 'Shared to r/RaidDay!', {
+    const successText = this.add.text(width / 2, height * 0.67, 'Shared to r/RaidDay!', {
       fontFamily: 'Arial Black',
       fontSize: '16px',
       color: '#00ff00',
@@ -265,7 +360,7 @@ export class Results extends Scene {
   private showShareError(): void {
     const { width, height } = this.scale;
     
-    const errorText = this.add.text(width / 2, height * 0.95, 'Failed to share session', {
+    const errorText = this.add.text(width / 2, height * 0.67, 'Failed to share session', {
       fontFamily: 'Arial',
       fontSize: '14px',
       color: '#ff4444',
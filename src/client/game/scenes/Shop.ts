@@ -0,0 +1,336 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { TransitionSystem } from '../systems/TransitionSystem';
+import { AnimationSystem } from '../systems/AnimationSystem';
+import { MobileUtils } from '../utils/MobileUtils';
+import {
+  Inventory,
+  ShopEquipResponse,
+  ShopListing,
+  ShopPurchaseResponse,
+  ShopResponse
+} from '../../../shared/types/api';
+
+// Vertical distance between catalog rows
+const ROW_SPACING = 40;
+
+const CURRENCY_ICONS = { coins: '🪙', gems: '💎' } as const;
+
+/**
+ * Shop - Spend coins and gems on cosmetics and battle boosts
+ * The catalog, prices and stock all come from the server; buying and wearing cosmetics go through it too
+ */
+export class Shop extends Scene {
+  private transitionSystem?: TransitionSystem;
+  private animationSystem?: AnimationSystem;
+  private backButton?: Phaser.GameObjects.Container;
+  private contentContainer?: Phaser.GameObjects.Container;
+  private rowsContainer?: Phaser.GameObjects.Container;
+  private title?: Phaser.GameObjects.Text;
+  private balanceText?: Phaser.GameObjects.Text;
+  private statusText?: Phaser.GameObjects.Text;
+  private isBusy: boolean = false; // A purchase or wear request is in flight
+
+  // Where BACK goes (the shop opens from Splash and Results)
+  private returnScene: string = 'Splash';
+  private returnData?: object | undefined;
+
+  constructor() {
+    super('Shop');
+  }
+
+  init(data?: { returnScene?: string; returnData?: object }): void {
+    this.returnScene = data?.returnScene ?? 'Splash';
+    this.returnData = data?.returnData;
+  }
+
+  async create(): Promise<void> {
+    // Setup systems
+    this.transitionSystem = new TransitionSystem(this);
+    this.animationSystem = new AnimationSystem(this);
+
+    // Smooth transition in
+    await this.transitionSystem.transitionIn({
+      type: 'slide',
+      direction: 'up',
+      duration: GameConstants.TRANSITION_DURATION_NORMAL
+    });
+
+    this.createBackground();
+    this.createContent();
+    this.createBackButton();
+
+    this.refreshLayout();
+
+    // Re-calculate positions on resize
+    this.scale.on('resize', () => this.refreshLayout());
+
+    await this.loadShop();
+  }
+
+  private createBackground(): void {
+    const { width, height } = this.scale;
+
+    // Dark gradient background matching game theme
+    const graphics = this.add.graphics();
+    graphics.fillGradientStyle(
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.UI_PRIMARY,
+      GameConstants.COLORS.UI_PRIMARY
+    );
+    graphics.fillRect(0, 0, width, height);
+  }
+
+  private createContent(): void {
+    this.contentContainer = this.add.container(0, 0);
+
+    this.title = this.add.text(0, 0, 'SHOP', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '24px' : '32px',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 3,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.balanceText = this.add.text(0, 0, 'Loading...', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.statusText = this.add.text(0, 0, '', {
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.rowsContainer = this.add.container(0, 0);
+
+    this.contentContainer.add([this.title, this.balanceText, this.rowsContainer, this.statusText]);
+  }
+
+  private async loadShop(): Promise<void> {
+    try {
+      const response = await fetch('/api/shop');
+      const data = await response.json() as ShopResponse;
+      if (data.status !== 'success' || !data.listings || !data.inventory) {
+        throw new Error(data.message ?? 'Failed to load shop');
+      }
+
+      this.updateBalance(data.inventory);
+      this.renderListings(data.listings);
+    } catch (error) {
+      console.error('Failed to load shop:', error);
+      this.balanceText?.setText('Could not load the shop.');
+    }
+  }
+
+  private updateBalance(inventory: Inventory): void {
+    this.balanceText?.setText(
+      `${CURRENCY_ICONS.coins} ${inventory.currencies.coins.toLocaleString()}   ` +
+      `${CURRENCY_ICONS.gems} ${inventory.currencies.gems.toLocaleString()}`
+    );
+  }
+
+  private renderListings(listings: ShopListing[]): void {
+    if (!this.rowsContainer) return;
+    this.rowsContainer.removeAll(true);
+
+    listings.forEach((listing, index) => {
+      this.rowsContainer?.add(this.createRow(listing, index * ROW_SPACING));
+    });
+  }
+
+  private createRow(listing: ShopListing, y: number): Phaser.GameObjects.Container {
+    const row = this.add.container(0, y);
+    const rowWidth = MobileUtils.isMobile() ? 300 : 420;
+
+    const soldOut = listing.remainingStock === 0;
+    const maxedOut = listing.perPlayerLimit !== undefined && listing.owned >= listing.perPlayerLimit;
+    // Cosmetics the player owns can be put on and taken off
+    const canWear = listing.equipped !== undefined && listing.owned > 0;
+    const stockNote = listing.remainingStock !== undefined ? ` • ${listing.remainingStock} left` : '';
+
+    const label = this.add.text(-rowWidth / 2, 0, `${listing.name}${stockNote}\n${listing.description}`, {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '11px' : '13px',
+      color: listing.equipped ? '#ffd700' : maxedOut ? '#888888' : '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0, 0.5);
+
+    const buttonText = canWear
+      ? (listing.equipped ? 'TAKE OFF' : 'WEAR')
+      : maxedOut
+        ? 'OWNED'
+        : soldOut
+          ? 'SOLD OUT'
+          : `${CURRENCY_ICONS[listing.price.currency]} ${listing.price.amount}`;
+    const canBuy = !maxedOut && !soldOut;
+    const isActive = canWear || canBuy;
+
+    const buttonBg = this.add.rectangle(rowWidth / 2 - 45, 0, 90, 32,
+      isActive ? GameConstants.COLORS.BUTTON_ENABLED : GameConstants.COLORS.BUTTON_DISABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+    const buyText = this.add.text(rowWidth / 2 - 45, 0, buttonText, {
+      fontFamily: 'Arial Black',
+      fontSize: '12px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    row.add([label, buttonBg, buyText]);
+
+    if (isActive) {
+      buttonBg.setInteractive({ useHandCursor: true })
+        .on('pointerover', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER))
+        .on('pointerout', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED))
+        .on('pointerdown', () => void (canWear ? this.wear(listing) : this.purchase(listing)));
+    }
+
+    return row;
+  }
+
+  private async purchase(listing: ShopListing): Promise<void> {
+    if (this.isBusy) return;
+    this.isBusy = true;
+
+    try {
+      const response = await fetch('/api/shop/purchase', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemId: listing.id })
+      });
+      const data = await response.json() as ShopPurchaseResponse;
+
+      if (data.status !== 'success') {
+        this.showStatus(data.message ?? 'Purchase failed', '#ff4444');
+        return;
+      }
+
+      this.showStatus(`Bought ${listing.name}!`, '#00ff00');
+      // Reload so ownership and remaining stock reflect every purchase, not just this one
+      await this.loadShop();
+    } catch (error) {
+      console.error('Failed to purchase item:', error);
+      this.showStatus('Purchase failed', '#ff4444');
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  private async wear(listing: ShopListing): Promise<void> {
+    if (this.isBusy) return;
+    this.isBusy = true;
+
+    try {
+      const response = await fetch('/api/shop/equip', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemId: listing.id, equipped: !listing.equipped })
+      });
+      const data = await response.json() as ShopEquipResponse;
+
+      if (data.status !== 'success' || !data.listings) {
+        this.showStatus(data.message ?? 'Could not change cosmetic', '#ff4444');
+        return;
+      }
+
+      this.showStatus(listing.equipped ? `Took off ${listing.name}` : `Wearing ${listing.name}!`, '#00ff00');
+      this.renderListings(data.listings);
+    } catch (error) {
+      console.error('Failed to change cosmetic:', error);
+      this.showStatus('Could not change cosmetic', '#ff4444');
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  private showStatus(message: string, color: string): void {
+    this.statusText?.setText(message).setColor(color).setAlpha(1);
+    this.tweens.add({
+      targets: this.statusText,
+      alpha: 0,
+      delay: 2500,
+      duration: 500
+    });
+  }
+
+  private createBackButton(): void {
+    const buttonContainer = this.add.container(0, 0);
+
+    // Button background
+    const buttonBg = this.add.rectangle(0, 0,
+      MobileUtils.isMobile() ? 120 : 150,
+      MobileUtils.isMobile() ? 40 : 50,
+      GameConstants.COLORS.BUTTON_ENABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+
+    // Button text
+    const buttonText = this.add.text(0, 0, 'BACK', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    buttonContainer.add([buttonBg, buttonText]);
+
+    // Make interactive
+    buttonBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.UI_SECONDARY);
+        buttonContainer.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
+        buttonContainer.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(buttonContainer);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition(this.returnScene, 'down', this.returnData);
+        }
+      });
+
+    this.backButton = buttonContainer;
+  }
+
+  private refreshLayout(): void {
+    const { width, height } = this.scale;
+
+    // Resize camera to fill entire screen
+    this.cameras.main.setViewport(0, 0, width, height);
+
+    // Scale factor for responsive design
+    const scaleFactor = Math.min(width / GameConstants.GAME_WIDTH, height / GameConstants.GAME_HEIGHT, 1);
+
+    if (this.contentContainer) {
+      this.contentContainer.setPosition(width / 2, height / 2);
+      this.contentContainer.setScale(scaleFactor);
+
+      // Title and balance up top, catalog rows below, purchase feedback at the bottom
+      this.title?.setPosition(0, -250);
+      this.balanceText?.setPosition(0, -212);
+      this.rowsContainer?.setPosition(0, -170);
+      this.statusText?.setPosition(0, 200);
+    }
+
+    // Position back button
+    if (this.backButton) {
+      this.backButton.setPosition(
+        MobileUtils.isMobile() ? 70 : 100,
+        MobileUtils.isMobile() ? 40 : 50
+      );
+      this.backButton.setScale(scaleFactor);
+    }
+  }
+}
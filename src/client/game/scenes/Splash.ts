@@ -1,9 +1,15 @@
 import { Scene } from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
-import { BossStatusResponse } from '../../../shared/types/api';
+import { BossStatusResponse, StreakResponse } from '../../../shared/types/api';
 import { MobileUtils } from '../utils/MobileUtils';
 import { TransitionSystem } from '../systems/TransitionSystem';
 import { AnimationSystem } from '../systems/AnimationSystem';
+import { QuestPanel } from '../ui/QuestPanel';
+import { GuildPanel } from '../ui/GuildPanel';
+import { WorldBossPanel } from '../ui/WorldBossPanel';
+import { getCurrentBoss, loadBossRoster } from '../entities/BossEntity';
+import { formatOutcomeHeadline } from '../../../shared/game/outcomes';
+import { formatStreak } from '../../../shared/game/streaks';
 
 /**
  * Splash - Main menu scene with boss preview and game entry
@@ -14,6 +20,15 @@ export class Splash extends Scene {
   private title?: Phaser.GameObjects.Text;
   private subtitle?: Phaser.GameObjects.Text;
   private playButton?: Phaser.GameObjects.Container;
+  private recapButton?: Phaser.GameObjects.Container;
+  private shopButton?: Phaser.GameObjects.Container;
+  private achievementsButton?: Phaser.GameObjects.Text;
+  private questsButton?: Phaser.GameObjects.Text;
+  private guildButton?: Phaser.GameObjects.Text;
+  private worldBossButton?: Phaser.GameObjects.Text;
+  private questPanel: QuestPanel | undefined;
+  private guildPanel: GuildPanel | undefined;
+  private worldBossPanel: WorldBossPanel | undefined;
 
   // Boss preview elements
   private bossSprite?: Phaser.GameObjects.Sprite;
@@ -22,6 +37,7 @@ export class Splash extends Scene {
   private hpBarFill?: Phaser.GameObjects.Graphics;
   private hpText?: Phaser.GameObjects.Text;
   private communityCounter?: Phaser.GameObjects.Text;
+  private streakText: Phaser.GameObjects.Text | undefined;
 
   // Boss data
   private bossData: BossStatusResponse | undefined;
@@ -38,6 +54,10 @@ export class Splash extends Scene {
   init(): void {
     // Reset cached references
     this.bossData = undefined;
+    this.questPanel = undefined;
+    this.guildPanel = undefined;
+    this.worldBossPanel = undefined;
+    this.streakText = undefined;
     if (this.updateTimer) {
       this.updateTimer.destroy();
       this.updateTimer = undefined;
@@ -64,6 +84,11 @@ export class Splash extends Scene {
     await this.loadBossData();
     this.createBossPreview();
     this.createPlayButton();
+    this.createAchievementsButton();
+    this.createQuestsButton();
+    this.createGuildButton();
+    this.createWorldBossButton();
+    void this.loadStreak();
     
     // Animate elements entrance
     await this.animateElementsEntrance();
@@ -159,6 +184,8 @@ export class Splash extends Scene {
   }
 
   private async loadBossData(): Promise<void> {
+    await loadBossRoster();
+
     try {
       const response = await fetch('/api/boss-status');
       if (response.ok) {
@@ -174,30 +201,19 @@ export class Splash extends Scene {
   }
 
   private createFallbackBossData(): void {
-    // Fallback boss data based on current day
-    const today = new Date().getDay();
-    const bossNames = ['The Cringe', 'The Lag Spike', 'The Algorithm', 'The Influencer', 'The Deadline', 'The Spoiler', 'The Referee'];
-    const bossSprites = ['boss_cringe', 'boss_lag_spike', 'boss_algorithm', 'boss_influencer', 'boss_deadline', 'boss_spoiler', 'boss_referee'];
-    
+    // Fallback to today's boss from the roster at full HP
+    const boss = getCurrentBoss();
+
     this.bossData = {
-      data: {
-        id: bossSprites[today] || 'boss_lag_spike',
-        name: bossNames[today] || 'The Lag Spike',
-        theme: GameConstants.DAILY_THEMES[today] || 'Gaming',
-        baseHP: 80000,
-        level: 45,
-        spriteKey: bossSprites[today] || 'boss_lag_spike',
-        phase2Threshold: 0.75,
-        enrageThreshold: 0.25
-      },
+      data: boss,
       state: {
-        currentHP: 37432, // Example current HP
-        maxHP: 80000,
+        currentHP: boss.baseHP,
+        maxHP: boss.baseHP,
         phase: 1,
         isEnraged: false,
         lastDamageTime: Date.now(),
-        totalDamageDealt: 42568,
-        activePlayerCount: 347
+        totalDamageDealt: 0,
+        activePlayerCount: 0
       },
       isDefeated: false
     };
@@ -307,7 +323,37 @@ export class Splash extends Scene {
     }).setOrigin(0.5);
   }
 
+  private async loadStreak(): Promise<void> {
+    try {
+      const response = await fetch('/api/streak');
+      const data = await response.json() as StreakResponse;
+      if (data.status !== 'success' || !data.streak || data.streak.current === 0 || !this.scene.isActive()) return;
+
+      this.streakText = this.add.text(0, 0, formatStreak(data.streak.current), {
+        fontFamily: 'Arial Black',
+        fontSize: '18px',
+        color: data.streak.playedToday ? '#ffa500' : '#aaaaaa',
+        stroke: '#000000',
+        strokeThickness: 3,
+      }).setOrigin(0, 0.5);
+      this.refreshLayout();
+    } catch (error) {
+      console.error('Failed to load streak:', error);
+    }
+  }
+
   private createPlayButton(): void {
+    // Older daily raid posts end instead of resetting; point players at the new post
+    const raidEnded = this.bossData?.raid?.isActive === false;
+    if (raidEnded && this.subtitle) {
+      this.subtitle.setText('This raid has ended.\nFind today\'s raid in the newest Raid Day post!');
+    }
+
+    // Open with how the previous raid went when its boss got away
+    const previousOutcome = this.bossData?.raid?.previousOutcome;
+    if (!raidEnded && previousOutcome?.result === 'failed' && this.subtitle) {
+      this.subtitle.setText(`${formatOutcomeHeadline(previousOutcome)}!\nJoin the community boss battle!`);
+    }
     
     // Main play button - properly sized for mobile
     const playButtonContainer = this.add.container(0, 0);
@@ -316,7 +362,7 @@ export class Splash extends Scene {
     
     const playButtonBg = this.add.rectangle(0, 0, buttonWidth, buttonHeight, GameConstants.COLORS.BUTTON_ENABLED)
       .setStrokeStyle(3, GameConstants.COLORS.TEXT_PRIMARY);
-    const playButtonText = this.add.text(0, 0, 'JOIN BATTLE', {
+    const playButtonText = this.add.text(0, 0, raidEnded ? 'RAID ENDED' : 'JOIN BATTLE', {
       fontFamily: 'Arial Black',
       fontSize: MobileUtils.isMobile() ? '16px' : '18px',
       color: '#ffffff',
@@ -324,23 +370,27 @@ export class Splash extends Scene {
 
     playButtonContainer.add([playButtonBg, playButtonText]);
 
-    playButtonBg.setInteractive({ useHandCursor: true })
-      .on('pointerover', () => {
-        playButtonBg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER);
-        playButtonContainer.setScale(1.05);
-      })
-      .on('pointerout', () => {
-        playButtonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
-        playButtonContainer.setScale(1);
-      })
-      .on('pointerdown', async () => {
-        if (this.animationSystem) {
-          await this.animationSystem.animateButtonPress(playButtonContainer);
-        }
-        if (this.transitionSystem) {
-          this.transitionSystem.slideTransition('CharacterSelect', 'right');
-        }
-      });
+    if (raidEnded) {
+      playButtonBg.setFillStyle(GameConstants.COLORS.BUTTON_DISABLED);
+    } else {
+      playButtonBg.setInteractive({ useHandCursor: true })
+        .on('pointerover', () => {
+          playButtonBg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER);
+          playButtonContainer.setScale(1.05);
+        })
+        .on('pointerout', () => {
+          playButtonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
+          playButtonContainer.setScale(1);
+        })
+        .on('pointerdown', async () => {
+          if (this.animationSystem) {
+            await this.animationSystem.animateButtonPress(playButtonContainer);
+          }
+          if (this.transitionSystem) {
+            void this.transitionSystem.slideTransition('CharacterSelect', 'right');
+          }
+        });
+    }
 
     this.playButton = playButtonContainer;
 
@@ -380,9 +430,142 @@ export class Splash extends Scene {
     // Store reference to how to play button for positioning
     this.children.add(howToPlayButton);
     (this as any).howToPlayButton = howToPlayButton;
+
+    // Failed raids button - recap of the bosses that escaped
+    const recapButton = this.add.container(0, 0);
+    const recapBg = this.add.rectangle(0, 0, howToPlayWidth, howToPlayHeight, 0x444444)
+      .setStrokeStyle(2, 0x888888);
+    const recapText = this.add.text(0, 0, 'Failed Raids', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    recapButton.add([recapBg, recapText]);
+
+    recapBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        recapBg.setFillStyle(0x666666);
+        recapButton.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        recapBg.setFillStyle(0x444444);
+        recapButton.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(recapButton);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('RaidRecap', 'up');
+        }
+      });
+
+    this.recapButton = recapButton;
+
+    // Shop button - spend coins and gems from victories
+    const shopButton = this.add.container(0, 0);
+    const shopBg = this.add.rectangle(0, 0, howToPlayWidth, howToPlayHeight, 0x444444)
+      .setStrokeStyle(2, 0xffd700);
+    const shopText = this.add.text(0, 0, 'Shop', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    shopButton.add([shopBg, shopText]);
+
+    shopBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        shopBg.setFillStyle(0x666666);
+        shopButton.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        shopBg.setFillStyle(0x444444);
+        shopButton.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(shopButton);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Shop', 'up', { returnScene: 'Splash' });
+        }
+      });
+
+    this.shopButton = shopButton;
+  }
+
+
+
+  private createAchievementsButton(): void {
+    this.achievementsButton = this.add.text(0, 0, '🏆', {
+      fontSize: MobileUtils.isMobile() ? '26px' : '30px',
+    }).setOrigin(1, 0);
+
+    this.achievementsButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => this.achievementsButton?.setAlpha(0.75))
+      .on('pointerout', () => this.achievementsButton?.setAlpha(1))
+      .on('pointerdown', () => {
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('Achievements', 'up');
+        }
+      });
+  }
+
+  private createQuestsButton(): void {
+    this.questsButton = this.add.text(0, 0, '📜 Quests', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '16px' : '18px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setOrigin(0, 0);
+
+    this.questsButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => this.questsButton?.setColor('#ffff00'))
+      .on('pointerout', () => this.questsButton?.setColor('#ffffff'))
+      .on('pointerdown', () => {
+        this.questPanel ??= new QuestPanel(this);
+        void this.questPanel.open();
+      });
   }
 
+  private createGuildButton(): void {
+    this.guildButton = this.add.text(0, 0, '🛡️ Guild', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '16px' : '18px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setOrigin(0, 0);
+
+    this.guildButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => this.guildButton?.setColor('#ffff00'))
+      .on('pointerout', () => this.guildButton?.setColor('#ffffff'))
+      .on('pointerdown', () => {
+        this.guildPanel ??= new GuildPanel(this);
+        void this.guildPanel.open();
+      });
+  }
 
+  private createWorldBossButton(): void {
+    this.worldBossButton = this.add.text(0, 0, '🌍 World Boss', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '16px' : '18px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setOrigin(0, 0);
+
+    this.worldBossButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => this.worldBossButton?.setColor('#ffff00'))
+      .on('pointerout', () => this.worldBossButton?.setColor('#ffffff'))
+      .on('pointerdown', () => {
+        this.worldBossPanel ??= new WorldBossPanel(this);
+        void this.worldBossPanel.open();
+      });
+  }
 
   private async updateBossHP(): Promise<void> {
     try {
@@ -558,11 +741,17 @@ export class Splash extends Scene {
       this.hpText.setScale(scaleFactor);
     }
     
-    // Position community counter
+    // Position community counter, with the player's streak beside it once loaded
+    const streakGap = 12 * scaleFactor;
     if (this.communityCounter) {
-      this.communityCounter.setPosition(width / 2, height * 0.70);
+      this.communityCounter.setOrigin(this.streakText ? 1 : 0.5, 0.5);
+      this.communityCounter.setPosition(this.streakText ? width / 2 - streakGap : width / 2, height * 0.70);
       this.communityCounter.setScale(scaleFactor);
     }
+    if (this.streakText) {
+      this.streakText.setPosition(width / 2 + streakGap, height * 0.70);
+      this.streakText.setScale(scaleFactor);
+    }
 
     // Position play button with proper spacing
     if (this.playButton) {
@@ -573,9 +762,37 @@ export class Splash extends Scene {
     // Position how to play button with safe spacing
     const howToPlayButton = (this as any).howToPlayButton as Phaser.GameObjects.Container | undefined;
     
+    // Side by side below the play button
+    const secondaryOffset = (MobileUtils.isMobile() ? 156 : 180) * scaleFactor;
     if (howToPlayButton) {
-      howToPlayButton.setPosition(width / 2, height * 0.88);
+      howToPlayButton.setPosition(width / 2 - secondaryOffset, height * 0.88);
       howToPlayButton.setScale(scaleFactor);
     }
+    if (this.shopButton) {
+      this.shopButton.setPosition(width / 2, height * 0.88);
+      this.shopButton.setScale(scaleFactor);
+    }
+    if (this.recapButton) {
+      this.recapButton.setPosition(width / 2 + secondaryOffset, height * 0.88);
+      this.recapButton.setScale(scaleFactor);
+    }
+
+    // Quests in the top-left corner, achievements gallery in the top-right
+    if (this.questsButton) {
+      this.questsButton.setPosition(16, 16);
+      this.questsButton.setScale(scaleFactor);
+    }
+    if (this.guildButton) {
+      this.guildButton.setPosition(16, 16 + 30 * scaleFactor);
+      this.guildButton.setScale(scaleFactor);
+    }
+    if (this.worldBossButton) {
+      this.worldBossButton.setPosition(16, 16 + 60 * scaleFactor);
+      this.worldBossButton.setScale(scaleFactor);
+    }
+    if (this.achievementsButton) {
+      this.achievementsButton.setPosition(width - 16, 12);
+      this.achievementsButton.setScale(scaleFactor);
+    }
   }
 }
@@ -0,0 +1,363 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { TransitionSystem } from '../systems/TransitionSystem';
+import { AnimationSystem } from '../systems/AnimationSystem';
+import { MobileUtils } from '../utils/MobileUtils';
+import { CharacterClass, CHARACTER_CLASSES } from '../entities/PlayerCharacter';
+import { TalentsResponse } from '../../../shared/types/api';
+import { TALENT_TREES, TalentDefinition, TalentRanks, getSpentPoints } from '../../../shared/game/talents';
+
+// Vertical distance between talent rows
+const ROW_SPACING = 56;
+
+const CLASS_TABS: CharacterClass[] = [
+  CharacterClass.WARRIOR,
+  CharacterClass.MAGE,
+  CharacterClass.ROGUE,
+  CharacterClass.HEALER
+];
+
+/**
+ * Talents - Spend level-up points in each class's talent tree
+ * Ranks, points and the respec fee all come from the server; learning goes through it too
+ */
+export class Talents extends Scene {
+  private transitionSystem?: TransitionSystem;
+  private animationSystem?: AnimationSystem;
+  private backButton?: Phaser.GameObjects.Container;
+  private contentContainer?: Phaser.GameObjects.Container;
+  private tabsContainer?: Phaser.GameObjects.Container;
+  private rowsContainer?: Phaser.GameObjects.Container;
+  private title?: Phaser.GameObjects.Text;
+  private pointsText?: Phaser.GameObjects.Text;
+  private respecButton?: Phaser.GameObjects.Text;
+  private statusText?: Phaser.GameObjects.Text;
+  private isSubmitting: boolean = false;
+
+  private selectedClass: CharacterClass = CharacterClass.WARRIOR;
+  private talents: Record<string, TalentRanks> = {};
+  private pointsPerTree: number = 0;
+  private respecCost: number = 0;
+
+  constructor() {
+    super('Talents');
+  }
+
+  init(data?: { characterClass?: CharacterClass }): void {
+    this.selectedClass = data?.characterClass ?? CharacterClass.WARRIOR;
+  }
+
+  async create(): Promise<void> {
+    // Setup systems
+    this.transitionSystem = new TransitionSystem(this);
+    this.animationSystem = new AnimationSystem(this);
+
+    // Smooth transition in
+    await this.transitionSystem.transitionIn({
+      type: 'slide',
+      direction: 'up',
+      duration: GameConstants.TRANSITION_DURATION_NORMAL
+    });
+
+    this.createBackground();
+    this.createContent();
+    this.createBackButton();
+
+    this.refreshLayout();
+
+    // Re-calculate positions on resize
+    this.scale.on('resize', () => this.refreshLayout());
+
+    await this.loadTalents();
+  }
+
+  private createBackground(): void {
+    const { width, height } = this.scale;
+
+    // Dark gradient background matching game theme
+    const graphics = this.add.graphics();
+    graphics.fillGradientStyle(
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.BACKGROUND,
+      GameConstants.COLORS.UI_PRIMARY,
+      GameConstants.COLORS.UI_PRIMARY
+    );
+    graphics.fillRect(0, 0, width, height);
+  }
+
+  private createContent(): void {
+    this.contentContainer = this.add.container(0, 0);
+
+    this.title = this.add.text(0, 0, 'TALENTS', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '24px' : '32px',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 3,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.pointsText = this.add.text(0, 0, 'Loading...', {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.respecButton = this.add.text(0, 0, '', {
+      fontFamily: 'Arial Black',
+      fontSize: '14px',
+      color: '#ffffff',
+      backgroundColor: '#444444',
+      padding: { x: 10, y: 6 },
+    }).setOrigin(0.5);
+
+    this.respecButton.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => this.respecButton?.setColor('#ffff00'))
+      .on('pointerout', () => this.respecButton?.setColor('#ffffff'))
+      .on('pointerdown', () => void this.respec());
+
+    this.statusText = this.add.text(0, 0, '', {
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.tabsContainer = this.add.container(0, 0);
+    this.rowsContainer = this.add.container(0, 0);
+
+    this.contentContainer.add([
+      this.title,
+      this.tabsContainer,
+      this.pointsText,
+      this.rowsContainer,
+      this.respecButton,
+      this.statusText
+    ]);
+  }
+
+  private async loadTalents(): Promise<void> {
+    try {
+      const response = await fetch('/api/talents');
+      const data = await response.json() as TalentsResponse;
+      if (data.status !== 'success') {
+        throw new Error(data.message ?? 'Failed to load talents');
+      }
+
+      this.applyResponse(data);
+    } catch (error) {
+      console.error('Failed to load talents:', error);
+      this.pointsText?.setText('Could not load talents.');
+    }
+  }
+
+  private applyResponse(data: TalentsResponse): void {
+    this.talents = data.talents ?? {};
+    this.pointsPerTree = data.pointsPerTree ?? 0;
+    this.respecCost = data.respecCost ?? 0;
+    this.render();
+  }
+
+  private render(): void {
+    const ranks = this.talents[this.selectedClass] ?? {};
+    const available = this.pointsPerTree - getSpentPoints(ranks);
+
+    this.pointsText?.setText(`${CHARACTER_CLASSES[this.selectedClass].name} • ${available} point${available === 1 ? '' : 's'} available`);
+    this.respecButton?.setText(`↺ Respec (🪙 ${this.respecCost})`);
+
+    this.renderTabs();
+
+    if (!this.rowsContainer) return;
+    this.rowsContainer.removeAll(true);
+
+    TALENT_TREES[this.selectedClass].forEach((talent, index) => {
+      this.rowsContainer?.add(this.createRow(talent, ranks[talent.id] ?? 0, available > 0, index * ROW_SPACING));
+    });
+  }
+
+  private renderTabs(): void {
+    if (!this.tabsContainer) return;
+    this.tabsContainer.removeAll(true);
+
+    const tabWidth = MobileUtils.isMobile() ? 72 : 96;
+    CLASS_TABS.forEach((characterClass, index) => {
+      const x = (index - (CLASS_TABS.length - 1) / 2) * (tabWidth + 8);
+      const selected = characterClass === this.selectedClass;
+
+      const tabBg = this.add.rectangle(x, 0, tabWidth, 30,
+        selected ? GameConstants.COLORS.UI_SECONDARY : GameConstants.COLORS.BUTTON_DISABLED
+      ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+      const tabText = this.add.text(x, 0, CHARACTER_CLASSES[characterClass].name, {
+        fontFamily: 'Arial Black',
+        fontSize: MobileUtils.isMobile() ? '11px' : '13px',
+        color: selected ? '#ffd700' : '#ffffff',
+      }).setOrigin(0.5);
+
+      tabBg.setInteractive({ useHandCursor: true })
+        .on('pointerdown', () => {
+          this.selectedClass = characterClass;
+          this.render();
+        });
+
+      this.tabsContainer?.add([tabBg, tabText]);
+    });
+  }
+
+  private createRow(talent: TalentDefinition, rank: number, hasPoints: boolean, y: number): Phaser.GameObjects.Container {
+    const row = this.add.container(0, y);
+    const rowWidth = MobileUtils.isMobile() ? 300 : 420;
+    const maxed = rank >= talent.maxRank;
+
+    const label = this.add.text(-rowWidth / 2, 0, `${talent.name} (${rank}/${talent.maxRank})\n${talent.description}`, {
+      fontFamily: 'Arial',
+      fontSize: MobileUtils.isMobile() ? '11px' : '13px',
+      color: rank > 0 ? '#ffd700' : '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0, 0.5);
+
+    const canLearn = hasPoints && !maxed;
+    const buttonBg = this.add.rectangle(rowWidth / 2 - 25, 0, 44, 32,
+      canLearn ? GameConstants.COLORS.BUTTON_ENABLED : GameConstants.COLORS.BUTTON_DISABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+    const buttonText = this.add.text(rowWidth / 2 - 25, 0, maxed ? 'MAX' : '+', {
+      fontFamily: 'Arial Black',
+      fontSize: maxed ? '11px' : '18px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    row.add([label, buttonBg, buttonText]);
+
+    if (canLearn) {
+      buttonBg.setInteractive({ useHandCursor: true })
+        .on('pointerover', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER))
+        .on('pointerout', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED))
+        .on('pointerdown', () => void this.learn(talent));
+    }
+
+    return row;
+  }
+
+  private async learn(talent: TalentDefinition): Promise<void> {
+    await this.submit('/api/talents/learn', { characterClass: this.selectedClass, talentId: talent.id }, `Learned ${talent.name}!`);
+  }
+
+  private async respec(): Promise<void> {
+    await this.submit('/api/talents/respec', { characterClass: this.selectedClass }, 'Talents reset - points refunded');
+  }
+
+  private async submit(url: string, body: object, successMessage: string): Promise<void> {
+    if (this.isSubmitting) return;
+    this.isSubmitting = true;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json() as TalentsResponse;
+
+      if (data.status !== 'success') {
+        this.showStatus(data.message ?? 'Something went wrong', '#ff4444');
+        return;
+      }
+
+      this.applyResponse(data);
+      this.showStatus(successMessage, '#00ff00');
+    } catch (error) {
+      console.error('Failed to update talents:', error);
+      this.showStatus('Something went wrong', '#ff4444');
+    } finally {
+      this.isSubmitting = false;
+    }
+  }
+
+  private showStatus(message: string, color: string): void {
+    this.statusText?.setText(message).setColor(color).setAlpha(1);
+    this.tweens.add({
+      targets: this.statusText,
+      alpha: 0,
+      delay: 2500,
+      duration: 500
+    });
+  }
+
+  private createBackButton(): void {
+    const buttonContainer = this.add.container(0, 0);
+
+    // Button background
+    const buttonBg = this.add.rectangle(0, 0,
+      MobileUtils.isMobile() ? 120 : 150,
+      MobileUtils.isMobile() ? 40 : 50,
+      GameConstants.COLORS.BUTTON_ENABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+
+    // Button text
+    const buttonText = this.add.text(0, 0, 'BACK', {
+      fontFamily: 'Arial Black',
+      fontSize: MobileUtils.isMobile() ? '14px' : '16px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    buttonContainer.add([buttonBg, buttonText]);
+
+    // Make interactive
+    buttonBg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.UI_SECONDARY);
+        buttonContainer.setScale(1.05);
+      })
+      .on('pointerout', () => {
+        buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED);
+        buttonContainer.setScale(1);
+      })
+      .on('pointerdown', async () => {
+        if (this.animationSystem) {
+          await this.animationSystem.animateButtonPress(buttonContainer);
+        }
+        if (this.transitionSystem) {
+          void this.transitionSystem.slideTransition('CharacterSelect', 'down');
+        }
+      });
+
+    this.backButton = buttonContainer;
+  }
+
+  private refreshLayout(): void {
+    const { width, height } = this.scale;
+
+    // Resize camera to fill entire screen
+    this.cameras.main.setViewport(0, 0, width, height);
+
+    // Scale factor for responsive design
+    const scaleFactor = Math.min(width / GameConstants.GAME_WIDTH, height / GameConstants.GAME_HEIGHT, 1);
+
+    if (this.contentContainer) {
+      this.contentContainer.setPosition(width / 2, height / 2);
+      this.contentContainer.setScale(scaleFactor);
+
+      // Title and class tabs up top, the tree in the middle, respec and feedback at the bottom
+      this.title?.setPosition(0, -250);
+      this.tabsContainer?.setPosition(0, -205);
+      this.pointsText?.setPosition(0, -165);
+      this.rowsContainer?.setPosition(0, -110);
+      this.respecButton?.setPosition(0, 120);
+      this.statusText?.setPosition(0, 165);
+    }
+
+    // Position back button
+    if (this.backButton) {
+      this.backButton.setPosition(
+        MobileUtils.isMobile() ? 70 : 100,
+        MobileUtils.isMobile() ? 40 : 50
+      );
+      this.backButton.setScale(scaleFactor);
+    }
+  }
+}
@@ -2,10 +2,23 @@ import { Scene } from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
 import { ParticleSystem } from '../systems/ParticleSystem';
 import { SynchronizationSystem } from '../systems/SynchronizationSystem';
-import { BossData, getCurrentBoss, getBossByDay } from '../entities/BossEntity';
-import { LeaderboardEntry, PlayerData } from '../../../shared/types/api';
+import { BossData, getCurrentBoss, getNextBoss, getNextResetAt } from '../entities/BossEntity';
+import {
+  AchievementUnlock,
+  BossKill,
+  ClaimRewardsResponse,
+  LeaderboardEntry,
+  LootDrop,
+  PlayerData,
+  VictoryRewards,
+  VictoryStatusResponse
+} from '../../../shared/types/api';
 import { TransitionSystem } from '../systems/TransitionSystem';
 import { AnimationSystem } from '../systems/AnimationSystem';
+import { StatusMessageQueue } from '../ui/StatusMessage';
+import { LOOT_RARITIES, RARITY_COLORS } from '../../../shared/game/loot';
+import { getEquipment } from '../../../shared/game/equipment';
+import { getLevelProgress, getTotalExperience, getXpToNextLevel } from '../../../shared/game/progression';
 
 /**
  * Victory - Boss defeat celebration and rewards scene
@@ -22,9 +35,12 @@ export class Victory extends Scene {
   private bossData?: BossData;
   private playerData: PlayerData | undefined;
   private leaderboardData: LeaderboardEntry[] = [];
+  private slayer: BossKill | undefined;
   private xpGained: number = 0;
   private newLevel: number = 0;
   private oldLevel: number = 0;
+  private rewardsClaim: Promise<VictoryRewards | undefined> | undefined;
+  private toasts: StatusMessageQueue | undefined;
 
   constructor() {
     super('Victory');
@@ -37,6 +53,9 @@ export class Victory extends Scene {
     xpGained?: number;
   }): void {
     this.lootItems = [];
+    this.slayer = undefined;
+    this.rewardsClaim = undefined;
+    this.toasts = undefined;
     this.bossData = data?.bossData || getCurrentBoss();
     this.playerData = data?.playerData || undefined;
     this.leaderboardData = data?.leaderboard || [];
@@ -45,8 +64,7 @@ export class Victory extends Scene {
     // Calculate level progression
     if (this.playerData) {
       this.oldLevel = this.playerData.level;
-      const newXP = this.playerData.experience + this.xpGained;
-      this.newLevel = Math.floor(newXP / 1000) + 1; // Simple level calculation
+      this.newLevel = this.getLevelAfterGain(this.playerData);
     } else {
       this.oldLevel = 12;
       this.newLevel = 13;
@@ -72,6 +90,9 @@ export class Victory extends Scene {
     this.physics.world.setBounds(0, 0, this.scale.width, this.scale.height);
     
     this.createBackground();
+
+    // Credit this session's rewards while the celebration plays
+    this.rewardsClaim = this.claimRewards();
     
     // Fetch victory data from server if not provided
     if (!this.playerData || this.leaderboardData.length === 0) {
@@ -113,13 +134,13 @@ export class Victory extends Scene {
           this.playerData = data.playerData || undefined;
           this.leaderboardData = data.leaderboard || [];
           this.bossData = data.bossData || getCurrentBoss();
+          this.slayer = data.slayer;
           this.xpGained = data.xpGained || 250;
           
           // Update level progression
           if (this.playerData) {
             this.oldLevel = this.playerData.level;
-            const newXP = this.playerData.experience + this.xpGained;
-            this.newLevel = Math.floor(newXP / 1000) + 1;
+            this.newLevel = this.getLevelAfterGain(this.playerData);
           }
         }
       }
@@ -128,6 +149,57 @@ export class Victory extends Scene {
     }
   }
 
+  /**
+   * Claim the session's rewards; the loot rain shows only what the server credited
+   */
+  private async claimRewards(): Promise<VictoryRewards | undefined> {
+    try {
+      const response = await fetch('/api/claim-rewards', { method: 'POST' });
+      const data = await response.json() as ClaimRewardsResponse;
+      if (data.status !== 'success') {
+        // Already claimed on an earlier visit, so nothing new falls
+        console.log('Rewards not credited:', data.message);
+        return undefined;
+      }
+      this.showAchievements(data.achievements);
+      this.showFactionBonus(data.factionBonus);
+      return data.rewards;
+    } catch (error) {
+      console.error('Error claiming rewards:', error);
+      return undefined;
+    }
+  }
+
+  private showAchievements(achievements: AchievementUnlock[] | undefined): void {
+    if (!achievements?.length) return;
+
+    const toasts = this.getToasts();
+    achievements.forEach((achievement) => {
+      toasts.showMessage({
+        message: `🏆 ${achievement.icon} ${achievement.name}`,
+        color: '#ffd700',
+        duration: 2000
+      });
+    });
+  }
+
+  private showFactionBonus(bonus: ClaimRewardsResponse['factionBonus']): void {
+    if (!bonus) return;
+
+    const icons: Record<string, string> = { coins: '🪙', gems: '💎' };
+    const amounts = Object.entries(bonus).map(([asset, amount]) => `+${amount} ${icons[asset] ?? asset}`);
+    this.getToasts().showMessage({
+      message: `🏳️ Your faction won the war! ${amounts.join(' ')}`,
+      color: '#00ffff',
+      duration: 2500
+    });
+  }
+
+  private getToasts(): StatusMessageQueue {
+    this.toasts ??= new StatusMessageQueue(this, this.scale.width / 2, this.scale.height * 0.12);
+    return this.toasts;
+  }
+
   private createBackground(): void {
     const { width, height } = this.scale;
     
@@ -325,13 +397,19 @@ export class Victory extends Scene {
           duration: 500,
           ease: 'Power2'
         });
+
+        this.createSlayerCredit();
       });
       
       // Add celebration particle effects
       this.createCelebrationEffects();
       
-      // Start loot rain after victory text
-      this.createLootRain();
+      // Start loot rain after victory text, once the rewards are credited
+      void this.rewardsClaim?.then((rewards) => {
+        if (rewards) {
+          this.createLootRain(rewards);
+        }
+      });
     });
 
     // Start other UI elements with staggered timing
@@ -344,8 +422,8 @@ export class Victory extends Scene {
     });
     
     this.time.delayedCall(3000, () => {
-      // Create victory post on Reddit
-      this.createVictoryPost();
+      // The server posts the victory on Reddit; show it once it's up
+      void this.showVictoryPostStatus();
     });
     
     this.time.delayedCall(4000, () => {
@@ -353,6 +431,32 @@ export class Victory extends Scene {
     });
   }
 
+  private createSlayerCredit(): void {
+    if (!this.slayer) return;
+
+    const { width, height } = this.scale;
+    const slayerName = this.slayer.username ? `u/${this.slayer.username}` : `User${this.slayer.userId.slice(-4)}`;
+    
+    // Killing blow credit from the server's Boss Slayer record
+    const slayerText = this.add.text(width / 2, height * 0.4, `⚔️ Boss Slayer: ${slayerName} (${this.slayer.characterClass})`, {
+      fontFamily: 'Arial',
+      fontSize: '16px',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    slayerText.setAlpha(0);
+    this.tweens.add({
+      targets: slayerText,
+      alpha: 1,
+      duration: 500,
+      delay: 300,
+      ease: 'Power2'
+    });
+  }
+
   private createCelebrationEffects(): void {
     const { width, height } = this.scale;
     
@@ -405,23 +509,31 @@ export class Victory extends Scene {
     }
   }
 
-  private createLootRain(): void {
-    const { width } = this.scale;
+  private createLootRain(rewards: VictoryRewards): void {
+    const { width, height } = this.scale;
 
     // Create loot item textures
     this.createLootTextures();
 
-    // Create falling loot items with physics
-    const lootTypes = ['coin', 'gem', 'potion', 'scroll', 'chest', 'star'];
+    // One falling sprite per rolled drop (stacks of coins fall as a few coins), rarest first
+    const maxPerDrop = 5;
+    const drops = [...rewards.drops].sort((a, b) => LOOT_RARITIES.indexOf(b.rarity) - LOOT_RARITIES.indexOf(a.rarity));
+    const lootDrops = drops.flatMap((drop) => Array<LootDrop>(drop.equipmentId ? 1 : Math.min(drop.amount, maxPerDrop)).fill(drop));
+
+    // Exact drops credited, each in its rarity color
+    this.createLootTally(drops, width / 2, height * 0.455);
     
-    for (let i = 0; i < 30; i++) {
+    lootDrops.forEach((drop, i) => {
       this.time.delayedCall(i * 150, () => {
-        const lootType = Phaser.Utils.Array.GetRandom(lootTypes);
         const x = Phaser.Math.Between(50, width - 50);
+        const rarityColor = RARITY_COLORS[drop.rarity];
         
-        // Create loot sprite with texture
-        const loot = this.add.sprite(x, -50, `loot_${lootType}`);
+        // Create loot sprite with texture (gear falls as a chest, legendary gear as a star)
+        const loot = this.add.sprite(x, -50, `loot_${this.getLootTexture(drop)}`);
         loot.setScale(Phaser.Math.FloatBetween(0.8, 1.2));
+        if (drop.equipmentId) {
+          loot.setTint(rarityColor);
+        }
         
         // Add physics for realistic bouncing
         this.physics.add.existing(loot);
@@ -436,9 +548,9 @@ export class Victory extends Scene {
         // Add rotation for visual appeal
         body.setAngularVelocity(Phaser.Math.Between(-200, 200));
         
-        // Add glow effect for special items
-        if (lootType === 'chest' || lootType === 'star') {
-          const glow = this.add.circle(loot.x, loot.y, 25, 0xffff00, 0.3);
+        // Rare and better drops glow in their rarity color
+        if (LOOT_RARITIES.indexOf(drop.rarity) >= LOOT_RARITIES.indexOf('rare')) {
+          const glow = this.add.circle(loot.x, loot.y, 25, rarityColor, 0.3);
           this.tweens.add({
             targets: glow,
             alpha: 0.1,
@@ -475,7 +587,47 @@ export class Victory extends Scene {
           }
         });
       });
+    });
+  }
+
+  private getLootTexture(drop: LootDrop): string {
+    if (drop.equipmentId) {
+      return drop.rarity === 'legendary' ? 'star' : 'chest';
     }
+    return drop.asset === 'coins' ? 'coin' : drop.asset === 'gems' ? 'gem' : drop.asset ?? 'coin';
+  }
+
+  /**
+   * One line of drop labels ("+75 🪙", "Iron Blade"), colored by rarity and centered on x
+   */
+  private createLootTally(drops: LootDrop[], x: number, y: number): void {
+    if (drops.length === 0) return;
+
+    const icons: Record<string, string> = { coins: '🪙', gems: '💎', potion: '🧪', scroll: '📜' };
+    const labels = drops.map((drop) => {
+      const equipment = getEquipment(drop.equipmentId);
+      const label = equipment
+        ? `${equipment.icon} ${equipment.name}`
+        : `+${drop.amount} ${icons[drop.asset ?? 'coins'] ?? ''}`;
+
+      return this.add.text(0, y, label, {
+        fontFamily: 'Arial',
+        fontSize: '16px',
+        color: `#${RARITY_COLORS[drop.rarity].toString(16).padStart(6, '0')}`,
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0, 0.5).setAlpha(0);
+    });
+
+    const gap = 16;
+    const totalWidth = labels.reduce((sum, label) => sum + label.width, 0) + gap * (labels.length - 1);
+    let left = x - totalWidth / 2;
+    labels.forEach((label) => {
+      label.setX(left);
+      left += label.width + gap;
+    });
+
+    this.tweens.add({ targets: labels, alpha: 1, duration: 500, ease: 'Power2' });
   }
 
   private createLootTextures(): void {
@@ -591,10 +743,9 @@ export class Victory extends Scene {
     this.xpBar = this.add.graphics();
     
     // Calculate XP progression
-    const currentXP = this.playerData?.experience || 800;
-    const xpForCurrentLevel = (this.oldLevel - 1) * 1000;
-    const currentLevelProgress = currentXP - xpForCurrentLevel;
-    const targetProgress = Math.min(currentLevelProgress + this.xpGained, 1000);
+    const xpForLevel = getXpToNextLevel(this.oldLevel, this.playerData?.xpCurve);
+    const currentLevelProgress = this.playerData?.experience || 800;
+    const targetProgress = Math.min(currentLevelProgress + this.xpGained, xpForLevel);
     
     // Animate XP bar filling
     this.tweens.addCounter({
@@ -604,7 +755,7 @@ export class Victory extends Scene {
       delay: 500,
       onUpdate: (tween) => {
         const value = tween.getValue();
-        const fillWidth = (value / 1000) * barWidth;
+        const fillWidth = (value / xpForLevel) * barWidth;
         
         this.xpBar!.clear();
         this.xpBar!.fillStyle(0x00ff00);
@@ -636,6 +787,14 @@ export class Victory extends Scene {
     }).setOrigin(0.5);
   }
 
+  /**
+   * Level the session's XP brings the player to on the subreddit's XP curve
+   */
+  private getLevelAfterGain(playerData: PlayerData): number {
+    const { xpCurve } = playerData;
+    return getLevelProgress(getTotalExperience(playerData.level, playerData.experience, xpCurve) + this.xpGained, xpCurve).level;
+  }
+
   private playLevelUpEffect(): void {
     const { width, height } = this.scale;
     
@@ -819,7 +978,7 @@ export class Victory extends Scene {
       });
 
       // Boss theme with enhanced styling
-      const themeText = this.add.text(0, -10, `${nextBossData.nextBoss?.theme || 'Unknown'} Theme • Level ${nextBossData.nextBoss?.level || 1} • 50,000 HP`, {
+      const themeText = this.add.text(0, -10, `${nextBossData.nextBoss?.theme || 'Unknown'} Theme • Level ${nextBossData.nextBoss?.level || 1} • ${(nextBossData.hpForecast?.chosenHP ?? nextBossData.nextBoss?.baseHP ?? 50000).toLocaleString()} HP`, {
         fontFamily: 'Arial',
         fontSize: '12px',
         color: '#cccccc',
@@ -943,16 +1102,6 @@ export class Victory extends Scene {
     });
   }
 
-  private getNextBoss(): BossData {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const dayOfWeek = tomorrow.getDay();
-    
-    const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const dayName = days[dayOfWeek];
-    return getBossByDay(dayName || 'monday');
-  }
-
   private async fetchNextBossData(): Promise<any> {
     try {
       const response = await fetch('/api/nextBoss');
@@ -990,7 +1139,7 @@ export class Victory extends Scene {
     const { width, height } = this.scale;
     
     // Fallback to local calculation
-    const nextBoss = this.getNextBoss();
+    const nextBoss = getNextBoss();
     
     // Simple fallback preview
     const previewContainer = this.add.container(width / 2, height * 0.9);
@@ -1026,17 +1175,13 @@ export class Victory extends Scene {
   }
 
   private getCountdownText(): string {
-    const now = new Date();
-    const next8AM = new Date();
-    next8AM.setDate(next8AM.getDate() + 1);
-    next8AM.setHours(8, 0, 0, 0); // Next boss spawns at 8 AM, not midnight
-    
-    // If it's already past 8 AM today, set for tomorrow
-    if (now.getHours() >= 8) {
-      next8AM.setDate(next8AM.getDate() + 1);
+    // Next boss spawns at the subreddit's daily reset, as reported by the server
+    const nextResetAt = getNextResetAt();
+    if (nextResetAt === undefined) {
+      return 'Spawns at the next daily reset';
     }
     
-    const timeUntilNext = next8AM.getTime() - now.getTime();
+    const timeUntilNext = Math.max(0, nextResetAt - Date.now());
     const hours = Math.floor(timeUntilNext / (1000 * 60 * 60));
     const minutes = Math.floor((timeUntilNext % (1000 * 60 * 60)) / (1000 * 60));
     const seconds = Math.floor((timeUntilNext % (1000 * 60)) / 1000);
@@ -1098,17 +1243,23 @@ export class Victory extends Scene {
     }
   }
 
-  private async createVictoryPost(): Promise<void> {
+  private async showVictoryPostStatus(attempt: number = 0): Promise<void> {
     try {
-      const response = await fetch('/api/create-victory-post', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      });
+      const response = await fetch('/api/victory-status');
       
       if (response.ok) {
-        const data = await response.json();
-        if (data.status === 'success' && data.victoryPost) {
-          console.log('Victory post created:', data.victoryPost);
+        const data: VictoryStatusResponse = await response.json();
+
+        // Wrap-up still running on the server - check again shortly
+        if (data.status === 'success' && data.state === 'pending' && attempt < 5) {
+          this.time.delayedCall(3000, () => {
+            void this.showVictoryPostStatus(attempt + 1);
+          });
+          return;
+        }
+
+        if (data.status === 'success' && data.outcome?.redditPostId) {
+          console.log('Victory post created:', data.outcome);
           
           // Show enhanced victory post notification with details
           const { width } = this.scale;
@@ -1122,7 +1273,7 @@ export class Victory extends Scene {
 
           // Show top contributors notification
           const contributorsText = this.add.text(width / 2, 75, 
-            `Top contributors: ${data.victoryPost.topPlayers.slice(0, 3).map((p: any) => p.redditUsername).join(', ')}`, {
+            `Top contributors: ${data.outcome.topPlayers.slice(0, 3).map((p) => p.redditUsername).join(', ')}`, {
             fontFamily: 'Arial',
             fontSize: '12px',
             color: '#ffffff',
@@ -1154,11 +1305,11 @@ export class Victory extends Scene {
         }
       }
     } catch (error) {
-      console.error('Failed to create victory post:', error);
+      console.error('Failed to get victory post status:', error);
       
       // Show error notification
       const { width } = this.scale;
-      const errorText = this.add.text(width / 2, 50, 'Failed to create victory post', {
+      const errorText = this.add.text(width / 2, 50, 'Failed to check victory post', {
         fontFamily: 'Arial',
         fontSize: '14px',
         color: '#ff4444',
@@ -39,10 +39,10 @@ export class CombatSystem {
   public calculateSpecialAbilityDamage(
     playerClass: CharacterClass,
     playerLevel: number,
-    bossPhase: number
+    _bossPhase: number
   ): AttackResult {
     // Calculate special ability damage using utility
-    const damage = DamageCalculator.calculateSpecialDamage(playerClass, playerLevel, bossPhase);
+    const damage = DamageCalculator.calculateSpecialDamage(playerClass, playerLevel);
 
     return {
       damage,
@@ -1,7 +1,12 @@
+import * as Phaser from 'phaser';
 import { Scene } from 'phaser';
 import { GameConstants } from '../utils/GameConstants';
 import { MobileUtils } from '../utils/MobileUtils';
 import { EnergySystem } from '../systems/EnergySystem';
+import { PhaseMultipliers, formatPhaseMultiplier } from '../../../shared/game/bosses';
+import { CharacterClassId } from '../../../shared/game/damage';
+import { FactionWarStatus } from '../../../shared/types/api';
+import { FactionWarBar } from './FactionWarBar';
 
 /**
  * BattleHUD - Manages all UI elements in the battle scene
@@ -18,6 +23,8 @@ export class BattleHUD {
   private bossHPBar: Phaser.GameObjects.Graphics;
   private bossHPBarBg: Phaser.GameObjects.Graphics;
   private bossHPText: Phaser.GameObjects.Text;
+  private phaseModifierText: Phaser.GameObjects.Text;
+  private factionWarBar: FactionWarBar;
   
   // Bottom HUD elements
   private bottomBar: Phaser.GameObjects.Container;
@@ -97,12 +104,27 @@ export class BattleHUD {
       strokeThickness: 1,
     }).setOrigin(0.5);
 
+    // Class weaknesses/resistances for the current boss phase
+    this.phaseModifierText = this.scene.add.text(0, 0, '', {
+      fontFamily: 'Arial',
+      fontSize: this.isMobile ? '11px' : '13px',
+      color: '#ffdd55',
+      stroke: '#000000',
+      strokeThickness: 1,
+      align: 'center',
+    }).setOrigin(0.5);
+
+    // Tug-of-war between factions when the post runs a faction war
+    this.factionWarBar = new FactionWarBar(this.scene, 0, 0, 300);
+
     this.topBar.add([
       this.bossNameText,
       this.bossLevelText,
       this.bossHPBarBg,
       this.bossHPBar,
-      this.bossHPText
+      this.bossHPText,
+      this.phaseModifierText,
+      this.factionWarBar
     ]);
     
     this.container.add(this.topBar);
@@ -252,6 +274,9 @@ export class BattleHUD {
     
     // HP text below bar
     this.bossHPText.setPosition(centerX, hpBarY + 25);
+    this.phaseModifierText.setPosition(centerX, hpBarY + 45);
+    this.factionWarBar.setPosition(centerX, hpBarY + 65);
+    this.factionWarBar.setBarWidth(hpBarWidth);
   }
 
   private layoutTopBarLandscape(width: number): void {
@@ -272,6 +297,9 @@ export class BattleHUD {
     
     // HP text below bar
     this.bossHPText.setPosition(centerX, hpBarY + 20);
+    this.phaseModifierText.setPosition(centerX, hpBarY + 38);
+    this.factionWarBar.setPosition(centerX, hpBarY + 56);
+    this.factionWarBar.setBarWidth(hpBarWidth);
   }
 
   private layoutBottomBarPortrait(width: number): void {
@@ -390,6 +418,29 @@ export class BattleHUD {
     this.bossHPText.setText(`${currentHP.toLocaleString()} / ${maxHP.toLocaleString()}`);
   }
 
+  /**
+   * Show which classes deal more or less damage this phase, e.g. "Mages deal +25% this phase"
+   */
+  public updatePhaseModifiers(multipliers: PhaseMultipliers | undefined): void {
+    if (!multipliers) {
+      this.phaseModifierText.setText('');
+      return;
+    }
+
+    const lines = (Object.keys(multipliers) as CharacterClassId[])
+      .filter(characterClass => multipliers[characterClass] !== 1)
+      .sort((a, b) => multipliers[b] - multipliers[a])
+      .map(characterClass => formatPhaseMultiplier(characterClass, multipliers[characterClass]));
+    this.phaseModifierText.setText(lines.join(' • '));
+  }
+
+  /**
+   * Redraw the faction tug-of-war (hidden when the post isn't running a war)
+   */
+  public updateFactionWar(war: FactionWarStatus | undefined): void {
+    this.factionWarBar.setStatus(war);
+  }
+
   public updateEnergyIndicators(energySystem: EnergySystem): void {
     const energyState = energySystem.getEnergyState();
     
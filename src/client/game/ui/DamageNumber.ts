@@ -10,8 +10,15 @@ export interface DamageNumberConfig {
   isCommunity?: boolean;
   isBoosted?: boolean; // For community buff enhanced damage
   isPlayerDamage?: boolean; // For "YOUR damage: +234" styling
+  style?: string | undefined; // Damage-number style bought in the shop (player hits only)
 }
 
+// Shop damage-number styles; unknown styles fall back to the default look
+const DAMAGE_STYLES: Record<string, { fontFamily: string; color: string; stroke: string }> = {
+  comic: { fontFamily: '"Comic Sans MS", "Arial Black"', color: '#ffeb3b', stroke: '#d63031' },
+  pixel: { fontFamily: '"Courier New", monospace', color: '#55efc4', stroke: '#2d3436' }
+};
+
 /**
  * DamageNumber - Floating damage numbers that spawn above targets and fade upward
  * Supports different styles for critical hits, special abilities, and community damage
@@ -35,7 +42,7 @@ export class DamageNumber extends Phaser.GameObjects.Container {
   }
 
   private createDamageText(): void {
-    const { damage, isCritical, isSpecial, isCommunity, isBoosted, isPlayerDamage } = this.config;
+    const { damage, isCritical, isSpecial, isCommunity, isBoosted, isPlayerDamage, style } = this.config;
     
     // Determine styling based on damage type
     let fontSize: string;
@@ -71,16 +78,24 @@ export class DamageNumber extends Phaser.GameObjects.Container {
       displayText = damage.toLocaleString();
     }
     
+    // The player's own hits wear their shop style
+    const damageStyle = style ? DAMAGE_STYLES[style] : undefined;
+    const fontFamily = damageStyle?.fontFamily ?? 'Arial Black';
+    if (damageStyle) {
+      color = damageStyle.color;
+      strokeColor = damageStyle.stroke;
+    }
+    
     // Create shadow text for better readability
     this.shadowText = this.scene.add.text(2, 2, displayText, {
-      fontFamily: 'Arial Black',
+      fontFamily: fontFamily,
       fontSize: fontSize,
       color: '#000000',
     }).setOrigin(0.5);
     
     // Create main damage text
     this.damageText = this.scene.add.text(0, 0, displayText, {
-      fontFamily: 'Arial Black',
+      fontFamily: fontFamily,
       fontSize: fontSize,
       color: color,
       stroke: strokeColor,
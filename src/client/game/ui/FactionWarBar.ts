@@ -0,0 +1,101 @@
+import { Scene } from 'phaser';
+import { CommunityDPSDetailedResponse, FactionWarStatus } from '../../../shared/types/api';
+import { getFaction } from '../../../shared/game/factions';
+
+const BAR_HEIGHT = 12;
+const UPDATE_INTERVAL_MS = 10000;
+
+/**
+ * FactionWarBar - Tug-of-war bar splitting the width by each faction's share of the raid's damage
+ * Hidden unless a moderator turned the post into a faction war; polls the community stats on its own
+ */
+export class FactionWarBar extends Phaser.GameObjects.Container {
+  private bar: Phaser.GameObjects.Graphics;
+  private labelText: Phaser.GameObjects.Text;
+  private barWidth: number;
+  private updateTimer?: Phaser.Time.TimerEvent;
+
+  constructor(scene: Scene, x: number, y: number, width: number) {
+    super(scene, x, y);
+    this.barWidth = width;
+
+    this.bar = scene.add.graphics();
+    this.labelText = scene.add.text(0, BAR_HEIGHT / 2 + 10, '', {
+      fontFamily: 'Arial',
+      fontSize: '11px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5);
+
+    this.add([this.bar, this.labelText]);
+    this.setVisible(false);
+    scene.add.existing(this);
+
+    this.updateTimer = scene.time.addEvent({
+      delay: UPDATE_INTERVAL_MS,
+      callback: () => void this.refresh(),
+      loop: true
+    });
+    void this.refresh();
+  }
+
+  public setBarWidth(width: number): void {
+    this.barWidth = width;
+  }
+
+  /**
+   * Draw the war's standings (hides the bar when there's no war)
+   */
+  public setStatus(war: FactionWarStatus | undefined): void {
+    this.setVisible(Boolean(war));
+    if (!war) return;
+
+    const totalDamage = war.factions.reduce((sum, faction) => sum + faction.damage, 0);
+    const left = -this.barWidth / 2;
+    let offset = 0;
+
+    this.bar.clear();
+    war.factions.forEach((progress) => {
+      // Split evenly until anyone has dealt damage
+      const share = totalDamage > 0 ? progress.damage / totalDamage : 1 / war.factions.length;
+      const segmentWidth = this.barWidth * share;
+      this.bar.fillStyle(getFaction(progress.id)?.color ?? 0x888888);
+      this.bar.fillRect(left + offset, -BAR_HEIGHT / 2, segmentWidth, BAR_HEIGHT);
+      offset += segmentWidth;
+    });
+    this.bar.lineStyle(2, 0xffffff);
+    this.bar.strokeRect(left, -BAR_HEIGHT / 2, this.barWidth, BAR_HEIGHT);
+
+    const shares = war.factions.map((progress) => {
+      const percent = totalDamage > 0 ? Math.round(progress.damage / totalDamage * 100) : 0;
+      return `${getFaction(progress.id)?.icon ?? ''} ${percent}%`;
+    });
+    const playerFaction = war.playerFaction && getFaction(war.playerFaction);
+    const winner = war.winner && getFaction(war.winner);
+    const headline = winner
+      ? `${winner.icon} ${winner.name} won!`
+      : playerFaction ? `You: ${playerFaction.icon} ${playerFaction.name}` : 'Attack to join a faction';
+    this.labelText.setText(`${shares.join('  ')}  •  ${headline}`);
+  }
+
+  /**
+   * Fetch the latest standings (also called after the player's own attacks so their faction shows right away)
+   */
+  public async refresh(): Promise<void> {
+    try {
+      const response = await fetch('/api/community-dps-detailed');
+      const data = await response.json() as CommunityDPSDetailedResponse;
+      if (data.status === 'success' && this.active) {
+        this.setStatus(data.factionWar);
+      }
+    } catch (error) {
+      console.error('Failed to fetch faction war:', error);
+    }
+  }
+
+  public override destroy(fromScene?: boolean): void {
+    this.updateTimer?.destroy();
+    super.destroy(fromScene);
+  }
+}
@@ -0,0 +1,229 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { Guild, GuildMember, GuildRole, GuildsResponse } from '../../../shared/types/api';
+import { GUILD_MEMBER_CAP, canChangeRole, canKick, formatGuildTag } from '../../../shared/game/guilds';
+
+const PANEL_WIDTH = 440;
+const PANEL_HEIGHT = 380;
+const ROW_SPACING = 36;
+const MAX_ROWS = 6;
+
+const ROLE_ICONS: Record<GuildRole, string> = { owner: '👑', officer: '⭐', member: '' };
+
+/**
+ * GuildPanel - Overlay showing the player's guild roster, or guilds to join when they have none
+ * Founding a guild needs a name and tag, so that happens through the post menu form
+ */
+export class GuildPanel extends Phaser.GameObjects.Container {
+  private headerText: Phaser.GameObjects.Text;
+  private rowsContainer: Phaser.GameObjects.Container;
+  private statusText: Phaser.GameObjects.Text;
+  private leaveButton: Phaser.GameObjects.Text;
+  private isBusy: boolean = false;
+
+  constructor(scene: Scene) {
+    super(scene, scene.scale.width / 2, scene.scale.height / 2);
+
+    const { width, height } = scene.scale;
+    const panelWidth = Math.min(width * 0.92, PANEL_WIDTH);
+
+    // Dim everything behind the panel and swallow clicks
+    const shade = scene.add.rectangle(0, 0, width, height, 0x000000, 0.6).setInteractive();
+    const bg = scene.add.rectangle(0, 0, panelWidth, PANEL_HEIGHT, 0x222222, 0.95).setStrokeStyle(3, 0xffd700);
+    const title = scene.add.text(0, -PANEL_HEIGHT / 2 + 24, 'GUILD', {
+      fontFamily: 'Arial Black',
+      fontSize: '22px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    this.headerText = scene.add.text(0, -PANEL_HEIGHT / 2 + 54, '', {
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      color: '#ffffff',
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.rowsContainer = scene.add.container(0, -PANEL_HEIGHT / 2 + 90);
+
+    this.statusText = scene.add.text(0, PANEL_HEIGHT / 2 - 62, '', {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: panelWidth - 30 },
+    }).setOrigin(0.5);
+
+    const close = scene.add.text(60, PANEL_HEIGHT / 2 - 25, 'DONE', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#4a90e2',
+      padding: { x: 16, y: 6 },
+    }).setOrigin(0.5);
+    close.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.setVisible(false));
+
+    this.leaveButton = scene.add.text(-60, PANEL_HEIGHT / 2 - 25, 'LEAVE', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#aa3333',
+      padding: { x: 16, y: 6 },
+    }).setOrigin(0.5).setVisible(false);
+    this.leaveButton.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => void this.send('/api/guilds/leave', {}, 'You left the guild'));
+
+    this.add([shade, bg, title, this.headerText, this.rowsContainer, this.statusText, this.leaveButton, close]);
+    this.setDepth(100).setVisible(false);
+
+    scene.add.existing(this);
+  }
+
+  /**
+   * Show the panel and load the player's guild
+   */
+  public async open(): Promise<void> {
+    this.setVisible(true);
+    this.statusText.setText('Loading...').setColor('#ffffff');
+
+    try {
+      const response = await fetch('/api/guilds');
+      const data = await response.json() as GuildsResponse;
+      if (data.status !== 'success') {
+        throw new Error(data.message ?? 'Failed to load guilds');
+      }
+
+      this.render(data);
+    } catch (error) {
+      console.error('Failed to load guilds:', error);
+      this.statusText.setText('Could not load guilds.');
+    }
+  }
+
+  private render(data: GuildsResponse): void {
+    this.rowsContainer.removeAll(true);
+    this.leaveButton.setVisible(Boolean(data.guild));
+
+    if (data.guild && data.role) {
+      const { guild, role } = data;
+      this.headerText.setText(
+        `${formatGuildTag(guild.tag)} ${guild.name}\n` +
+        `${guild.memberCount}/${GUILD_MEMBER_CAP} members  •  ${guild.totalDamage.toLocaleString()} damage`
+      );
+      (data.members ?? []).slice(0, MAX_ROWS).forEach((member, index) => {
+        this.rowsContainer.add(this.createMemberRow(member, role, index * ROW_SPACING));
+      });
+      this.statusText.setText('');
+      return;
+    }
+
+    this.headerText.setText('You are not in a guild yet');
+    const guilds = data.guilds ?? [];
+    guilds.slice(0, MAX_ROWS).forEach((guild, index) => {
+      this.rowsContainer.add(this.createGuildRow(guild, index * ROW_SPACING));
+    });
+    this.statusText.setText(
+      `${guilds.length === 0 ? 'No guilds yet. ' : ''}Found your own from the post menu (⋯ › Found a guild).`
+    ).setColor('#cccccc');
+  }
+
+  private createMemberRow(member: GuildMember, viewerRole: GuildRole, y: number): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const rowWidth = this.getRowWidth();
+
+    const label = this.scene.add.text(-rowWidth / 2, 0,
+      `${ROLE_ICONS[member.role]} ${member.username ?? member.userId}  •  ${member.damage.toLocaleString()}`, {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: member.role === 'member' ? '#ffffff' : '#ffd700',
+    }).setOrigin(0, 0.5);
+    row.add(label);
+
+    // The owner promotes members and demotes officers; anyone senior can kick
+    if (canChangeRole(viewerRole) && member.role !== 'owner') {
+      const promote = member.role === 'member';
+      row.add(this.createRowButton(rowWidth / 2 - 120, promote ? 'PROMOTE' : 'DEMOTE', () =>
+        void this.send('/api/guilds/role', { userId: member.userId, role: promote ? 'officer' : 'member' }, 'Role updated')
+      ));
+    }
+    if (canKick(viewerRole, member.role)) {
+      row.add(this.createRowButton(rowWidth / 2 - 40, 'KICK', () =>
+        void this.send('/api/guilds/kick', { userId: member.userId }, 'Member kicked')
+      ));
+    }
+
+    return row;
+  }
+
+  private createGuildRow(guild: Guild, y: number): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const rowWidth = this.getRowWidth();
+    const isFull = guild.memberCount >= GUILD_MEMBER_CAP;
+
+    const label = this.scene.add.text(-rowWidth / 2, 0,
+      `${formatGuildTag(guild.tag)} ${guild.name}\n${guild.memberCount}/${GUILD_MEMBER_CAP}  •  ${guild.totalDamage.toLocaleString()} damage`, {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: isFull ? '#888888' : '#ffffff',
+      lineSpacing: 2,
+    }).setOrigin(0, 0.5);
+    row.add(label);
+
+    if (!isFull) {
+      row.add(this.createRowButton(rowWidth / 2 - 40, 'JOIN', () =>
+        void this.send('/api/guilds/join', { guildId: guild.id }, `Welcome to ${guild.name}!`)
+      ));
+    }
+
+    return row;
+  }
+
+  private createRowButton(x: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+    const button = this.scene.add.container(x, 0);
+    const bg = this.scene.add.rectangle(0, 0, 72, 26, GameConstants.COLORS.BUTTON_ENABLED)
+      .setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+    const text = this.scene.add.text(0, 0, label, {
+      fontFamily: 'Arial Black',
+      fontSize: '10px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    bg.setInteractive({ useHandCursor: true })
+      .on('pointerover', () => bg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER))
+      .on('pointerout', () => bg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED))
+      .on('pointerdown', onClick);
+
+    button.add([bg, text]);
+    return button;
+  }
+
+  private getRowWidth(): number {
+    return Math.min(this.scene.scale.width * 0.92, PANEL_WIDTH) - 30;
+  }
+
+  private async send(url: string, body: object, successMessage: string): Promise<void> {
+    if (this.isBusy) return;
+    this.isBusy = true;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json() as GuildsResponse;
+      if (data.status !== 'success') {
+        this.statusText.setText(data.message ?? 'Something went wrong').setColor('#ff4444');
+        return;
+      }
+
+      this.render(data);
+      this.statusText.setText(successMessage).setColor('#00ff00');
+    } catch (error) {
+      console.error(`Guild request to ${url} failed:`, error);
+      this.statusText.setText('Something went wrong').setColor('#ff4444');
+    } finally {
+      this.isBusy = false;
+    }
+  }
+}
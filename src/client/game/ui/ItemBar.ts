@@ -0,0 +1,57 @@
+import { Scene } from 'phaser';
+import { ActionButton, ButtonState } from './ActionButton';
+import { MobileUtils } from '../utils/MobileUtils';
+import { ItemType } from '../../../shared/types/api';
+import { BATTLE_ITEM_TYPES, ITEMS } from '../../../shared/game/items';
+
+/**
+ * ItemBar - Column of consumable buttons showing how many of each item the player holds
+ * Buttons only report taps; the scene uses the item through the server and feeds back the new counts
+ */
+export class ItemBar extends Phaser.GameObjects.Container {
+  private buttons: Map<ItemType, ActionButton> = new Map();
+  private counts: Record<ItemType, number> = { potion: 0, scroll: 0, streak_saver: 0 };
+
+  constructor(scene: Scene, x: number, y: number, onUse: (item: ItemType) => void) {
+    super(scene, x, y);
+
+    const buttonWidth = MobileUtils.isMobile() ? 80 : 70;
+    const buttonHeight = MobileUtils.isMobile() ? 50 : 45;
+    const spacing = 60;
+
+    BATTLE_ITEM_TYPES.forEach((item, index) => {
+      const button = new ActionButton(scene, {
+        x: 0,
+        y: index * spacing - ((BATTLE_ITEM_TYPES.length - 1) * spacing) / 2,
+        width: buttonWidth,
+        height: buttonHeight,
+        text: this.getLabel(item),
+        callback: () => onUse(item)
+      });
+      button.setButtonState(ButtonState.DISABLED);
+      this.buttons.set(item, button);
+      this.add(button);
+    });
+
+    scene.add.existing(this);
+  }
+
+  /**
+   * Show the player's item balances; buttons for items they're out of are disabled
+   */
+  public setCounts(items: Record<ItemType, number>): void {
+    this.counts = { ...items };
+    this.buttons.forEach((button, item) => {
+      button.setText(this.getLabel(item));
+      button.setButtonState(this.counts[item] > 0 ? ButtonState.ENABLED : ButtonState.DISABLED);
+    });
+  }
+
+  public getButton(item: ItemType): ActionButton | undefined {
+    return this.buttons.get(item);
+  }
+
+  private getLabel(item: ItemType): string {
+    return `${ITEMS[item].icon} ${this.counts[item]}`;
+  }
+}
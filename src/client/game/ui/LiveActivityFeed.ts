@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
 import { RecentAttacker } from '../../../shared/types/api';
 import { GameConstants } from '../utils/GameConstants';
+import { ITEMS } from '../../../shared/game/items';
 
 /**
  * LiveActivityFeed - Shows scrolling ticker of recent attacks: "u/Player1 dealt 234 damage (5s ago)"
@@ -152,7 +153,9 @@ export class LiveActivityFeed {
     const tickerMessages: string[] = [];
     this.recentAttackers.forEach(attacker => {
       const timeAgo = this.getTimeAgo(attacker.timestamp);
-      const message = `${attacker.redditUsername} dealt ${attacker.damage.toLocaleString()} damage (${timeAgo})`;
+      // Buffed hits carry the item's icon so everyone sees who is boosted
+      const buffIcon = attacker.buff ? ` ${ITEMS[attacker.buff.item].icon}` : '';
+      const message = `${attacker.redditUsername} dealt ${attacker.damage.toLocaleString()} damage${buffIcon} (${timeAgo})`;
       tickerMessages.push(message);
     });
 
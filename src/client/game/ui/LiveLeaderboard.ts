@@ -1,16 +1,23 @@
 import { Scene } from 'phaser';
-import { LeaderboardEntry } from '../../../shared/types/api';
+import { GuildLeaderboardEntry, LeaderboardEntry, LiveLeaderboardResponse } from '../../../shared/types/api';
 import { GameConstants } from '../utils/GameConstants';
+import { getPrestigeBadge } from '../../../shared/game/progression';
+import { formatGuildTag } from '../../../shared/game/guilds';
 // import { MobileUtils } from '../utils/MobileUtils'; // Unused import
 
 /**
  * LiveLeaderboard - Swipe-up overlay showing Top 20 leaderboard with real-time updates
+ * A tab switches between players and guilds (by damage dealt in this raid)
  */
 export class LiveLeaderboard {
   private scene: Scene;
   private container: Phaser.GameObjects.Container;
   private background: Phaser.GameObjects.Graphics;
   private leaderboardEntries: LeaderboardEntry[] = [];
+  private guildEntries: GuildLeaderboardEntry[] = [];
+  private mode: 'players' | 'guilds' = 'players';
+  private playersTab?: Phaser.GameObjects.Text;
+  private guildsTab?: Phaser.GameObjects.Text;
   private entryElements: Phaser.GameObjects.Container[] = [];
   private updateTimer?: Phaser.Time.TimerEvent;
   private isVisible: boolean = false;
@@ -42,7 +49,7 @@ export class LiveLeaderboard {
     this.container.add(header);
 
     // Title
-    const title = this.scene.add.text(width / 2, 40, 'Top 10 Leaderboard', {
+    const title = this.scene.add.text(width / 2, 26, 'Top 10 Leaderboard', {
       fontFamily: 'Arial Black',
       fontSize: '24px',
       color: '#ffffff',
@@ -51,6 +58,11 @@ export class LiveLeaderboard {
     }).setOrigin(0.5);
     this.container.add(title);
 
+    // Players / Guilds tabs under the title
+    this.playersTab = this.createTab(width / 2 - 60, 'PLAYERS', 'players');
+    this.guildsTab = this.createTab(width / 2 + 60, 'GUILDS', 'guilds');
+    this.updateTabs();
+
     // Close button
     const closeButton = this.scene.add.text(width - 20, 40, '✕', {
       fontFamily: 'Arial Black',
@@ -70,6 +82,27 @@ export class LiveLeaderboard {
     this.container.add(swipeHint);
   }
 
+  private createTab(x: number, label: string, mode: 'players' | 'guilds'): Phaser.GameObjects.Text {
+    const tab = this.scene.add.text(x, 62, label, {
+      fontFamily: 'Arial Black',
+      fontSize: '13px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+    tab.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => {
+        this.mode = mode;
+        this.updateTabs();
+        this.refreshDisplay();
+      });
+    this.container.add(tab);
+    return tab;
+  }
+
+  private updateTabs(): void {
+    this.playersTab?.setColor(this.mode === 'players' ? '#ffd700' : '#888888');
+    this.guildsTab?.setColor(this.mode === 'guilds' ? '#ffd700' : '#888888');
+  }
+
   private createSwipeZone(): void {
     const { width, height } = this.scene.scale;
     
@@ -121,8 +154,9 @@ export class LiveLeaderboard {
     try {
       const response = await fetch('/api/live-leaderboard');
       if (response.ok) {
-        const data = await response.json();
+        const data = await response.json() as LiveLeaderboardResponse;
         if (data.status === 'success') {
+          this.guildEntries = data.guildLeaderboard ?? [];
           this.updateLeaderboard(data.leaderboard, data.currentUserRank);
         }
       }
@@ -174,6 +208,11 @@ export class LiveLeaderboard {
     const { width } = this.scene.scale;
     const startY = 100;
 
+    if (this.mode === 'guilds') {
+      this.refreshGuildDisplay(startY, width);
+      return;
+    }
+
     // Create leaderboard entries
     this.leaderboardEntries.forEach((entry, index) => {
       const y = startY + (index * 35);
@@ -183,6 +222,66 @@ export class LiveLeaderboard {
     });
   }
 
+  private refreshGuildDisplay(startY: number, width: number): void {
+    if (this.guildEntries.length === 0) {
+      const empty = this.scene.add.text(width / 2, startY + 20, 'No guild damage in this raid yet', {
+        fontFamily: 'Arial',
+        fontSize: '14px',
+        color: '#cccccc',
+      }).setOrigin(0.5);
+      const emptyContainer = this.scene.add.container(0, 0, [empty]);
+      this.container.add(emptyContainer);
+      this.entryElements.push(emptyContainer);
+      return;
+    }
+
+    this.guildEntries.slice(0, 10).forEach((entry, index) => {
+      const entryContainer = this.createGuildEntry(entry, startY + (index * 35), width);
+      this.container.add(entryContainer);
+      this.entryElements.push(entryContainer);
+    });
+  }
+
+  private createGuildEntry(entry: GuildLeaderboardEntry, y: number, width: number): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(0, y);
+
+    const bg = this.scene.add.graphics();
+    bg.fillStyle(entry.rank <= 3 ? 0x333333 : 0x222222, 0.8);
+    bg.fillRect(10, -15, width - 20, 30);
+    container.add(bg);
+
+    const rankIcons = ['🥇', '🥈', '🥉'];
+    const rank = this.scene.add.text(30, 0, rankIcons[entry.rank - 1] ?? `${entry.rank}`, {
+      fontFamily: 'Arial Black',
+      fontSize: entry.rank <= 3 ? '16px' : '14px',
+      color: '#ffffff',
+    }).setOrigin(0, 0.5);
+    container.add(rank);
+
+    const name = this.scene.add.text(70, -5, `${formatGuildTag(entry.tag)} ${entry.name}`, {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: '#ffffff',
+    }).setOrigin(0, 0.5);
+    container.add(name);
+
+    const members = this.scene.add.text(70, 8, `${entry.memberCount} members`, {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color: '#cccccc',
+    }).setOrigin(0, 0.5);
+    container.add(members);
+
+    const damage = this.scene.add.text(width - 30, 0, entry.damage.toLocaleString(), {
+      fontFamily: 'Arial Black',
+      fontSize: '12px',
+      color: '#00ff00',
+    }).setOrigin(1, 0.5);
+    container.add(damage);
+
+    return container;
+  }
+
   private createLeaderboardEntry(entry: LeaderboardEntry, y: number, width: number): Phaser.GameObjects.Container {
     const container = this.scene.add.container(0, y);
     
@@ -253,11 +352,14 @@ export class LiveLeaderboard {
       usernameStyle.strokeThickness = 2;
     }
     
-    const username = this.scene.add.text(90, -5, entry.redditUsername || entry.username || 'Unknown', usernameStyle).setOrigin(0, 0.5);
+    const guildTag = entry.guildTag ? `${formatGuildTag(entry.guildTag)} ` : '';
+    const username = this.scene.add.text(90, -5, `${guildTag}${entry.redditUsername || entry.username || 'Unknown'}`, usernameStyle).setOrigin(0, 0.5);
     container.add(username);
 
     // Class and level
-    const classLevel = this.scene.add.text(90, 8, `Lv.${entry.level} ${this.capitalizeFirst(entry.characterClass)}`, {
+    const badge = getPrestigeBadge(entry.prestigeRank ?? 0);
+    const title = entry.title ? ` • ${entry.title}` : '';
+    const classLevel = this.scene.add.text(90, 8, `${badge ? `${badge} ` : ''}Lv.${entry.level} ${this.capitalizeFirst(entry.characterClass)}${title}`, {
       fontFamily: 'Arial',
       fontSize: '10px',
       color: isCurrentUser ? '#ffff88' : '#cccccc',
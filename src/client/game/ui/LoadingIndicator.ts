@@ -322,7 +322,7 @@ export const LOADING_TIPS = [
   'Tip: Sessions last 2 minutes - make every attack count!',
   'Tip: Check the leaderboard to see top damage dealers',
   'Tip: Share your results on Reddit to celebrate victories',
-  'Tip: Bosses change daily at 8 AM - each has unique themes',
+  'Tip: Bosses change at every daily reset - each has unique themes',
   'Tip: Mobile users can tap rapidly for quick attacks',
   'Tip: Victory celebrations unlock when the boss is defeated'
 ] as const;
@@ -0,0 +1,151 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { QuestStatus, QuestsResponse } from '../../../shared/types/api';
+import { ITEMS, isItemType } from '../../../shared/game/items';
+
+const PANEL_WIDTH = 440;
+const PANEL_HEIGHT = 330;
+const ROW_SPACING = 54;
+
+const CURRENCY_ICONS: Record<string, string> = { coins: '🪙', gems: '💎' };
+
+/**
+ * QuestPanel - Overlay listing the player's daily and weekly quests
+ * Progress comes from the server; completed quests are claimed through it
+ */
+export class QuestPanel extends Phaser.GameObjects.Container {
+  private rowsContainer: Phaser.GameObjects.Container;
+  private statusText: Phaser.GameObjects.Text;
+  private isClaiming: boolean = false;
+
+  constructor(scene: Scene) {
+    super(scene, scene.scale.width / 2, scene.scale.height / 2);
+
+    const { width, height } = scene.scale;
+    const panelWidth = Math.min(width * 0.92, PANEL_WIDTH);
+
+    // Dim everything behind the panel and swallow clicks
+    const shade = scene.add.rectangle(0, 0, width, height, 0x000000, 0.6).setInteractive();
+    const bg = scene.add.rectangle(0, 0, panelWidth, PANEL_HEIGHT, 0x222222, 0.95).setStrokeStyle(3, 0xffd700);
+    const title = scene.add.text(0, -PANEL_HEIGHT / 2 + 24, 'QUESTS', {
+      fontFamily: 'Arial Black',
+      fontSize: '22px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    this.rowsContainer = scene.add.container(0, -PANEL_HEIGHT / 2 + 70);
+
+    this.statusText = scene.add.text(0, PANEL_HEIGHT / 2 - 58, '', {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    const close = scene.add.text(0, PANEL_HEIGHT / 2 - 25, 'DONE', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#4a90e2',
+      padding: { x: 16, y: 6 },
+    }).setOrigin(0.5);
+    close.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.setVisible(false));
+
+    this.add([shade, bg, title, this.rowsContainer, this.statusText, close]);
+    this.setDepth(100).setVisible(false);
+
+    scene.add.existing(this);
+  }
+
+  /**
+   * Show the panel and load the latest progress
+   */
+  public async open(): Promise<void> {
+    this.setVisible(true);
+    this.statusText.setText('Loading...');
+
+    try {
+      const response = await fetch('/api/quests');
+      const data = await response.json() as QuestsResponse;
+      if (data.status !== 'success' || !data.quests) {
+        throw new Error(data.message ?? 'Failed to load quests');
+      }
+
+      this.statusText.setText('');
+      this.renderQuests(data.quests);
+    } catch (error) {
+      console.error('Failed to load quests:', error);
+      this.statusText.setText('Could not load your quests.');
+    }
+  }
+
+  private renderQuests(quests: QuestStatus[]): void {
+    this.rowsContainer.removeAll(true);
+    quests.forEach((quest, index) => {
+      this.rowsContainer.add(this.createRow(quest, index * ROW_SPACING));
+    });
+  }
+
+  private createRow(quest: QuestStatus, y: number): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const rowWidth = Math.min(this.scene.scale.width * 0.92, PANEL_WIDTH) - 30;
+    const complete = quest.progress >= quest.target;
+    const rewardIcon = isItemType(quest.reward.asset) ? ITEMS[quest.reward.asset].icon : CURRENCY_ICONS[quest.reward.asset];
+
+    const label = this.scene.add.text(-rowWidth / 2, 0,
+      `${quest.period === 'weekly' ? '📆 Weekly: ' : ''}${quest.description}\n` +
+      `${quest.progress.toLocaleString()} / ${quest.target.toLocaleString()}  •  ${rewardIcon ?? ''} ${quest.reward.amount}`, {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: quest.claimed ? '#888888' : complete ? '#00ff88' : '#ffffff',
+      lineSpacing: 3,
+    }).setOrigin(0, 0.5);
+
+    const canClaim = complete && !quest.claimed;
+    const buttonBg = this.scene.add.rectangle(rowWidth / 2 - 40, 0, 80, 30,
+      canClaim ? GameConstants.COLORS.BUTTON_ENABLED : GameConstants.COLORS.BUTTON_DISABLED
+    ).setStrokeStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+    const buttonText = this.scene.add.text(rowWidth / 2 - 40, 0, quest.claimed ? 'DONE' : 'CLAIM', {
+      fontFamily: 'Arial Black',
+      fontSize: '12px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    row.add([label, buttonBg, buttonText]);
+
+    if (canClaim) {
+      buttonBg.setInteractive({ useHandCursor: true })
+        .on('pointerover', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_HOVER))
+        .on('pointerout', () => buttonBg.setFillStyle(GameConstants.COLORS.BUTTON_ENABLED))
+        .on('pointerdown', () => void this.claim(quest));
+    }
+
+    return row;
+  }
+
+  private async claim(quest: QuestStatus): Promise<void> {
+    if (this.isClaiming) return;
+    this.isClaiming = true;
+
+    try {
+      const response = await fetch('/api/quests/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questId: quest.id })
+      });
+      const data = await response.json() as QuestsResponse;
+      if (data.status !== 'success' || !data.quests) {
+        this.statusText.setText(data.message ?? 'Could not claim the reward').setColor('#ff4444');
+        return;
+      }
+
+      this.statusText.setText('Reward claimed!').setColor('#00ff00');
+      this.renderQuests(data.quests);
+    } catch (error) {
+      console.error('Failed to claim quest:', error);
+      this.statusText.setText('Could not claim the reward').setColor('#ff4444');
+    } finally {
+      this.isClaiming = false;
+    }
+  }
+}
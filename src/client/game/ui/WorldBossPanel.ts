@@ -0,0 +1,143 @@
+import { Scene } from 'phaser';
+import { GameConstants } from '../utils/GameConstants';
+import { WorldBossResponse, WorldBossStatus } from '../../../shared/types/api';
+
+const PANEL_WIDTH = 440;
+const PANEL_HEIGHT = 360;
+const BAR_HEIGHT = 16;
+const ROW_SPACING = 22;
+const MAX_ROWS = 8;
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+/**
+ * WorldBossPanel - Overlay with the boss shared by every opted-in subreddit
+ * Shows the global HP pool and the subreddit leaderboard
+ */
+export class WorldBossPanel extends Phaser.GameObjects.Container {
+  private nameText: Phaser.GameObjects.Text;
+  private hpBar: Phaser.GameObjects.Graphics;
+  private hpText: Phaser.GameObjects.Text;
+  private rowsContainer: Phaser.GameObjects.Container;
+  private statusText: Phaser.GameObjects.Text;
+
+  constructor(scene: Scene) {
+    super(scene, scene.scale.width / 2, scene.scale.height / 2);
+
+    const { width, height } = scene.scale;
+    const panelWidth = Math.min(width * 0.92, PANEL_WIDTH);
+
+    // Dim everything behind the panel and swallow clicks
+    const shade = scene.add.rectangle(0, 0, width, height, 0x000000, 0.6).setInteractive();
+    const bg = scene.add.rectangle(0, 0, panelWidth, PANEL_HEIGHT, 0x222222, 0.95).setStrokeStyle(3, 0xffd700);
+    const title = scene.add.text(0, -PANEL_HEIGHT / 2 + 24, 'WORLD BOSS', {
+      fontFamily: 'Arial Black',
+      fontSize: '22px',
+      color: '#ffd700',
+    }).setOrigin(0.5);
+
+    this.nameText = scene.add.text(0, -PANEL_HEIGHT / 2 + 54, '', {
+      fontFamily: 'Arial Black',
+      fontSize: '15px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    this.hpBar = scene.add.graphics();
+    this.hpText = scene.add.text(0, -PANEL_HEIGHT / 2 + 80, '', {
+      fontFamily: 'Arial',
+      fontSize: '11px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5);
+
+    this.rowsContainer = scene.add.container(0, -PANEL_HEIGHT / 2 + 112);
+
+    this.statusText = scene.add.text(0, PANEL_HEIGHT / 2 - 58, '', {
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: panelWidth - 30 },
+    }).setOrigin(0.5);
+
+    const close = scene.add.text(0, PANEL_HEIGHT / 2 - 25, 'DONE', {
+      fontFamily: 'Arial Black',
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#4a90e2',
+      padding: { x: 16, y: 6 },
+    }).setOrigin(0.5);
+    close.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.setVisible(false));
+
+    this.add([shade, bg, title, this.nameText, this.hpBar, this.hpText, this.rowsContainer, this.statusText, close]);
+    this.setDepth(100).setVisible(false);
+
+    scene.add.existing(this);
+  }
+
+  /**
+   * Show the panel and load the latest standings
+   */
+  public async open(): Promise<void> {
+    this.setVisible(true);
+    this.statusText.setText('Loading...').setColor('#ffffff');
+
+    try {
+      const response = await fetch('/api/world-boss');
+      const data = await response.json() as WorldBossResponse;
+      if (data.status !== 'success' || !data.worldBoss) {
+        throw new Error(data.message ?? 'Failed to load the world boss');
+      }
+
+      this.renderStatus(data.worldBoss);
+    } catch (error) {
+      console.error('Failed to load world boss:', error);
+      this.statusText.setText('Could not load the world boss.');
+    }
+  }
+
+  private renderStatus(worldBoss: WorldBossStatus): void {
+    const barWidth = Math.min(this.scene.scale.width * 0.92, PANEL_WIDTH) - 40;
+    const barY = -PANEL_HEIGHT / 2 + 80;
+    const hpPercent = worldBoss.maxHP > 0 ? worldBoss.currentHP / worldBoss.maxHP : 0;
+
+    this.nameText.setText(`🌍 ${worldBoss.name}`);
+
+    this.hpBar.clear();
+    this.hpBar.fillStyle(GameConstants.COLORS.UI_PRIMARY);
+    this.hpBar.fillRect(-barWidth / 2, barY - BAR_HEIGHT / 2, barWidth, BAR_HEIGHT);
+    this.hpBar.fillStyle(GameConstants.COLORS.HP_BAR);
+    this.hpBar.fillRect(-barWidth / 2, barY - BAR_HEIGHT / 2, barWidth * hpPercent, BAR_HEIGHT);
+    this.hpBar.lineStyle(2, GameConstants.COLORS.TEXT_PRIMARY);
+    this.hpBar.strokeRect(-barWidth / 2, barY - BAR_HEIGHT / 2, barWidth, BAR_HEIGHT);
+    this.hpText.setText(`${worldBoss.currentHP.toLocaleString()} / ${worldBoss.maxHP.toLocaleString()} HP`);
+
+    this.rowsContainer.removeAll(true);
+    worldBoss.subreddits.slice(0, MAX_ROWS).forEach((entry, index) => {
+      this.rowsContainer.add(this.scene.add.text(-barWidth / 2, index * ROW_SPACING,
+        `${MEDALS[entry.rank - 1] ?? `${entry.rank}.`} r/${entry.subredditName}`, {
+        fontFamily: 'Arial',
+        fontSize: '13px',
+        color: entry.subredditName === worldBoss.winner ? '#ffd700' : '#ffffff',
+      }).setOrigin(0, 0.5));
+      this.rowsContainer.add(this.scene.add.text(barWidth / 2, index * ROW_SPACING,
+        entry.damage.toLocaleString(), {
+        fontFamily: 'Arial',
+        fontSize: '13px',
+        color: '#ff6b6b',
+      }).setOrigin(1, 0.5));
+    });
+
+    if (worldBoss.winner) {
+      this.statusText.setText(`Defeated! r/${worldBoss.winner} dealt the most damage.`).setColor('#00ff88');
+    } else if (!worldBoss.participating) {
+      this.statusText.setText('This subreddit hasn\'t joined the world boss. Moderators can opt in from the app settings.').setColor('#aaaaaa');
+    } else if (worldBoss.subreddits.length === 0) {
+      this.statusText.setText('No subreddit has landed a hit yet. Attack today\'s boss to strike it!').setColor('#ffffff');
+    } else {
+      this.statusText.setText('Every hit on today\'s boss also strikes the world boss.').setColor('#ffffff');
+    }
+  }
+}
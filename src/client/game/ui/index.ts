@@ -2,6 +2,11 @@ export { BattleHUD } from './BattleHUD';
 export { ActionButton, ButtonState, type ActionButtonConfig } from './ActionButton';
 export { DamageNumber, DamageNumberPool, type DamageNumberConfig } from './DamageNumber';
 export { StatusMessage, StatusMessageQueue, StatusMessageType, type StatusMessageConfig } from './StatusMessage';
+export { ItemBar } from './ItemBar';
+export { FactionWarBar } from './FactionWarBar';
+export { QuestPanel } from './QuestPanel';
+export { GuildPanel } from './GuildPanel';
+export { WorldBossPanel } from './WorldBossPanel';
 export { LiveActivityFeed } from './LiveActivityFeed';
 export { LiveLeaderboard } from './LiveLeaderboard';
 export { LoadingIndicator, type LoadingConfig, LOADING_TIPS, getRandomTip } from './LoadingIndicator';
\ No newline at end of file
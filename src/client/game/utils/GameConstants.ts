@@ -20,7 +20,6 @@ export class GameConstants {
   static readonly BOSS_MAX_HP = 50000;
   static readonly FULL_ENERGY_BONUS = 1.2; // 20% bonus
   static readonly CRIT_MULTIPLIER = 3;
-  static readonly PHASE2_RESISTANCE = 0.9; // 10% reduction
   static readonly ROGUE_CRIT_CHANCE = 0.3; // 30%
   static readonly DEFAULT_CRIT_CHANCE = 0.1; // 10%
   
@@ -29,6 +28,7 @@ export class GameConstants {
   static readonly BOSS_ATTACK_INTERVAL_MAX = 15000; // 15 seconds
   static readonly BOSS_DAMAGE_MIN = 50;
   static readonly BOSS_DAMAGE_MAX = 150;
+  static readonly BOSS_ABILITY_SYNC_INTERVAL = 3000; // Poll server-run boss abilities every 3 seconds
 
   // Animation timings - simplified for 0.8-second attack sequence
   static readonly ATTACK_SEQUENCE_DURATION = 800; // 0.8 seconds (per requirements 1.2, 1.3, 7.1, 7.2)
@@ -62,9 +62,7 @@ export class GameConstants {
   static readonly HUD_BOTTOM_HEIGHT = 100;
   static readonly BATTLE_AREA_HEIGHT = 400;
 
-  // Boss phases
-  static readonly BOSS_PHASE2_THRESHOLD = 0.75; // 75% HP
-  static readonly BOSS_ENRAGE_THRESHOLD = 0.25; // 25% HP
+  // Boss phase thresholds and resistances come from the shared boss roster (BossData)
 
   // Community simulation
   static readonly COMMUNITY_ATTACK_INTERVAL_MIN = 3000; // 3 seconds
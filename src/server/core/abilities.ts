@@ -0,0 +1,211 @@
+import { redis } from '@devvit/web/server';
+import {
+  BossAbilityDefinition,
+  BossAbilityState,
+  getAbilityPhase
+} from '../../shared/game/abilities';
+import { BossDefinition } from '../../shared/game/bosses';
+import { BossState } from '../../shared/types/api';
+
+// What gets stored while an ability runs; the broadcast state is derived from it
+interface AbilityInstance {
+  instanceId: string;
+  abilityId: string;
+  startedAt: number;
+  activeAt: number;
+  endsAt: number;
+  damageAtStart: number;
+}
+
+export interface AbilityDamageResult {
+  damage: number;          // Damage that reaches the boss
+  reflectedDamage: number; // Damage bounced back at the attacker
+}
+
+export class BossAbilityManager {
+  // The ability currently running (one at a time per boss)
+  private static getActiveKey(postId: string): string {
+    return `boss_ability_active:${postId}`;
+  }
+
+  // Which triggers have fired and how countdowns resolved
+  private static getLogKey(postId: string): string {
+    return `boss_ability_log:${postId}`;
+  }
+
+  /**
+   * Advance the boss's abilities and return what is running right now
+   * Safe to call from every request: triggers and resolutions are claimed atomically
+   */
+  public static async tick(
+    postId: string,
+    bossData: BossDefinition,
+    bossState: BossState,
+    now: number = Date.now()
+  ): Promise<BossAbilityState | undefined> {
+    try {
+      if (bossState.currentHP <= 0 || bossData.abilities.length === 0) {
+        return undefined;
+      }
+
+      const log = await redis.hGetAll(this.getLogKey(postId)) ?? {};
+      const stored = await redis.get(this.getActiveKey(postId));
+
+      if (stored) {
+        const instance = JSON.parse(stored) as AbilityInstance;
+        const definition = bossData.abilities.find(ability => ability.id === instance.abilityId);
+        if (definition) {
+          const state = await this.buildState(postId, definition, instance, bossState, log, now);
+          if (getAbilityPhase(state, now)) {
+            return state;
+          }
+        }
+
+        // Finished - free the slot unless another request already started the next ability
+        if (await redis.get(this.getActiveKey(postId)) === stored) {
+          await redis.del(this.getActiveKey(postId));
+        }
+      }
+
+      return await this.tryStartAbility(postId, bossData, bossState, log, now);
+    } catch (error) {
+      console.error('Error updating boss abilities:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply the running ability to an attack
+   */
+  public static applyToDamage(ability: BossAbilityState | undefined, damage: number): AbilityDamageResult {
+    if (!ability || ability.phase === 'telegraph') {
+      return { damage, reflectedDamage: 0 };
+    }
+
+    return {
+      damage: Math.floor(damage * ability.damageMultiplier),
+      reflectedDamage: Math.floor(damage * ability.reflectPercent)
+    };
+  }
+
+  /**
+   * Clear ability state (when the boss resets)
+   */
+  public static async clearAbilities(postId: string): Promise<void> {
+    await redis.del(this.getActiveKey(postId), this.getLogKey(postId));
+  }
+
+  /**
+   * Start the first ability whose trigger is due, if the slot is free
+   */
+  private static async tryStartAbility(
+    postId: string,
+    bossData: BossDefinition,
+    bossState: BossState,
+    log: Record<string, string>,
+    now: number
+  ): Promise<BossAbilityState | undefined> {
+    const hpPercentage = bossState.currentHP / bossState.maxHP;
+
+    for (const definition of bossData.abilities) {
+      const durationMs = (definition.telegraphSeconds + definition.durationSeconds) * 1000;
+      let triggerKey: string | undefined;
+      let startedAt = now;
+
+      if (definition.trigger.type === 'hp') {
+        if (hpPercentage <= definition.trigger.threshold && !log[`fired:${definition.id}`]) {
+          triggerKey = `fired:${definition.id}`;
+        }
+      } else if (bossState.spawnedAt !== undefined) {
+        // Timer abilities are anchored to the spawn time so every raider sees the same schedule
+        const intervalMs = definition.trigger.intervalMinutes * 60 * 1000;
+        const cycle = Math.floor((now - bossState.spawnedAt) / intervalMs);
+        const cycleStart = bossState.spawnedAt + cycle * intervalMs;
+        if (cycle >= 1 && now < cycleStart + durationMs && !log[`fired:${definition.id}:${cycle}`]) {
+          triggerKey = `fired:${definition.id}:${cycle}`;
+          startedAt = cycleStart;
+        }
+      }
+
+      if (!triggerKey) {
+        continue;
+      }
+
+      const instance: AbilityInstance = {
+        instanceId: `${definition.id}:${startedAt}`,
+        abilityId: definition.id,
+        startedAt,
+        activeAt: startedAt + definition.telegraphSeconds * 1000,
+        endsAt: startedAt + durationMs,
+        damageAtStart: bossState.totalDamageDealt
+      };
+
+      // Claim the slot; losing means another request started an ability first
+      const serialized = JSON.stringify(instance);
+      const expiresAt = instance.endsAt + ((definition.penaltySeconds ?? 0) + 600) * 1000;
+      await redis.set(this.getActiveKey(postId), serialized, { nx: true, expiration: new Date(expiresAt) });
+      const claimed = await redis.get(this.getActiveKey(postId));
+      if (claimed !== serialized) {
+        return undefined;
+      }
+
+      await redis.hSet(this.getLogKey(postId), { [triggerKey]: now.toString() });
+      console.log(`Boss ability ${definition.id} triggered for post ${postId}`);
+      return await this.buildState(postId, definition, instance, bossState, log, now);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Derive the broadcast state, resolving a finished countdown exactly once
+   */
+  private static async buildState(
+    postId: string,
+    definition: BossAbilityDefinition,
+    instance: AbilityInstance,
+    bossState: BossState,
+    log: Record<string, string>,
+    now: number
+  ): Promise<BossAbilityState> {
+    const state: BossAbilityState = {
+      instanceId: instance.instanceId,
+      abilityId: definition.id,
+      name: definition.name,
+      kind: definition.kind,
+      phase: 'telegraph',
+      message: now < instance.activeAt ? definition.warning : definition.message,
+      startedAt: instance.startedAt,
+      activeAt: instance.activeAt,
+      endsAt: instance.endsAt,
+      damageMultiplier: definition.kind === 'shield' ? definition.damageMultiplier ?? 0.5 : 1,
+      reflectPercent: definition.kind === 'reflect' ? definition.reflectPercent ?? 0.25 : 0
+    };
+
+    if (definition.kind === 'countdown') {
+      const requiredDamage = Math.ceil(bossState.maxHP * (definition.requiredDamagePercent ?? 0.05));
+      const damageDealt = Math.max(0, bossState.totalDamageDealt - instance.damageAtStart);
+      let outcome = log[`resolved:${instance.instanceId}`] as 'met' | 'missed' | undefined;
+
+      if (!outcome && now >= instance.endsAt) {
+        // First request after the deadline decides the outcome for everyone
+        const decided = damageDealt >= requiredDamage ? 'met' : 'missed';
+        const field = `resolved:${instance.instanceId}`;
+        const won = await redis.hSetNX(this.getLogKey(postId), field, decided);
+        outcome = won ? decided : (await redis.hGetAll(this.getLogKey(postId)))?.[field] as 'met' | 'missed' | undefined;
+      }
+
+      state.countdown = { requiredDamage, damageDealt: Math.min(damageDealt, requiredDamage), outcome };
+      if (outcome === 'missed') {
+        state.penaltyEndsAt = instance.endsAt + (definition.penaltySeconds ?? 60) * 1000;
+        state.damageMultiplier = definition.penaltyMultiplier ?? 0.5;
+        state.message = `Deadline missed! Damage reduced for ${definition.penaltySeconds ?? 60}s`;
+      } else if (outcome === 'met') {
+        state.message = 'Deadline met!';
+      }
+    }
+
+    state.phase = getAbilityPhase(state, now) ?? 'active';
+    return state;
+  }
+}
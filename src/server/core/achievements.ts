@@ -0,0 +1,114 @@
+import { redis } from '@devvit/web/server';
+import { AchievementStatus, AchievementUnlock } from '../../shared/types/api';
+import { ACHIEVEMENTS, AchievementStats, isAchievementMet } from '../../shared/game/achievements';
+import { ProfileManager } from './profile';
+import { StreakManager } from './streaks';
+
+// What one action adds to the lifetime counters
+export interface AchievementProgress {
+  attacks?: number;
+  crits?: number;
+  specials?: number;
+  killingBlows?: number;
+  claims?: number;
+  hit?: number; // Damage of the hit itself (feeds the best hit)
+}
+
+const COUNTERS = ['attacks', 'crits', 'specials', 'killingBlows', 'claims'] as const;
+
+export class AchievementManager {
+  // Lifetime counters the profile doesn't keep
+  private static getStatsKey(userId: string): string {
+    return `achievement_stats:${userId}`;
+  }
+
+  // Achievement id -> unlock time
+  private static getUnlockedKey(userId: string): string {
+    return `achievements:${userId}`;
+  }
+
+  /**
+   * Count an action toward the player's stats and unlock whatever it completes
+   * @returns Achievements unlocked by this action
+   */
+  public static async record(userId: string, progress: AchievementProgress): Promise<AchievementUnlock[]> {
+    const key = this.getStatsKey(userId);
+
+    for (const counter of COUNTERS) {
+      const amount = progress[counter];
+      if (amount) {
+        await redis.hIncrBy(key, counter, amount);
+      }
+    }
+
+    if (progress.hit && progress.hit > parseInt(await redis.hGet(key, 'bestHit') ?? '0')) {
+      await redis.hSet(key, { bestHit: progress.hit.toString() });
+    }
+
+    return await this.unlockCompleted(userId);
+  }
+
+  /**
+   * Gallery view: every achievement with the player's progress toward it
+   */
+  public static async getAchievements(userId: string): Promise<AchievementStatus[]> {
+    const stats = await this.getStats(userId);
+    const unlocked = await redis.hGetAll(this.getUnlockedKey(userId)) ?? {};
+
+    return ACHIEVEMENTS.map(({ stat, ...achievement }) => {
+      const unlockedAt = unlocked[achievement.id];
+      return {
+        ...achievement,
+        progress: Math.min(stats[stat], achievement.target),
+        ...(unlockedAt && { unlockedAt: parseInt(unlockedAt) })
+      };
+    });
+  }
+
+  public static async getStats(userId: string): Promise<AchievementStats> {
+    const fields = await redis.hGetAll(this.getStatsKey(userId)) ?? {};
+    const profile = await ProfileManager.getProfile(userId);
+    const streak = await StreakManager.getStreak(userId);
+    const count = (field: string) => parseInt(fields[field] ?? '0');
+
+    return {
+      attacks: count('attacks'),
+      crits: count('crits'),
+      specials: count('specials'),
+      killingBlows: count('killingBlows'),
+      claims: count('claims'),
+      bestHit: count('bestHit'),
+      raidDays: streak.raidDays,
+      dayStreak: streak.best,
+      totalDamage: profile.totalDamage,
+      classesPlayed: Object.values(profile.classHistory).filter((entry) => entry && entry.damage > 0).length,
+      prestigeRank: profile.prestigeRank
+    };
+  }
+
+  /**
+   * Unlock every achievement whose stat reached its target
+   * Each unlock is written with hSetNX, so parallel requests report it once
+   */
+  private static async unlockCompleted(userId: string): Promise<AchievementUnlock[]> {
+    const key = this.getUnlockedKey(userId);
+    const stats = await this.getStats(userId);
+    const unlocked = await redis.hGetAll(key) ?? {};
+    const unlocks: AchievementUnlock[] = [];
+
+    for (const achievement of ACHIEVEMENTS) {
+      if (unlocked[achievement.id] || !isAchievementMet(achievement, stats)) {
+        continue;
+      }
+
+      const unlockedAt = Date.now();
+      if (await redis.hSetNX(key, achievement.id, unlockedAt.toString())) {
+        const { id, name, description, icon } = achievement;
+        unlocks.push({ id, name, description, icon, unlockedAt });
+        console.log(`${userId} unlocked achievement ${id}`);
+      }
+    }
+
+    return unlocks;
+  }
+}
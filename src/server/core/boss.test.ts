@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory stand-in for the Devvit Redis client. Every call yields to the event loop
+// first, so parallel attacks interleave the way they do against real Redis.
+const { redis, scheduler, settings, store } = vi.hoisted(() => {
+  const store = new Map<string, string | Map<string, string>>();
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+  const hash = (key: string): Map<string, string> => {
+    const existing = store.get(key);
+    if (existing instanceof Map) return existing;
+    const created = new Map<string, string>();
+    store.set(key, created);
+    return created;
+  };
+
+  const redis = {
+    async get(key: string) {
+      await tick();
+      const value = store.get(key);
+      return typeof value === 'string' ? value : undefined;
+    },
+    async set(key: string, value: string, options?: { nx?: boolean }) {
+      await tick();
+      if (options?.nx && store.has(key)) return null;
+      store.set(key, value);
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      await tick();
+      keys.forEach((key) => store.delete(key));
+    },
+    async hGet(key: string, field: string) {
+      await tick();
+      const value = store.get(key);
+      return value instanceof Map ? value.get(field) : undefined;
+    },
+    async hDel(key: string, fields: string[]) {
+      await tick();
+      const value = store.get(key);
+      if (value instanceof Map) fields.forEach((field) => value.delete(field));
+    },
+    async hGetAll(key: string) {
+      await tick();
+      const value = store.get(key);
+      return value instanceof Map ? Object.fromEntries(value) : {};
+    },
+    async hSet(key: string, fieldValues: Record<string, string>) {
+      await tick();
+      const fields = hash(key);
+      Object.entries(fieldValues).forEach(([field, value]) => fields.set(field, value));
+      return Object.keys(fieldValues).length;
+    },
+    async hSetNX(key: string, field: string, value: string) {
+      await tick();
+      const fields = hash(key);
+      if (fields.has(field)) return 0;
+      fields.set(field, value);
+      return 1;
+    },
+    async hIncrBy(key: string, field: string, value: number) {
+      await tick();
+      const fields = hash(key);
+      const next = parseInt(fields.get(field) ?? '0') + value;
+      fields.set(field, next.toString());
+      return next;
+    },
+    // Sorted sets only need to hold members here; nothing in these tests reads them back
+    async zAdd() {
+      await tick();
+    },
+    async zCard() {
+      await tick();
+      return 0;
+    },
+    async zRange() {
+      await tick();
+      return [];
+    },
+  };
+
+  // No moderator settings saved, so the HP forecast uses its defaults
+  const settings = { get: async () => undefined };
+
+  // Records the jobs the killing blow queues
+  const scheduler = {
+    jobs: [] as { name: string; data?: Record<string, unknown> }[],
+    async runJob(job: { name: string; data?: Record<string, unknown> }) {
+      scheduler.jobs.push(job);
+      return `job_${scheduler.jobs.length}`;
+    },
+  };
+
+  return { redis, scheduler, settings, store };
+});
+
+vi.mock('@devvit/web/server', () => ({ redis, scheduler, settings }));
+
+import { BossManager } from './boss';
+import { RaidCalendar } from './calendar';
+import { RaidOutcomeManager } from './outcomes';
+
+const POST_ID = 't3_concurrency';
+
+describe('BossManager.takeDamage', () => {
+  beforeEach(() => {
+    store.clear();
+    scheduler.jobs.length = 0;
+  });
+
+  it('applies every hit when many attacks land at the same time', async () => {
+    const { maxHP } = await BossManager.getBossState(POST_ID);
+
+    const results = await Promise.all(
+      Array.from({ length: 100 }, () => BossManager.takeDamage(POST_ID, 150))
+    );
+
+    const applied = results.reduce((total, result) => total + result.damageApplied, 0);
+    const state = await BossManager.getBossState(POST_ID);
+    expect(applied).toBe(100 * 150);
+    expect(state.totalDamageDealt).toBe(applied);
+    expect(state.currentHP).toBe(maxHP - applied);
+    expect(results.every((result) => !result.isKillingBlow)).toBe(true);
+  });
+
+  it('records exactly one killing blow when parallel attacks finish the boss', async () => {
+    const { maxHP } = await BossManager.getBossState(POST_ID);
+    const hits = Math.ceil(maxHP / 250) * 2; // Enough even against the strongest resistance
+
+    const results = await Promise.all(
+      Array.from({ length: hits }, (_, i) =>
+        BossManager.takeDamage(POST_ID, 250, { userId: `t2_user${i}`, characterClass: 'rogue' })
+      )
+    );
+
+    const killingBlows = results.filter((result) => result.isKillingBlow);
+    expect(killingBlows).toHaveLength(1);
+    expect(killingBlows[0]!.slayer?.characterClass).toBe('rogue');
+
+    // Class modifiers change each hit, but every applied point must be counted
+    const applied = results.reduce((total, result) => total + result.damageApplied, 0);
+    const state = await BossManager.getBossState(POST_ID);
+    expect(state.currentHP).toBe(0);
+    expect(state.totalDamageDealt).toBe(applied);
+    expect(state.defeatedAt).toBe(killingBlows[0]!.defeatedAt);
+    expect(state.slayer?.userId).toBe(killingBlows[0]!.slayer?.userId);
+
+    // The victory wrap-up is queued exactly once
+    expect(scheduler.jobs).toEqual([
+      expect.objectContaining({ name: 'raid-victory', data: { postId: POST_ID } })
+    ]);
+  });
+
+  it('moves into phase 2 and enrage as HP crosses the thresholds', async () => {
+    const { maxHP } = await BossManager.getBossState(POST_ID);
+
+    await Promise.all(
+      Array.from({ length: 10 }, () => BossManager.takeDamage(POST_ID, maxHP * 0.085))
+    );
+
+    const state = await BossManager.getBossState(POST_ID);
+    expect(state.phase).toBe(2);
+    expect(state.isEnraged).toBe(true);
+  });
+});
+
+describe('BossManager.recordEscape', () => {
+  beforeEach(() => {
+    store.clear();
+    scheduler.jobs.length = 0;
+  });
+
+  it('records a surviving boss as a failed raid and brings it back for revenge', async () => {
+    const { maxHP, weekday } = await BossManager.getBossState(POST_ID);
+    await BossManager.takeDamage(POST_ID, Math.floor(maxHP * 0.5));
+
+    const failure = await BossManager.recordEscape(POST_ID);
+    const state = await BossManager.getBossState(POST_ID);
+    expect(failure).toMatchObject({
+      result: 'failed',
+      postId: POST_ID,
+      finalHP: state.currentHP,
+      totalDamage: state.totalDamageDealt
+    });
+    expect(failure!.finalHPPercent).toBeGreaterThan(0);
+
+    // Ending the raid twice keeps the first record
+    expect(await BossManager.recordEscape(POST_ID)).toEqual(failure);
+
+    const revenge = await RaidOutcomeManager.getRevengeBoss(weekday!);
+    expect(revenge?.raidId).toBe(failure!.raidId);
+
+    // The same weekday's next boss is the harder rematch
+    const plan = await BossManager.planSpawn(await RaidCalendar.getCurrentRaidDay());
+    expect(plan.isRevenge).toBe(true);
+    expect(plan.bossData.name).toContain('(Revenge)');
+    expect(plan.hpForecast.chosenHP).toBeGreaterThan(maxHP);
+  });
+
+  it('leaves defeated bosses to the victory wrap-up', async () => {
+    const { maxHP } = await BossManager.getBossState(POST_ID);
+    await BossManager.takeDamage(POST_ID, maxHP * 10);
+
+    expect(await BossManager.recordEscape(POST_ID)).toBeUndefined();
+  });
+});
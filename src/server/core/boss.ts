@@ -1,29 +1,22 @@
 import { redis } from '@devvit/web/server';
+import { BossHPForecast, BossKill, RaidOutcomeRecord } from '../../shared/types/api';
+import {
+  BossDefinition,
+  REVENGE_HP_MULTIPLIER,
+  Weekday,
+  getDamageMultiplier,
+  isWeekday,
+  toRevengeBoss
+} from '../../shared/game/bosses';
+import { BossRosterManager } from './roster';
+import { RaidForecastManager } from './forecast';
+import { BossAbilityManager } from './abilities';
+import { RaidCalendar, RaidDay } from './calendar';
+import { VictoryManager } from './victory';
+import { RaidOutcomeManager, getRaidId } from './outcomes';
+import { CommunityManager } from './community';
 
-export interface BossData {
-  id: string;
-  name: string;
-  theme: DailyTheme;
-  baseHP: number;
-  level: number;
-  spriteKey: string;
-  phase2Threshold: number; // HP percentage for phase 2
-  enrageThreshold: number; // HP percentage for enrage
-  damageResistance: {
-    phase1: number;
-    phase2: number;
-  };
-}
-
-export enum DailyTheme {
-  GAMING = 'gaming',
-  INTERNET = 'internet',
-  SOCIAL_MEDIA = 'social_media',
-  WORK = 'work',
-  ENTERTAINMENT = 'entertainment',
-  SPORTS = 'sports',
-  MEMES = 'memes'
-}
+export type BossData = BossDefinition;
 
 export interface BossState {
   currentHP: number;
@@ -33,91 +26,35 @@ export interface BossState {
   lastDamageTime: number;
   totalDamageDealt: number;
   activePlayerCount: number;
+  defeatedAt?: number | undefined; // Set once by the killing blow
+  slayer?: BossKill | undefined;    // Who landed the killing blow
+  hpForecast?: BossHPForecast | undefined; // Inputs behind maxHP
+  spawnedAt?: number | undefined;          // Anchors timer-triggered abilities
+  weekday?: Weekday | undefined;           // Raid day the boss spawned for (picks its roster entry)
+  dayKey?: string | undefined;
+  isRevenge?: boolean | undefined;         // Came back after escaping an earlier raid
 }
 
-// Daily boss rotation (7 themed bosses) - Simplified for 50,000 HP shared pool
-const DAILY_BOSSES: Record<number, BossData> = {
-  0: { // Sunday
-    id: 'the_cringe',
-    name: 'The Cringe',
-    theme: DailyTheme.MEMES,
-    baseHP: 50000, // Simplified shared HP pool
-    level: 1,
-    spriteKey: 'boss_cringe',
-    phase2Threshold: 0.5, // Simplified phases
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 } // No damage resistance for simplicity
-  },
-  1: { // Monday
-    id: 'the_lag_spike',
-    name: 'The Lag Spike',
-    theme: DailyTheme.GAMING,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_lag_spike',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  },
-  2: { // Tuesday
-    id: 'the_algorithm',
-    name: 'The Algorithm',
-    theme: DailyTheme.INTERNET,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_algorithm',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  },
-  3: { // Wednesday
-    id: 'the_influencer',
-    name: 'The Influencer',
-    theme: DailyTheme.SOCIAL_MEDIA,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_influencer',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  },
-  4: { // Thursday
-    id: 'the_deadline',
-    name: 'The Deadline',
-    theme: DailyTheme.WORK,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_deadline',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  },
-  5: { // Friday
-    id: 'the_spoiler',
-    name: 'The Spoiler',
-    theme: DailyTheme.ENTERTAINMENT,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_spoiler',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  },
-  6: { // Saturday
-    id: 'the_referee',
-    name: 'The Referee',
-    theme: DailyTheme.SPORTS,
-    baseHP: 50000,
-    level: 1,
-    spriteKey: 'boss_referee',
-    phase2Threshold: 0.5,
-    enrageThreshold: 0.2,
-    damageResistance: { phase1: 1.0, phase2: 1.0 }
-  }
-};
+// Which boss spawns on a raid day and how big it is
+export interface BossSpawnPlan {
+  bossData: BossData;
+  hpForecast: BossHPForecast;
+  isRevenge: boolean;
+}
+
+export interface DamageOutcome extends BossState {
+  damageApplied: number;
+  isKillingBlow: boolean; // True for exactly one attack per boss
+}
 
 export class BossManager {
+  // Boss state is a hash so concurrent attacks can update fields atomically
   private static getBossKey(postId: string): string {
+    return `boss:${postId}`;
+  }
+
+  // Pre-hash boss state stored as a single JSON blob (migrated on first read)
+  private static getLegacyBossKey(postId: string): string {
     return `boss_state:${postId}`;
   }
 
@@ -126,115 +63,246 @@ export class BossManager {
   }
 
   /**
-   * Get current boss data based on day of week
+   * Get current boss data based on the raid day's weekday (moderator overrides applied)
+   */
+  public static async getCurrentBoss(): Promise<BossData> {
+    const roster = await BossRosterManager.getActiveRoster();
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
+    return roster[raidDay.weekday];
+  }
+
+  /**
+   * Get the boss a post is fighting (a post keeps the boss of the raid day it spawned on)
    */
-  public static getCurrentBoss(): BossData {
-    const dayOfWeek = new Date().getDay();
-    const boss = DAILY_BOSSES[dayOfWeek];
-    if (!boss) {
-      // Fallback to Monday's boss if something goes wrong
-      return DAILY_BOSSES[1]!;
+  public static async getBossForState(bossState: BossState): Promise<BossData> {
+    if (!bossState.weekday) {
+      return await this.getCurrentBoss();
     }
-    return boss;
+    const roster = await BossRosterManager.getActiveRoster();
+    const bossData = roster[bossState.weekday];
+    return bossState.isRevenge ? toRevengeBoss(bossData) : bossData;
   }
 
   /**
-   * Get next boss data by day name
+   * Decide the boss for a raid day; a boss that escaped on this weekday returns for revenge
    */
-  public static async getNextBossData(dayName: string): Promise<BossData> {
-    const dayMap: Record<string, number> = {
-      'sunday': 0,
-      'monday': 1,
-      'tuesday': 2,
-      'wednesday': 3,
-      'thursday': 4,
-      'friday': 5,
-      'saturday': 6
+  public static async planSpawn(raidDay: RaidDay): Promise<BossSpawnPlan> {
+    const roster = await BossRosterManager.getActiveRoster();
+    const rosterBoss = roster[raidDay.weekday];
+    const revenge = await RaidOutcomeManager.getRevengeBoss(raidDay.weekday);
+    const isRevenge = revenge?.bossId === rosterBoss.id;
+
+    // Size the boss so the expected community kills it in the target time
+    const forecast = await RaidForecastManager.forecastForDay(raidDay, rosterBoss.baseHP);
+    const hpForecast: BossHPForecast = isRevenge ? {
+      ...forecast,
+      chosenHP: Math.round(forecast.chosenHP * REVENGE_HP_MULTIPLIER),
+      revengeMultiplier: REVENGE_HP_MULTIPLIER
+    } : forecast;
+
+    return {
+      bossData: isRevenge ? toRevengeBoss(rosterBoss) : rosterBoss,
+      hpForecast,
+      isRevenge
     };
-    
-    const dayIndex = dayMap[dayName.toLowerCase()];
-    if (dayIndex === undefined) {
-      return DAILY_BOSSES[1]!; // Fallback to Monday
-    }
-    const boss = DAILY_BOSSES[dayIndex];
-    
-    if (!boss) {
-      // Fallback to Monday's boss if something goes wrong
-      return DAILY_BOSSES[1]!;
-    }
-    
-    return boss;
   }
 
   /**
-   * Initialize boss for a post with shared 50,000 HP pool
+   * Initialize boss for a post with HP forecast from previous days' participation
    */
   public static async initializeBoss(postId: string): Promise<BossState> {
-    const bossData = this.getCurrentBoss();
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
+    const bossKey = this.getBossKey(postId);
     
-    // Check if we need to reset for new day (8 AM daily reset)
+    // Check if we need to reset for new day (subreddit's daily reset)
     const shouldReset = await this.shouldResetForNewDay(postId);
     if (shouldReset) {
       await this.performDailyReset(postId);
     }
     
-    // Use fixed 50,000 HP as specified in requirements
-    const bossState: BossState = {
-      currentHP: bossData.baseHP, // Always 50,000
-      maxHP: bossData.baseHP,
-      phase: 1,
-      isEnraged: false,
-      lastDamageTime: Date.now(),
-      totalDamageDealt: 0,
-      activePlayerCount: 1
-    };
+    const { hpForecast, isRevenge } = await this.planSpawn(raidDay);
+
+    // Only the first caller creates the boss, so parallel first attacks can't wipe each other's damage
+    const created = await redis.hSetNX(bossKey, 'maxHP', hpForecast.chosenHP.toString());
+    if (created) {
+      await redis.hSet(bossKey, {
+        phase: '1',
+        isEnraged: '0',
+        spawnedAt: Date.now().toString(),
+        weekday: raidDay.weekday,
+        dayKey: raidDay.dayKey,
+        isRevenge: isRevenge ? '1' : '0',
+        lastDamageTime: Date.now().toString(),
+        activePlayerCount: '1',
+        hpForecast: JSON.stringify(hpForecast)
+      });
+      await this.setLastResetTime(postId);
+
+      // A boss only gets one rematch
+      if (isRevenge) {
+        await RaidOutcomeManager.clearRevengeBoss(raidDay.weekday);
+      }
+    }
 
-    await redis.set(this.getBossKey(postId), JSON.stringify(bossState));
-    await this.setLastResetTime(postId);
-    return bossState;
+    return await this.readBossState(postId) ?? this.parseBossState({ maxHP: hpForecast.chosenHP.toString() });
   }
 
   /**
    * Get current boss state, initializing if needed
    */
   public static async getBossState(postId: string): Promise<BossState> {
-    const stateData = await redis.get(this.getBossKey(postId));
-    
-    if (!stateData) {
-      return await this.initializeBoss(postId);
+    const bossState = await this.readBossState(postId);
+    if (bossState) {
+      return bossState;
+    }
+
+    const migratedState = await this.migrateLegacyBossState(postId);
+    if (migratedState) {
+      return migratedState;
     }
 
-    return JSON.parse(stateData) as BossState;
+    return await this.initializeBoss(postId);
   }
 
   /**
-   * Update boss state after taking damage (simplified for shared HP pool)
+   * Apply damage atomically (safe under concurrent attacks)
+   * HP is derived from an hIncrBy'd damage total, so no attack can overwrite another
    */
-  public static async takeDamage(postId: string, damage: number): Promise<BossState> {
+  public static async takeDamage(
+    postId: string,
+    damage: number,
+    attacker?: Omit<BossKill, 'defeatedAt'>
+  ): Promise<DamageOutcome> {
     const bossState = await this.getBossState(postId);
-    const bossData = this.getCurrentBoss();
+    const bossData = await this.getBossForState(bossState);
+    const bossKey = this.getBossKey(postId);
+    const now = Date.now();
     
-    // Apply damage directly (no resistance for simplicity)
-    const actualDamage = Math.floor(damage);
-    bossState.currentHP = Math.max(0, bossState.currentHP - actualDamage);
-    bossState.lastDamageTime = Date.now();
-    bossState.totalDamageDealt += actualDamage;
-
-    // Check for phase transitions (simplified)
-    const hpPercentage = bossState.currentHP / bossState.maxHP;
+    // Apply the phase resistance and the attacker's class weakness/resistance (1.0 = unchanged)
+    const multiplier = getDamageMultiplier(bossData, bossState.phase, attacker?.characterClass);
+    const actualDamage = Math.max(0, Math.floor(damage * multiplier));
+    const totalDamageDealt = await redis.hIncrBy(bossKey, 'totalDamageDealt', actualDamage);
+    const previousHP = Math.max(0, bossState.maxHP - (totalDamageDealt - actualDamage));
+    const currentHP = Math.max(0, bossState.maxHP - totalDamageDealt);
+
+    // The increments are atomic, so only one attack can take HP from above 0 to 0
+    const isKillingBlow = previousHP > 0 && currentHP === 0;
+
+    // Phase transitions only ever move forward, so concurrent writes agree
+    const hpPercentage = currentHP / bossState.maxHP;
+    const updates: Record<string, string> = { lastDamageTime: now.toString() };
     
     // Phase 2 transition at 50% HP
-    if (bossState.phase === 1 && hpPercentage <= bossData.phase2Threshold) {
-      bossState.phase = 2;
+    if (hpPercentage <= bossData.phase2Threshold) {
+      updates.phase = '2';
     }
     
     // Enrage transition at 20% HP
-    if (!bossState.isEnraged && hpPercentage <= bossData.enrageThreshold) {
-      bossState.isEnraged = true;
+    if (hpPercentage <= bossData.enrageThreshold) {
+      updates.isEnraged = '1';
+    }
+
+    // Credit the killing blow on this boss instance
+    const slayer: BossKill | undefined = isKillingBlow && attacker ? { ...attacker, defeatedAt: now } : undefined;
+    if (isKillingBlow) {
+      updates.defeatedAt = now.toString();
+    }
+    if (slayer) {
+      updates.slayerUserId = slayer.userId;
+      updates.slayerClass = slayer.characterClass;
+      if (slayer.username) {
+        updates.slayerUsername = slayer.username;
+      }
+    }
+
+    await redis.hSet(bossKey, updates);
+
+    // The killing blow kicks off the server-side victory wrap-up
+    if (isKillingBlow) {
+      await VictoryManager.scheduleVictory(postId);
+    }
+
+    return {
+      ...bossState,
+      currentHP,
+      phase: updates.phase ? 2 : bossState.phase,
+      isEnraged: updates.isEnraged ? true : bossState.isEnraged,
+      lastDamageTime: now,
+      totalDamageDealt,
+      defeatedAt: isKillingBlow ? now : bossState.defeatedAt,
+      slayer: slayer ?? bossState.slayer,
+      damageApplied: actualDamage,
+      isKillingBlow
+    };
+  }
+
+  /**
+   * Read boss state from its hash (undefined if the boss doesn't exist yet)
+   */
+  private static async readBossState(postId: string): Promise<BossState | undefined> {
+    const fields = await redis.hGetAll(this.getBossKey(postId));
+    if (!fields || !fields.maxHP) {
+      return undefined;
+    }
+    return this.parseBossState(fields);
+  }
+
+  /**
+   * Build boss state from hash fields (HP is derived from total damage)
+   */
+  private static parseBossState(fields: Record<string, string>): BossState {
+    const maxHP = parseInt(fields.maxHP ?? '0');
+    const totalDamageDealt = parseInt(fields.totalDamageDealt ?? '0');
+    const defeatedAt = fields.defeatedAt ? parseInt(fields.defeatedAt) : undefined;
+    const slayer: BossKill | undefined = defeatedAt !== undefined && fields.slayerUserId ? {
+      userId: fields.slayerUserId,
+      username: fields.slayerUsername,
+      characterClass: fields.slayerClass ?? 'warrior',
+      defeatedAt
+    } : undefined;
+
+    return {
+      currentHP: Math.max(0, maxHP - totalDamageDealt),
+      maxHP,
+      phase: parseInt(fields.phase ?? '1'),
+      isEnraged: fields.isEnraged === '1',
+      lastDamageTime: parseInt(fields.lastDamageTime ?? '0'),
+      totalDamageDealt,
+      activePlayerCount: parseInt(fields.activePlayerCount ?? '1'),
+      ...(defeatedAt !== undefined && { defeatedAt }),
+      ...(slayer && { slayer }),
+      ...(fields.hpForecast && { hpForecast: JSON.parse(fields.hpForecast) as BossHPForecast }),
+      ...(fields.spawnedAt && { spawnedAt: parseInt(fields.spawnedAt) }),
+      ...(fields.weekday && isWeekday(fields.weekday) && { weekday: fields.weekday }),
+      ...(fields.dayKey && { dayKey: fields.dayKey }),
+      ...(fields.isRevenge === '1' && { isRevenge: true })
+    };
+  }
+
+  /**
+   * Move a pre-hash JSON boss state into the hash layout
+   */
+  private static async migrateLegacyBossState(postId: string): Promise<BossState | undefined> {
+    const legacyKey = this.getLegacyBossKey(postId);
+    const legacyData = await redis.get(legacyKey);
+    if (!legacyData) {
+      return undefined;
     }
 
-    await redis.set(this.getBossKey(postId), JSON.stringify(bossState));
-    return bossState;
+    const legacyState = JSON.parse(legacyData) as BossState;
+    const bossKey = this.getBossKey(postId);
+    if (await redis.hSetNX(bossKey, 'maxHP', legacyState.maxHP.toString())) {
+      await redis.hSet(bossKey, {
+        totalDamageDealt: (legacyState.maxHP - legacyState.currentHP).toString(),
+        phase: legacyState.phase.toString(),
+        isEnraged: legacyState.isEnraged ? '1' : '0',
+        lastDamageTime: legacyState.lastDamageTime.toString(),
+        activePlayerCount: legacyState.activePlayerCount.toString()
+      });
+    }
+    await redis.del(legacyKey);
+
+    return await this.readBossState(postId);
   }
 
   /**
@@ -291,7 +359,8 @@ export class BossManager {
    * Reset boss (for new day or manual reset)
    */
   public static async resetBoss(postId: string): Promise<BossState> {
-    await redis.del(this.getBossKey(postId));
+    await redis.del(this.getBossKey(postId), this.getLegacyBossKey(postId));
+    await BossAbilityManager.clearAbilities(postId);
     return await this.initializeBoss(postId);
   }
 
@@ -299,13 +368,13 @@ export class BossManager {
    * Get boss data and state combined
    */
   public static async getBossInfo(postId: string): Promise<{ data: BossData; state: BossState }> {
-    const data = this.getCurrentBoss();
     const state = await this.getBossState(postId);
+    const data = await this.getBossForState(state);
     return { data, state };
   }
 
   /**
-   * Check if boss should reset for new day (8 AM daily reset)
+   * Check if boss should reset for new day (last reset happened before the current raid day began)
    */
   private static async shouldResetForNewDay(postId: string): Promise<boolean> {
     const lastResetKey = `boss_last_reset:${postId}`;
@@ -315,27 +384,20 @@ export class BossManager {
       return true; // First time, needs reset
     }
     
-    const lastReset = new Date(parseInt(lastResetTime));
-    const now = new Date();
-    
-    // Check if we've passed 8 AM today and haven't reset yet
-    const today8AM = new Date(now);
-    today8AM.setHours(8, 0, 0, 0);
-    
-    // If current time is past 8 AM today and last reset was before 8 AM today
-    if (now >= today8AM && lastReset < today8AM) {
-      return true;
-    }
-    
-    return false;
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
+    return parseInt(lastResetTime) < raidDay.startsAt;
   }
 
   /**
-   * Perform daily boss reset at 8 AM
+   * Perform daily boss reset
    */
   private static async performDailyReset(postId: string): Promise<void> {
+    // A boss still standing escaped; record it before its stats are wiped
+    await this.recordEscape(postId);
+
     // Clear boss state to force reinitialization
-    await redis.del(this.getBossKey(postId));
+    await redis.del(this.getBossKey(postId), this.getLegacyBossKey(postId));
+    await BossAbilityManager.clearAbilities(postId);
     
     // Clear leaderboard for new day
     const leaderboardKey = `leaderboard:${postId}`;
@@ -353,26 +415,40 @@ export class BossManager {
   }
 
   /**
-   * Set last reset time for daily tracking
+   * Record a failed raid if the post's boss survived its raid day
+   * @returns The raid's outcome, whether just recorded or already known
    */
-  private static async setLastResetTime(postId: string): Promise<void> {
-    const lastResetKey = `boss_last_reset:${postId}`;
-    await redis.set(lastResetKey, Date.now().toString());
+  public static async recordEscape(postId: string): Promise<RaidOutcomeRecord | undefined> {
+    try {
+      const bossState = await this.readBossState(postId);
+      if (!bossState) {
+        return undefined;
+      }
+
+      const raidId = getRaidId(postId, bossState);
+      if (bossState.currentHP <= 0) {
+        return await RaidOutcomeManager.getOutcome(raidId);
+      }
+
+      const bossData = await this.getBossForState(bossState);
+      const communityManager = new CommunityManager(postId);
+      const failure = await RaidOutcomeManager.recordFailure(postId, bossData, bossState, {
+        topPlayers: await communityManager.getLeaderboard(3),
+        totalDamage: bossState.totalDamageDealt,
+        participantCount: await redis.zCard(`leaderboard:${postId}`)
+      });
+      return failure ?? await RaidOutcomeManager.getOutcome(raidId);
+    } catch (error) {
+      console.error(`Error recording escaped boss for post ${postId}:`, error);
+      return undefined;
+    }
   }
 
   /**
-   * Get next reset time (next 8 AM)
+   * Set last reset time for daily tracking
    */
-  public static getNextResetTime(): Date {
-    const now = new Date();
-    const next8AM = new Date(now);
-    next8AM.setHours(8, 0, 0, 0);
-    
-    // If it's already past 8 AM today, set for tomorrow
-    if (now >= next8AM) {
-      next8AM.setDate(next8AM.getDate() + 1);
-    }
-    
-    return next8AM;
+  private static async setLastResetTime(postId: string): Promise<void> {
+    const lastResetKey = `boss_last_reset:${postId}`;
+    await redis.set(lastResetKey, Date.now().toString());
   }
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Subreddit settings the calendar reads, replaced per test
+const { settings, values } = vi.hoisted(() => {
+  const values: Record<string, unknown> = {};
+  const settings = { get: async (name: string) => values[name] };
+  return { settings, values };
+});
+
+vi.mock('@devvit/web/server', () => ({ settings }));
+
+import {
+  CalendarConfig,
+  RaidCalendar,
+  getNextRaidDay,
+  getRaidDay,
+  getRaidWeek,
+  getResetInstant,
+  normalizeCalendarConfig,
+  shiftDayKey
+} from './calendar';
+
+const at = (iso: string): number => new Date(iso).getTime();
+const HOUR_MS = 60 * 60 * 1000;
+
+const NEW_YORK_8AM: CalendarConfig = { timeZone: 'America/New_York', resetHour: 8 };
+
+describe('getRaidDay', () => {
+  it('switches raid days exactly at the reset hour', () => {
+    const before = getRaidDay(at('2024-01-15T07:59:59.999Z'));
+    expect(before.dayKey).toBe('2024-01-14');
+    expect(before.weekday).toBe('sunday');
+    expect(before.endsAt).toBe(at('2024-01-15T08:00:00Z'));
+
+    const after = getRaidDay(at('2024-01-15T08:00:00Z'));
+    expect(after.dayKey).toBe('2024-01-15');
+    expect(after.weekday).toBe('monday');
+    expect(after.startsAt).toBe(at('2024-01-15T08:00:00Z'));
+  });
+
+  it('uses the local date, not the UTC date, around midnight', () => {
+    // 9 PM on Monday in New York is already Tuesday in UTC
+    const evening = getRaidDay(at('2024-01-16T02:00:00Z'), NEW_YORK_8AM);
+    expect(evening.dayKey).toBe('2024-01-15');
+    expect(evening.weekday).toBe('monday');
+
+    // Just after local midnight the 8 AM reset hasn't happened yet
+    const afterMidnight = getRaidDay(at('2024-01-16T05:30:00Z'), NEW_YORK_8AM);
+    expect(afterMidnight.dayKey).toBe('2024-01-15');
+    expect(afterMidnight.endsAt).toBe(at('2024-01-16T13:00:00Z'));
+  });
+
+  it('resets at local midnight when the reset hour is 0', () => {
+    const config: CalendarConfig = { timeZone: 'America/New_York', resetHour: 0 };
+
+    expect(getRaidDay(at('2024-01-16T04:59:59Z'), config).dayKey).toBe('2024-01-15');
+
+    const tuesday = getRaidDay(at('2024-01-16T05:00:00Z'), config);
+    expect(tuesday.dayKey).toBe('2024-01-16');
+    expect(tuesday.weekday).toBe('tuesday');
+    expect(tuesday.startsAt).toBe(at('2024-01-16T05:00:00Z'));
+  });
+
+  it('crosses month and year boundaries', () => {
+    const config: CalendarConfig = { timeZone: 'UTC', resetHour: 0 };
+    const newYearsEve = getRaidDay(at('2024-12-31T23:59:59Z'), config);
+
+    expect(newYearsEve.dayKey).toBe('2024-12-31');
+    expect(newYearsEve.endsAt).toBe(at('2025-01-01T00:00:00Z'));
+    expect(shiftDayKey('2024-12-31', 1)).toBe('2025-01-01');
+    expect(shiftDayKey('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('keeps the local reset hour across the spring DST change', () => {
+    // New York moves from EST (UTC-5) to EDT (UTC-4) on 2024-03-10
+    const saturday = getRaidDay(at('2024-03-09T20:00:00Z'), NEW_YORK_8AM);
+    expect(saturday.startsAt).toBe(at('2024-03-09T13:00:00Z'));
+    expect(saturday.endsAt).toBe(at('2024-03-10T12:00:00Z'));
+    expect(saturday.endsAt - saturday.startsAt).toBe(23 * HOUR_MS);
+
+    const sunday = getRaidDay(at('2024-03-10T12:00:00Z'), NEW_YORK_8AM);
+    expect(sunday.dayKey).toBe('2024-03-10');
+    expect(sunday.weekday).toBe('sunday');
+  });
+
+  it('keeps the local reset hour across the autumn DST change', () => {
+    // New York moves from EDT (UTC-4) back to EST (UTC-5) on 2024-11-03
+    const saturday = getRaidDay(at('2024-11-02T20:00:00Z'), NEW_YORK_8AM);
+    expect(saturday.startsAt).toBe(at('2024-11-02T12:00:00Z'));
+    expect(saturday.endsAt).toBe(at('2024-11-03T13:00:00Z'));
+    expect(saturday.endsAt - saturday.startsAt).toBe(25 * HOUR_MS);
+
+    // Still Saturday's raid at 7:30 AM EST even though 24 hours have passed
+    expect(getRaidDay(at('2024-11-03T12:30:00Z'), NEW_YORK_8AM).dayKey).toBe('2024-11-02');
+  });
+
+  it('resets when the clocks jump past a reset hour skipped by DST', () => {
+    const config: CalendarConfig = { timeZone: 'America/New_York', resetHour: 2 };
+
+    // 2 AM doesn't exist on 2024-03-10; the reset happens as the clocks jump to 3 AM EDT
+    expect(getResetInstant('2024-03-10', 2, 'America/New_York')).toBe(at('2024-03-10T07:00:00Z'));
+    expect(getRaidDay(at('2024-03-10T06:59:59Z'), config).dayKey).toBe('2024-03-09');
+    expect(getRaidDay(at('2024-03-10T07:00:00Z'), config).dayKey).toBe('2024-03-10');
+  });
+
+  it('resets only once when DST repeats the reset hour', () => {
+    // 1 AM happens twice on 2024-11-03 in New York and on 2024-10-27 in London
+    expect(getResetInstant('2024-11-03', 1, 'America/New_York')).toBe(at('2024-11-03T05:00:00Z'));
+    expect(getResetInstant('2024-10-27', 1, 'Europe/London')).toBe(at('2024-10-27T00:00:00Z'));
+
+    const secondPass = getRaidDay(at('2024-11-03T06:30:00Z'), { timeZone: 'America/New_York', resetHour: 1 });
+    expect(secondPass.dayKey).toBe('2024-11-03');
+    expect(secondPass.startsAt).toBe(at('2024-11-03T05:00:00Z'));
+  });
+});
+
+describe('getNextRaidDay', () => {
+  it('returns the raid day that starts at the next reset', () => {
+    const next = getNextRaidDay(at('2024-03-09T20:00:00Z'), NEW_YORK_8AM);
+    expect(next.dayKey).toBe('2024-03-10');
+    expect(next.weekday).toBe('sunday');
+    expect(next.startsAt).toBe(at('2024-03-10T12:00:00Z'));
+  });
+});
+
+describe('getRaidWeek', () => {
+  it('starts weeks on the Monday reset', () => {
+    const sunday = getRaidWeek(getRaidDay(at('2024-01-15T07:59:59.999Z')));
+    expect(sunday.weekKey).toBe('2024-01-08');
+    expect(sunday.endsAt).toBe(at('2024-01-15T08:00:00Z'));
+
+    const monday = getRaidWeek(getRaidDay(at('2024-01-15T08:00:00Z')));
+    expect(monday.weekKey).toBe('2024-01-15');
+    expect(monday.endsAt).toBe(at('2024-01-22T08:00:00Z'));
+  });
+});
+
+describe('RaidCalendar.getConfig', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(values)) {
+      delete values[key];
+    }
+  });
+
+  it('defaults to 8 AM UTC when nothing is configured', async () => {
+    expect(await RaidCalendar.getConfig()).toEqual({ timeZone: 'UTC', resetHour: 8 });
+  });
+
+  it('reads the subreddit schedule', async () => {
+    values.raidTimeZone = 'Europe/Berlin';
+    values.raidResetHour = 18;
+    expect(await RaidCalendar.getConfig()).toEqual({ timeZone: 'Europe/Berlin', resetHour: 18 });
+  });
+
+  it('falls back per field on invalid values', () => {
+    expect(normalizeCalendarConfig('Mars/Olympus_Mons', 6)).toEqual({ timeZone: 'UTC', resetHour: 6 });
+    expect(normalizeCalendarConfig('Asia/Tokyo', 24)).toEqual({ timeZone: 'Asia/Tokyo', resetHour: 8 });
+    expect(normalizeCalendarConfig('Asia/Tokyo', 7.5)).toEqual({ timeZone: 'Asia/Tokyo', resetHour: 8 });
+  });
+});
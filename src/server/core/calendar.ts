@@ -0,0 +1,248 @@
+import { settings } from '@devvit/web/server';
+import { WEEKDAYS, Weekday } from '../../shared/game/bosses';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_RESET_HOUR = 8;
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface CalendarConfig {
+  timeZone: string;  // IANA time zone the subreddit plays in
+  resetHour: number; // Local hour (0-23) the daily boss resets
+}
+
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  timeZone: DEFAULT_TIME_ZONE,
+  resetHour: DEFAULT_RESET_HOUR
+};
+
+/**
+ * One raid day runs from a daily reset to the next one
+ * Across DST changes that can be 23 or 25 hours, so never add 24h to a reset time
+ */
+export interface RaidDay {
+  dayKey: string;   // Local calendar date the raid day started on (YYYY-MM-DD)
+  weekday: Weekday; // Picks the boss from the roster
+  startsAt: number; // Reset that opened the day (epoch ms)
+  endsAt: number;   // Next reset (epoch ms)
+}
+
+// Raid weeks run from one Monday reset to the next
+export interface RaidWeek {
+  weekKey: string; // Day key of the Monday the week started on
+  endsAt: number;  // Next Monday's reset (epoch ms)
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Building formatters is slow, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a time zone name is a valid IANA zone on this runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the wall clock in a time zone at an instant
+ */
+function getZonedParts(time: number, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(new Date(time));
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(part => part.type === type)?.value ?? '0');
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at an instant (ms, positive east of Greenwich)
+ */
+function getOffset(time: number, timeZone: string): number {
+  const parts = getZonedParts(time, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+function parseDayKey(dayKey: string): { year: number; month: number; day: number } {
+  const [year = 1970, month = 1, day = 1] = dayKey.split('-').map(part => parseInt(part));
+  return { year, month, day };
+}
+
+function toDayKey(year: number, month: number, day: number): string {
+  return `${year.toString().padStart(4, '0')}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Move a calendar date by whole days (no time zone involved)
+ */
+export function shiftDayKey(dayKey: string, days: number): string {
+  const { year, month, day } = parseDayKey(dayKey);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return toDayKey(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Get the weekday of a calendar date
+ */
+export function getDayKeyWeekday(dayKey: string): Weekday {
+  const { year, month, day } = parseDayKey(dayKey);
+  return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()] ?? 'monday';
+}
+
+/**
+ * Get the instant a local wall-clock hour happens on a calendar date
+ * An hour skipped by DST resolves to the moment the clocks jump forward past it,
+ * and an hour repeated by DST resolves to its first occurrence
+ */
+export function getResetInstant(dayKey: string, resetHour: number, timeZone: string): number {
+  const { year, month, day } = parseDayKey(dayKey);
+  const wallClock = Date.UTC(year, month - 1, day, resetHour);
+
+  // The offsets either side of any DST change on this date
+  const offsets = new Set([getOffset(wallClock - DAY_MS, timeZone), getOffset(wallClock + DAY_MS, timeZone)]);
+  const candidates = [...offsets].map(offset => wallClock - offset);
+
+  const exact = candidates.filter(candidate => {
+    const parts = getZonedParts(candidate, timeZone);
+    return parts.year === year && parts.month === month && parts.day === day && parts.hour === resetHour;
+  });
+
+  return exact.length > 0 ? Math.min(...exact) : Math.max(...candidates);
+}
+
+/**
+ * Get the raid day containing an instant
+ */
+export function getRaidDay(now: number, config: CalendarConfig = DEFAULT_CALENDAR_CONFIG): RaidDay {
+  const local = getZonedParts(now, config.timeZone);
+  let dayKey = toDayKey(local.year, local.month, local.day);
+  let startsAt = getResetInstant(dayKey, config.resetHour, config.timeZone);
+
+  // Before today's reset we're still in yesterday's raid day
+  if (now < startsAt) {
+    dayKey = shiftDayKey(dayKey, -1);
+    startsAt = getResetInstant(dayKey, config.resetHour, config.timeZone);
+  }
+
+  return {
+    dayKey,
+    weekday: getDayKeyWeekday(dayKey),
+    startsAt,
+    endsAt: getResetInstant(shiftDayKey(dayKey, 1), config.resetHour, config.timeZone)
+  };
+}
+
+/**
+ * Get the raid day that starts at the next reset
+ */
+export function getNextRaidDay(now: number, config: CalendarConfig = DEFAULT_CALENDAR_CONFIG): RaidDay {
+  return getRaidDay(getRaidDay(now, config).endsAt, config);
+}
+
+/**
+ * Get the raid week a raid day belongs to
+ */
+export function getRaidWeek(raidDay: RaidDay, config: CalendarConfig = DEFAULT_CALENDAR_CONFIG): RaidWeek {
+  const daysSinceMonday = (WEEKDAYS.indexOf(raidDay.weekday) + 6) % 7;
+  const weekKey = shiftDayKey(raidDay.dayKey, -daysSinceMonday);
+  return {
+    weekKey,
+    endsAt: getResetInstant(shiftDayKey(weekKey, 7), config.resetHour, config.timeZone)
+  };
+}
+
+/**
+ * Turn raw setting values into a usable config (falls back per field)
+ */
+export function normalizeCalendarConfig(timeZone: unknown, resetHour: unknown): CalendarConfig {
+  const zone = typeof timeZone === 'string' ? timeZone.trim() : '';
+  const hour = typeof resetHour === 'number' ? resetHour : parseInt(String(resetHour ?? ''));
+
+  return {
+    timeZone: zone && isValidTimeZone(zone) ? zone : DEFAULT_TIME_ZONE,
+    resetHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_RESET_HOUR
+  };
+}
+
+/**
+ * Describe the reset time for players, e.g. "8 AM (America/New_York)"
+ */
+export function formatResetTime(config: CalendarConfig): string {
+  const hour12 = config.resetHour % 12 === 0 ? 12 : config.resetHour % 12;
+  return `${hour12} ${config.resetHour < 12 ? 'AM' : 'PM'} (${config.timeZone})`;
+}
+
+export class RaidCalendar {
+  /**
+   * Read the moderator's reset schedule (falls back to 8 AM UTC)
+   */
+  public static async getConfig(): Promise<CalendarConfig> {
+    try {
+      const timeZone = await settings.get<string>('raidTimeZone');
+      const resetHour = await settings.get<number>('raidResetHour');
+      const config = normalizeCalendarConfig(timeZone, resetHour);
+
+      if (typeof timeZone === 'string' && timeZone.trim() && config.timeZone !== timeZone.trim()) {
+        console.error(`Ignoring unknown raid time zone "${timeZone}", using ${DEFAULT_TIME_ZONE}`);
+      }
+      return config;
+    } catch (error) {
+      console.error('Error reading raid schedule settings:', error);
+      return DEFAULT_CALENDAR_CONFIG;
+    }
+  }
+
+  /**
+   * Get the raid day in progress for this subreddit
+   */
+  public static async getCurrentRaidDay(now: number = Date.now()): Promise<RaidDay> {
+    return getRaidDay(now, await this.getConfig());
+  }
+
+  /**
+   * Get the raid day that starts at this subreddit's next reset
+   */
+  public static async getNextRaidDay(now: number = Date.now()): Promise<RaidDay> {
+    return getNextRaidDay(now, await this.getConfig());
+  }
+}
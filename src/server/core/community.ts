@@ -1,6 +1,10 @@
 import { redis } from '@devvit/web/server';
-import { AttackEvent, CommunityDPSResponse, RecentAttacker, LeaderboardEntry } from '../../shared/types/api';
+import { AttackEvent, CommunityBuff, CommunityDPSResponse, RecentAttacker, LeaderboardEntry } from '../../shared/types/api';
+import { COMMUNITY_BUFF_MULTIPLIER } from '../../shared/game/talents';
 import { RedditUserService } from './reddit-user';
+import { ProfileManager } from './profile';
+import { GuildManager } from './guilds';
+import { ShopManager } from './shop';
 
 export type CommunityStats = CommunityDPSResponse;
 
@@ -22,6 +26,37 @@ export class CommunityManager {
     return `attack_count:${postId}`;
   }
 
+  private static getCommunityBuffKey(postId: string): string {
+    return `community_buff:${postId}`;
+  }
+
+  /**
+   * Start (or refresh) the raid-wide damage buff from a healer's special
+   */
+  public static async activateCommunityBuff(postId: string, userId: string, durationSeconds: number): Promise<CommunityBuff> {
+    const buff: CommunityBuff = {
+      multiplier: COMMUNITY_BUFF_MULTIPLIER,
+      expiresAt: Date.now() + durationSeconds * 1000,
+      userId
+    };
+    await redis.set(this.getCommunityBuffKey(postId), JSON.stringify(buff), {
+      expiration: new Date(buff.expiresAt)
+    });
+    return buff;
+  }
+
+  /**
+   * Get the community buff if one is still running
+   */
+  public static async getCommunityBuff(postId: string): Promise<CommunityBuff | undefined> {
+    const stored = await redis.get(this.getCommunityBuffKey(postId));
+    if (!stored) {
+      return undefined;
+    }
+    const buff = JSON.parse(stored) as CommunityBuff;
+    return buff.expiresAt > Date.now() ? buff : undefined;
+  }
+
   /**
    * Record a new attack for community tracking
    */
@@ -248,7 +283,8 @@ export class CommunityManager {
             level: Math.floor(Math.random() * 10) + 10, // Mock level for now
             damage: attack.damage,
             timestamp: attack.timestamp,
-            avatarUrl: userData.avatarUrl
+            avatarUrl: userData.avatarUrl,
+            buff: attack.buff
           });
         }
         
@@ -298,6 +334,7 @@ export class CommunityManager {
         
         if (playerDataStr) {
           const playerData = JSON.parse(playerDataStr);
+          const profile = await ProfileManager.getProfile(userId);
           const userData = userDataMap.get(userId);
           
           if (userData) {
@@ -306,9 +343,12 @@ export class CommunityManager {
               username: userData.username,
               redditUsername: userData.redditUsername,
               characterClass: playerData.characterClass || 'warrior',
-              level: playerData.level || 1,
+              level: profile.level,
+              prestigeRank: profile.prestigeRank,
+              guildTag: await GuildManager.getGuildTag(userId),
+              title: ShopManager.getCosmetics(profile.cosmetics).title,
               sessionDamage: sessionDamage,
-              totalDamage: playerData.totalDamage || sessionDamage,
+              totalDamage: profile.totalDamage || sessionDamage,
               rank: i + 1,
               avatarUrl: userData.avatarUrl
             });
@@ -0,0 +1,174 @@
+import { redis } from '@devvit/web/server';
+import { BossState, FactionId, FactionProgress, FactionWarStatus } from '../../shared/types/api';
+import { MAX_FACTIONS, MIN_FACTIONS, getFactions, getLeadingFaction, isFactionId, pickFaction, pickWarWinner } from '../../shared/game/factions';
+import { createSeededRandom } from '../../shared/game/loot';
+import { getRaidId } from './outcomes';
+
+export interface FactionModeResult {
+  success: boolean;
+  message?: string;
+}
+
+export class FactionManager {
+  // Number of factions while a moderator has the mode on for the post (missing when off)
+  private static getModeKey(postId: string): string {
+    return `faction_war_mode:${postId}`;
+  }
+
+  // One war per boss instance: "member:{userId}" -> faction, "members:{faction}", "damage:{faction}" and "winner"
+  private static getWarKey(postId: string, bossState: Pick<BossState, 'dayKey'>): string {
+    return `faction_war:${getRaidId(postId, bossState)}`;
+  }
+
+  /**
+   * How many factions the post's war has, or undefined when the mode is off
+   */
+  public static async getFactionCount(postId: string): Promise<number | undefined> {
+    const stored = parseInt(await redis.get(this.getModeKey(postId)) ?? '');
+    return stored >= MIN_FACTIONS && stored <= MAX_FACTIONS ? stored : undefined;
+  }
+
+  /**
+   * Turn the mode on with 2 or 3 factions, or off (moderators only)
+   * The faction count can't change once raiders have been assigned
+   */
+  public static async setMode(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'>,
+    factionCount: number | undefined
+  ): Promise<FactionModeResult> {
+    if (factionCount === undefined) {
+      await redis.del(this.getModeKey(postId));
+      return { success: true };
+    }
+    if (!Number.isInteger(factionCount) || factionCount < MIN_FACTIONS || factionCount > MAX_FACTIONS) {
+      return { success: false, message: `Faction wars have ${MIN_FACTIONS}-${MAX_FACTIONS} factions` };
+    }
+
+    const current = await this.getFactionCount(postId);
+    const progress = await this.getProgress(postId, bossState, current ?? MAX_FACTIONS);
+    if (current !== factionCount && progress.some((faction) => faction.members > 0)) {
+      return { success: false, message: 'Raiders already picked sides; the faction count is locked for this raid' };
+    }
+
+    await redis.set(this.getModeKey(postId), factionCount.toString());
+    return { success: true };
+  }
+
+  /**
+   * Credit an attack to the raider's faction, assigning them one on their first attack
+   * The killing blow also declares the winner
+   * @returns The raider's faction, or undefined when the post isn't running a war
+   */
+  public static async recordDamage(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'> & { isKillingBlow: boolean },
+    userId: string,
+    damage: number
+  ): Promise<FactionId | undefined> {
+    const factionCount = await this.getFactionCount(postId);
+    if (!factionCount) return undefined;
+
+    const key = this.getWarKey(postId, bossState);
+    const faction = await this.getPlayerFaction(key, userId) ?? await this.assignFaction(postId, bossState, userId, factionCount);
+    if (!faction) return undefined;
+
+    if (damage > 0) {
+      await redis.hIncrBy(key, `damage:${faction}`, damage);
+    }
+    if (bossState.isKillingBlow) {
+      await this.declareWinner(postId, bossState, factionCount, faction);
+    }
+
+    return faction;
+  }
+
+  /**
+   * Make sure a finished war has its winner before anyone claims
+   * Covers a kill that landed before the mode was turned on, or a claim that races the killing blow's write
+   */
+  public static async settleWar(postId: string, bossState: Pick<BossState, 'dayKey'>): Promise<void> {
+    const factionCount = await this.getFactionCount(postId);
+    if (factionCount && !await redis.hGet(this.getWarKey(postId, bossState), 'winner')) {
+      await this.declareWinner(postId, bossState, factionCount);
+    }
+  }
+
+  /**
+   * The war's progress for the HUD, or undefined when the post isn't running one
+   * A war that was turned off after the boss died still reports its winner
+   */
+  public static async getStatus(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'>,
+    userId?: string
+  ): Promise<FactionWarStatus | undefined> {
+    const key = this.getWarKey(postId, bossState);
+    const winner = await redis.hGet(key, 'winner');
+    const factionCount = await this.getFactionCount(postId);
+    if (!factionCount && !isFactionId(winner)) return undefined;
+
+    const factions = await this.getProgress(postId, bossState, factionCount ?? MAX_FACTIONS);
+    return {
+      factions,
+      playerFaction: userId ? await this.getPlayerFaction(key, userId) : undefined,
+      leader: getLeadingFaction(factions),
+      winner: isFactionId(winner) ? winner : undefined
+    };
+  }
+
+  private static async getProgress(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'>,
+    factionCount: number
+  ): Promise<FactionProgress[]> {
+    const fields = await redis.hGetAll(this.getWarKey(postId, bossState)) ?? {};
+    return getFactions(factionCount).map(({ id }) => ({
+      id,
+      damage: parseInt(fields[`damage:${id}`] ?? '0'),
+      members: parseInt(fields[`members:${id}`] ?? '0')
+    }));
+  }
+
+  private static async getPlayerFaction(key: string, userId: string): Promise<FactionId | undefined> {
+    const faction = await redis.hGet(key, `member:${userId}`);
+    return isFactionId(faction) ? faction : undefined;
+  }
+
+  /**
+   * Put the raider in the smallest faction; hSetNX keeps parallel first attacks from joining twice
+   */
+  private static async assignFaction(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'>,
+    userId: string,
+    factionCount: number
+  ): Promise<FactionId | undefined> {
+    const key = this.getWarKey(postId, bossState);
+    const progress = await this.getProgress(postId, bossState, factionCount);
+    const roll = createSeededRandom(`faction:${getRaidId(postId, bossState)}:${userId}`)();
+    const faction = pickFaction(progress, roll);
+    if (!faction) return undefined;
+
+    if (!await redis.hSetNX(key, `member:${userId}`, faction)) {
+      return await this.getPlayerFaction(key, userId);
+    }
+
+    await redis.hIncrBy(key, `members:${faction}`, 1);
+    console.log(`${userId} joined faction ${faction} in ${getRaidId(postId, bossState)}`);
+    return faction;
+  }
+
+  private static async declareWinner(
+    postId: string,
+    bossState: Pick<BossState, 'dayKey'>,
+    factionCount: number,
+    killingFaction?: FactionId
+  ): Promise<void> {
+    const roll = createSeededRandom(`faction-winner:${getRaidId(postId, bossState)}`)();
+    const winner = pickWarWinner(await this.getProgress(postId, bossState, factionCount), roll, killingFaction);
+    if (winner && await redis.hSetNX(this.getWarKey(postId, bossState), 'winner', winner)) {
+      console.log(`Faction ${winner} won the war in ${getRaidId(postId, bossState)}`);
+    }
+  }
+}
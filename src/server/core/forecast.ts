@@ -0,0 +1,193 @@
+import { redis, settings } from '@devvit/web/server';
+import { BossHPForecast } from '../../shared/types/api';
+import { RaidDay, shiftDayKey } from './calendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How many previous raid days feed the forecast
+const LOOKBACK_DAYS = 7;
+// Raid day stats are only needed for the lookback window
+const HISTORY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const DEFAULT_TIME_TO_KILL_HOURS = 6;
+export const TIME_TO_KILL_RANGE = { min: 0.5, max: 24 };
+export const FORECAST_HP_RANGE = { min: 5000, max: 5000000 };
+
+export interface RaidDaySample {
+  dayKey: string;
+  startsAt: number;
+  endsAt: number;   // Raid days can be 23 or 25 hours long across DST changes
+  participants: number;
+  totalDamage: number;
+  defeatedAt?: number | undefined;
+}
+
+export interface ForecastConfig {
+  enabled: boolean;
+  targetTimeToKillHours: number;
+}
+
+/**
+ * Pick boss HP from previous raid days
+ * The observed damage rate per participant (measured until the kill, or over the whole day
+ * if the boss survived) times the expected participants gives the HP that dies in the target time
+ */
+export function forecastBossHP(
+  samples: RaidDaySample[],
+  rosterHP: number,
+  config: ForecastConfig,
+  now: number = Date.now()
+): BossHPForecast {
+  const usable = samples.filter(sample => sample.participants > 0 && sample.totalDamage > 0);
+  const fallback: BossHPForecast = {
+    source: 'roster',
+    chosenHP: rosterHP,
+    rosterHP,
+    targetTimeToKillHours: config.targetTimeToKillHours,
+    sampleDays: usable.length,
+    forecastParticipants: 0,
+    damagePerParticipantHour: 0,
+    createdAt: now
+  };
+
+  if (!config.enabled || usable.length === 0) {
+    return fallback;
+  }
+
+  // Recent days count more (samples are ordered most recent first)
+  let weightedParticipants = 0;
+  let totalWeight = 0;
+  let totalDamage = 0;
+  let participantHours = 0;
+
+  usable.forEach((sample, index) => {
+    const weight = usable.length - index;
+    weightedParticipants += sample.participants * weight;
+    totalWeight += weight;
+
+    // At least 15 minutes so a near-instant kill can't divide by ~0
+    const activeMs = Math.min(sample.defeatedAt ?? sample.endsAt, sample.endsAt) - sample.startsAt;
+    const activeHours = Math.max(0.25, activeMs / HOUR_MS);
+    totalDamage += sample.totalDamage;
+    participantHours += sample.participants * activeHours;
+  });
+
+  const forecastParticipants = weightedParticipants / totalWeight;
+  const damagePerParticipantHour = totalDamage / participantHours;
+  const rawHP = forecastParticipants * damagePerParticipantHour * config.targetTimeToKillHours;
+
+  // Round to a friendly number and keep inside sane bounds
+  const chosenHP = Math.min(
+    FORECAST_HP_RANGE.max,
+    Math.max(FORECAST_HP_RANGE.min, Math.round(rawHP / 1000) * 1000)
+  );
+
+  return {
+    ...fallback,
+    source: 'forecast',
+    chosenHP,
+    forecastParticipants: Math.round(forecastParticipants * 10) / 10,
+    damagePerParticipantHour: Math.round(damagePerParticipantHour)
+  };
+}
+
+export class RaidForecastManager {
+  // Keyed by the raid day's local date so lookbacks follow the subreddit's calendar
+  private static getDayStatsKey(dayKey: string): string {
+    return `raid_day_stats:${dayKey}`;
+  }
+
+  private static getDayParticipantsKey(dayKey: string): string {
+    return `raid_day_participants:${dayKey}`;
+  }
+
+  /**
+   * Record damage that landed on today's boss (unique participants and total damage)
+   */
+  public static async recordDamage(
+    raidDay: RaidDay,
+    userId: string,
+    damage: number,
+    defeatedAt?: number
+  ): Promise<void> {
+    const statsKey = this.getDayStatsKey(raidDay.dayKey);
+    const participantsKey = this.getDayParticipantsKey(raidDay.dayKey);
+
+    try {
+      const totalDamage = await redis.hIncrBy(statsKey, 'totalDamage', damage);
+      await redis.zIncrBy(participantsKey, userId, damage);
+      if (defeatedAt !== undefined) {
+        await redis.hSet(statsKey, { defeatedAt: defeatedAt.toString() });
+      }
+
+      // First damage of the day creates both keys
+      if (totalDamage === damage) {
+        await redis.hSet(statsKey, {
+          startsAt: raidDay.startsAt.toString(),
+          endsAt: raidDay.endsAt.toString()
+        });
+        await redis.expire(statsKey, HISTORY_TTL_SECONDS);
+        await redis.expire(participantsKey, HISTORY_TTL_SECONDS);
+      }
+    } catch (error) {
+      console.error('Error recording raid day participation:', error);
+    }
+  }
+
+  /**
+   * Get participation for the raid days before the given one (most recent first)
+   */
+  public static async getHistory(raidDay: RaidDay, days: number = LOOKBACK_DAYS): Promise<RaidDaySample[]> {
+    const samples: RaidDaySample[] = [];
+
+    for (let i = 1; i <= days; i++) {
+      const dayKey = shiftDayKey(raidDay.dayKey, -i);
+      const stats = await redis.hGetAll(this.getDayStatsKey(dayKey));
+      if (!stats || !stats.totalDamage || !stats.startsAt || !stats.endsAt) {
+        continue;
+      }
+
+      samples.push({
+        dayKey,
+        startsAt: parseInt(stats.startsAt),
+        endsAt: parseInt(stats.endsAt),
+        participants: await redis.zCard(this.getDayParticipantsKey(dayKey)),
+        totalDamage: parseInt(stats.totalDamage),
+        defeatedAt: stats.defeatedAt ? parseInt(stats.defeatedAt) : undefined
+      });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Read the moderator's forecast settings (falls back to defaults)
+   */
+  public static async getConfig(): Promise<ForecastConfig> {
+    try {
+      const enabled = await settings.get<boolean>('bossHPScalingEnabled');
+      const hours = await settings.get<number>('bossTargetTimeToKillHours');
+      const targetTimeToKillHours = typeof hours === 'number' && Number.isFinite(hours)
+        ? Math.min(TIME_TO_KILL_RANGE.max, Math.max(TIME_TO_KILL_RANGE.min, hours))
+        : DEFAULT_TIME_TO_KILL_HOURS;
+
+      return { enabled: enabled ?? true, targetTimeToKillHours };
+    } catch (error) {
+      console.error('Error reading boss HP forecast settings:', error);
+      return { enabled: true, targetTimeToKillHours: DEFAULT_TIME_TO_KILL_HOURS };
+    }
+  }
+
+  /**
+   * Forecast the HP for a boss spawning on the given raid day
+   */
+  public static async forecastForDay(raidDay: RaidDay, rosterHP: number): Promise<BossHPForecast> {
+    try {
+      const [config, samples] = await Promise.all([this.getConfig(), this.getHistory(raidDay)]);
+      return forecastBossHP(samples, rosterHP, config);
+    } catch (error) {
+      console.error('Error forecasting boss HP:', error);
+      return forecastBossHP([], rosterHP, { enabled: false, targetTimeToKillHours: DEFAULT_TIME_TO_KILL_HOURS });
+    }
+  }
+}
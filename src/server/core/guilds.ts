@@ -0,0 +1,356 @@
+import { redis } from '@devvit/web/server';
+import { Guild, GuildLeaderboardEntry, GuildMember, GuildRole } from '../../shared/types/api';
+import { GUILD_MEMBER_CAP, canChangeRole, canKick, normalizeGuildName, normalizeGuildTag } from '../../shared/game/guilds';
+import { RaidCalendar } from './calendar';
+import { RedditUserService } from './reddit-user';
+
+// What each member field of the guild hash holds
+interface GuildMembership {
+  role: GuildRole;
+  joinedAt: number;
+}
+
+export interface GuildResult {
+  success: boolean;
+  guild?: Guild;
+  message?: string;
+}
+
+export class GuildManager {
+  // name, tag, ownerId, createdAt, memberCount, totalDamage, plus "member:{userId}" (JSON) and "damage:{userId}" per member
+  private static getGuildKey(guildId: string): string {
+    return `guild:${guildId}`;
+  }
+
+  // The one guild a player belongs to (written with nx, so nobody joins two at once)
+  private static getMembershipKey(userId: string): string {
+    return `guild_of:${userId}`;
+  }
+
+  // Lower-cased name -> guild id, and tag -> guild id, so both stay unique
+  private static readonly NAMES_KEY = 'guild_names';
+  private static readonly TAGS_KEY = 'guild_tags';
+
+  // Every guild scored by lifetime damage
+  private static readonly GUILDS_KEY = 'guilds';
+
+  // Guild damage in one raid post
+  private static getRaidLeaderboardKey(postId: string): string {
+    return `guild_leaderboard:${postId}`;
+  }
+
+  /**
+   * Found a guild with the player as its owner
+   */
+  public static async create(userId: string, name: unknown, tag: unknown): Promise<GuildResult> {
+    const nameResult = normalizeGuildName(name);
+    if ('error' in nameResult) return { success: false, message: nameResult.error };
+    const tagResult = normalizeGuildTag(tag);
+    if ('error' in tagResult) return { success: false, message: tagResult.error };
+
+    if (await redis.get(this.getMembershipKey(userId))) {
+      return { success: false, message: 'Leave your guild before founding a new one' };
+    }
+
+    const guildId = `g${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const nameKey = nameResult.name.toLowerCase();
+
+    // Claim the name, the tag and the player's membership in turn, giving back what was taken if a later step loses
+    if (!await redis.hSetNX(this.NAMES_KEY, nameKey, guildId)) {
+      return { success: false, message: 'That guild name is taken' };
+    }
+    if (!await redis.hSetNX(this.TAGS_KEY, tagResult.tag, guildId)) {
+      await redis.hDel(this.NAMES_KEY, [nameKey]);
+      return { success: false, message: 'That guild tag is taken' };
+    }
+    if (!await redis.set(this.getMembershipKey(userId), guildId, { nx: true })) {
+      await redis.hDel(this.NAMES_KEY, [nameKey]);
+      await redis.hDel(this.TAGS_KEY, [tagResult.tag]);
+      return { success: false, message: 'Leave your guild before founding a new one' };
+    }
+
+    const createdAt = Date.now();
+    const owner: GuildMembership = { role: 'owner', joinedAt: createdAt };
+    await redis.hSet(this.getGuildKey(guildId), {
+      name: nameResult.name,
+      tag: tagResult.tag,
+      ownerId: userId,
+      createdAt: createdAt.toString(),
+      memberCount: '1',
+      totalDamage: '0',
+      [`member:${userId}`]: JSON.stringify(owner)
+    });
+    await redis.zAdd(this.GUILDS_KEY, { member: guildId, score: 0 });
+
+    console.log(`${userId} founded guild ${guildId} [${tagResult.tag}]`);
+    return await this.withGuild(guildId);
+  }
+
+  /**
+   * Join a guild if the player isn't in one and it has room
+   */
+  public static async join(userId: string, guildId: string): Promise<GuildResult> {
+    const key = this.getGuildKey(guildId);
+    if (!await redis.hGet(key, 'name')) {
+      return { success: false, message: 'Guild not found' };
+    }
+
+    const membershipKey = this.getMembershipKey(userId);
+    if (!await redis.set(membershipKey, guildId, { nx: true })) {
+      return { success: false, message: 'You are already in a guild' };
+    }
+
+    // Take the seat first so parallel joins can't overfill the guild
+    const memberCount = await redis.hIncrBy(key, 'memberCount', 1);
+    if (memberCount > GUILD_MEMBER_CAP) {
+      await redis.hIncrBy(key, 'memberCount', -1);
+      await redis.del(membershipKey);
+      return { success: false, message: 'That guild is full' };
+    }
+
+    const membership: GuildMembership = { role: 'member', joinedAt: Date.now() };
+    await redis.hSet(key, { [`member:${userId}`]: JSON.stringify(membership) });
+
+    // A disband that landed meanwhile leaves only the fields written above; clear them instead of reviving the guild
+    if (!await redis.hGet(key, 'name')) {
+      await redis.hDel(key, ['memberCount', `member:${userId}`]);
+      await redis.del(membershipKey);
+      return { success: false, message: 'Guild not found' };
+    }
+    return await this.withGuild(guildId);
+  }
+
+  /**
+   * Leave the player's guild; an owner hands it to the longest-serving officer (or member), and the last one out disbands it
+   */
+  public static async leave(userId: string): Promise<GuildResult> {
+    const current = await this.getMembership(userId);
+    if (!current) {
+      return { success: false, message: 'You are not in a guild' };
+    }
+
+    const { guildId, membership } = current;
+    if (membership.role === 'owner') {
+      const successor = (await this.getMemberships(guildId))
+        .filter((member) => member.userId !== userId)
+        .sort((a, b) => (b.role === 'officer' ? 1 : 0) - (a.role === 'officer' ? 1 : 0) || a.joinedAt - b.joinedAt)[0];
+
+      if (!successor) {
+        await this.disbandGuild(guildId);
+        return { success: true };
+      }
+
+      const promoted: GuildMembership = { role: 'owner', joinedAt: successor.joinedAt };
+      await redis.hSet(this.getGuildKey(guildId), {
+        ownerId: successor.userId,
+        [`member:${successor.userId}`]: JSON.stringify(promoted)
+      });
+    }
+
+    await this.removeMember(guildId, userId);
+    return { success: true };
+  }
+
+  /**
+   * Remove a member who ranks below the player
+   */
+  public static async kick(userId: string, targetId: string): Promise<GuildResult> {
+    const actor = await this.getMembership(userId);
+    const target = await this.getMembership(targetId);
+    if (!actor || !target || actor.guildId !== target.guildId) {
+      return { success: false, message: 'That player is not in your guild' };
+    }
+    if (!canKick(actor.membership.role, target.membership.role)) {
+      return { success: false, message: 'You cannot kick that member' };
+    }
+
+    await this.removeMember(actor.guildId, targetId);
+    console.log(`${userId} kicked ${targetId} from guild ${actor.guildId}`);
+    return await this.withGuild(actor.guildId);
+  }
+
+  /**
+   * Promote a member to officer or demote an officer (owner only)
+   */
+  public static async setRole(userId: string, targetId: string, role: GuildRole): Promise<GuildResult> {
+    const actor = await this.getMembership(userId);
+    const target = await this.getMembership(targetId);
+    if (!actor || !target || actor.guildId !== target.guildId) {
+      return { success: false, message: 'That player is not in your guild' };
+    }
+    if (!canChangeRole(actor.membership.role) || role === 'owner' || targetId === userId) {
+      return { success: false, message: 'Only the owner can promote and demote members' };
+    }
+
+    const updated: GuildMembership = { ...target.membership, role };
+    await redis.hSet(this.getGuildKey(actor.guildId), { [`member:${targetId}`]: JSON.stringify(updated) });
+    return await this.withGuild(actor.guildId);
+  }
+
+  /**
+   * Disband the player's guild (owner only)
+   */
+  public static async disband(userId: string): Promise<GuildResult> {
+    const current = await this.getMembership(userId);
+    if (!current || current.membership.role !== 'owner') {
+      return { success: false, message: 'Only the owner can disband the guild' };
+    }
+
+    await this.disbandGuild(current.guildId);
+    console.log(`${userId} disbanded guild ${current.guildId}`);
+    return { success: true };
+  }
+
+  /**
+   * Credit damage a member dealt to their guild's lifetime total and this raid's guild leaderboard
+   */
+  public static async recordDamage(postId: string, userId: string, damage: number): Promise<void> {
+    const guildId = await redis.get(this.getMembershipKey(userId));
+    if (!guildId || damage <= 0) return;
+
+    const key = this.getGuildKey(guildId);
+    if (!await redis.hGet(key, `member:${userId}`)) return;
+
+    await redis.hIncrBy(key, 'totalDamage', damage);
+    await redis.hIncrBy(key, `damage:${userId}`, damage);
+    await redis.zIncrBy(this.GUILDS_KEY, guildId, damage);
+
+    // Expire at the subreddit's next daily reset, like the player leaderboard
+    const leaderboardKey = this.getRaidLeaderboardKey(postId);
+    await redis.zIncrBy(leaderboardKey, guildId, damage);
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
+    await redis.expire(leaderboardKey, Math.max(1, Math.ceil((raidDay.endsAt - Date.now()) / 1000)));
+  }
+
+  public static async getGuild(guildId: string): Promise<Guild | undefined> {
+    const fields = await redis.hGetAll(this.getGuildKey(guildId)) ?? {};
+    if (!fields.name || !fields.tag || !fields.ownerId) {
+      return undefined;
+    }
+
+    return {
+      id: guildId,
+      name: fields.name,
+      tag: fields.tag,
+      ownerId: fields.ownerId,
+      memberCount: parseInt(fields.memberCount ?? '0'),
+      totalDamage: parseInt(fields.totalDamage ?? '0'),
+      createdAt: parseInt(fields.createdAt ?? '0')
+    };
+  }
+
+  /**
+   * The player's guild and role, if they're in one
+   */
+  public static async getPlayerGuild(userId: string): Promise<{ guild: Guild; role: GuildRole } | undefined> {
+    const current = await this.getMembership(userId);
+    const guild = current && await this.getGuild(current.guildId);
+    return current && guild ? { guild, role: current.membership.role } : undefined;
+  }
+
+  public static async getGuildTag(userId: string): Promise<string | undefined> {
+    const guildId = await redis.get(this.getMembershipKey(userId));
+    return guildId ? await redis.hGet(this.getGuildKey(guildId), 'tag') ?? undefined : undefined;
+  }
+
+  /**
+   * Members by role, then by damage dealt for the guild
+   */
+  public static async getMembers(guildId: string): Promise<GuildMember[]> {
+    const memberships = await this.getMemberships(guildId);
+    const fields = await redis.hGetAll(this.getGuildKey(guildId)) ?? {};
+    const userData = await RedditUserService.getBatchUserData(memberships.map((member) => member.userId));
+    const roleOrder: Record<GuildRole, number> = { owner: 0, officer: 1, member: 2 };
+
+    return memberships
+      .map((member) => ({
+        ...member,
+        username: userData.get(member.userId)?.username,
+        damage: parseInt(fields[`damage:${member.userId}`] ?? '0')
+      }))
+      .sort((a, b) => roleOrder[a.role] - roleOrder[b.role] || b.damage - a.damage);
+  }
+
+  /**
+   * Top guilds by lifetime damage
+   */
+  public static async listGuilds(limit: number = 20): Promise<Guild[]> {
+    const ranked = await redis.zRange(this.GUILDS_KEY, 0, limit - 1, { by: 'rank', reverse: true });
+    const guilds: Guild[] = [];
+
+    for (const { member } of ranked) {
+      const guild = await this.getGuild(member);
+      if (guild) guilds.push(guild);
+    }
+
+    return guilds;
+  }
+
+  /**
+   * Guilds by damage dealt in one raid post
+   */
+  public static async getRaidLeaderboard(postId: string, limit: number = 10): Promise<GuildLeaderboardEntry[]> {
+    const ranked = await redis.zRange(this.getRaidLeaderboardKey(postId), 0, limit - 1, { by: 'rank', reverse: true });
+    const entries: GuildLeaderboardEntry[] = [];
+
+    for (const { member, score } of ranked) {
+      const guild = await this.getGuild(member);
+      if (!guild) continue;
+
+      entries.push({
+        guildId: guild.id,
+        name: guild.name,
+        tag: guild.tag,
+        damage: score,
+        memberCount: guild.memberCount,
+        rank: entries.length + 1
+      });
+    }
+
+    return entries;
+  }
+
+  private static async getMembership(userId: string): Promise<{ guildId: string; membership: GuildMembership } | undefined> {
+    const guildId = await redis.get(this.getMembershipKey(userId));
+    const stored = guildId && await redis.hGet(this.getGuildKey(guildId), `member:${userId}`);
+    return guildId && stored ? { guildId, membership: JSON.parse(stored) as GuildMembership } : undefined;
+  }
+
+  private static async getMemberships(guildId: string): Promise<(GuildMembership & { userId: string })[]> {
+    const fields = await redis.hGetAll(this.getGuildKey(guildId)) ?? {};
+    return Object.entries(fields)
+      .filter(([field]) => field.startsWith('member:'))
+      .map(([field, value]) => ({ userId: field.slice('member:'.length), ...(JSON.parse(value) as GuildMembership) }));
+  }
+
+  /**
+   * Free the member's seat; only the call that actually removed them gives it back, so a kick racing a leave counts once
+   */
+  private static async removeMember(guildId: string, userId: string): Promise<void> {
+    const key = this.getGuildKey(guildId);
+    if (await redis.hDel(key, [`member:${userId}`]) > 0) {
+      await redis.hDel(key, [`damage:${userId}`]);
+      await redis.hIncrBy(key, 'memberCount', -1);
+    }
+    await redis.del(this.getMembershipKey(userId));
+  }
+
+  private static async disbandGuild(guildId: string): Promise<void> {
+    const guild = await this.getGuild(guildId);
+    for (const { userId } of await this.getMemberships(guildId)) {
+      await redis.del(this.getMembershipKey(userId));
+    }
+
+    if (guild) {
+      await redis.hDel(this.NAMES_KEY, [guild.name.toLowerCase()]);
+      await redis.hDel(this.TAGS_KEY, [guild.tag]);
+    }
+    await redis.zRem(this.GUILDS_KEY, [guildId]);
+    await redis.del(this.getGuildKey(guildId));
+  }
+
+  private static async withGuild(guildId: string): Promise<GuildResult> {
+    const guild = await this.getGuild(guildId);
+    return guild ? { success: true, guild } : { success: false, message: 'Guild not found' };
+  }
+}
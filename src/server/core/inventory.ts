@@ -0,0 +1,118 @@
+import { redis } from '@devvit/web/server';
+import {
+  Inventory,
+  InventoryAsset,
+  LedgerEntry,
+  LedgerReason,
+  VictoryRewards
+} from '../../shared/types/api';
+import { ProfileManager } from './profile';
+
+export type InventoryGrant = Partial<Record<InventoryAsset, number>>;
+
+/**
+ * Map session rewards onto the inventory assets they credit
+ */
+export function toInventoryGrant(rewards: VictoryRewards): InventoryGrant {
+  return {
+    coins: rewards.coins,
+    gems: rewards.gems,
+    potion: rewards.potions,
+    scroll: rewards.scrolls
+  };
+}
+
+export class InventoryManager {
+  // Every transaction for a user, scored by time (entries are never removed)
+  private static getLedgerKey(userId: string): string {
+    return `inventory_ledger:${userId}`;
+  }
+
+  /**
+   * Get a player's currency and item balances
+   */
+  public static async getInventory(userId: string): Promise<Inventory> {
+    const { currencies, items } = await ProfileManager.getProfile(userId);
+    return { currencies, items };
+  }
+
+  /**
+   * Credit assets to a player and append one ledger entry per asset
+   * @returns The entries written (zero and negative amounts are skipped)
+   */
+  public static async credit(
+    userId: string,
+    grant: InventoryGrant,
+    reason: LedgerReason,
+    reference?: string
+  ): Promise<LedgerEntry[]> {
+    const entries: LedgerEntry[] = [];
+
+    for (const [asset, amount] of Object.entries(grant) as [InventoryAsset, number | undefined][]) {
+      if (!amount || amount <= 0) {
+        continue;
+      }
+
+      const balanceAfter = await ProfileManager.adjustBalance(userId, asset, amount);
+      entries.push(await this.appendEntry(userId, { asset, amount, balanceAfter, reason, reference }));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Take assets from a player if they can afford it
+   * The balance is decremented first so parallel debits can't both spend the same units
+   * @returns The ledger entry, or undefined if the balance was too low
+   */
+  public static async debit(
+    userId: string,
+    asset: InventoryAsset,
+    amount: number,
+    reason: LedgerReason,
+    reference?: string
+  ): Promise<LedgerEntry | undefined> {
+    if (amount <= 0) {
+      return undefined;
+    }
+
+    const balanceAfter = await ProfileManager.adjustBalance(userId, asset, -amount);
+    if (balanceAfter < 0) {
+      await ProfileManager.adjustBalance(userId, asset, amount);
+      return undefined;
+    }
+
+    return await this.appendEntry(userId, { asset, amount: -amount, balanceAfter, reason, reference });
+  }
+
+  /**
+   * Get a player's most recent transactions (newest first)
+   */
+  public static async getLedger(userId: string, limit: number = 20): Promise<LedgerEntry[]> {
+    try {
+      const entries = await redis.zRange(this.getLedgerKey(userId), 0, limit - 1, {
+        by: 'rank',
+        reverse: true
+      });
+      return entries.map((entry) => JSON.parse(entry.member) as LedgerEntry);
+    } catch (error) {
+      console.error(`Error getting inventory ledger for ${userId}:`, error);
+      return [];
+    }
+  }
+
+  private static async appendEntry(
+    userId: string,
+    entry: Omit<LedgerEntry, 'id' | 'createdAt'>
+  ): Promise<LedgerEntry> {
+    const createdAt = Date.now();
+    const recorded: LedgerEntry = {
+      id: `${createdAt}:${Math.random().toString(36).slice(2)}`,
+      ...entry,
+      createdAt
+    };
+
+    await redis.zAdd(this.getLedgerKey(userId), { member: JSON.stringify(recorded), score: createdAt });
+    return recorded;
+  }
+}
@@ -0,0 +1,183 @@
+import { redis, settings } from '@devvit/web/server';
+import { BossDefinition, Weekday } from '../../shared/game/bosses';
+import { getFinalHPPercent } from '../../shared/game/outcomes';
+import { BossState, LeaderboardEntry, RaidOutcomeRecord, RaidResult } from '../../shared/types/api';
+
+// An escaped boss waiting to return on its weekday
+export interface RevengeBossRecord {
+  bossId: string;
+  raidId: string;
+  escapedAt: number;
+  finalHPPercent: number;
+}
+
+export interface RaidEndStats {
+  topPlayers: LeaderboardEntry[];
+  totalDamage: number;
+  participantCount: number;
+}
+
+/**
+ * Identify one boss instance (a post can host several across daily resets)
+ */
+export function getRaidId(postId: string, bossState: Pick<BossState, 'dayKey'>): string {
+  return `${postId}:${bossState.dayKey ?? 'legacy'}`;
+}
+
+/**
+ * Build the outcome record shared by victories and failures
+ */
+export function buildRaidOutcome(
+  result: RaidResult,
+  postId: string,
+  bossData: BossDefinition,
+  bossState: BossState,
+  stats: RaidEndStats,
+  now: number = Date.now()
+): RaidOutcomeRecord {
+  const finalHP = result === 'victory' ? 0 : bossState.currentHP;
+
+  return {
+    result,
+    raidId: getRaidId(postId, bossState),
+    postId,
+    dayKey: bossState.dayKey,
+    bossId: bossData.id,
+    bossName: bossData.name,
+    isRevenge: bossState.isRevenge,
+    endedAt: result === 'victory' ? bossState.defeatedAt ?? now : now,
+    maxHP: bossState.maxHP,
+    finalHP,
+    finalHPPercent: getFinalHPPercent(finalHP, bossState.maxHP),
+    slayer: bossState.slayer,
+    topPlayers: stats.topPlayers,
+    totalDamage: stats.totalDamage,
+    participantCount: stats.participantCount,
+    completedAt: now
+  };
+}
+
+export class RaidOutcomeManager {
+  // Final record per boss instance (no expiration)
+  private static getOutcomeKey(raidId: string): string {
+    return `raid_outcome:${raidId}`;
+  }
+
+  // Outcomes of one result, scored by when the raid ended
+  private static getOutcomeIndexKey(result: RaidResult): string {
+    return `raid_outcomes:${result}`;
+  }
+
+  // Escaped bosses waiting for a rematch (weekday -> record)
+  private static getRevengeKey(): string {
+    return 'revenge_bosses';
+  }
+
+  /**
+   * Store an outcome; the first record for a boss instance wins
+   * @returns False if the raid already had an outcome
+   */
+  public static async recordOutcome(outcome: RaidOutcomeRecord): Promise<boolean> {
+    const key = this.getOutcomeKey(outcome.raidId);
+    const serialized = JSON.stringify(outcome);
+
+    await redis.set(key, serialized, { nx: true });
+    if (await redis.get(key) !== serialized) {
+      return false;
+    }
+
+    await redis.zAdd(this.getOutcomeIndexKey(outcome.result), { member: outcome.raidId, score: outcome.endedAt });
+    console.log(`Raid ${outcome.raidId} ended: ${outcome.result}`);
+    return true;
+  }
+
+  /**
+   * Get the outcome of a boss instance
+   */
+  public static async getOutcome(raidId: string): Promise<RaidOutcomeRecord | undefined> {
+    const stored = await redis.get(this.getOutcomeKey(raidId));
+    return stored ? JSON.parse(stored) as RaidOutcomeRecord : undefined;
+  }
+
+  /**
+   * Get the most recent outcomes of one result (newest first)
+   */
+  public static async getRecentOutcomes(result: RaidResult, limit: number = 10): Promise<RaidOutcomeRecord[]> {
+    try {
+      const entries = await redis.zRange(this.getOutcomeIndexKey(result), 0, limit - 1, {
+        by: 'rank',
+        reverse: true
+      });
+
+      const outcomes: RaidOutcomeRecord[] = [];
+      for (const entry of entries) {
+        const outcome = await this.getOutcome(entry.member);
+        if (outcome) {
+          outcomes.push(outcome);
+        }
+      }
+      return outcomes;
+    } catch (error) {
+      console.error('Error getting raid outcomes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a boss that survived its raid day and queue its revenge
+   * @returns The failure, or undefined if the raid already had an outcome
+   */
+  public static async recordFailure(
+    postId: string,
+    bossData: BossDefinition,
+    bossState: BossState,
+    stats: RaidEndStats
+  ): Promise<RaidOutcomeRecord | undefined> {
+    const outcome = buildRaidOutcome('failed', postId, bossData, bossState, stats);
+    if (!await this.recordOutcome(outcome)) {
+      return undefined;
+    }
+
+    // A revenge boss that escapes again doesn't come back a second time
+    if (!bossState.isRevenge && bossState.weekday && await this.isRevengeEnabled()) {
+      const revenge: RevengeBossRecord = {
+        bossId: bossData.id,
+        raidId: outcome.raidId,
+        escapedAt: outcome.endedAt,
+        finalHPPercent: outcome.finalHPPercent
+      };
+      await redis.hSet(this.getRevengeKey(), { [bossState.weekday]: JSON.stringify(revenge) });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Get the escaped boss due back on a weekday
+   */
+  public static async getRevengeBoss(weekday: Weekday): Promise<RevengeBossRecord | undefined> {
+    try {
+      const stored = await redis.hGet(this.getRevengeKey(), weekday);
+      return stored ? JSON.parse(stored) as RevengeBossRecord : undefined;
+    } catch (error) {
+      console.error('Error getting revenge boss:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Clear a weekday's revenge once the boss has returned
+   */
+  public static async clearRevengeBoss(weekday: Weekday): Promise<void> {
+    await redis.hDel(this.getRevengeKey(), [weekday]);
+  }
+
+  private static async isRevengeEnabled(): Promise<boolean> {
+    try {
+      return await settings.get<boolean>('revengeBossesEnabled') ?? true;
+    } catch (error) {
+      console.error('Error reading revenge boss setting:', error);
+      return true;
+    }
+  }
+}
@@ -1,4 +1,11 @@
 import { redis } from '@devvit/web/server';
+import { RaidCalendar } from './calendar';
+import { ProfileManager } from './profile';
+import { GuildManager } from './guilds';
+import { ShopManager } from './shop';
+import { ActiveBuff, Cosmetics, ItemType, Loadout, PlayerProfile } from '../../shared/types/api';
+import { ITEMS } from '../../shared/game/items';
+import { XpCurve } from '../../shared/game/progression';
 
 export enum CharacterClass {
   WARRIOR = 'warrior',
@@ -18,22 +25,38 @@ export interface EnergyState {
 export interface PlayerData {
   userId: string;
   characterClass: CharacterClass;
-  level: number;
-  experience: number;
+  level: number;              // From the subreddit-wide profile
+  experience: number;         // From the subreddit-wide profile
+  xpCurve: XpCurve;           // Curve the level was computed on
+  prestigeRank: number;       // From the subreddit-wide profile
   sessionDamage: number;      // Damage dealt in current 2-minute session
-  totalDamage: number;        // Total damage across all sessions
+  totalDamage: number;        // Lifetime damage from the profile
+  loadout: Loadout;           // Equipment worn, from the profile
+  cosmetics: Cosmetics;       // Shop cosmetics worn, from the profile
+  talents: Record<string, Record<string, number>>; // Learned talents per class, from the profile
   lastEnergyRefresh: number;  // Last session start time
   energyState: EnergyState;   // Simplified energy for 2-minute sessions
   specialAbilityUsed: boolean;
   lastActiveTime: number;
   sessionAttackCount: number; // Track 5-10 attacks per session
+  activeBuff?: ActiveBuff | undefined; // Scroll buff; only counts during the session it was used in
+  firstAttackTime?: number | undefined; // First hit on this raid post (loot scales with time spent)
 }
 
+// The per-post part of PlayerData (lifetime progress lives in the profile)
+export type PlayerSession = Omit<PlayerData, 'level' | 'experience' | 'xpCurve' | 'prestigeRank' | 'totalDamage' | 'loadout' | 'cosmetics' | 'talents'>;
+
+// A per-post record from before profiles, with the player's progress stored inline
+export type LegacyPlayerRecord = Omit<PlayerData, 'xpCurve' | 'prestigeRank' | 'loadout' | 'cosmetics' | 'talents'>;
+
 export interface LeaderboardEntry {
   userId: string;
   username?: string;
   characterClass: CharacterClass;
   level: number;
+  prestigeRank: number;
+  guildTag?: string | undefined;
+  title?: string | undefined;
   sessionDamage: number;
   totalDamage: number;
   rank: number;
@@ -46,8 +69,12 @@ export interface SessionStats {
   specialAbilityUsed: boolean;
   sessionStartTime: number;
   playerRank: number;
+  participationMs: number;
 }
 
+// Per-raid damage outlives the raid day so a late claim still finds it
+const RAID_DAMAGE_TTL_SECONDS = 7 * 86400;
+
 export class PlayerManager {
   private static getPlayerKey(postId: string, userId: string): string {
     return `player:${postId}:${userId}`;
@@ -57,29 +84,53 @@ export class PlayerManager {
     return `leaderboard:${postId}`;
   }
 
+  // One boss instance (see getRaidId): raiders scored by their damage to it; new sessions don't reset it
+  private static getRaidDamageKey(raidId: string): string {
+    return `raid_damage:${raidId}`;
+  }
+
+  // One boss instance: first:{userId} and last:{userId} hold each raider's first and latest hit
+  private static getRaidActivityKey(raidId: string): string {
+    return `raid_activity:${raidId}`;
+  }
+
   private static getSessionStatsKey(postId: string, userId: string): string {
     return `session_stats:${postId}:${userId}`;
   }
 
+  // Bonus attacks from items per session start, kept out of the session record
+  // so an attack saving the session in parallel can't overwrite a grant
+  private static getBonusAttacksKey(postId: string, userId: string): string {
+    return `bonus_attacks:${postId}:${userId}`;
+  }
+
   /**
-   * Initialize or get existing player data
+   * Initialize or get existing player data (this post's session plus the player's profile)
    */
   public static async getPlayerData(postId: string, userId: string): Promise<PlayerData> {
+    const session = await this.getSession(postId, userId);
+    const profile = await ProfileManager.getProfile(userId);
+    return this.combine(session, profile);
+  }
+
+  /**
+   * Get this post's session record, creating it or migrating a pre-profile record
+   */
+  private static async getSession(postId: string, userId: string): Promise<PlayerSession> {
     const playerKey = this.getPlayerKey(postId, userId);
     const existingData = await redis.get(playerKey);
 
     if (existingData) {
-      return JSON.parse(existingData) as PlayerData;
+      const stored = JSON.parse(existingData) as PlayerSession | LegacyPlayerRecord;
+      return 'level' in stored ? await this.migrateLegacyPlayer(postId, userId, stored) : stored;
     }
 
-    // Create new player with default values
-    const newPlayer: PlayerData = {
+    // Create new player with default values, starting with the class they last picked
+    const profile = await ProfileManager.getProfile(userId);
+    const newPlayer: PlayerSession = {
       userId,
-      characterClass: CharacterClass.WARRIOR, // Default class
-      level: 1,
-      experience: 0,
+      characterClass: Object.values(CharacterClass).find((c) => c === profile.characterClass) ?? CharacterClass.WARRIOR,
       sessionDamage: 0,
-      totalDamage: 0,
       lastEnergyRefresh: Date.now(),
       energyState: {
         current: 10, // Start with 10 attacks for 2-minute session
@@ -97,16 +148,59 @@ export class PlayerManager {
     return newPlayer;
   }
 
+  /**
+   * Move a per-post record from before profiles: its progress goes to the profile, the rest stays as the session
+   */
+  private static async migrateLegacyPlayer(postId: string, userId: string, legacy: LegacyPlayerRecord): Promise<PlayerSession> {
+    await ProfileManager.migrateLegacyProgress(userId, postId, legacy);
+    return await this.saveSession(postId, userId, legacy);
+  }
+
+  /**
+   * Store the per-post fields of player data
+   */
+  private static async saveSession(postId: string, userId: string, playerData: PlayerSession | LegacyPlayerRecord): Promise<PlayerSession> {
+    const session: PlayerSession = {
+      userId: playerData.userId,
+      characterClass: playerData.characterClass,
+      sessionDamage: playerData.sessionDamage,
+      lastEnergyRefresh: playerData.lastEnergyRefresh,
+      energyState: playerData.energyState,
+      specialAbilityUsed: playerData.specialAbilityUsed,
+      lastActiveTime: playerData.lastActiveTime,
+      sessionAttackCount: playerData.sessionAttackCount,
+      activeBuff: playerData.activeBuff,
+      firstAttackTime: playerData.firstAttackTime
+    };
+    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(session));
+    return session;
+  }
+
+  private static combine(session: PlayerSession, profile: PlayerProfile): PlayerData {
+    return {
+      ...session,
+      level: profile.level,
+      experience: profile.experience,
+      xpCurve: profile.xpCurve,
+      prestigeRank: profile.prestigeRank,
+      totalDamage: profile.totalDamage,
+      loadout: profile.loadout,
+      cosmetics: ShopManager.getCosmetics(profile.cosmetics),
+      talents: profile.talents
+    };
+  }
+
   /**
    * Update player's character class
    */
   public static async setCharacterClass(postId: string, userId: string, characterClass: CharacterClass): Promise<PlayerData> {
-    const playerData = await this.getPlayerData(postId, userId);
-    playerData.characterClass = characterClass;
-    playerData.lastActiveTime = Date.now();
+    const session = await this.getSession(postId, userId);
+    session.characterClass = characterClass;
+    session.lastActiveTime = Date.now();
 
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
-    return playerData;
+    await this.saveSession(postId, userId, session);
+    const profile = await ProfileManager.setCharacterClass(userId, characterClass);
+    return this.combine(session, profile);
   }
 
   /**
@@ -132,13 +226,23 @@ export class PlayerManager {
         updatedPlayerData.energyState.lastRefresh = now;
         updatedPlayerData.lastActiveTime = now;
         
-        await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(updatedPlayerData));
+        await this.saveSession(postId, userId, updatedPlayerData);
         return { success: true, energyState: updatedPlayerData.energyState };
       } else {
         return { success: false, energyState: playerData.energyState };
       }
     }
 
+    // Out of regular attacks: spend one granted by an item before starting a new session
+    if (playerData.energyState && playerData.energyState.current <= 0 && await this.spendBonusAttack(postId, userId, playerData.energyState.sessionStart)) {
+      playerData.sessionAttackCount++;
+      playerData.energyState.lastRefresh = now;
+      playerData.lastActiveTime = now;
+
+      await this.saveSession(postId, userId, playerData);
+      return { success: true, energyState: await this.withBonusAttacks(postId, userId, playerData.energyState) };
+    }
+
     // Check if player has attacks remaining (5-10 attacks per session)
     if (!playerData.energyState || playerData.energyState.current <= 0) {
       // Try to auto-refresh if no attacks remaining
@@ -151,7 +255,7 @@ export class PlayerManager {
         updatedPlayerData.energyState.lastRefresh = now;
         updatedPlayerData.lastActiveTime = now;
         
-        await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(updatedPlayerData));
+        await this.saveSession(postId, userId, updatedPlayerData);
         return { success: true, energyState: updatedPlayerData.energyState };
       } else {
         return { success: false, energyState: playerData.energyState || { current: 0, max: 10, cooldowns: [], lastRefresh: now, sessionStart: now } };
@@ -164,8 +268,8 @@ export class PlayerManager {
     playerData.energyState.lastRefresh = now;
     playerData.lastActiveTime = now;
 
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
-    return { success: true, energyState: playerData.energyState };
+    await this.saveSession(postId, userId, playerData);
+    return { success: true, energyState: await this.withBonusAttacks(postId, userId, playerData.energyState) };
   }
 
   /**
@@ -173,12 +277,13 @@ export class PlayerManager {
    */
   public static async canRefreshSession(postId: string, userId: string): Promise<boolean> {
     const playerData = await this.getPlayerData(postId, userId);
+    const energyState = await this.withBonusAttacks(postId, userId, playerData.energyState);
     const now = Date.now();
-    const sessionDuration = now - playerData.energyState.sessionStart;
+    const sessionDuration = now - energyState.sessionStart;
     const twoMinutes = 2 * 60 * 1000; // 2 minutes in milliseconds
     
     // Always allow refresh if session is expired, no attacks remaining, or this is a new player
-    return sessionDuration >= twoMinutes || playerData.energyState.current <= 0 || !playerData.energyState.sessionStart;
+    return sessionDuration >= twoMinutes || energyState.current <= 0 || !energyState.sessionStart;
   }
 
   /**
@@ -204,9 +309,10 @@ export class PlayerManager {
     playerData.sessionDamage = 0; // Reset session damage
     playerData.sessionAttackCount = 0;
     playerData.specialAbilityUsed = false;
+    playerData.activeBuff = undefined;
     playerData.lastActiveTime = now;
 
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
+    await this.saveSession(postId, userId, playerData);
     return { success: true, playerData };
   }
 
@@ -214,29 +320,25 @@ export class PlayerManager {
    * Add damage and experience to player
    */
   public static async addDamage(postId: string, userId: string, damage: number, isCritical: boolean = false): Promise<PlayerData> {
-    const playerData = await this.getPlayerData(postId, userId);
+    const session = await this.getSession(postId, userId);
     
-    playerData.sessionDamage += damage;
-    playerData.totalDamage += damage;
-    playerData.lastActiveTime = Date.now();
+    session.sessionDamage += damage;
+    session.lastActiveTime = Date.now();
+    session.firstAttackTime ??= session.lastActiveTime;
 
     // Calculate XP gain (base 10 XP per 100 damage, bonus for critical)
     const baseXP = Math.floor(damage / 100) * 10;
     const criticalBonus = isCritical ? Math.floor(baseXP * 0.5) : 0;
     const xpGain = baseXP + criticalBonus;
-    
-    playerData.experience += xpGain;
 
-    // Level up calculation (1000 XP per level for consistent progression)
-    while (playerData.experience >= 1000) {
-      playerData.level++;
-      playerData.experience -= 1000;
-    }
-
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
+    // Lifetime damage and XP (levels follow from it) go to the profile
+    await this.saveSession(postId, userId, session);
+    const profile = await ProfileManager.recordDamage(userId, session.characterClass, damage, xpGain);
+    const playerData = this.combine(session, profile);
     
     // Update leaderboard
     await this.updateLeaderboard(postId, userId, playerData);
+    await GuildManager.recordDamage(postId, userId, damage);
     
     return playerData;
   }
@@ -245,38 +347,105 @@ export class PlayerManager {
    * Add experience points to player (for victory rewards)
    */
   public static async addExperience(postId: string, userId: string, xpAmount: number): Promise<PlayerData> {
-    const playerData = await this.getPlayerData(postId, userId);
-    
-    playerData.experience += xpAmount;
-    playerData.lastActiveTime = Date.now();
-
-    // Level up calculation (1000 XP per level for consistent progression)
-    while (playerData.experience >= 1000) {
-      playerData.level++;
-      playerData.experience -= 1000;
-    }
+    const session = await this.getSession(postId, userId);
+    session.lastActiveTime = Date.now();
 
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
-    return playerData;
+    await this.saveSession(postId, userId, session);
+    const profile = await ProfileManager.addExperience(userId, xpAmount);
+    return this.combine(session, profile);
   }
 
   /**
    * Mark special ability as used
    */
   public static async useSpecialAbility(postId: string, userId: string): Promise<boolean> {
-    const playerData = await this.getPlayerData(postId, userId);
+    const session = await this.getSession(postId, userId);
     
-    if (playerData.specialAbilityUsed) {
+    if (session.specialAbilityUsed) {
       return false; // Already used
     }
 
-    playerData.specialAbilityUsed = true;
-    playerData.lastActiveTime = Date.now();
+    session.specialAbilityUsed = true;
+    session.lastActiveTime = Date.now();
     
-    await redis.set(this.getPlayerKey(postId, userId), JSON.stringify(playerData));
+    await this.saveSession(postId, userId, session);
     return true;
   }
 
+  /**
+   * Get the damage buff still running for the player's current session
+   */
+  public static getActiveBuff(playerData: PlayerSession | PlayerData): ActiveBuff | undefined {
+    const buff = playerData.activeBuff;
+    return buff && buff.sessionStart === playerData.energyState.sessionStart ? buff : undefined;
+  }
+
+  /**
+   * Check whether an item can be used right now
+   * @returns The reason it can't, or undefined if it can
+   */
+  public static async canUseItem(postId: string, userId: string, item: ItemType): Promise<string | undefined> {
+    const session = await this.getSession(postId, userId);
+    const energyState = await this.withBonusAttacks(postId, userId, session.energyState);
+    const sessionDuration = Date.now() - energyState.sessionStart;
+
+    if (sessionDuration >= 2 * 60 * 1000 || energyState.current <= 0) {
+      return 'Start a new battle session before using items';
+    }
+    if (ITEMS[item].damageMultiplier && this.getActiveBuff(session)) {
+      return 'A scroll is already active this session';
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply an item the player has already paid for to their current session
+   */
+  public static async applyItem(postId: string, userId: string, item: ItemType): Promise<PlayerSession> {
+    let session = await this.getSession(postId, userId);
+    const definition = ITEMS[item];
+
+    if (definition.bonusAttacks) {
+      const key = this.getBonusAttacksKey(postId, userId);
+      await redis.hIncrBy(key, session.energyState.sessionStart.toString(), definition.bonusAttacks);
+      await redis.expire(key, 86400);
+    }
+    if (definition.damageMultiplier) {
+      session.activeBuff = {
+        item,
+        damageMultiplier: definition.damageMultiplier,
+        sessionStart: session.energyState.sessionStart
+      };
+      session.lastActiveTime = Date.now();
+      session = await this.saveSession(postId, userId, session);
+    }
+
+    return { ...session, energyState: await this.withBonusAttacks(postId, userId, session.energyState) };
+  }
+
+  /**
+   * The session's energy with the bonus attacks it still has from items
+   */
+  public static async withBonusAttacks(postId: string, userId: string, energyState: EnergyState): Promise<EnergyState> {
+    const bonus = parseInt(await redis.hGet(this.getBonusAttacksKey(postId, userId), energyState.sessionStart.toString()) ?? '0');
+    return bonus > 0 ? { ...energyState, current: energyState.current + bonus } : energyState;
+  }
+
+  /**
+   * Use up one of the session's bonus attacks
+   * @returns False if it has none left
+   */
+  private static async spendBonusAttack(postId: string, userId: string, sessionStart: number): Promise<boolean> {
+    const key = this.getBonusAttacksKey(postId, userId);
+    const field = sessionStart.toString();
+    if (await redis.hIncrBy(key, field, -1) >= 0) {
+      return true;
+    }
+
+    await redis.hIncrBy(key, field, 1);
+    return false;
+  }
+
   /**
    * Update leaderboard with player data using Redis sorted sets
    */
@@ -289,12 +458,9 @@ export class PlayerManager {
       score: playerData.sessionDamage
     });
     
-    // Set expiration for daily reset (24 hours)
-    const tomorrow8AM = new Date();
-    tomorrow8AM.setDate(tomorrow8AM.getDate() + 1);
-    tomorrow8AM.setHours(8, 0, 0, 0);
-    
-    await redis.expire(leaderboardKey, Math.floor((tomorrow8AM.getTime() - Date.now()) / 1000));
+    // Expire at the subreddit's next daily reset
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
+    await redis.expire(leaderboardKey, Math.max(1, Math.ceil((raidDay.endsAt - Date.now()) / 1000)));
   }
 
   /**
@@ -323,6 +489,9 @@ export class PlayerManager {
             userId,
             characterClass: playerData.characterClass,
             level: playerData.level,
+            prestigeRank: playerData.prestigeRank,
+            guildTag: await GuildManager.getGuildTag(userId),
+            title: playerData.cosmetics.title,
             sessionDamage: sessionDamage,
             totalDamage: playerData.totalDamage,
             rank: i + 1
@@ -369,7 +538,48 @@ export class PlayerManager {
       criticalHits: stats.criticalHits || 0,
       specialAbilityUsed: playerData.specialAbilityUsed,
       sessionStartTime: playerData.energyState.sessionStart,
-      playerRank
+      playerRank,
+      participationMs: playerData.firstAttackTime ? playerData.lastActiveTime - playerData.firstAttackTime : 0
+    };
+  }
+
+  /**
+   * Credit damage to the raider's total for one boss instance (victory rewards scale with it)
+   */
+  public static async recordRaidDamage(raidId: string, userId: string, damage: number): Promise<void> {
+    if (damage <= 0) {
+      return;
+    }
+
+    const damageKey = this.getRaidDamageKey(raidId);
+    const activityKey = this.getRaidActivityKey(raidId);
+    const now = Date.now().toString();
+
+    await redis.zIncrBy(damageKey, userId, damage);
+    await redis.hSetNX(activityKey, `first:${userId}`, now);
+    await redis.hSet(activityKey, { [`last:${userId}`]: now });
+    await redis.expire(damageKey, RAID_DAMAGE_TTL_SECONDS);
+    await redis.expire(activityKey, RAID_DAMAGE_TTL_SECONDS);
+  }
+
+  /**
+   * Session stats with the damage, rank and participation time of one boss instance
+   * Used for victory rewards, which a session refresh mid-raid mustn't shrink
+   */
+  public static async getRaidStats(postId: string, userId: string, raidId: string): Promise<SessionStats> {
+    const sessionStats = await this.getSessionStats(postId, userId);
+    const activityKey = this.getRaidActivityKey(raidId);
+
+    const ranked = await redis.zRange(this.getRaidDamageKey(raidId), 0, -1, { by: 'rank', reverse: true });
+    const rankIndex = ranked.findIndex((entry) => entry.member === userId);
+    const firstAttack = await redis.hGet(activityKey, `first:${userId}`);
+    const lastAttack = await redis.hGet(activityKey, `last:${userId}`);
+
+    return {
+      ...sessionStats,
+      sessionDamage: ranked[rankIndex]?.score ?? 0,
+      playerRank: rankIndex + 1,
+      participationMs: firstAttack && lastAttack ? parseInt(lastAttack) - parseInt(firstAttack) : 0
     };
   }
 
@@ -1,6 +1,6 @@
 import { context, reddit } from '@devvit/web/server';
 
-export const createPost = async () => {
+export const createPost = async (title: string = 'Raid Day - Community Boss Battle') => {
   const { subredditName } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
@@ -21,6 +21,6 @@ export const createPost = async () => {
       score: 0,
     },
     subredditName: subredditName,
-    title: 'Raid Day - Community Boss Battle',
+    title,
   });
 };
@@ -0,0 +1,38 @@
+import { PlayerProfile } from '../../shared/types/api';
+import { LEVEL_CAP, canPrestige } from '../../shared/game/progression';
+import { ProfileManager } from './profile';
+
+export interface PrestigeResult {
+  success: boolean;
+  profile?: PlayerProfile;
+  message?: string;
+}
+
+export class PrestigeManager {
+  /**
+   * Trade a capped level for the next prestige rank
+   * Levels start over, and so do talent trees since their points come from the level
+   */
+  public static async prestige(userId: string): Promise<PrestigeResult> {
+    const profile = await ProfileManager.getProfile(userId);
+    if (!canPrestige(profile.level)) {
+      return { success: false, message: `Reach level ${LEVEL_CAP} to prestige` };
+    }
+
+    const claimed = await ProfileManager.claimPrestige(userId, {
+      rank: profile.prestigeRank + 1,
+      achievedAt: Date.now(),
+      lifetimeExperience: profile.lifetimeExperience
+    });
+    if (!claimed) {
+      return { success: false, message: 'Already prestiged' };
+    }
+
+    for (const characterClass of Object.keys(profile.talents)) {
+      await ProfileManager.clearTalents(userId, characterClass);
+    }
+
+    console.log(`${userId} reached prestige ${profile.prestigeRank + 1}`);
+    return { success: true, profile: await ProfileManager.getProfile(userId) };
+  }
+}
@@ -0,0 +1,417 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory stand-in for the Devvit Redis client. Every call yields to the event loop
+// first, so parallel requests interleave the way they do against real Redis.
+const { redis, settings, settingValues, store } = vi.hoisted(() => {
+  const store = new Map<string, string | Map<string, string>>();
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+  const hash = (key: string): Map<string, string> => {
+    const existing = store.get(key);
+    if (existing instanceof Map) return existing;
+    const created = new Map<string, string>();
+    store.set(key, created);
+    return created;
+  };
+
+  const redis = {
+    async get(key: string) {
+      await tick();
+      const value = store.get(key);
+      return typeof value === 'string' ? value : undefined;
+    },
+    async set(key: string, value: string, options?: { nx?: boolean }) {
+      await tick();
+      if (options?.nx && store.has(key)) return undefined;
+      store.set(key, value);
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      await tick();
+      keys.forEach((key) => store.delete(key));
+    },
+    async hGet(key: string, field: string) {
+      await tick();
+      const value = store.get(key);
+      return value instanceof Map ? value.get(field) : undefined;
+    },
+    async hDel(key: string, fields: string[]) {
+      await tick();
+      return fields.filter((field) => hash(key).delete(field)).length;
+    },
+    async hGetAll(key: string) {
+      await tick();
+      const value = store.get(key);
+      return value instanceof Map ? Object.fromEntries(value) : {};
+    },
+    async hSet(key: string, fieldValues: Record<string, string>) {
+      await tick();
+      const fields = hash(key);
+      Object.entries(fieldValues).forEach(([field, value]) => fields.set(field, value));
+      return Object.keys(fieldValues).length;
+    },
+    async hSetNX(key: string, field: string, value: string) {
+      await tick();
+      const fields = hash(key);
+      if (fields.has(field)) return 0;
+      fields.set(field, value);
+      return 1;
+    },
+    async hIncrBy(key: string, field: string, value: number) {
+      await tick();
+      const fields = hash(key);
+      const next = parseInt(fields.get(field) ?? '0') + value;
+      fields.set(field, next.toString());
+      return next;
+    },
+    // Sorted sets keep their scores in a hash; only zIncrBy's scores are read back here
+    async zAdd() {
+      await tick();
+    },
+    async zIncrBy(key: string, member: string, value: number) {
+      await tick();
+      const scores = hash(key);
+      const next = parseFloat(scores.get(member) ?? '0') + value;
+      scores.set(member, next.toString());
+      return next;
+    },
+    async zRange(key: string, start: number, stop: number) {
+      await tick();
+      const value = store.get(key);
+      const members = value instanceof Map ? [...value].map(([member, score]) => ({ member, score: parseFloat(score) })) : [];
+      members.sort((a, b) => b.score - a.score);
+      return members.slice(start, stop < 0 ? undefined : stop + 1);
+    },
+    async zRem() {
+      await tick();
+    },
+    async expire() {
+      await tick();
+    },
+  };
+
+  // Subreddit settings, cleared per test
+  const settingValues: Record<string, unknown> = {};
+  const settings = { get: async (name: string) => settingValues[name] };
+
+  return { redis, settings, settingValues, store };
+});
+
+// A single installation, so global keys share the store
+vi.mock('@devvit/web/server', () => ({ redis: { ...redis, global: redis }, settings }));
+
+import { CharacterClass, LegacyPlayerRecord, PlayerManager } from './player';
+import { ProfileManager } from './profile';
+import { PrestigeManager } from './prestige';
+import { StreakManager } from './streaks';
+import { InventoryManager } from './inventory';
+import { ITEMS } from '../../shared/game/items';
+import { getRaidDay } from './calendar';
+import { GuildManager } from './guilds';
+import { GUILD_MEMBER_CAP } from '../../shared/game/guilds';
+import { FactionManager } from './factions';
+import { WorldBossManager } from './world-boss';
+import { WORLD_BOSS_HP } from '../../shared/game/world-boss';
+import { ShopManager } from './shop';
+import { LEVEL_CAP, getTotalExperience } from '../../shared/game/progression';
+
+const USER_ID = 't2_raider';
+
+// A player record as stored per post before profiles existed
+const legacyRecord = (overrides: Partial<LegacyPlayerRecord>): LegacyPlayerRecord => ({
+  userId: USER_ID,
+  characterClass: CharacterClass.MAGE,
+  level: 1,
+  experience: 0,
+  sessionDamage: 0,
+  totalDamage: 0,
+  lastEnergyRefresh: 0,
+  energyState: { current: 10, max: 10, cooldowns: [], lastRefresh: 0, sessionStart: 0 },
+  specialAbilityUsed: false,
+  lastActiveTime: 0,
+  sessionAttackCount: 0,
+  ...overrides
+});
+
+describe('PlayerManager with profiles', () => {
+  beforeEach(() => {
+    store.clear();
+    Object.keys(settingValues).forEach((name) => delete settingValues[name]);
+  });
+
+  it('carries level and lifetime damage over to a new raid post', async () => {
+    await PlayerManager.setCharacterClass('t3_monday', USER_ID, CharacterClass.ROGUE);
+    await PlayerManager.addDamage('t3_monday', USER_ID, 12_000);
+
+    const tuesday = await PlayerManager.getPlayerData('t3_tuesday', USER_ID);
+    expect(tuesday.level).toBe(2);
+    expect(tuesday.experience).toBe(200);
+    expect(tuesday.totalDamage).toBe(12_000);
+    expect(tuesday.sessionDamage).toBe(0);
+    expect(tuesday.characterClass).toBe(CharacterClass.ROGUE);
+
+    const profile = await ProfileManager.getProfile(USER_ID);
+    expect(profile.classHistory.rogue?.damage).toBe(12_000);
+  });
+
+  it('migrates each pre-profile post record into the profile exactly once', async () => {
+    store.set(`player:t3_old1:${USER_ID}`, JSON.stringify(legacyRecord({
+      level: 3, experience: 400, totalDamage: 25_000, sessionDamage: 5_000
+    })));
+    store.set(`player:t3_old2:${USER_ID}`, JSON.stringify(legacyRecord({
+      level: 2, experience: 100, totalDamage: 11_000
+    })));
+
+    // Parallel first reads of the same old post must not double count it
+    await Promise.all([
+      PlayerManager.getPlayerData('t3_old1', USER_ID),
+      PlayerManager.getPlayerData('t3_old1', USER_ID),
+      PlayerManager.getPlayerData('t3_old2', USER_ID)
+    ]);
+    const migrated = await PlayerManager.getPlayerData('t3_old1', USER_ID);
+
+    // Levels 3 (40% in) and 2 (10% in) from the old flat curve become 2,850 + 1,125 XP on the current one
+    expect(migrated.level).toBe(4);
+    expect(migrated.experience).toBe(225);
+    expect(migrated.totalDamage).toBe(36_000);
+    expect(migrated.sessionDamage).toBe(5_000);
+
+    // The post record keeps only session data afterwards
+    const session = JSON.parse(store.get(`player:t3_old1:${USER_ID}`) as string);
+    expect(session).not.toHaveProperty('level');
+    expect(session.sessionDamage).toBe(5_000);
+  });
+
+  it('keeps levels earned on an earlier XP curve', async () => {
+    // A profile from the flat 1,000 XP per level days: level 10, halfway in
+    store.set(`profile:${USER_ID}`, new Map([['createdAt', '1'], ['lifetimeExperience', '9500']]));
+    const [first, second] = await Promise.all([ProfileManager.getProfile(USER_ID), ProfileManager.getProfile(USER_ID)]);
+    expect(first.level).toBe(10);
+    expect(second.level).toBe(10);
+    expect((await ProfileManager.getProfile(USER_ID)).experience).toBe(1_625);
+
+    settingValues.xpCurveBase = 500;
+    const retuned = await ProfileManager.getProfile(USER_ID);
+    expect(retuned.level).toBe(10);
+    expect(retuned.xpCurve).toEqual({ base: 500, increment: 250 });
+    expect(retuned.experience / retuned.experienceToNext).toBeCloseTo(0.5, 2);
+  });
+
+  it('keeps a potion\'s bonus attacks when an attack saves the session at the same time', async () => {
+    await PlayerManager.getPlayerData('t3_potion', USER_ID);
+    await Promise.all([
+      PlayerManager.applyItem('t3_potion', USER_ID, 'potion'),
+      PlayerManager.consumeEnergy('t3_potion', USER_ID)
+    ]);
+
+    const { energyState } = await PlayerManager.getPlayerData('t3_potion', USER_ID);
+    const bonusAttacks = ITEMS.potion.bonusAttacks ?? 0;
+    expect((await PlayerManager.withBonusAttacks('t3_potion', USER_ID, energyState)).current).toBe(energyState.max - 1 + bonusAttacks);
+
+    // Bonus attacks are spent once the regular ones run out
+    for (let attack = 1; attack < energyState.max + bonusAttacks; attack++) {
+      expect((await PlayerManager.consumeEnergy('t3_potion', USER_ID)).success).toBe(true);
+    }
+    const drained = await PlayerManager.getPlayerData('t3_potion', USER_ID);
+    expect((await PlayerManager.withBonusAttacks('t3_potion', USER_ID, drained.energyState)).current).toBe(0);
+  });
+
+  it('keeps a raider\'s damage to the boss when a new session starts mid-raid', async () => {
+    await PlayerManager.addDamage('t3_raid', USER_ID, 4_000);
+    await PlayerManager.recordRaidDamage('t3_raid:2025-01-06', USER_ID, 4_000);
+    await PlayerManager.recordRaidDamage('t3_raid:2025-01-06', 't2_ally', 6_000);
+
+    for (let attack = 0; attack < 10; attack++) {
+      await PlayerManager.consumeEnergy('t3_raid', USER_ID);
+    }
+    expect((await PlayerManager.refreshSession('t3_raid', USER_ID)).success).toBe(true);
+    expect((await PlayerManager.getSessionStats('t3_raid', USER_ID)).sessionDamage).toBe(0);
+
+    const raidStats = await PlayerManager.getRaidStats('t3_raid', USER_ID, 't3_raid:2025-01-06');
+    expect(raidStats.sessionDamage).toBe(4_000);
+    expect(raidStats.playerRank).toBe(2);
+
+    // The next boss on the post starts from nothing
+    expect((await PlayerManager.getRaidStats('t3_raid', USER_ID, 't3_raid:2025-01-07')).sessionDamage).toBe(0);
+  });
+
+  it('prestiges once at the level cap and levels up again from there', async () => {
+    expect((await PrestigeManager.prestige(USER_ID)).success).toBe(false);
+
+    await ProfileManager.addExperience(USER_ID, getTotalExperience(LEVEL_CAP, 0) + 300);
+    expect((await ProfileManager.getProfile(USER_ID)).level).toBe(LEVEL_CAP);
+
+    // Double taps must not skip a rank
+    const [first, second] = await Promise.all([
+      PrestigeManager.prestige(USER_ID),
+      PrestigeManager.prestige(USER_ID)
+    ]);
+    expect([first.success, second.success].filter(Boolean)).toHaveLength(1);
+
+    await ProfileManager.addExperience(USER_ID, 400);
+    const profile = await ProfileManager.getProfile(USER_ID);
+    expect(profile.prestigeRank).toBe(1);
+    expect(profile.level).toBe(1);
+    expect(profile.experience).toBe(400);
+    expect(profile.prestigeHistory.map((record) => record.rank)).toEqual([1]);
+  });
+
+  it('extends the streak once per raid day and spends a saver to bridge one missed day', async () => {
+    const day = (date: string) => getRaidDay(Date.parse(`${date}T12:00:00Z`));
+
+    // Parallel first attacks of a day count it once
+    await Promise.all([
+      StreakManager.recordParticipation(USER_ID, day('2026-03-02')),
+      StreakManager.recordParticipation(USER_ID, day('2026-03-02'))
+    ]);
+    await StreakManager.recordParticipation(USER_ID, day('2026-03-03'));
+    const third = await StreakManager.recordParticipation(USER_ID, day('2026-03-04'));
+    expect(third?.streak.current).toBe(3);
+    expect(third?.milestone?.days).toBe(3);
+
+    // Missing 03-05 with a saver in hand keeps the streak going
+    await InventoryManager.credit(USER_ID, { streak_saver: 1 }, 'admin_grant');
+    const saved = await StreakManager.recordParticipation(USER_ID, day('2026-03-06'));
+    expect(saved?.saverUsed).toBe(true);
+    expect(saved?.streak.current).toBe(4);
+    expect(saved?.streak.streakSavers).toBe(0);
+
+    // With no saver left, the next gap starts over
+    const reset = await StreakManager.recordParticipation(USER_ID, day('2026-03-08'));
+    expect(reset?.saverUsed).toBe(false);
+    expect(reset?.streak).toMatchObject({ current: 1, best: 4, raidDays: 5 });
+  });
+
+  it('keeps guilds within the member cap and hands ownership on when the owner leaves', async () => {
+    const founded = await GuildManager.create(USER_ID, ' Night  Watch ', 'nw');
+    expect(founded.guild).toMatchObject({ name: 'Night Watch', tag: 'NW', memberCount: 1 });
+    expect((await GuildManager.create('t2_other', 'night watch', 'NW2')).message).toBe('That guild name is taken');
+
+    const guildId = founded.guild?.id ?? '';
+    const joiners = Array.from({ length: GUILD_MEMBER_CAP + 2 }, (_, index) => `t2_joiner${index}`);
+    const joins = await Promise.all(joiners.map((userId) => GuildManager.join(userId, guildId)));
+    expect(joins.filter((result) => result.success)).toHaveLength(GUILD_MEMBER_CAP - 1);
+    expect((await GuildManager.getGuild(guildId))?.memberCount).toBe(GUILD_MEMBER_CAP);
+
+    // Damage only counts while in the guild
+    await PlayerManager.addDamage('t3_monday', USER_ID, 500);
+    expect((await GuildManager.getGuild(guildId))?.totalDamage).toBe(500);
+
+    const officer = joiners[5] ?? '';
+    await GuildManager.setRole(USER_ID, officer, 'officer');
+    expect((await GuildManager.kick(joiners[0] ?? '', joiners[1] ?? '')).success).toBe(false);
+    expect((await GuildManager.kick(officer, joiners[1] ?? '')).success).toBe(true);
+
+    // A kick racing the member's own leave frees one seat, not two
+    await Promise.all([GuildManager.kick(officer, joiners[2] ?? ''), GuildManager.leave(joiners[2] ?? '')]);
+    expect((await GuildManager.getGuild(guildId))?.memberCount).toBe(GUILD_MEMBER_CAP - 2);
+
+    await GuildManager.leave(USER_ID);
+    expect(await GuildManager.getPlayerGuild(officer)).toMatchObject({ role: 'owner', guild: { ownerId: officer } });
+    expect(await GuildManager.getGuildTag(USER_ID)).toBeUndefined();
+  });
+
+  it('balances raiders across factions and declares the top faction on the killing blow', async () => {
+    const raid = { dayKey: '2026-03-02', isKillingBlow: false };
+    expect(await FactionManager.recordDamage('t3_war', raid, USER_ID, 100)).toBeUndefined();
+    expect((await FactionManager.setMode('t3_war', raid, 2)).success).toBe(true);
+
+    const raiders = ['t2_a', 't2_b', 't2_c', 't2_d'];
+    const factions = await Promise.all(raiders.map((userId) => FactionManager.recordDamage('t3_war', raid, userId, 100)));
+    const assigned = await Promise.all(raiders.map((userId) => FactionManager.recordDamage('t3_war', raid, userId, 0)));
+    expect(assigned).toEqual(factions);
+
+    // Sides are locked once taken
+    expect((await FactionManager.setMode('t3_war', raid, 3)).success).toBe(false);
+
+    const killer = raiders[0] ?? '';
+    await FactionManager.recordDamage('t3_war', { ...raid, isKillingBlow: true }, killer, 500);
+    const status = await FactionManager.getStatus('t3_war', raid, killer);
+    expect(status?.factions).toHaveLength(2);
+    expect(status?.factions.reduce((sum, faction) => sum + faction.members, 0)).toBe(4);
+    expect(status?.winner).toBe(status?.playerFaction);
+  });
+
+  it('gives a tied faction war to the killing blow\'s faction', async () => {
+    const raid = { dayKey: '2026-03-02', isKillingBlow: false };
+    await FactionManager.setMode('t3_tie', raid, 2);
+    const killerFaction = await FactionManager.recordDamage('t3_tie', raid, 't2_a', 100);
+    await FactionManager.recordDamage('t3_tie', raid, 't2_b', 100);
+
+    await FactionManager.recordDamage('t3_tie', { ...raid, isKillingBlow: true }, 't2_a', 0);
+    expect((await FactionManager.getStatus('t3_tie', raid))?.winner).toBe(killerFaction);
+  });
+
+  it('ranks opted-in subreddits on the world boss and names the top one when it falls', async () => {
+    await WorldBossManager.recordDamage('RaidDay', 500);
+    expect((await WorldBossManager.getStatus()).currentHP).toBe(WORLD_BOSS_HP);
+
+    settingValues.worldBossEnabled = true;
+    await Promise.all([
+      WorldBossManager.recordDamage('RaidDay', WORLD_BOSS_HP / 4),
+      WorldBossManager.recordDamage('gaming', WORLD_BOSS_HP / 2)
+    ]);
+    await WorldBossManager.recordDamage('gaming', WORLD_BOSS_HP);
+    await WorldBossManager.recordDamage('RaidDay', 1000);
+
+    // Overkill isn't credited, so the ranking adds up to the boss's HP
+    const status = await WorldBossManager.getStatus();
+    expect(status.currentHP).toBe(0);
+    expect(status.subreddits.map(({ subredditName, damage, rank }) => [subredditName, damage, rank])).toEqual([
+      ['gaming', WORLD_BOSS_HP * 3 / 4, 1],
+      ['RaidDay', WORLD_BOSS_HP / 4, 2]
+    ]);
+    expect(status.winner).toBe('gaming');
+    expect(status.participating).toBe(true);
+  });
+
+  it('sells limited shop items atomically and undoes a purchase the player can\'t pay for', async () => {
+    await InventoryManager.credit(USER_ID, { gems: 30 }, 'admin_grant');
+
+    // Parallel buys of a one-per-player cosmetic only charge once
+    const doubleBuy = await Promise.all([
+      ShopManager.purchase(USER_ID, 'tint_gold'),
+      ShopManager.purchase(USER_ID, 'tint_gold')
+    ]);
+    expect(doubleBuy.filter((result) => result.success)).toHaveLength(1);
+    expect((await InventoryManager.getInventory(USER_ID)).currencies.gems).toBe(25);
+
+    // The last two founder titles go to two of three racing raiders
+    const sold = store.get('shop_stock_sold') as Map<string, string>;
+    sold.set('title_founder', '48');
+    const racers = ['t2_first', 't2_second', 't2_third'];
+    for (const racer of racers) {
+      await InventoryManager.credit(racer, { gems: 10 }, 'admin_grant');
+    }
+    const race = await Promise.all(racers.map((racer) => ShopManager.purchase(racer, 'title_founder')));
+    expect(race.filter((result) => result.success)).toHaveLength(2);
+    expect(sold.get('title_founder')).toBe('50');
+    const gems = await Promise.all(racers.map(async (racer) => (await InventoryManager.getInventory(racer)).currencies.gems));
+    expect(gems.sort()).toEqual([0, 0, 10]);
+
+    // A failed debit hands back the reserved stock and per-player count
+    expect((await ShopManager.purchase('t2_broke', 'tint_gold')).success).toBe(false);
+    const listing = (await ShopManager.getListings('t2_broke')).find((item) => item.id === 'tint_gold');
+    expect(listing?.owned).toBe(0);
+    expect(listing?.remainingStock).toBe(99);
+  });
+
+  it('wears only cosmetics the player bought, one per category', async () => {
+    await InventoryManager.credit(USER_ID, { coins: 2_000 }, 'admin_grant');
+    expect((await ShopManager.equip(USER_ID, 'title_bossbane', true)).success).toBe(false);
+
+    // Buying puts a cosmetic on, and a second one in the category replaces it
+    await ShopManager.purchase(USER_ID, 'tint_crimson');
+    await ShopManager.purchase(USER_ID, 'tint_frost');
+    await ShopManager.purchase(USER_ID, 'title_bossbane');
+    expect((await ShopManager.equip(USER_ID, 'tint_crimson', true)).success).toBe(true);
+
+    const playerData = await PlayerManager.getPlayerData('t3_cosmetics', USER_ID);
+    expect(playerData.cosmetics).toEqual({ tint: '#e74c3c', title: 'Bossbane' });
+
+    // Taking off something that isn't worn leaves the category alone
+    await ShopManager.equip(USER_ID, 'tint_frost', false);
+    expect((await ProfileManager.getProfile(USER_ID)).cosmetics.tint).toBe('tint_crimson');
+    await ShopManager.equip(USER_ID, 'tint_crimson', false);
+    expect((await PlayerManager.getPlayerData('t3_cosmetics', USER_ID)).cosmetics).toEqual({ title: 'Bossbane' });
+  });
+});
@@ -0,0 +1,393 @@
+import { redis, settings } from '@devvit/web/server';
+import {
+  ClassHistoryEntry,
+  CosmeticCategory,
+  EquipmentSlot,
+  InventoryAsset,
+  Loadout,
+  PlayerProfile,
+  PrestigeRecord
+} from '../../shared/types/api';
+import { EQUIPMENT_SLOTS } from '../../shared/game/equipment';
+import { COSMETIC_CATEGORIES } from '../../shared/game/cosmetics';
+import {
+  LEGACY_XP_CURVE,
+  XP_CURVE,
+  XpCurve,
+  convertExperience,
+  getLevelProgress,
+  getTotalExperience,
+  isSameXpCurve,
+  normalizeXpCurve
+} from '../../shared/game/progression';
+
+// A read that finds the XP curve changed holds this lock while it converts the profile
+const XP_CURVE_LOCK_MS = 10 * 1000;
+
+// Progress a player brought from a pre-profile per-post record
+export interface LegacyProgress {
+  level: number;
+  experience: number;
+  totalDamage: number;
+  characterClass: string;
+}
+
+/**
+ * Profile hash field holding an inventory balance
+ */
+function getBalanceField(asset: InventoryAsset): string {
+  return asset === 'coins' || asset === 'gems' ? asset : `item:${asset}`;
+}
+
+/**
+ * XP a pre-profile level and in-level progress (on the old flat curve) are worth on a curve, keeping the level
+ */
+export function getLegacyExperience(level: number, experience: number, curve: XpCurve): number {
+  return convertExperience(getTotalExperience(level, experience, LEGACY_XP_CURVE), LEGACY_XP_CURVE, curve);
+}
+
+/**
+ * Curve a profile's stored XP is on ("base:increment"); profiles from before the curve have no field and used the flat one
+ */
+function parseStoredXpCurve(value: string | undefined): XpCurve {
+  if (!value) return LEGACY_XP_CURVE;
+  const [base, increment] = value.split(':');
+  return normalizeXpCurve(base, increment);
+}
+
+function formatXpCurve(curve: XpCurve): string {
+  return `${curve.base}:${curve.increment}`;
+}
+
+export class ProfileManager {
+  // Profile is a hash so damage, XP and currencies from parallel attacks are counted atomically
+  private static getProfileKey(userId: string): string {
+    return `profile:${userId}`;
+  }
+
+  // Posts whose pre-profile player record has been folded into the profile (postId -> time)
+  private static getMigratedPostsKey(userId: string): string {
+    return `profile_migrated_posts:${userId}`;
+  }
+
+  private static getXpCurveLockKey(userId: string): string {
+    return `profile_xp_curve_lock:${userId}`;
+  }
+
+  /**
+   * Read the moderator's XP curve (falls back to the default)
+   */
+  public static async getXpCurve(): Promise<XpCurve> {
+    try {
+      return normalizeXpCurve(await settings.get<number>('xpCurveBase'), await settings.get<number>('xpCurveIncrement'));
+    } catch (error) {
+      console.error('Error reading XP curve settings:', error);
+      return XP_CURVE;
+    }
+  }
+
+  /**
+   * Get a player's profile, creating it on first sight
+   */
+  public static async getProfile(userId: string): Promise<PlayerProfile> {
+    const key = this.getProfileKey(userId);
+    const xpCurve = await this.getXpCurve();
+    let fields = await redis.hGetAll(key);
+
+    if (!fields || !fields.createdAt) {
+      const now = Date.now().toString();
+      await redis.hSetNX(key, 'createdAt', now);
+      await redis.hSetNX(key, 'lastActiveTime', now);
+      await redis.hSetNX(key, 'xpCurve', formatXpCurve(xpCurve));
+      fields = await redis.hGetAll(key);
+    } else if (!isSameXpCurve(parseStoredXpCurve(fields.xpCurve), xpCurve)) {
+      fields = await this.convertXpCurve(userId, fields, xpCurve);
+    }
+
+    return this.parseProfile(userId, fields ?? {});
+  }
+
+  /**
+   * Move a profile's XP onto a new curve without changing its level (the curve changed since the XP was stored)
+   * A short lock keeps parallel reads from converting twice; a read that misses it shows the stored curve's level
+   */
+  private static async convertXpCurve(
+    userId: string,
+    fields: Record<string, string>,
+    xpCurve: XpCurve
+  ): Promise<Record<string, string>> {
+    const key = this.getProfileKey(userId);
+    const lockKey = this.getXpCurveLockKey(userId);
+    const token = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    await redis.set(lockKey, token, { nx: true, expiration: new Date(Date.now() + XP_CURVE_LOCK_MS) });
+    if (await redis.get(lockKey) !== token) {
+      return fields;
+    }
+
+    try {
+      const latest = await redis.hGetAll(key) ?? {};
+      const from = parseStoredXpCurve(latest.xpCurve);
+      if (isSameXpCurve(from, xpCurve)) {
+        return latest;
+      }
+
+      // Only XP since the last prestige decides the level
+      const sincePrestige = parseInt(latest.lifetimeExperience ?? '0') - parseInt(latest.prestigeExperience ?? '0');
+      await redis.hIncrBy(key, 'lifetimeExperience', convertExperience(sincePrestige, from, xpCurve) - sincePrestige);
+      await redis.hSet(key, { xpCurve: formatXpCurve(xpCurve) });
+      console.log(`Moved ${userId}'s XP from curve ${formatXpCurve(from)} to ${formatXpCurve(xpCurve)}`);
+      return await redis.hGetAll(key) ?? {};
+    } finally {
+      await redis.del(lockKey);
+    }
+  }
+
+  /**
+   * Remember the last class picked; new raid posts start with it
+   */
+  public static async setCharacterClass(userId: string, characterClass: string): Promise<PlayerProfile> {
+    await redis.hSet(this.getProfileKey(userId), {
+      characterClass,
+      lastActiveTime: Date.now().toString()
+    });
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Credit damage (and the XP it earned) to the lifetime totals and the class played
+   */
+  public static async recordDamage(
+    userId: string,
+    characterClass: string,
+    damage: number,
+    xpGain: number
+  ): Promise<PlayerProfile> {
+    const key = this.getProfileKey(userId);
+    const now = Date.now().toString();
+
+    await redis.hIncrBy(key, 'totalDamage', damage);
+    await redis.hIncrBy(key, 'lifetimeExperience', xpGain);
+    await redis.hIncrBy(key, `class:${characterClass}:damage`, damage);
+    await redis.hSetNX(key, `class:${characterClass}:firstPlayedAt`, now);
+    await redis.hSet(key, {
+      [`class:${characterClass}:lastPlayedAt`]: now,
+      lastActiveTime: now
+    });
+
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Add XP that didn't come from damage (victory rewards)
+   */
+  public static async addExperience(userId: string, xpAmount: number): Promise<PlayerProfile> {
+    const key = this.getProfileKey(userId);
+    await redis.hIncrBy(key, 'lifetimeExperience', xpAmount);
+    await redis.hSet(key, { lastActiveTime: Date.now().toString() });
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Change a currency or item balance atomically
+   * @returns The balance after the change
+   */
+  public static async adjustBalance(userId: string, asset: InventoryAsset, amount: number): Promise<number> {
+    return await redis.hIncrBy(this.getProfileKey(userId), getBalanceField(asset), amount);
+  }
+
+  /**
+   * Add a piece of equipment to the player's collection
+   * @returns Copies owned after the drop
+   */
+  public static async addEquipment(userId: string, equipmentId: string): Promise<number> {
+    return await redis.hIncrBy(this.getProfileKey(userId), `gear:${equipmentId}`, 1);
+  }
+
+  /**
+   * Wear a piece of equipment in a slot, or empty the slot
+   * Callers check ownership and that the piece fits the slot
+   */
+  public static async setEquipped(userId: string, slot: EquipmentSlot, equipmentId: string | undefined): Promise<PlayerProfile> {
+    const key = this.getProfileKey(userId);
+    if (equipmentId) {
+      await redis.hSet(key, { [`equipped:${slot}`]: equipmentId });
+    } else {
+      await redis.hDel(key, [`equipped:${slot}`]);
+    }
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Wear a shop cosmetic in its category, or take off what's worn there
+   * Callers check the player bought the item
+   */
+  public static async setCosmetic(userId: string, category: CosmeticCategory, itemId: string | undefined): Promise<void> {
+    const key = this.getProfileKey(userId);
+    if (itemId) {
+      await redis.hSet(key, { [`cosmetic:${category}`]: itemId });
+    } else {
+      await redis.hDel(key, [`cosmetic:${category}`]);
+    }
+  }
+
+  /**
+   * Change a talent's rank and the points spent in its class tree together
+   * @returns Rank and spent points after the change
+   */
+  public static async adjustTalent(
+    userId: string,
+    characterClass: string,
+    talentId: string,
+    amount: number
+  ): Promise<{ rank: number; spent: number }> {
+    const key = this.getProfileKey(userId);
+    const spent = await redis.hIncrBy(key, `talent_spent:${characterClass}`, amount);
+    const rank = await redis.hIncrBy(key, `talent:${characterClass}:${talentId}`, amount);
+    return { rank, spent };
+  }
+
+  /**
+   * Forget every talent learned in one class tree
+   */
+  public static async clearTalents(userId: string, characterClass: string): Promise<PlayerProfile> {
+    const key = this.getProfileKey(userId);
+    const profile = await this.getProfile(userId);
+    const fields = Object.keys(profile.talents[characterClass] ?? {}).map((talentId) => `talent:${characterClass}:${talentId}`);
+    await redis.hDel(key, [...fields, `talent_spent:${characterClass}`]);
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Start the next prestige rank: the level restarts from XP earned after this point
+   * The rank's history entry is written with hSetNX first, so parallel requests prestige once
+   * @returns False if that rank was already reached
+   */
+  public static async claimPrestige(userId: string, record: PrestigeRecord): Promise<boolean> {
+    const key = this.getProfileKey(userId);
+    if (!await redis.hSetNX(key, `prestige:${record.rank}`, JSON.stringify(record))) {
+      return false;
+    }
+
+    await redis.hIncrBy(key, 'prestigeRank', 1);
+    await redis.hSet(key, { prestigeExperience: record.lifetimeExperience.toString() });
+    return true;
+  }
+
+  /**
+   * Fold a pre-profile per-post record into the profile, at most once per post
+   * @returns False if the post was already migrated
+   */
+  public static async migrateLegacyProgress(userId: string, postId: string, legacy: LegacyProgress): Promise<boolean> {
+    if (!await redis.hSetNX(this.getMigratedPostsKey(userId), postId, Date.now().toString())) {
+      return false;
+    }
+
+    // Each post tracked its own progress, so everything earned on it adds up
+    const key = this.getProfileKey(userId);
+    const { xpCurve } = await this.getProfile(userId);
+    await redis.hIncrBy(key, 'lifetimeExperience', getLegacyExperience(legacy.level, legacy.experience, xpCurve));
+    await redis.hIncrBy(key, 'totalDamage', legacy.totalDamage);
+    if (legacy.totalDamage > 0) {
+      await redis.hIncrBy(key, `class:${legacy.characterClass}:damage`, legacy.totalDamage);
+    }
+    await redis.hSetNX(key, 'characterClass', legacy.characterClass);
+
+    console.log(`Migrated ${userId}'s progress from post ${postId} into their profile`);
+    return true;
+  }
+
+  /**
+   * Build a profile from its hash fields
+   */
+  private static parseProfile(userId: string, fields: Record<string, string>): PlayerProfile {
+    const lifetimeExperience = parseInt(fields.lifetimeExperience ?? '0');
+    const xpCurve = parseStoredXpCurve(fields.xpCurve);
+    const { level, experience, experienceToNext } = getLevelProgress(
+      lifetimeExperience - parseInt(fields.prestigeExperience ?? '0'),
+      xpCurve
+    );
+
+    // Class history lives in "class:{class}:{stat}" fields, equipment in "gear:{id}" counts
+    const classHistory: Record<string, ClassHistoryEntry> = {};
+    const equipment: Record<string, number> = {};
+    const talents: Record<string, Record<string, number>> = {};
+    const prestigeHistory: PrestigeRecord[] = [];
+    for (const [field, value] of Object.entries(fields)) {
+      if (field.startsWith('gear:')) {
+        equipment[field.slice('gear:'.length)] = parseInt(value);
+        continue;
+      }
+
+      // Each prestige is a JSON record in a "prestige:{rank}" field
+      if (field.startsWith('prestige:')) {
+        prestigeHistory.push(JSON.parse(value) as PrestigeRecord);
+        continue;
+      }
+
+      // Talent ranks live in "talent:{class}:{talentId}" fields
+      if (field.startsWith('talent:')) {
+        const [, characterClass, talentId] = field.split(':');
+        const rank = parseInt(value);
+        if (characterClass && talentId && rank > 0) {
+          (talents[characterClass] ??= {})[talentId] = rank;
+        }
+        continue;
+      }
+
+      const [prefix, characterClass, stat] = field.split(':');
+      if (prefix !== 'class' || !characterClass || !stat) {
+        continue;
+      }
+
+      const entry = classHistory[characterClass] ??= { damage: 0, firstPlayedAt: 0, lastPlayedAt: 0 };
+      if (stat === 'damage' || stat === 'firstPlayedAt' || stat === 'lastPlayedAt') {
+        entry[stat] = parseInt(value);
+      }
+    }
+
+    const loadout: Loadout = {};
+    for (const slot of EQUIPMENT_SLOTS) {
+      const equipped = fields[`equipped:${slot}`];
+      if (equipped) {
+        loadout[slot] = equipped;
+      }
+    }
+
+    const cosmetics: PlayerProfile['cosmetics'] = {};
+    for (const category of COSMETIC_CATEGORIES) {
+      const worn = fields[`cosmetic:${category}`];
+      if (worn) {
+        cosmetics[category] = worn;
+      }
+    }
+
+    return {
+      userId,
+      level,
+      experience,
+      experienceToNext,
+      xpCurve,
+      lifetimeExperience,
+      prestigeRank: parseInt(fields.prestigeRank ?? '0'),
+      prestigeHistory: prestigeHistory.sort((a, b) => a.rank - b.rank),
+      totalDamage: parseInt(fields.totalDamage ?? '0'),
+      characterClass: fields.characterClass,
+      classHistory,
+      currencies: {
+        coins: parseInt(fields.coins ?? '0'),
+        gems: parseInt(fields.gems ?? '0')
+      },
+      items: {
+        potion: parseInt(fields[getBalanceField('potion')] ?? '0'),
+        scroll: parseInt(fields[getBalanceField('scroll')] ?? '0'),
+        streak_saver: parseInt(fields[getBalanceField('streak_saver')] ?? '0')
+      },
+      equipment,
+      loadout,
+      cosmetics,
+      talents,
+      createdAt: parseInt(fields.createdAt ?? Date.now().toString()),
+      lastActiveTime: parseInt(fields.lastActiveTime ?? '0')
+    };
+  }
+}
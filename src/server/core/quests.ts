@@ -0,0 +1,127 @@
+import { redis } from '@devvit/web/server';
+import { QuestPeriod, QuestStatus } from '../../shared/types/api';
+import {
+  DAILY_QUEST_COUNT,
+  QuestDefinition,
+  QuestEvent,
+  WEEKLY_QUEST_COUNT,
+  getQuestProgress,
+  pickQuests
+} from '../../shared/game/quests';
+import { createSeededRandom } from '../../shared/game/loot';
+import { RaidCalendar, getRaidDay, getRaidWeek } from './calendar';
+import { InventoryManager } from './inventory';
+
+// The quests a player has for one daily or weekly period
+interface QuestWindow {
+  period: QuestPeriod;
+  key: string;
+  expiresAt: number;
+  quests: QuestDefinition[];
+}
+
+export interface QuestClaimResult {
+  success: boolean;
+  quests?: QuestStatus[];
+  message?: string;
+}
+
+export class QuestManager {
+  // One hash per player and period: "progress:{questId}", "claimed:{questId}" and "session:{id}" for sessions seen
+  private static getQuestKey(userId: string, period: QuestPeriod, periodKey: string): string {
+    return `quests:${userId}:${period}:${periodKey}`;
+  }
+
+  /**
+   * Current daily and weekly quests (picked with a seed per player and period, so nothing needs storing)
+   */
+  private static async getWindows(userId: string, now: number = Date.now()): Promise<QuestWindow[]> {
+    const config = await RaidCalendar.getConfig();
+    const raidDay = getRaidDay(now, config);
+    const raidWeek = getRaidWeek(raidDay, config);
+
+    return [
+      {
+        period: 'daily',
+        key: this.getQuestKey(userId, 'daily', raidDay.dayKey),
+        expiresAt: raidDay.endsAt,
+        quests: pickQuests('daily', DAILY_QUEST_COUNT, createSeededRandom(`daily:${raidDay.dayKey}:${userId}`))
+      },
+      {
+        period: 'weekly',
+        key: this.getQuestKey(userId, 'weekly', raidWeek.weekKey),
+        expiresAt: raidWeek.endsAt,
+        quests: pickQuests('weekly', WEEKLY_QUEST_COUNT, createSeededRandom(`weekly:${raidWeek.weekKey}:${userId}`))
+      }
+    ];
+  }
+
+  /**
+   * Get the player's current quests with progress
+   */
+  public static async getQuests(userId: string): Promise<QuestStatus[]> {
+    const statuses: QuestStatus[] = [];
+
+    for (const window of await this.getWindows(userId)) {
+      const fields = await redis.hGetAll(window.key) ?? {};
+      for (const quest of window.quests) {
+        statuses.push({
+          id: quest.id,
+          period: window.period,
+          description: quest.description,
+          progress: Math.min(parseInt(fields[`progress:${quest.id}`] ?? '0'), quest.target),
+          target: quest.target,
+          reward: quest.reward,
+          claimed: Boolean(fields[`claimed:${quest.id}`]),
+          expiresAt: window.expiresAt
+        });
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Move the player's quests forward after an attack or special
+   * @param sessionId Identifies the 2-minute session, so "separate sessions" quests count each one once
+   */
+  public static async record(userId: string, event: Omit<QuestEvent, 'isNewSession'>, sessionId: string): Promise<void> {
+    for (const window of await this.getWindows(userId)) {
+      const isNewSession = Boolean(await redis.hSetNX(window.key, `session:${sessionId}`, Date.now().toString()));
+
+      for (const quest of window.quests) {
+        const amount = getQuestProgress(quest, { ...event, isNewSession });
+        if (amount > 0) {
+          await redis.hIncrBy(window.key, `progress:${quest.id}`, amount);
+        }
+      }
+
+      await redis.expire(window.key, Math.max(1, Math.ceil((window.expiresAt - Date.now()) / 1000)));
+    }
+  }
+
+  /**
+   * Credit a completed quest's reward, once
+   */
+  public static async claim(userId: string, questId: string): Promise<QuestClaimResult> {
+    const windows = await this.getWindows(userId);
+    const window = windows.find((candidate) => candidate.quests.some((quest) => quest.id === questId));
+    const quest = window?.quests.find((candidate) => candidate.id === questId);
+    if (!window || !quest) {
+      return { success: false, message: 'That quest is not active' };
+    }
+
+    const progress = parseInt(await redis.hGet(window.key, `progress:${quest.id}`) ?? '0');
+    if (progress < quest.target) {
+      return { success: false, message: 'Quest not complete yet' };
+    }
+
+    if (!await redis.hSetNX(window.key, `claimed:${quest.id}`, Date.now().toString())) {
+      return { success: false, message: 'Reward already claimed' };
+    }
+
+    await InventoryManager.credit(userId, { [quest.reward.asset]: quest.reward.amount }, 'quest', `${window.period}:${quest.id}`);
+    console.log(`${userId} claimed ${window.period} quest ${quest.id}`);
+    return { success: true, quests: await this.getQuests(userId) };
+  }
+}
@@ -0,0 +1,197 @@
+import { redis, reddit, settings } from '@devvit/web/server';
+import { isT3 } from '@devvit/web/shared';
+import { Weekday } from '../../shared/game/bosses';
+import { RaidPostStatus } from '../../shared/types/api';
+import { createPost } from './post';
+import { BossManager } from './boss';
+import { RaidOutcomeManager } from './outcomes';
+import { RaidCalendar, RaidDay } from './calendar';
+
+// Day claims only need to outlive the raid day they guard
+const DAY_CLAIM_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface RaidPostRecord {
+  postId: string;
+  dayKey: string;
+  weekday: Weekday;
+  createdAt: number;
+  previousRaidId?: string | undefined; // Raid this post took over from (shown as the previous outcome)
+}
+
+export interface RaidPostConfig {
+  enabled: boolean; // Create a post at every daily reset
+  sticky: boolean;  // Sticky the new post and unsticky the previous one
+}
+
+/**
+ * Title for a daily raid post, e.g. "Raid Day: The Deadline — 50,000 HP"
+ */
+export function formatRaidPostTitle(bossName: string, maxHP: number): string {
+  return `Raid Day: ${bossName} — ${maxHP.toLocaleString('en-US')} HP`;
+}
+
+export class RaidPostManager {
+  // Post hosting the current raid
+  private static getActiveKey(): string {
+    return 'raid_post_active';
+  }
+
+  // Every raid post created by the app (postId -> record, no expiration)
+  private static getRegistryKey(): string {
+    return 'raid_posts';
+  }
+
+  // Claimed by whichever run creates the raid day's post
+  private static getDayClaimKey(dayKey: string): string {
+    return `raid_post_day:${dayKey}`;
+  }
+
+  /**
+   * Read the moderator's daily post settings (falls back to defaults)
+   */
+  public static async getConfig(): Promise<RaidPostConfig> {
+    try {
+      const enabled = await settings.get<boolean>('dailyRaidPostEnabled');
+      const sticky = await settings.get<boolean>('stickyDailyRaidPost');
+      return { enabled: enabled ?? true, sticky: sticky ?? true };
+    } catch (error) {
+      console.error('Error reading daily raid post settings:', error);
+      return { enabled: true, sticky: true };
+    }
+  }
+
+  /**
+   * Get the post hosting the current raid (undefined until one is registered)
+   */
+  public static async getActivePostId(): Promise<string | undefined> {
+    return await redis.get(this.getActiveKey()) ?? undefined;
+  }
+
+  /**
+   * Get the registry entry for a raid post
+   */
+  public static async getRaidPost(postId: string): Promise<RaidPostRecord | undefined> {
+    const stored = await redis.hGet(this.getRegistryKey(), postId);
+    return stored ? JSON.parse(stored) as RaidPostRecord : undefined;
+  }
+
+  /**
+   * Check whether a post hosts the current raid
+   * Without a registered raid every post stays playable (installs from before daily posts)
+   */
+  public static async getStatus(postId: string): Promise<RaidPostStatus> {
+    try {
+      const activePostId = await this.getActivePostId();
+      const record = await this.getRaidPost(postId);
+      const previousOutcome = record?.previousRaidId
+        ? await RaidOutcomeManager.getOutcome(record.previousRaidId)
+        : undefined;
+      return {
+        isActive: !activePostId || activePostId === postId,
+        dayKey: record?.dayKey,
+        activePostId,
+        previousOutcome
+      };
+    } catch (error) {
+      console.error('Error getting raid post status:', error);
+      return { isActive: true };
+    }
+  }
+
+  /**
+   * Create the current raid day's post unless one already exists (safe to run repeatedly)
+   * @returns The new post, or undefined if disabled or already created
+   */
+  public static async createDailyRaidPost(now: number = Date.now()): Promise<RaidPostRecord | undefined> {
+    const config = await this.getConfig();
+    if (!config.enabled) {
+      return undefined;
+    }
+
+    const raidDay = await RaidCalendar.getCurrentRaidDay(now);
+    const claimKey = this.getDayClaimKey(raidDay.dayKey);
+
+    // Claim the day; losing means another run (or a moderator) already posted it
+    const token = `${now}:${Math.random().toString(36).slice(2)}`;
+    await redis.set(claimKey, token, { nx: true, expiration: new Date(now + DAY_CLAIM_TTL_MS) });
+    if (await redis.get(claimKey) !== token) {
+      return undefined;
+    }
+
+    try {
+      return await this.createRaidPost(raidDay, config);
+    } catch (error) {
+      // Release the claim so the next run retries
+      await redis.del(claimKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a raid post for a raid day and make it the active raid
+   */
+  public static async createRaidPost(
+    raidDay: RaidDay,
+    config?: RaidPostConfig
+  ): Promise<RaidPostRecord> {
+    const { sticky } = config ?? await this.getConfig();
+    const previousPostId = await this.getActivePostId();
+
+    // An earlier day's raid is over once its replacement goes up; a boss still standing there escaped
+    const previousPost = previousPostId ? await this.getRaidPost(previousPostId) : undefined;
+    const previousOutcome = previousPostId && previousPost?.dayKey !== raidDay.dayKey
+      ? await BossManager.recordEscape(previousPostId)
+      : undefined;
+
+    // Titles can't be edited later, so size the boss from the same plan it will spawn with
+    const { bossData, hpForecast } = await BossManager.planSpawn(raidDay);
+
+    const post = await createPost(formatRaidPostTitle(bossData.name, hpForecast.chosenHP));
+    const record: RaidPostRecord = {
+      postId: post.id,
+      dayKey: raidDay.dayKey,
+      weekday: raidDay.weekday,
+      createdAt: Date.now(),
+      previousRaidId: previousOutcome?.raidId
+    };
+
+    await redis.hSet(this.getRegistryKey(), { [post.id]: JSON.stringify(record) });
+    await redis.set(this.getActiveKey(), post.id);
+    await redis.set(this.getDayClaimKey(raidDay.dayKey), post.id, {
+      expiration: new Date(Date.now() + DAY_CLAIM_TTL_MS)
+    });
+
+    // Spawn the boss right away so the first raider doesn't pay for the forecast
+    await BossManager.getBossState(post.id);
+
+    if (sticky) {
+      await this.swapSticky(post.id, previousPostId);
+    }
+
+    console.log(`Raid post ${post.id} created for raid day ${raidDay.dayKey}`);
+    return record;
+  }
+
+  /**
+   * Sticky the new raid post and unsticky the one it replaces
+   */
+  private static async swapSticky(postId: string, previousPostId: string | undefined): Promise<void> {
+    try {
+      if (previousPostId && previousPostId !== postId && isT3(previousPostId)) {
+        const previous = await reddit.getPostById(previousPostId);
+        await previous.unsticky();
+      }
+    } catch (error) {
+      console.error('Error unstickying previous raid post:', error);
+    }
+
+    try {
+      if (isT3(postId)) {
+        const post = await reddit.getPostById(postId);
+        await post.sticky();
+      }
+    } catch (error) {
+      console.error('Error stickying raid post:', error);
+    }
+  }
+}
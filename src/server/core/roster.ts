@@ -0,0 +1,58 @@
+import { redis } from '@devvit/web/server';
+import {
+  BossRoster,
+  BossRosterOverrides,
+  applyBossOverrides,
+  validateBossOverrides
+} from '../../shared/game/bosses';
+
+export class BossRosterManager {
+  // Moderator overrides for the installation (no expiration)
+  private static getOverridesKey(): string {
+    return 'boss_roster_overrides';
+  }
+
+  /**
+   * Get the stored moderator overrides (empty if none saved)
+   */
+  public static async getOverrides(): Promise<BossRosterOverrides> {
+    try {
+      const stored = await redis.get(this.getOverridesKey());
+      if (!stored) {
+        return {};
+      }
+
+      // Re-validate on read so a bad stored value can never reach the battle
+      const result = validateBossOverrides(JSON.parse(stored));
+      if (!result.valid) {
+        console.error('Ignoring invalid stored boss roster overrides:', result.errors);
+        return {};
+      }
+      return result.overrides;
+    } catch (error) {
+      console.error('Error getting boss roster overrides:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Validate and store moderator overrides
+   * @returns Validation errors (empty when saved)
+   */
+  public static async setOverrides(input: unknown): Promise<string[]> {
+    const result = validateBossOverrides(input);
+    if (!result.valid) {
+      return result.errors;
+    }
+
+    await redis.set(this.getOverridesKey(), JSON.stringify(result.overrides));
+    return [];
+  }
+
+  /**
+   * Get the roster with moderator overrides applied
+   */
+  public static async getActiveRoster(): Promise<BossRoster> {
+    return applyBossOverrides(await this.getOverrides());
+  }
+}
@@ -0,0 +1,242 @@
+import { redis } from '@devvit/web/server';
+import { Cosmetics, PlayerProfile, ShopItem, ShopListing } from '../../shared/types/api';
+import { isCosmeticCategory } from '../../shared/game/cosmetics';
+import { InventoryManager } from './inventory';
+import { ProfileManager } from './profile';
+
+// Prices and stock live here only; the client just renders what GET /api/shop returns
+export const SHOP_CATALOG: ShopItem[] = [
+  {
+    id: 'tint_crimson',
+    name: 'Crimson Tint',
+    description: 'Paint your hero blood red',
+    category: 'tint',
+    price: { currency: 'coins', amount: 300 },
+    perPlayerLimit: 1,
+    value: '#e74c3c'
+  },
+  {
+    id: 'tint_frost',
+    name: 'Frost Tint',
+    description: 'An icy blue glow for your hero',
+    category: 'tint',
+    price: { currency: 'coins', amount: 300 },
+    perPlayerLimit: 1,
+    value: '#74b9ff'
+  },
+  {
+    id: 'tint_gold',
+    name: 'Golden Tint',
+    description: 'Only a few raiders will ever shine like this',
+    category: 'tint',
+    price: { currency: 'gems', amount: 5 },
+    perPlayerLimit: 1,
+    stock: 100,
+    value: '#ffd700'
+  },
+  {
+    id: 'damage_style_comic',
+    name: 'Comic Hits',
+    description: 'Damage numbers in bold comic style',
+    category: 'damage_style',
+    price: { currency: 'coins', amount: 500 },
+    perPlayerLimit: 1,
+    value: 'comic'
+  },
+  {
+    id: 'damage_style_pixel',
+    name: 'Pixel Hits',
+    description: 'Retro pixel damage numbers',
+    category: 'damage_style',
+    price: { currency: 'gems', amount: 3 },
+    perPlayerLimit: 1,
+    value: 'pixel'
+  },
+  {
+    id: 'title_bossbane',
+    name: 'Title: Bossbane',
+    description: 'Shown next to your name on the leaderboard',
+    category: 'title',
+    price: { currency: 'coins', amount: 800 },
+    perPlayerLimit: 1,
+    value: 'Bossbane'
+  },
+  {
+    id: 'title_founder',
+    name: 'Title: Raid Founder',
+    description: 'Limited to the first 50 raiders who buy it',
+    category: 'title',
+    price: { currency: 'gems', amount: 10 },
+    perPlayerLimit: 1,
+    stock: 50,
+    value: 'Raid Founder'
+  },
+  {
+    id: 'boost_potions',
+    name: 'Potion Pack',
+    description: '3 Health Potions',
+    category: 'boost',
+    price: { currency: 'coins', amount: 150 },
+    grants: { potion: 3 }
+  },
+  {
+    id: 'boost_scrolls',
+    name: 'Scroll Bundle',
+    description: '2 Power Scrolls',
+    category: 'boost',
+    price: { currency: 'gems', amount: 2 },
+    grants: { scroll: 2 }
+  },
+  {
+    id: 'boost_streak_saver',
+    name: 'Streak Saver',
+    description: 'Covers one missed raid day',
+    category: 'boost',
+    price: { currency: 'gems', amount: 8 },
+    grants: { streak_saver: 1 }
+  }
+];
+
+export interface PurchaseResult {
+  success: boolean;
+  listing?: ShopListing;
+  message?: string;
+}
+
+export interface EquipResult {
+  success: boolean;
+  message?: string;
+}
+
+export class ShopManager {
+  // Units each player has bought (itemId -> count)
+  private static getPurchasesKey(userId: string): string {
+    return `shop_purchases:${userId}`;
+  }
+
+  // Units sold subreddit-wide for items with limited stock (itemId -> count)
+  private static getStockKey(): string {
+    return 'shop_stock_sold';
+  }
+
+  public static getItem(itemId: string): ShopItem | undefined {
+    return SHOP_CATALOG.find((item) => item.id === itemId);
+  }
+
+  /**
+   * Look up what the player's worn cosmetics look like (items dropped from the catalog are skipped)
+   */
+  public static getCosmetics(worn: PlayerProfile['cosmetics']): Cosmetics {
+    const cosmetics: Cosmetics = {};
+    for (const [category, itemId] of Object.entries(worn)) {
+      const item = this.getItem(itemId);
+      if (isCosmeticCategory(category) && item?.category === category && item.value) {
+        cosmetics[category] = item.value;
+      }
+    }
+    return cosmetics;
+  }
+
+  /**
+   * Get the catalog with what the player owns and wears, and what stock is left
+   */
+  public static async getListings(userId: string): Promise<ShopListing[]> {
+    const purchases = await redis.hGetAll(this.getPurchasesKey(userId)) ?? {};
+    const sold = await redis.hGetAll(this.getStockKey()) ?? {};
+    const { cosmetics } = await ProfileManager.getProfile(userId);
+
+    return SHOP_CATALOG.map((item) => this.toListing(
+      item,
+      parseInt(purchases[item.id] ?? '0'),
+      parseInt(sold[item.id] ?? '0'),
+      cosmetics
+    ));
+  }
+
+  /**
+   * Wear a cosmetic the player bought, replacing the one worn in its category, or take it off
+   */
+  public static async equip(userId: string, itemId: string, equipped: boolean): Promise<EquipResult> {
+    const item = this.getItem(itemId);
+    if (!item || !isCosmeticCategory(item.category)) {
+      return { success: false, message: 'Only cosmetics can be worn' };
+    }
+
+    if (parseInt(await redis.hGet(this.getPurchasesKey(userId), item.id) ?? '0') <= 0) {
+      return { success: false, message: `You don't own ${item.name}` };
+    }
+
+    if (equipped) {
+      await ProfileManager.setCosmetic(userId, item.category, item.id);
+    } else if ((await ProfileManager.getProfile(userId)).cosmetics[item.category] === item.id) {
+      await ProfileManager.setCosmetic(userId, item.category, undefined);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Buy one unit of an item
+   * Limits and stock are reserved with hIncrBy before the debit, and every step is undone if a later one fails
+   */
+  public static async purchase(userId: string, itemId: string): Promise<PurchaseResult> {
+    const item = this.getItem(itemId);
+    if (!item) {
+      return { success: false, message: 'Unknown shop item' };
+    }
+
+    const purchasesKey = this.getPurchasesKey(userId);
+    const owned = await redis.hIncrBy(purchasesKey, item.id, 1);
+    if (item.perPlayerLimit !== undefined && owned > item.perPlayerLimit) {
+      await redis.hIncrBy(purchasesKey, item.id, -1);
+      return { success: false, message: `You already own ${item.name}` };
+    }
+
+    let sold = 0;
+    if (item.stock !== undefined) {
+      sold = await redis.hIncrBy(this.getStockKey(), item.id, 1);
+      if (sold > item.stock) {
+        await redis.hIncrBy(this.getStockKey(), item.id, -1);
+        await redis.hIncrBy(purchasesKey, item.id, -1);
+        return { success: false, message: `${item.name} is sold out` };
+      }
+    }
+
+    const { currency, amount } = item.price;
+    if (!await InventoryManager.debit(userId, currency, amount, 'purchase', item.id)) {
+      if (item.stock !== undefined) {
+        await redis.hIncrBy(this.getStockKey(), item.id, -1);
+      }
+      await redis.hIncrBy(purchasesKey, item.id, -1);
+      return { success: false, message: `Not enough ${currency} for ${item.name}` };
+    }
+
+    if (item.grants) {
+      await InventoryManager.credit(userId, item.grants, 'purchase', item.id);
+    }
+
+    // A new cosmetic goes on straight away
+    let worn: PlayerProfile['cosmetics'] = {};
+    if (isCosmeticCategory(item.category)) {
+      await ProfileManager.setCosmetic(userId, item.category, item.id);
+      worn = { [item.category]: item.id };
+    }
+
+    console.log(`${userId} bought ${item.id} for ${amount} ${currency}`);
+    return { success: true, listing: this.toListing(item, owned, sold, worn) };
+  }
+
+  private static toListing(
+    item: ShopItem,
+    owned: number,
+    sold: number,
+    worn: PlayerProfile['cosmetics']
+  ): ShopListing {
+    return {
+      ...item,
+      owned,
+      ...(item.stock !== undefined && { remainingStock: Math.max(0, item.stock - sold) }),
+      ...(isCosmeticCategory(item.category) && { equipped: worn[item.category] === item.id })
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { redis } from '@devvit/web/server';
+import { BossSlayerRecord } from '../../shared/types/api';
+
+export class SlayerManager {
+  // Permanent history (no expiration) - survives daily resets and new raid posts
+  private static getSlayersKey(subredditName: string): string {
+    return `boss_slayers:${subredditName}`;
+  }
+
+  /**
+   * Record the player who landed the killing blow on a boss instance
+   */
+  public static async recordSlayer(subredditName: string, record: BossSlayerRecord): Promise<void> {
+    try {
+      await redis.zAdd(this.getSlayersKey(subredditName), {
+        member: JSON.stringify(record),
+        score: record.defeatedAt
+      });
+    } catch (error) {
+      console.error('Error recording boss slayer:', error);
+    }
+  }
+
+  /**
+   * Get the subreddit's slayer history (most recent kills first)
+   */
+  public static async getSlayers(subredditName: string, limit: number = 20): Promise<BossSlayerRecord[]> {
+    try {
+      const entries = await redis.zRange(this.getSlayersKey(subredditName), 0, limit - 1, {
+        by: 'rank',
+        reverse: true
+      });
+      return entries.map(entry => JSON.parse(entry.member) as BossSlayerRecord);
+    } catch (error) {
+      console.error('Error getting boss slayers:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { redis } from '@devvit/web/server';
+import { StreakStatus, StreakUpdate } from '../../shared/types/api';
+import { getStreakMilestone } from '../../shared/game/streaks';
+import { RaidCalendar, RaidDay, shiftDayKey } from './calendar';
+import { InventoryManager } from './inventory';
+import { ProfileManager } from './profile';
+
+export class StreakManager {
+  // current, best, raidDays, lastDayKey, plus "day:{dayKey}" per raid day played and "milestone:{days}" once paid
+  private static getStreakKey(userId: string): string {
+    return `streak:${userId}`;
+  }
+
+  /**
+   * Count the raid day toward the player's streak (only the first attack of the day does anything)
+   * A single missed day is bridged by spending a streak saver if the player has one
+   * @returns What changed, or undefined if the day was already counted
+   */
+  public static async recordParticipation(userId: string, raidDay: RaidDay): Promise<StreakUpdate | undefined> {
+    const key = this.getStreakKey(userId);
+    if (!await redis.hSetNX(key, `day:${raidDay.dayKey}`, Date.now().toString())) {
+      return undefined;
+    }
+
+    const fields = await redis.hGetAll(key) ?? {};
+    const current = parseInt(fields.current ?? '0');
+    const lastDayKey = fields.lastDayKey;
+    let saverUsed = false;
+    let nextStreak = 1;
+
+    if (lastDayKey === shiftDayKey(raidDay.dayKey, -1)) {
+      nextStreak = current + 1;
+    } else if (lastDayKey === shiftDayKey(raidDay.dayKey, -2)) {
+      saverUsed = Boolean(await InventoryManager.debit(userId, 'streak_saver', 1, 'streak', raidDay.dayKey));
+      if (saverUsed) {
+        nextStreak = current + 1;
+      }
+    }
+
+    await redis.hIncrBy(key, 'raidDays', 1);
+    await redis.hSet(key, {
+      current: nextStreak.toString(),
+      best: Math.max(nextStreak, parseInt(fields.best ?? '0')).toString(),
+      lastDayKey: raidDay.dayKey
+    });
+
+    // Each milestone pays out once per player, however many streaks reach it
+    const milestone = getStreakMilestone(nextStreak);
+    const paid = milestone && await redis.hSetNX(key, `milestone:${milestone.days}`, Date.now().toString());
+    if (milestone && paid) {
+      await InventoryManager.credit(userId, milestone.reward, 'streak', `${milestone.days}d`);
+      console.log(`${userId} reached a ${milestone.days}-day streak`);
+    }
+
+    return {
+      streak: await this.getStreak(userId, raidDay),
+      saverUsed,
+      ...(milestone && paid && { milestone })
+    };
+  }
+
+  /**
+   * Get the player's streak as of this raid day
+   * A streak missing one day still shows while a saver could cover it; anything older reads as 0
+   */
+  public static async getStreak(userId: string, raidDay?: RaidDay): Promise<StreakStatus> {
+    const today = raidDay ?? await RaidCalendar.getCurrentRaidDay();
+    const fields = await redis.hGetAll(this.getStreakKey(userId)) ?? {};
+    const { items } = await ProfileManager.getProfile(userId);
+    const streakSavers = items.streak_saver;
+    const lastDayKey = fields.lastDayKey;
+
+    const isAlive = lastDayKey === today.dayKey
+      || lastDayKey === shiftDayKey(today.dayKey, -1)
+      || (lastDayKey === shiftDayKey(today.dayKey, -2) && streakSavers > 0);
+
+    return {
+      current: isAlive ? parseInt(fields.current ?? '0') : 0,
+      best: parseInt(fields.best ?? '0'),
+      raidDays: parseInt(fields.raidDays ?? '0'),
+      lastDayKey,
+      playedToday: lastDayKey === today.dayKey,
+      streakSavers
+    };
+  }
+}
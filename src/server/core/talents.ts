@@ -0,0 +1,55 @@
+import { PlayerProfile } from '../../shared/types/api';
+import { CharacterClassId } from '../../shared/game/damage';
+import { TALENT_RESPEC_COST, getTalent, getTalentPoints } from '../../shared/game/talents';
+import { InventoryManager } from './inventory';
+import { ProfileManager } from './profile';
+
+export interface TalentResult {
+  success: boolean;
+  profile?: PlayerProfile;
+  message?: string;
+}
+
+export class TalentManager {
+  /**
+   * Spend one point on a talent
+   * The point and rank are claimed with hIncrBy first and handed back if either goes over its limit
+   */
+  public static async learn(userId: string, characterClass: CharacterClassId, talentId: string): Promise<TalentResult> {
+    const talent = getTalent(characterClass, talentId);
+    if (!talent) {
+      return { success: false, message: 'Unknown talent' };
+    }
+
+    const profile = await ProfileManager.getProfile(userId);
+    const available = getTalentPoints(profile.level);
+    const { rank, spent } = await ProfileManager.adjustTalent(userId, characterClass, talentId, 1);
+
+    if (spent > available || rank > talent.maxRank) {
+      await ProfileManager.adjustTalent(userId, characterClass, talentId, -1);
+      return {
+        success: false,
+        message: rank > talent.maxRank ? `${talent.name} is already maxed` : 'No talent points left - level up to earn more'
+      };
+    }
+
+    return { success: true, profile: await ProfileManager.getProfile(userId) };
+  }
+
+  /**
+   * Refund every point in one class tree for a coin fee
+   */
+  public static async respec(userId: string, characterClass: CharacterClassId): Promise<TalentResult> {
+    const profile = await ProfileManager.getProfile(userId);
+    if (Object.keys(profile.talents[characterClass] ?? {}).length === 0) {
+      return { success: false, message: 'No talents to reset' };
+    }
+
+    if (!await InventoryManager.debit(userId, 'coins', TALENT_RESPEC_COST, 'respec', characterClass)) {
+      return { success: false, message: `A respec costs ${TALENT_RESPEC_COST} coins` };
+    }
+
+    console.log(`${userId} reset their ${characterClass} talents`);
+    return { success: true, profile: await ProfileManager.clearTalents(userId, characterClass) };
+  }
+}
@@ -0,0 +1,307 @@
+import { redis, reddit, scheduler, settings } from '@devvit/web/server';
+import { isT2 } from '@devvit/web/shared';
+import { BossDefinition } from '../../shared/game/bosses';
+import { BossState, LeaderboardEntry, RaidOutcomeRecord } from '../../shared/types/api';
+import { CommunityManager } from './community';
+import { RedditUserService } from './reddit-user';
+import { RaidCalendar, formatResetTime } from './calendar';
+import { RaidOutcomeManager, buildRaidOutcome, getRaidId } from './outcomes';
+import { FactionManager } from './factions';
+import { getFaction } from '../../shared/game/factions';
+import { WorldBossManager } from './world-boss';
+
+// Scheduler task that runs the wrap-up (see devvit.json)
+export const VICTORY_JOB_NAME = 'raid-victory';
+
+// A scheduled wrap-up that never ran can be requested again after this long
+const SCHEDULE_RETRY_MS = 10 * 60 * 1000;
+// A run that dies mid wrap-up gives up its claim after this long (shorter than the retry window)
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+// Reddit rejects longer user flair
+const FLAIR_MAX_LENGTH = 64;
+
+/**
+ * Build the full leaderboard comment posted under the victory post
+ */
+export function generateLeaderboardComment(leaderboard: LeaderboardEntry[], resetTime: string): string {
+  let comment = '📋 **Full Leaderboard - Victory Contributors:**\n\n';
+
+  leaderboard.forEach((player, index) => {
+    const medal = index < 3 ? ['🥇', '🥈', '🥉'][index] : '🏅';
+    const classEmoji: Record<string, string> = {
+      warrior: '⚔️',
+      mage: '🔮',
+      rogue: '🗡️',
+      healer: '✨'
+    };
+    const emoji = classEmoji[player.characterClass] || '⚔️';
+
+    comment += `${medal} **${index + 1}.** u/${player.redditUsername || `Player${index + 1}`} ${emoji}\n`;
+    comment += `   └ ${player.sessionDamage.toLocaleString()} damage (Level ${player.level} ${player.characterClass})\n\n`;
+  });
+
+  comment += '\n🎉 **Congratulations to all participants!** 🎉\n\n';
+  comment += `Join us tomorrow for the next boss battle at ${resetTime}!\n`;
+  comment += 'Visit r/RaidDay to participate in future battles.';
+  return comment;
+}
+
+export class VictoryManager {
+  // Taken by the one run allowed to post the wrap-up for a boss instance
+  private static getClaimKey(raidId: string): string {
+    return `victory_claim:${raidId}`;
+  }
+
+  private static getScheduledKey(postId: string): string {
+    return `victory_scheduled:${postId}`;
+  }
+
+  // Marker written by the old client-triggered victory post
+  private static getLegacyCreatedKey(postId: string): string {
+    return `victory_post_created:${postId}`;
+  }
+
+  /**
+   * Queue the wrap-up for a defeated boss (called by the killing blow)
+   * Repeat calls within the retry window are ignored
+   */
+  public static async scheduleVictory(postId: string): Promise<void> {
+    const scheduledKey = this.getScheduledKey(postId);
+    const token = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+
+    try {
+      await redis.set(scheduledKey, token, { nx: true, expiration: new Date(Date.now() + SCHEDULE_RETRY_MS) });
+      if (await redis.get(scheduledKey) !== token) {
+        return;
+      }
+
+      await scheduler.runJob({ name: VICTORY_JOB_NAME, data: { postId }, runAt: new Date() });
+    } catch (error) {
+      console.error(`Error scheduling victory wrap-up for post ${postId}:`, error);
+      await redis.del(scheduledKey);
+    }
+  }
+
+  /**
+   * Post the victory, its leaderboard comment and top contributor flair, then record the outcome
+   * Runs at most once per boss instance no matter how often it's triggered
+   * @returns The recorded outcome, or undefined if the boss is alive or another run owns the wrap-up
+   */
+  public static async runVictory(
+    postId: string,
+    subredditName: string | undefined,
+    bossData: BossDefinition,
+    bossState: BossState
+  ): Promise<RaidOutcomeRecord | undefined> {
+    if (bossState.currentHP > 0) {
+      return undefined;
+    }
+
+    const raidId = getRaidId(postId, bossState);
+    const claimKey = this.getClaimKey(raidId);
+    const token = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    await redis.set(claimKey, token, { nx: true, expiration: new Date(Date.now() + CLAIM_LEASE_MS) });
+    if (await redis.get(claimKey) !== token) {
+      return undefined;
+    }
+
+    try {
+      const outcome = await this.wrapUp(postId, raidId, subredditName, bossData, bossState);
+      // The lease becomes a permanent marker once the wrap-up is done
+      await redis.set(claimKey, 'done');
+      return outcome;
+    } catch (error) {
+      // Let the next queued run retry instead of leaving the raid pending
+      await redis.del(claimKey);
+      throw error;
+    }
+  }
+
+  private static async wrapUp(
+    postId: string,
+    raidId: string,
+    subredditName: string | undefined,
+    bossData: BossDefinition,
+    bossState: BossState
+  ): Promise<RaidOutcomeRecord | undefined> {
+    if (await RaidOutcomeManager.getOutcome(raidId)) {
+      return undefined;
+    }
+
+    const communityManager = new CommunityManager(postId);
+    const topPlayers = await communityManager.getLeaderboard(3); // Top 3 for tagging
+    const totalDamage = await communityManager.getTotalDamageDealt();
+    const participantCount = await communityManager.getTotalPlayerCount();
+
+    const legacyPost = await this.getLegacyVictoryPost(postId, bossState);
+    if (legacyPost) {
+      // Record what the old flow posted so the raid reads as complete instead of pending forever
+      const outcome: RaidOutcomeRecord = {
+        ...buildRaidOutcome('victory', postId, bossData, bossState, { topPlayers, totalDamage, participantCount }),
+        redditPostId: legacyPost.postId ?? undefined,
+        redditCommentId: legacyPost.commentId ?? undefined
+      };
+      await RaidOutcomeManager.recordOutcome(outcome);
+      console.log(`Victory post for ${postId} was already created by the client flow`);
+      return outcome;
+    }
+
+    const resetTime = formatResetTime(await RaidCalendar.getConfig());
+    const fullLeaderboard = await communityManager.getLeaderboard(20); // Full leaderboard for comment
+    await FactionManager.settleWar(postId, bossState);
+    const factionWar = await FactionManager.getStatus(postId, bossState);
+    const winningFaction = factionWar?.winner && getFaction(factionWar.winner);
+    const winningDamage = factionWar?.factions.find((faction) => faction.id === factionWar.winner)?.damage ?? 0;
+    const worldBoss = await WorldBossManager.isParticipating() ? await WorldBossManager.getStatus() : undefined;
+    const worldBossRank = worldBoss?.subreddits.find((entry) => entry.subredditName === subredditName)?.rank;
+
+    // Get Reddit usernames for top contributors
+    const topContributors = await Promise.all(
+      topPlayers.map(async (player) => {
+        try {
+          const userData = await RedditUserService.getUserData(player.userId);
+          return {
+            ...player,
+            redditUsername: userData.username || `Player${player.rank}`
+          };
+        } catch (error) {
+          console.error(`Failed to get user data for ${player.userId}:`, error);
+          return {
+            ...player,
+            redditUsername: `Player${player.rank}`
+          };
+        }
+      })
+    );
+
+    // Create victory post content
+    const title = `🎉 r/RaidDay defeated ${bossData.name}!`;
+    const content = `The community has successfully defeated **${bossData.name}**!\n\n` +
+                     `🏆 **Top Contributors:**\n` +
+                     topContributors.map((player, index) =>
+                       `${index + 1}. u/${player.redditUsername} - ${player.sessionDamage.toLocaleString()} damage`
+                     ).join('\n') + '\n\n' +
+                     (bossState.slayer ?
+                       `⚔️ **Boss Slayer:** u/${bossState.slayer.username || `User${bossState.slayer.userId.slice(-4)}`} ` +
+                       `landed the killing blow as a ${bossState.slayer.characterClass}!\n\n` : '') +
+                     (winningFaction ?
+                       `🏳️ **Faction War:** ${winningFaction.icon} ${winningFaction.name} won with ` +
+                       `${winningDamage.toLocaleString()} damage!\n\n` : '') +
+                     (worldBoss ?
+                       `🌍 **World Boss:** ` + (worldBoss.winner ?
+                         `${worldBoss.name} has fallen; r/${worldBoss.winner} dealt the most damage!` :
+                         `${worldBoss.name} has ${worldBoss.currentHP.toLocaleString()} HP left.`) +
+                       (worldBossRank ? ` r/${subredditName} is #${worldBossRank}.` : '') + '\n\n' : '') +
+                     `📊 **Battle Stats:**\n` +
+                     `• Total Damage Dealt: ${totalDamage.toLocaleString()}\n` +
+                     `• Participants: ${participantCount}\n` +
+                     `• Boss Theme: ${bossData.theme}\n\n` +
+                     `Thanks to everyone who participated! The next boss will spawn at ${resetTime}.`;
+
+    let redditPostId: string | undefined;
+    let redditCommentId: string | undefined;
+
+    if (subredditName) {
+      const createdPost = await reddit.submitPost({ subredditName, title, text: content }).catch((redditError: unknown) => {
+        // Nothing is recorded, so runVictory releases the claim and a later run posts it
+        console.error('Failed to create victory post:', redditError);
+        throw redditError;
+      });
+      redditPostId = createdPost.id;
+
+      // Add full leaderboard as comment on the victory post (best effort)
+      try {
+        const comment = await reddit.submitComment({
+          id: createdPost.id,
+          text: generateLeaderboardComment(fullLeaderboard, resetTime)
+        });
+        redditCommentId = comment.id;
+      } catch (commentError) {
+        console.error('Failed to create leaderboard comment:', commentError);
+      }
+    }
+
+    const flairedUsernames = subredditName ? await this.awardTopFlair(subredditName, bossData, topPlayers) : [];
+    const outcome: RaidOutcomeRecord = {
+      ...buildRaidOutcome('victory', postId, bossData, bossState, {
+        topPlayers: topContributors,
+        totalDamage,
+        participantCount
+      }),
+      title,
+      content,
+      redditPostId,
+      redditCommentId,
+      flairedUsernames
+    };
+
+    await RaidOutcomeManager.recordOutcome(outcome);
+    console.log(`Victory wrap-up completed for post ${postId}`);
+    return outcome;
+  }
+
+  /**
+   * The victory post written by the old client-triggered flow, if it belongs to this boss instance
+   * The marker is per post, so one written before this boss spawned is for an earlier raid
+   */
+  private static async getLegacyVictoryPost(
+    postId: string,
+    bossState: BossState
+  ): Promise<{ postId: string | null; commentId: string | null } | undefined> {
+    const marker = await redis.get(this.getLegacyCreatedKey(postId));
+    if (!marker) {
+      return undefined;
+    }
+
+    try {
+      const created = JSON.parse(marker) as { timestamp: number; postId: string | null; commentId: string | null };
+      if (created.timestamp < (bossState.spawnedAt ?? 0)) {
+        return undefined;
+      }
+      return { postId: created.postId, commentId: created.commentId };
+    } catch (error) {
+      console.error(`Ignoring unreadable victory marker for post ${postId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Give the top contributors a flair naming the boss they beat (moderators can turn this off)
+   * @returns Usernames that received flair
+   */
+  private static async awardTopFlair(
+    subredditName: string,
+    bossData: BossDefinition,
+    topPlayers: LeaderboardEntry[]
+  ): Promise<string[]> {
+    const enabled = await settings.get<boolean>('victoryFlairEnabled').catch(() => undefined);
+    if (enabled === false) {
+      return [];
+    }
+
+    const medals = ['🥇', '🥈', '🥉'];
+    const flaired: string[] = [];
+
+    for (const [index, player] of topPlayers.entries()) {
+      // Only real Reddit accounts (the leaderboard pads with sample players)
+      if (!isT2(player.userId)) {
+        continue;
+      }
+
+      try {
+        const user = await reddit.getUserById(player.userId);
+        if (!user) {
+          continue;
+        }
+
+        const text = `${medals[index] ?? '🏅'} Top raider vs ${bossData.name}`.slice(0, FLAIR_MAX_LENGTH);
+        await reddit.setUserFlair({ subredditName, username: user.username, text });
+        flaired.push(user.username);
+      } catch (error) {
+        console.error(`Failed to set victory flair for ${player.userId}:`, error);
+      }
+    }
+
+    return flaired;
+  }
+}
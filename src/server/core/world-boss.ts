@@ -0,0 +1,137 @@
+import { redis, reddit, settings } from '@devvit/web/server';
+import { SubredditContribution, WorldBossStatus } from '../../shared/types/api';
+import { WORLD_BOSS_HP, WORLD_BOSS_NAME, WORLD_BOSS_RETENTION_DAYS, rankSubreddits } from '../../shared/game/world-boss';
+import { DEFAULT_CALENDAR_CONFIG, RaidDay, getRaidDay, shiftDayKey } from './calendar';
+
+export class WorldBossManager {
+  // Global keys, shared by every installation: damageDealt, defeatedAt and winner
+  private static getStateKey(dayKey: string): string {
+    return `world_boss:${dayKey}`;
+  }
+
+  // Global: subreddit name scored by the damage it dealt
+  private static getSubredditsKey(dayKey: string): string {
+    return `world_boss_subreddits:${dayKey}`;
+  }
+
+  // Local to this installation: set once the subreddit has posted the world boss victory
+  private static getAnnouncedKey(dayKey: string): string {
+    return `world_boss_announced:${dayKey}`;
+  }
+
+  /**
+   * Moderators opt their subreddit in through the app settings (off by default)
+   */
+  public static async isParticipating(): Promise<boolean> {
+    const enabled = await settings.get<boolean>('worldBossEnabled').catch(() => undefined);
+    return enabled === true;
+  }
+
+  /**
+   * The world boss runs on UTC raid days so every subreddit fights the same one whatever its local reset
+   */
+  public static getWorldRaidDay(now: number = Date.now()): RaidDay {
+    return getRaidDay(now, DEFAULT_CALENDAR_CONFIG);
+  }
+
+  /**
+   * Land a hit from this subreddit on the world boss (ignored unless the subreddit opted in)
+   * Damage past the boss's remaining HP isn't credited; the hit that takes the last HP names the winner
+   */
+  public static async recordDamage(subredditName: string | undefined, damage: number): Promise<void> {
+    if (!subredditName || damage <= 0 || !await this.isParticipating()) {
+      return;
+    }
+
+    const { dayKey } = this.getWorldRaidDay();
+    const stateKey = this.getStateKey(dayKey);
+    const subredditsKey = this.getSubredditsKey(dayKey);
+
+    const damageDealt = await redis.global.hIncrBy(stateKey, 'damageDealt', damage);
+    const previousDamage = damageDealt - damage;
+    if (previousDamage >= WORLD_BOSS_HP) {
+      return;
+    }
+
+    await redis.global.zIncrBy(subredditsKey, subredditName, Math.min(damage, WORLD_BOSS_HP - previousDamage));
+    const retentionSeconds = WORLD_BOSS_RETENTION_DAYS * 86400;
+    await redis.global.expire(stateKey, retentionSeconds);
+    await redis.global.expire(subredditsKey, retentionSeconds);
+
+    if (damageDealt >= WORLD_BOSS_HP) {
+      const [winner] = await this.getContributions(dayKey, 1);
+      await redis.global.hSet(stateKey, {
+        defeatedAt: Date.now().toString(),
+        ...(winner && { winner: winner.subredditName })
+      });
+      console.log(`World boss ${dayKey} defeated by r/${subredditName}; r/${winner?.subredditName} dealt the most damage`);
+    }
+  }
+
+  /**
+   * The world boss for a UTC raid day with the subreddit leaderboard
+   */
+  public static async getStatus(dayKey: string = this.getWorldRaidDay().dayKey, limit: number = 10): Promise<WorldBossStatus> {
+    const fields = await redis.global.hGetAll(this.getStateKey(dayKey)) ?? {};
+    const damageDealt = parseInt(fields.damageDealt ?? '0');
+
+    return {
+      dayKey,
+      name: WORLD_BOSS_NAME,
+      currentHP: Math.max(0, WORLD_BOSS_HP - damageDealt),
+      maxHP: WORLD_BOSS_HP,
+      defeatedAt: fields.defeatedAt ? parseInt(fields.defeatedAt) : undefined,
+      winner: fields.winner,
+      subreddits: await this.getContributions(dayKey, limit),
+      participating: await this.isParticipating()
+    };
+  }
+
+  /**
+   * Post the world boss victory in this subreddit, once per world boss
+   * Called by the recurring raid post job, so every opted-in subreddit announces it
+   * (the previous UTC day is checked too, for bosses that fell just before the reset)
+   */
+  public static async announceVictory(subredditName: string | undefined): Promise<string | undefined> {
+    if (!subredditName || !await this.isParticipating()) {
+      return undefined;
+    }
+
+    const { dayKey } = this.getWorldRaidDay();
+    for (const candidate of [dayKey, shiftDayKey(dayKey, -1)]) {
+      const status = await this.getStatus(candidate, 5);
+      if (!status.defeatedAt || !status.winner) continue;
+
+      const announcedKey = this.getAnnouncedKey(candidate);
+      if (!await redis.set(announcedKey, Date.now().toString(), { nx: true })) continue;
+      await redis.expire(announcedKey, WORLD_BOSS_RETENTION_DAYS * 86400);
+
+      const ownRank = (await this.getContributions(candidate)).find((entry) => entry.subredditName === subredditName)?.rank;
+      const medals = ['🥇', '🥈', '🥉'];
+      const title = `🌍 ${WORLD_BOSS_NAME} has fallen! r/${status.winner} dealt the most damage`;
+      const text = `Subreddits around Reddit brought down **${WORLD_BOSS_NAME}** ` +
+        `(${status.maxHP.toLocaleString()} HP) together.\n\n` +
+        `🏆 **Top Subreddits:**\n` +
+        status.subreddits.map((entry) =>
+          `${medals[entry.rank - 1] ?? `${entry.rank}.`} r/${entry.subredditName} - ${entry.damage.toLocaleString()} damage`
+        ).join('\n') + '\n\n' +
+        (ownRank ? `r/${subredditName} finished #${ownRank}. Thanks for raiding!` : `Thanks for raiding!`);
+
+      try {
+        const post = await reddit.submitPost({ subredditName, title, text });
+        console.log(`Announced world boss ${candidate} in r/${subredditName}`);
+        return post.id;
+      } catch (error) {
+        console.error(`Failed to announce world boss ${candidate}:`, error);
+        await redis.del(announcedKey);
+      }
+    }
+
+    return undefined;
+  }
+
+  private static async getContributions(dayKey: string, limit?: number): Promise<SubredditContribution[]> {
+    const ranked = await redis.global.zRange(this.getSubredditsKey(dayKey), 0, limit ? limit - 1 : -1, { by: 'rank', reverse: true });
+    return rankSubreddits(ranked.map(({ member, score }) => ({ subredditName: member, damage: score })));
+  }
+}
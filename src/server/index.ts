@@ -12,14 +12,83 @@ import {
   ShareSessionRequest,
   ShareSessionResponse,
   GameStateResponse,
-  RecentAttacksResponse
+  RecentAttacksResponse,
+  SlayersResponse,
+  BossRosterResponse,
+  VictoryStatusResponse,
+  RaidOutcomesResponse,
+  ProfileResponse,
+  PrestigeResponse,
+  InventoryResponse,
+  ClaimRewardsResponse,
+  SessionStats,
+  VictoryRewards,
+  UseItemRequest,
+  UseItemResponse,
+  ShopResponse,
+  ShopPurchaseRequest,
+  ShopPurchaseResponse,
+  ShopEquipRequest,
+  ShopEquipResponse,
+  EquipmentResponse,
+  EquipRequest,
+  InventoryAsset,
+  TalentsResponse,
+  LearnTalentRequest,
+  RespecTalentsRequest,
+  ActiveBuff,
+  CommunityBuff,
+  AchievementsResponse,
+  QuestsResponse,
+  ClaimQuestRequest,
+  StreakResponse,
+  GuildsResponse,
+  CreateGuildRequest,
+  JoinGuildRequest,
+  GuildMemberRequest,
+  WorldBossResponse
 } from '../shared/types/api';
-import { redis, createServer, context, reddit } from '@devvit/web/server';
-import { createPost } from './core/post';
-import { BossManager } from './core/boss';
-import { PlayerManager, CharacterClass } from './core/player';
+import { redis, createServer, context } from '@devvit/web/server';
+import { BossManager, DamageOutcome } from './core/boss';
+import { PlayerManager, CharacterClass, PlayerData } from './core/player';
+import { ProfileManager } from './core/profile';
+import { InventoryManager, toInventoryGrant } from './core/inventory';
+import { TalentManager } from './core/talents';
+import { PrestigeManager } from './core/prestige';
+import { AchievementManager } from './core/achievements';
+import { QuestManager } from './core/quests';
+import { StreakManager } from './core/streaks';
+import { GuildManager, GuildResult } from './core/guilds';
+import { FactionManager } from './core/factions';
+import { WorldBossManager } from './core/world-boss';
+import { ShopManager } from './core/shop';
 import { CommunityManager } from './core/community';
 import { RedditUserService } from './core/reddit-user';
+import { SlayerManager } from './core/slayers';
+import { BossRosterManager } from './core/roster';
+import { RaidForecastManager } from './core/forecast';
+import { BossAbilityManager } from './core/abilities';
+import { RaidCalendar } from './core/calendar';
+import { RaidPostManager } from './core/raid-posts';
+import { VictoryManager } from './core/victory';
+import { RaidOutcomeManager, getRaidId } from './core/outcomes';
+import { getPhaseMultipliers } from '../shared/game/bosses';
+import { BossAbilityState } from '../shared/game/abilities';
+import { CombatModifiers, DamageCalculator, combineModifiers, isCharacterClassId } from '../shared/game/damage';
+import { ITEMS, isItemType } from '../shared/game/items';
+import { getEquipment, getLoadoutModifiers, isEquipmentSlot } from '../shared/game/equipment';
+import { LootEntry, createSeededRandom, getLootSeed, rollLoot } from '../shared/game/loot';
+import { getPrestigeModifiers } from '../shared/game/progression';
+import { getNextStreakMilestone } from '../shared/game/streaks';
+import { FACTION_WIN_BONUS } from '../shared/game/factions';
+import {
+  GUILD_NAME_MAX_LENGTH,
+  GUILD_NAME_MIN_LENGTH,
+  GUILD_TAG_MAX_LENGTH,
+  GUILD_TAG_MIN_LENGTH,
+  isGuildRole
+} from '../shared/game/guilds';
+import { TALENT_RESPEC_COST, getCommunityBuffSeconds, getTalentModifiers, getTalentPoints } from '../shared/game/talents';
 
 const app = express();
 
@@ -32,28 +101,81 @@ app.use(express.text());
 
 const router = express.Router();
 
-// Helper function to generate leaderboard comment
-function generateLeaderboardComment(leaderboard: LeaderboardEntry[]): string {
-  let comment = '📋 **Full Leaderboard - Victory Contributors:**\n\n';
-  
-  leaderboard.forEach((player, index) => {
-    const medal = index < 3 ? ['🥇', '🥈', '🥉'][index] : '🏅';
-    const classEmoji: Record<string, string> = {
-      warrior: '⚔️',
-      mage: '🔮', 
-      rogue: '🗡️',
-      healer: '✨'
-    };
-    const emoji = classEmoji[player.characterClass] || '⚔️';
-    
-    comment += `${medal} **${index + 1}.** u/${player.redditUsername || `Player${index + 1}`} ${emoji}\n`;
-    comment += `   └ ${player.sessionDamage.toLocaleString()} damage (Level ${player.level} ${player.characterClass})\n\n`;
+/**
+ * Roll a raider's victory loot from the boss's table and total it up per asset
+ */
+function rollVictoryRewards(lootTable: LootEntry[], sessionStats: SessionStats, lootSeed: string): VictoryRewards {
+  const drops = rollLoot(
+    lootTable,
+    { rank: sessionStats.playerRank, participationMs: sessionStats.participationMs },
+    createSeededRandom(lootSeed)
+  );
+  const total = (asset: InventoryAsset) => drops
+    .filter((drop) => drop.asset === asset)
+    .reduce((sum, drop) => sum + drop.amount, 0);
+
+  return {
+    coins: total('coins'),
+    gems: total('gems'),
+    potions: total('potion'),
+    scrolls: total('scroll'),
+    drops
+  };
+}
+
+/**
+ * What the stored profile adds to a player's roll: equipment, the current class's talents and prestige
+ */
+function getCombatModifiers(attacker: PlayerData): CombatModifiers {
+  // consumeEnergy already counted this attack, so rage stacks from the ones before it
+  const consecutiveAttacks = Math.max(0, attacker.sessionAttackCount - 1);
+  return combineModifiers(
+    getLoadoutModifiers(attacker.loadout),
+    getTalentModifiers(attacker.characterClass, attacker.talents[attacker.characterClass] ?? {}, consecutiveAttacks),
+    getPrestigeModifiers(attacker.prestigeRank)
+  );
+}
+
+/**
+ * Apply the player's scroll buff and the raid's healer buff to a roll
+ */
+function applyDamageBuffs(damage: number, buff: ActiveBuff | undefined, communityBuff: CommunityBuff | undefined): number {
+  const multiplier = (buff?.damageMultiplier ?? 1) * (communityBuff?.multiplier ?? 1);
+  return multiplier === 1 ? damage : Math.floor(damage * multiplier);
+}
+
+// Helper function to add the killing blow to the subreddit's permanent slayer history
+async function recordBossSlayer(postId: string, outcome: DamageOutcome): Promise<void> {
+  const { subredditName } = context;
+  if (!outcome.isKillingBlow || !outcome.slayer || !subredditName) {
+    return;
+  }
+
+  const bossData = await BossManager.getBossForState(outcome);
+  await SlayerManager.recordSlayer(subredditName, {
+    ...outcome.slayer,
+    postId,
+    bossId: bossData.id,
+    bossName: bossData.name
   });
-  
-  comment += '\n🎉 **Congratulations to all participants!** 🎉\n\n';
-  comment += 'Join us tomorrow for the next boss battle at 8 AM!\n';
-  comment += 'Visit r/RaidDay to participate in future battles.';
-  return comment;
+}
+
+// Helper function to advance the current boss's abilities before an attack lands
+async function tickBossAbilities(postId: string): Promise<BossAbilityState | undefined> {
+  const bossInfo = await BossManager.getBossInfo(postId);
+  return await BossAbilityManager.tick(postId, bossInfo.data, bossInfo.state);
+}
+
+// Helper function to credit the raider's damage to this boss instance and feed today's participation
+// into tomorrow's boss HP forecast
+async function recordRaidParticipation(postId: string, userId: string, outcome: DamageOutcome): Promise<void> {
+  await PlayerManager.recordRaidDamage(getRaidId(postId, outcome), userId, outcome.damageApplied);
+  await RaidForecastManager.recordDamage(
+    await RaidCalendar.getCurrentRaidDay(),
+    userId,
+    outcome.damageApplied,
+    outcome.isKillingBlow ? outcome.defeatedAt : undefined
+  );
 }
 
 router.get<{ postId: string }, InitResponse | { status: string; message: string }>(
@@ -130,11 +252,11 @@ router.post<{ postId: string }, DecrementResponse | { status: string; message: s
 
 router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   try {
-    const post = await createPost();
+    const post = await RaidPostManager.createRaidPost(await RaidCalendar.getCurrentRaidDay());
 
     res.json({
       status: 'success',
-      message: `Post created in subreddit ${context.subredditName} with id ${post.id}`,
+      message: `Post created in subreddit ${context.subredditName} with id ${post.postId}`,
     });
   } catch (error) {
     console.error(`Error creating post: ${error}`);
@@ -145,12 +267,13 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   }
 });
 
+// Moderator menu: start a new raid post now (it replaces the current raid)
 router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   try {
-    const post = await createPost();
+    const post = await RaidPostManager.createRaidPost(await RaidCalendar.getCurrentRaidDay());
 
     res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.postId}`,
     });
   } catch (error) {
     console.error(`Error creating post: ${error}`);
@@ -161,6 +284,270 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+// Scheduled job: create each raid day's post at the reset
+// Runs every 15 minutes so any subreddit time zone's reset is caught; creates at most one post per raid day
+// Also announces a defeated world boss in opted-in subreddits
+router.post('/internal/scheduler/daily-raid-post', async (_req, res): Promise<void> => {
+  try {
+    const post = await RaidPostManager.createDailyRaidPost();
+    await WorldBossManager.announceVictory(context.subredditName);
+
+    res.json({
+      status: 'success',
+      message: post ? `Raid post ${post.postId} created for ${post.dayKey}` : 'No raid post needed',
+    });
+  } catch (error) {
+    console.error(`Error creating daily raid post: ${error}`);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to create daily raid post',
+    });
+  }
+});
+
+// Scheduled job: post the victory wrap-up for a defeated boss (queued by the killing blow)
+router.post('/internal/scheduler/raid-victory', async (req, res): Promise<void> => {
+  try {
+    const postId = req.body?.data?.postId;
+    if (typeof postId !== 'string') {
+      res.status(400).json({ status: 'error', message: 'postId required' });
+      return;
+    }
+
+    const bossInfo = await BossManager.getBossInfo(postId);
+    const outcome = await VictoryManager.runVictory(postId, context.subredditName, bossInfo.data, bossInfo.state);
+
+    res.json({
+      status: 'success',
+      message: outcome ? `Victory wrap-up completed for ${postId}` : 'No victory wrap-up needed',
+    });
+  } catch (error) {
+    console.error(`Error running victory wrap-up: ${error}`);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to run victory wrap-up',
+    });
+  }
+});
+
+// Moderator menu: open the boss roster editor prefilled with the stored overrides
+router.post('/internal/menu/boss-roster', async (_req, res): Promise<void> => {
+  try {
+    const overrides = await BossRosterManager.getOverrides();
+
+    res.json({
+      showForm: {
+        name: 'bossRosterForm',
+        form: {
+          title: 'Edit boss roster',
+          description:
+            'JSON keyed by weekday. Each day may override name, baseHP, phase2Threshold, ' +
+            'enrageThreshold, damageResistance { phase1, phase2 } and spriteKey. Leave {} to use the defaults.',
+          acceptLabel: 'Save roster',
+          fields: [
+            {
+              type: 'paragraph',
+              name: 'overrides',
+              label: 'Roster overrides (JSON)',
+              lineHeight: 12
+            }
+          ]
+        },
+        data: {
+          overrides: JSON.stringify(overrides, null, 2)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error opening boss roster editor:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to open boss roster editor',
+    });
+  }
+});
+
+// Moderator menu: explain how today's boss HP was chosen
+router.post('/internal/menu/boss-hp-forecast', async (_req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.json({ showToast: { text: 'Open this from a raid post', appearance: 'neutral' } });
+    return;
+  }
+
+  try {
+    const { hpForecast, maxHP } = await BossManager.getBossState(postId);
+    let text = `Boss HP ${maxHP.toLocaleString()}: no forecast stored for this boss`;
+
+    if (hpForecast?.source === 'forecast') {
+      text = `Boss HP ${hpForecast.chosenHP.toLocaleString()}: ~${hpForecast.forecastParticipants} players × ` +
+        `${hpForecast.damagePerParticipantHour.toLocaleString()} dmg/h × ${hpForecast.targetTimeToKillHours}h target ` +
+        `(${hpForecast.sampleDays} days of history)`;
+    } else if (hpForecast) {
+      text = `Boss HP ${hpForecast.chosenHP.toLocaleString()}: roster default ` +
+        `(${hpForecast.sampleDays === 0 ? 'no participation history yet' : 'HP scaling disabled'})`;
+    }
+    if (hpForecast?.revengeMultiplier) {
+      text += `, ×${hpForecast.revengeMultiplier} for a revenge boss`;
+    }
+
+    res.json({ showToast: { text, appearance: 'neutral' } });
+  } catch (error) {
+    console.error('Error explaining boss HP forecast:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to load boss HP forecast',
+    });
+  }
+});
+
+// Boss roster form submission: validate and store moderator overrides
+router.post('/internal/form/boss-roster', async (req, res): Promise<void> => {
+  try {
+    const raw = typeof req.body?.overrides === 'string' ? req.body.overrides.trim() : '';
+
+    let parsed: unknown;
+    try {
+      parsed = raw ? JSON.parse(raw) : {};
+    } catch {
+      res.json({ showToast: { text: 'Roster not saved: overrides must be valid JSON', appearance: 'neutral' } });
+      return;
+    }
+
+    const errors = await BossRosterManager.setOverrides(parsed);
+    if (errors.length > 0) {
+      res.json({ showToast: { text: `Roster not saved: ${errors[0]}`, appearance: 'neutral' } });
+      return;
+    }
+
+    res.json({ showToast: { text: 'Boss roster saved', appearance: 'success' } });
+  } catch (error) {
+    console.error('Error saving boss roster:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to save boss roster',
+    });
+  }
+});
+
+// Moderator menu: run this raid post as a faction war (or stop one)
+router.post('/internal/menu/faction-war', async (_req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.json({ showToast: { text: 'Open this from a raid post', appearance: 'neutral' } });
+    return;
+  }
+
+  try {
+    const factionCount = await FactionManager.getFactionCount(postId);
+    res.json({
+      showForm: {
+        name: 'factionWarForm',
+        form: {
+          title: 'Faction war',
+          description: 'Raiders join a faction on their first attack. The faction with the most damage when the boss ' +
+            'dies wins bonus rewards. The number of factions is locked once raiders have joined.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'select',
+              name: 'factions',
+              label: 'Mode for this post',
+              options: [
+                { label: 'Off', value: 'off' },
+                ...[2, 3].map((count) => ({ label: `${count} factions`, value: count.toString() }))
+              ],
+              defaultValue: [factionCount ? factionCount.toString() : 'off']
+            }
+          ]
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error opening faction war settings:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to open faction war settings',
+    });
+  }
+});
+
+// Faction war form submission
+router.post('/internal/form/faction-war', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.json({ showToast: { text: 'Open this from a raid post', appearance: 'neutral' } });
+    return;
+  }
+
+  try {
+    const [choice] = Array.isArray(req.body?.factions) ? req.body.factions : [req.body?.factions];
+    const factionCount = choice === 'off' || choice === undefined ? undefined : parseInt(choice);
+    const result = await FactionManager.setMode(postId, await BossManager.getBossState(postId), factionCount);
+    if (!result.success) {
+      res.json({ showToast: { text: `Not saved: ${result.message ?? 'try again'}`, appearance: 'neutral' } });
+      return;
+    }
+
+    res.json({
+      showToast: {
+        text: factionCount ? `Faction war on with ${factionCount} factions` : 'Faction war off',
+        appearance: 'success'
+      }
+    });
+  } catch (error) {
+    console.error('Error saving faction war settings:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to save faction war settings',
+    });
+  }
+});
+
+// Post menu: found a guild (the game has no text input, so the name and tag come from a form)
+router.post('/internal/menu/guild-create', async (_req, res): Promise<void> => {
+  res.json({
+    showForm: {
+      name: 'guildCreateForm',
+      form: {
+        title: 'Found a guild',
+        description: `Guild names are ${GUILD_NAME_MIN_LENGTH}-${GUILD_NAME_MAX_LENGTH} characters; tags are ` +
+          `${GUILD_TAG_MIN_LENGTH}-${GUILD_TAG_MAX_LENGTH} letters or numbers and show beside members on the leaderboard.`,
+        acceptLabel: 'Found guild',
+        fields: [
+          { type: 'string', name: 'name', label: 'Guild name', required: true },
+          { type: 'string', name: 'tag', label: 'Guild tag', required: true }
+        ]
+      }
+    }
+  });
+});
+
+// Guild form submission: found the guild with the submitter as owner
+router.post('/internal/form/guild-create', async (req, res): Promise<void> => {
+  const { userId } = context;
+  if (!userId) {
+    res.json({ showToast: { text: 'Log in to found a guild', appearance: 'neutral' } });
+    return;
+  }
+
+  try {
+    const result = await GuildManager.create(userId, req.body?.name, req.body?.tag);
+    if (!result.success || !result.guild) {
+      res.json({ showToast: { text: `Guild not founded: ${result.message ?? 'try again'}`, appearance: 'neutral' } });
+      return;
+    }
+
+    res.json({ showToast: { text: `Founded ${result.guild.name} [${result.guild.tag}]`, appearance: 'success' } });
+  } catch (error) {
+    console.error('Error founding guild:', error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to found guild',
+    });
+  }
+});
+
 // Special ability validation endpoints
 router.post('/api/validate-special-ability', async (_, res): Promise<void> => {
   const { postId, userId } = context;
@@ -210,7 +597,6 @@ router.post('/api/validate-special-ability', async (_, res): Promise<void> => {
 
 router.post<{}, AttackResponse, AttackRequest>('/api/attack', async (_req, res): Promise<void> => {
   const { postId, userId } = context;
-  const { characterClass, damage, isCritical = false } = _req.body;
   
   if (!postId || !userId) {
     res.status(400).json({
@@ -228,24 +614,25 @@ router.post<{}, AttackResponse, AttackRequest>('/api/attack', async (_req, res):
     return;
   }
 
-  // Validate damage input (should be between 150-250 for simplified system)
-  if (!damage || damage < 50 || damage > 500) {
-    res.status(400).json({
-      success: false,
-      damage: 0,
-      isCritical: false,
-      newBossHP: 0,
-      bossPhase: 1,
-      isEnraged: false,
-      playerLevel: 1,
-      xpGained: 0,
-      energyRemaining: 0,
-      message: 'Invalid damage amount'
-    });
-    return;
-  }
-
   try {
+    // Old daily posts keep their final state instead of resetting
+    const raidStatus = await RaidPostManager.getStatus(postId);
+    if (!raidStatus.isActive) {
+      res.status(400).json({
+        success: false,
+        damage: 0,
+        isCritical: false,
+        newBossHP: 0,
+        bossPhase: 1,
+        isEnraged: false,
+        playerLevel: 1,
+        xpGained: 0,
+        energyRemaining: 0,
+        message: 'This raid has ended'
+      });
+      return;
+    }
+
     // Store user mapping for Reddit integration (if we have username from context)
     const currentUsername = (context as any).username;
     if (currentUsername) {
@@ -276,22 +663,66 @@ router.post<{}, AttackResponse, AttackRequest>('/api/attack', async (_req, res):
     // Track active player for community stats
     await BossManager.trackActivePlayer(postId, userId);
 
-    // Apply damage to boss (simplified - no resistance)
-    const bossState = await BossManager.takeDamage(postId, damage);
+    // Roll damage on the server from the stored class, level, equipment and talents (client numbers are ignored)
+    const attacker = await PlayerManager.getPlayerData(postId, userId);
+    const roll = DamageCalculator.calculateAttack(
+      attacker.characterClass,
+      attacker.level,
+      Math.random,
+      getCombatModifiers(attacker)
+    );
+    const isCritical = roll.isCritical;
+
+    // A scroll used this session and a healer's raid buff boost the roll before the boss gets a say
+    const buff = PlayerManager.getActiveBuff(attacker);
+    const communityBuff = await CommunityManager.getCommunityBuff(postId);
+    const buffedDamage = applyDamageBuffs(roll.damage, buff, communityBuff);
+
+    // Boss abilities (shields, reflects) change what the roll does
+    const bossAbility = await tickBossAbilities(postId);
+    const { damage: abilityDamage, reflectedDamage } = BossAbilityManager.applyToDamage(bossAbility, buffedDamage);
+
+    // Apply damage to boss (the boss's phase resistance decides how much lands)
+    const bossState = await BossManager.takeDamage(postId, abilityDamage, {
+      userId,
+      username: currentUsername,
+      characterClass: attacker.characterClass
+    });
+    await recordBossSlayer(postId, bossState);
+    await recordRaidParticipation(postId, userId, bossState);
+    const damage = bossState.damageApplied;
+    await FactionManager.recordDamage(postId, bossState, userId, damage);
+    await WorldBossManager.recordDamage(context.subredditName, damage);
     
     // Update player data and add XP
     const playerData = await PlayerManager.addDamage(postId, userId, damage, isCritical);
     
     // Update session stats
     await PlayerManager.updateSessionStats(postId, userId, isCritical);
+
+    // The streak goes first so a streak it extends counts toward achievements
+    const streak = await StreakManager.recordParticipation(userId, await RaidCalendar.getCurrentRaidDay());
+    const achievements = await AchievementManager.record(userId, {
+      attacks: 1,
+      crits: isCritical ? 1 : 0,
+      killingBlows: bossState.isKillingBlow ? 1 : 0,
+      hit: damage
+    });
+    await QuestManager.record(userId, {
+      characterClass: attacker.characterClass,
+      damage,
+      isCritical,
+      isSpecial: false
+    }, `${postId}:${attacker.energyState.sessionStart}`);
     
     // Record attack for community tracking with Reddit user data
     const attackEvent: AttackEvent = {
       userId,
-      characterClass,
+      characterClass: playerData.characterClass,
       damage,
       isCritical,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      buff
     };
     await CommunityManager.recordAttack(postId, attackEvent);
 
@@ -304,7 +735,13 @@ router.post<{}, AttackResponse, AttackRequest>('/api/attack', async (_req, res):
       isEnraged: bossState.isEnraged,
       playerLevel: playerData.level,
       xpGained: Math.floor(damage / 100) * 10 + (isCritical ? Math.floor(damage / 200) * 5 : 0),
-      energyRemaining: energyResult.energyState.current
+      energyRemaining: energyResult.energyState.current,
+      reflectedDamage,
+      ...(bossAbility && { bossAbility }),
+      ...(buff && { buff }),
+      ...(communityBuff && { communityBuff }),
+      ...(achievements.length > 0 && { achievements }),
+      ...(streak && { streak })
     });
   } catch (error) {
     console.error(`Error processing attack for user ${userId}:`, error);
@@ -325,7 +762,6 @@ router.post<{}, AttackResponse, AttackRequest>('/api/attack', async (_req, res):
 
 router.post('/api/special-ability', async (_req, res): Promise<void> => {
   const { postId, userId } = context;
-  const { characterClass, damage } = _req.body;
   
   if (!postId || !userId) {
     res.status(400).json({
@@ -336,6 +772,15 @@ router.post('/api/special-ability', async (_req, res): Promise<void> => {
   }
 
   try {
+    const raidStatus = await RaidPostManager.getStatus(postId);
+    if (!raidStatus.isActive) {
+      res.status(400).json({
+        status: 'error',
+        message: 'This raid has ended'
+      });
+      return;
+    }
+
     // Store user mapping for Reddit integration
     const currentUsername = (context as any).username;
     if (currentUsername) {
@@ -355,12 +800,53 @@ router.post('/api/special-ability', async (_req, res): Promise<void> => {
     // Track active player
     await BossManager.trackActivePlayer(postId, userId);
 
-    // Apply damage to boss (special abilities deal 3x damage)
-    const specialDamage = damage * 3;
-    const bossState = await BossManager.takeDamage(postId, specialDamage);
+    // Roll special ability damage on the server from the stored class and level
+    const attacker = await PlayerManager.getPlayerData(postId, userId);
+    const characterClass = attacker.characterClass;
+    const buff = PlayerManager.getActiveBuff(attacker);
+    const specialRoll = DamageCalculator.calculateSpecialDamage(
+      characterClass,
+      attacker.level,
+      Math.random,
+      getCombatModifiers(attacker)
+    );
+
+    // A healer's Heal buffs the whole raid (Lingering Light makes it last longer)
+    const communityBuff = characterClass === CharacterClass.HEALER
+      ? await CommunityManager.activateCommunityBuff(postId, userId, getCommunityBuffSeconds(attacker.talents.healer ?? {}))
+      : await CommunityManager.getCommunityBuff(postId);
+
+    const bossAbility = await tickBossAbilities(postId);
+    const { damage: abilityDamage, reflectedDamage } = BossAbilityManager.applyToDamage(
+      bossAbility,
+      applyDamageBuffs(specialRoll, buff, communityBuff)
+    );
+    const bossState = await BossManager.takeDamage(
+      postId,
+      abilityDamage,
+      { userId, username: currentUsername, characterClass }
+    );
+    await recordBossSlayer(postId, bossState);
+    await recordRaidParticipation(postId, userId, bossState);
+    const specialDamage = bossState.damageApplied;
+    await FactionManager.recordDamage(postId, bossState, userId, specialDamage);
+    await WorldBossManager.recordDamage(context.subredditName, specialDamage);
     
     // Update player data
     const playerData = await PlayerManager.addDamage(postId, userId, specialDamage, false);
+
+    const streak = await StreakManager.recordParticipation(userId, await RaidCalendar.getCurrentRaidDay());
+    const achievements = await AchievementManager.record(userId, {
+      specials: 1,
+      killingBlows: bossState.isKillingBlow ? 1 : 0,
+      hit: specialDamage
+    });
+    await QuestManager.record(userId, {
+      characterClass,
+      damage: specialDamage,
+      isCritical: false,
+      isSpecial: true
+    }, `${postId}:${attacker.energyState.sessionStart}`);
     
     // Record special attack for community tracking
     const attackEvent: AttackEvent = {
@@ -368,7 +854,8 @@ router.post('/api/special-ability', async (_req, res): Promise<void> => {
       characterClass,
       damage: specialDamage,
       isCritical: false,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      buff
     };
     await CommunityManager.recordAttack(postId, attackEvent);
     
@@ -377,7 +864,13 @@ router.post('/api/special-ability', async (_req, res): Promise<void> => {
       damage: specialDamage,
       newBossHP: bossState.currentHP,
       characterClass: characterClass,
-      playerLevel: playerData.level
+      playerLevel: playerData.level,
+      reflectedDamage,
+      ...(bossAbility && { bossAbility }),
+      ...(buff && { buff }),
+      ...(communityBuff && { communityBuff }),
+      ...(achievements.length > 0 && { achievements }),
+      ...(streak && { streak })
     });
   } catch (error) {
     console.error(`Error using special ability for user ${userId}:`, error);
@@ -388,6 +881,64 @@ router.post('/api/special-ability', async (_req, res): Promise<void> => {
   }
 });
 
+// Use Item API - Spend one consumable from the inventory on the current battle session
+router.post('/api/use-item', async (req, res): Promise<void> => {
+  const { postId, userId } = context;
+
+  if (!postId || !userId) {
+    res.status(400).json({ status: 'error', message: 'postId and userId are required' });
+    return;
+  }
+
+  const { item } = req.body as UseItemRequest;
+  if (!isItemType(item)) {
+    res.status(400).json({ status: 'error', message: 'Unknown item' });
+    return;
+  }
+  if (ITEMS[item].passive) {
+    res.status(400).json({ status: 'error', message: `${ITEMS[item].name} is used automatically` });
+    return;
+  }
+
+  try {
+    const raidStatus = await RaidPostManager.getStatus(postId);
+    if (!raidStatus.isActive) {
+      res.status(400).json({ status: 'error', message: 'This raid has ended' });
+      return;
+    }
+
+    const blocked = await PlayerManager.canUseItem(postId, userId, item);
+    if (blocked) {
+      res.status(400).json({ status: 'error', message: blocked });
+      return;
+    }
+
+    // Consume the item before applying it so a double tap can't spend the same one twice
+    const definition = ITEMS[item];
+    if (!await InventoryManager.debit(userId, item, 1, 'use', postId)) {
+      res.status(400).json({ status: 'error', message: `You don't have any ${definition.name}s` });
+      return;
+    }
+
+    const session = await PlayerManager.applyItem(postId, userId, item);
+    const buff = PlayerManager.getActiveBuff(session);
+
+    const response: UseItemResponse = {
+      status: 'success',
+      item,
+      energyRemaining: session.energyState.current,
+      inventory: await InventoryManager.getInventory(userId),
+      ...(definition.healAmount && { healAmount: definition.healAmount }),
+      ...(definition.bonusAttacks && { bonusAttacks: definition.bonusAttacks }),
+      ...(buff && { buff })
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error using ${item} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to use item' });
+  }
+});
+
 router.get<{}, BossStatusResponse>('/api/boss-status', async (_req, res): Promise<void> => {
   const { postId } = context;
   
@@ -407,7 +958,12 @@ router.get<{}, BossStatusResponse>('/api/boss-status', async (_req, res): Promis
     res.json({
       data: bossInfo.data,
       state: bossInfo.state,
-      isDefeated
+      isDefeated,
+      multipliers: {
+        phase: bossInfo.state.phase,
+        byClass: getPhaseMultipliers(bossInfo.data, bossInfo.state.phase)
+      },
+      raid: await RaidPostManager.getStatus(postId)
     });
   } catch (error) {
     console.error(`Error getting boss status for post ${postId}:`, error);
@@ -520,30 +1076,646 @@ router.get('/api/player-stats', async (_req, res): Promise<void> => {
   }
 });
 
-router.get<{}, LeaderboardEntry[]>('/api/leaderboard', async (_req, res): Promise<void> => {
-  const { postId } = context;
-  
-  if (!postId) {
-    res.status(400).json([]);
+// Player Profile API - Subreddit-wide level, lifetime damage, class history and currencies
+router.get('/api/profile', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
     return;
   }
 
   try {
-    const leaderboard = await PlayerManager.getLeaderboard(postId, 10);
-    res.json(leaderboard);
+    const response: ProfileResponse = {
+      status: 'success',
+      profile: await ProfileManager.getProfile(userId)
+    };
+    res.json(response);
   } catch (error) {
-    console.error(`Error getting leaderboard for post ${postId}:`, error);
-    res.status(500).json([]);
+    console.error(`Error getting profile for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get profile' });
   }
 });
 
-// Victory and Rewards Endpoints
+// Achievements API - Every achievement with the player's progress and unlock times
+router.get('/api/achievements', async (_req, res): Promise<void> => {
+  const { userId } = context;
 
-router.get('/api/victory-data', async (_req, res): Promise<void> => {
-  const { postId, userId } = context;
-  
-  if (!postId || !userId) {
-    res.status(400).json({
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const response: AchievementsResponse = {
+      status: 'success',
+      achievements: await AchievementManager.getAchievements(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting achievements for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get achievements' });
+  }
+});
+
+// Streak API - The player's raid-day streak and the next milestone
+router.get('/api/streak', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const streak = await StreakManager.getStreak(userId);
+    const nextMilestone = getNextStreakMilestone(streak.current);
+    const response: StreakResponse = {
+      status: 'success',
+      streak,
+      ...(nextMilestone && { nextMilestone })
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting streak for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get streak' });
+  }
+});
+
+// World Boss API - Today's shared boss and the subreddits fighting it
+router.get('/api/world-boss', async (_req, res): Promise<void> => {
+  try {
+    const response: WorldBossResponse = {
+      status: 'success',
+      worldBoss: await WorldBossManager.getStatus()
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting world boss:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get world boss' });
+  }
+});
+
+// Quests API - The player's daily and weekly quests with progress
+router.get('/api/quests', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const response: QuestsResponse = {
+      status: 'success',
+      quests: await QuestManager.getQuests(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting quests for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get quests' });
+  }
+});
+
+router.post('/api/quests/claim', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { questId } = req.body as ClaimQuestRequest;
+  if (typeof questId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'questId is required' });
+    return;
+  }
+
+  try {
+    const result = await QuestManager.claim(userId, questId);
+    if (!result.success || !result.quests) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Failed to claim quest' });
+      return;
+    }
+
+    const response: QuestsResponse = {
+      status: 'success',
+      quests: result.quests,
+      inventory: await InventoryManager.getInventory(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error claiming quest ${questId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to claim quest' });
+  }
+});
+
+/**
+ * The player's guild with its members, plus the top guilds to browse
+ */
+async function getGuildsResponse(userId: string): Promise<GuildsResponse> {
+  const playerGuild = await GuildManager.getPlayerGuild(userId);
+  return {
+    status: 'success',
+    guilds: await GuildManager.listGuilds(),
+    ...(playerGuild && {
+      guild: playerGuild.guild,
+      role: playerGuild.role,
+      members: await GuildManager.getMembers(playerGuild.guild.id)
+    })
+  };
+}
+
+/**
+ * Answer a guild change with the player's updated guild view
+ */
+async function sendGuildResult(res: express.Response, userId: string, result: GuildResult, action: string): Promise<void> {
+  if (!result.success) {
+    res.status(400).json({ status: 'error', message: result.message ?? `Failed to ${action}` });
+    return;
+  }
+  res.json(await getGuildsResponse(userId));
+}
+
+// Guilds API - The player's guild and the guilds they could join
+router.get('/api/guilds', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    res.json(await getGuildsResponse(userId));
+  } catch (error) {
+    console.error(`Error getting guilds for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get guilds' });
+  }
+});
+
+router.get('/api/guilds/:guildId', async (req, res): Promise<void> => {
+  const { guildId } = req.params;
+
+  try {
+    const guild = await GuildManager.getGuild(guildId);
+    if (!guild) {
+      res.status(404).json({ status: 'error', message: 'Guild not found' });
+      return;
+    }
+
+    const response: GuildsResponse = {
+      status: 'success',
+      guild,
+      members: await GuildManager.getMembers(guildId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting guild ${guildId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get guild' });
+  }
+});
+
+router.post('/api/guilds', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { name, tag } = req.body as CreateGuildRequest;
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.create(userId, name, tag), 'create guild');
+  } catch (error) {
+    console.error(`Error creating guild for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to create guild' });
+  }
+});
+
+router.post('/api/guilds/join', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { guildId } = req.body as JoinGuildRequest;
+  if (typeof guildId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'guildId is required' });
+    return;
+  }
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.join(userId, guildId), 'join guild');
+  } catch (error) {
+    console.error(`Error joining guild ${guildId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to join guild' });
+  }
+});
+
+router.post('/api/guilds/leave', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.leave(userId), 'leave guild');
+  } catch (error) {
+    console.error(`Error leaving guild for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to leave guild' });
+  }
+});
+
+router.post('/api/guilds/kick', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { userId: targetId } = req.body as GuildMemberRequest;
+  if (typeof targetId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'userId of the member is required' });
+    return;
+  }
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.kick(userId, targetId), 'kick member');
+  } catch (error) {
+    console.error(`Error kicking ${targetId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to kick member' });
+  }
+});
+
+router.post('/api/guilds/role', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { userId: targetId, role } = req.body as GuildMemberRequest;
+  if (typeof targetId !== 'string' || !isGuildRole(role)) {
+    res.status(400).json({ status: 'error', message: 'userId and role are required' });
+    return;
+  }
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.setRole(userId, targetId, role), 'change role');
+  } catch (error) {
+    console.error(`Error changing role of ${targetId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to change role' });
+  }
+});
+
+router.post('/api/guilds/disband', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    await sendGuildResult(res, userId, await GuildManager.disband(userId), 'disband guild');
+  } catch (error) {
+    console.error(`Error disbanding guild for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to disband guild' });
+  }
+});
+
+// Prestige API - Reset a capped level for a permanent prestige rank
+router.post('/api/prestige', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const result = await PrestigeManager.prestige(userId);
+    if (!result.success || !result.profile) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Failed to prestige' });
+      return;
+    }
+
+    const achievements = await AchievementManager.record(userId, {});
+
+    const response: PrestigeResponse = {
+      status: 'success',
+      profile: result.profile,
+      ...(achievements.length > 0 && { achievements })
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error prestiging user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to prestige' });
+  }
+});
+
+// Inventory API - Currency and item balances with the most recent ledger entries
+router.get('/api/inventory', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const response: InventoryResponse = {
+      status: 'success',
+      inventory: await InventoryManager.getInventory(userId),
+      ledger: await InventoryManager.getLedger(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting inventory for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get inventory' });
+  }
+});
+
+// Equipment API - Pieces the player owns and what they're wearing
+router.get('/api/equipment', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const profile = await ProfileManager.getProfile(userId);
+    const response: EquipmentResponse = {
+      status: 'success',
+      owned: profile.equipment,
+      loadout: profile.loadout
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting equipment for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get equipment' });
+  }
+});
+
+router.post('/api/equip', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { slot, equipmentId } = req.body as EquipRequest;
+  if (!isEquipmentSlot(slot)) {
+    res.status(400).json({ status: 'error', message: 'Unknown equipment slot' });
+    return;
+  }
+
+  try {
+    // Only pieces the player owns can be worn, and only in their own slot
+    const profile = await ProfileManager.getProfile(userId);
+    if (equipmentId !== undefined) {
+      const equipment = getEquipment(equipmentId);
+      if (!equipment || equipment.slot !== slot) {
+        res.status(400).json({ status: 'error', message: `That doesn't fit the ${slot} slot` });
+        return;
+      }
+      if (!profile.equipment[equipmentId]) {
+        res.status(400).json({ status: 'error', message: `You don't own ${equipment.name}` });
+        return;
+      }
+    }
+
+    const updated = await ProfileManager.setEquipped(userId, slot, equipmentId);
+    const response: EquipmentResponse = {
+      status: 'success',
+      owned: updated.equipment,
+      loadout: updated.loadout
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error equipping ${slot} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to change equipment' });
+  }
+});
+
+// Talents API - Learned ranks for every class tree and the points each tree gets
+router.get('/api/talents', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const profile = await ProfileManager.getProfile(userId);
+    const response: TalentsResponse = {
+      status: 'success',
+      level: profile.level,
+      pointsPerTree: getTalentPoints(profile.level),
+      talents: profile.talents,
+      respecCost: TALENT_RESPEC_COST
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting talents for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to get talents' });
+  }
+});
+
+router.post('/api/talents/learn', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { characterClass, talentId } = req.body as LearnTalentRequest;
+  if (!isCharacterClassId(characterClass) || typeof talentId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'characterClass and talentId are required' });
+    return;
+  }
+
+  try {
+    const result = await TalentManager.learn(userId, characterClass, talentId);
+    if (!result.success || !result.profile) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Failed to learn talent' });
+      return;
+    }
+
+    const response: TalentsResponse = {
+      status: 'success',
+      level: result.profile.level,
+      pointsPerTree: getTalentPoints(result.profile.level),
+      talents: result.profile.talents,
+      respecCost: TALENT_RESPEC_COST
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error learning ${talentId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to learn talent' });
+  }
+});
+
+router.post('/api/talents/respec', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { characterClass } = req.body as RespecTalentsRequest;
+  if (!isCharacterClassId(characterClass)) {
+    res.status(400).json({ status: 'error', message: 'characterClass is required' });
+    return;
+  }
+
+  try {
+    const result = await TalentManager.respec(userId, characterClass);
+    if (!result.success || !result.profile) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Failed to reset talents' });
+      return;
+    }
+
+    const response: TalentsResponse = {
+      status: 'success',
+      level: result.profile.level,
+      pointsPerTree: getTalentPoints(result.profile.level),
+      talents: result.profile.talents,
+      respecCost: TALENT_RESPEC_COST,
+      inventory: await InventoryManager.getInventory(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error resetting ${characterClass} talents for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to reset talents' });
+  }
+});
+
+// Shop API - Catalog with the player's purchases and remaining stock
+router.get('/api/shop', async (_req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  try {
+    const response: ShopResponse = {
+      status: 'success',
+      listings: await ShopManager.getListings(userId),
+      inventory: await InventoryManager.getInventory(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error getting shop for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to load shop' });
+  }
+});
+
+router.post('/api/shop/purchase', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { itemId } = req.body as ShopPurchaseRequest;
+  if (typeof itemId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'itemId is required' });
+    return;
+  }
+
+  try {
+    const result = await ShopManager.purchase(userId, itemId);
+    if (!result.success || !result.listing) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Purchase failed' });
+      return;
+    }
+
+    const response: ShopPurchaseResponse = {
+      status: 'success',
+      listing: result.listing,
+      inventory: await InventoryManager.getInventory(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error buying ${itemId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to complete purchase' });
+  }
+});
+
+router.post('/api/shop/equip', async (req, res): Promise<void> => {
+  const { userId } = context;
+
+  if (!userId) {
+    res.status(400).json({ status: 'error', message: 'userId is required' });
+    return;
+  }
+
+  const { itemId, equipped } = req.body as ShopEquipRequest;
+  if (typeof itemId !== 'string' || typeof equipped !== 'boolean') {
+    res.status(400).json({ status: 'error', message: 'itemId and equipped are required' });
+    return;
+  }
+
+  try {
+    const result = await ShopManager.equip(userId, itemId, equipped);
+    if (!result.success) {
+      res.status(400).json({ status: 'error', message: result.message ?? 'Failed to change cosmetic' });
+      return;
+    }
+
+    const response: ShopEquipResponse = {
+      status: 'success',
+      listings: await ShopManager.getListings(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`Error equipping ${itemId} for user ${userId}:`, error);
+    res.status(500).json({ status: 'error', message: 'Failed to change cosmetic' });
+  }
+});
+
+router.get<{}, LeaderboardEntry[]>('/api/leaderboard', async (_req, res): Promise<void> => {
+  const { postId } = context;
+  
+  if (!postId) {
+    res.status(400).json([]);
+    return;
+  }
+
+  try {
+    const leaderboard = await PlayerManager.getLeaderboard(postId, 10);
+    res.json(leaderboard);
+  } catch (error) {
+    console.error(`Error getting leaderboard for post ${postId}:`, error);
+    res.status(500).json([]);
+  }
+});
+
+// Victory and Rewards Endpoints
+
+router.get('/api/victory-data', async (_req, res): Promise<void> => {
+  const { postId, userId } = context;
+  
+  if (!postId || !userId) {
+    res.status(400).json({
       status: 'error',
       message: 'postId and userId are required'
     });
@@ -553,15 +1725,16 @@ router.get('/api/victory-data', async (_req, res): Promise<void> => {
   try {
     // Get player data
     const playerData = await PlayerManager.getPlayerData(postId, userId);
-    const sessionStats = await PlayerManager.getSessionStats(postId, userId);
     
     // Get leaderboard
     const leaderboard = await PlayerManager.getLeaderboard(postId, 5);
     
     // Get boss info
     const bossInfo = await BossManager.getBossInfo(postId);
+    const raidId = getRaidId(postId, bossInfo.state);
+    const sessionStats = await PlayerManager.getRaidStats(postId, userId, raidId);
     
-    // Calculate XP gained (based on session damage)
+    // Calculate XP gained (based on the damage dealt to this boss)
     const xpGained = Math.floor(sessionStats.sessionDamage / 100) * 10 + 
                     (sessionStats.criticalHits * 25) + 
                     (sessionStats.specialAbilityUsed ? 100 : 0);
@@ -572,13 +1745,14 @@ router.get('/api/victory-data', async (_req, res): Promise<void> => {
       sessionStats,
       leaderboard,
       bossData: bossInfo.data,
+      slayer: bossInfo.state.slayer,
       xpGained,
-      rewards: {
-        coins: Math.floor(sessionStats.sessionDamage / 500),
-        gems: Math.floor(sessionStats.criticalHits / 2),
-        potions: sessionStats.specialAbilityUsed ? 1 : 0,
-        scrolls: Math.floor(sessionStats.sessionDamage / 1000)
-      }
+      // Same seed as the claim, so this previews exactly what claiming will credit
+      rewards: rollVictoryRewards(
+        bossInfo.data.lootTable,
+        sessionStats,
+        getLootSeed(raidId, userId)
+      )
     });
   } catch (error) {
     console.error(`Error getting victory data for user ${userId}:`, error);
@@ -600,12 +1774,28 @@ router.post('/api/claim-rewards', async (_req, res): Promise<void> => {
     return;
   }
 
+  // Set once the claim key is taken; cleared again once the first credit lands
+  let unusedClaimKey: string | undefined;
+
   try {
-    // Check if rewards already claimed
-    const rewardsKey = `rewards_claimed:${postId}:${userId}`;
-    const alreadyClaimed = await redis.get(rewardsKey);
+    // Only raiders who damaged this boss can claim, and only once it's down
+    const bossState = await BossManager.getBossState(postId);
+    const raidId = getRaidId(postId, bossState);
+    const sessionStats = await PlayerManager.getRaidStats(postId, userId, raidId);
+    if (bossState.currentHP > 0 || sessionStats.sessionDamage <= 0) {
+      res.status(400).json({
+        status: 'error',
+        message: bossState.currentHP > 0 ? 'The boss hasn\'t been defeated yet' : 'Deal damage in this raid to earn rewards'
+      });
+      return;
+    }
+
+    // Claim once per raid, for good (the ledger credit is permanent); parallel claims can't both credit the inventory
+    const rewardsKey = `rewards_claimed:${raidId}:${userId}`;
+    const claimToken = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    await redis.set(rewardsKey, claimToken, { nx: true });
     
-    if (alreadyClaimed) {
+    if (await redis.get(rewardsKey) !== claimToken) {
       res.status(400).json({
         status: 'error',
         message: 'Rewards already claimed'
@@ -613,39 +1803,66 @@ router.post('/api/claim-rewards', async (_req, res): Promise<void> => {
       return;
     }
 
-    // Get session stats for reward calculation
-    const sessionStats = await PlayerManager.getSessionStats(postId, userId);
-    
-    // Calculate and apply rewards
+    unusedClaimKey = rewardsKey;
+
+    // Calculate rewards
     const xpGained = Math.floor(sessionStats.sessionDamage / 100) * 10 + 
                     (sessionStats.criticalHits * 25) + 
                     (sessionStats.specialAbilityUsed ? 100 : 0);
-    
+
+    // Roll this boss's loot table with a seed per raid and raider, so the same claim always rolls the same drops
+    const bossData = await BossManager.getBossForState(bossState);
+    const lootSeed = getLootSeed(raidId, userId);
+    const rewards = rollVictoryRewards(bossData.lootTable, sessionStats, lootSeed);
+    console.log(`Loot for ${userId} from ${bossData.id} (seed ${lootSeed}, rank ${sessionStats.playerRank}, ` +
+      `${sessionStats.participationMs}ms):`, rewards.drops);
+
+    // From here on the claim may have credited something, so it can't be retried
+    unusedClaimKey = undefined;
+
     // Add XP to player
     await PlayerManager.addExperience(postId, userId, xpGained);
+
+    // Credit coins, gems, potions and scrolls through the inventory ledger; gear goes to the collection
+    await InventoryManager.credit(userId, toInventoryGrant(rewards), 'claim', postId);
+    for (const drop of rewards.drops) {
+      if (drop.equipmentId) {
+        await ProfileManager.addEquipment(userId, drop.equipmentId);
+      }
+    }
     
-    // Mark rewards as claimed (expires in 24 hours)
-    await redis.set(rewardsKey, Date.now().toString(), {
-      expiration: new Date(Date.now() + 86400 * 1000) // 24 hours
-    });
+    // Members of the faction that won the war get a bonus on top
+    await FactionManager.settleWar(postId, bossState);
+    const factionWar = await FactionManager.getStatus(postId, bossState, userId);
+    const wonFactionWar = factionWar?.winner !== undefined && factionWar.winner === factionWar.playerFaction;
+    if (wonFactionWar) {
+      await InventoryManager.credit(userId, FACTION_WIN_BONUS, 'faction', postId);
+    }
     
     // Get updated player data
     const updatedPlayerData = await PlayerManager.getPlayerData(postId, userId);
+    const achievements = await AchievementManager.record(userId, { claims: 1 });
     
-    res.json({
+    const response: ClaimRewardsResponse = {
       status: 'success',
       xpGained,
       newLevel: updatedPlayerData.level,
       newExperience: updatedPlayerData.experience,
-      rewards: {
-        coins: Math.floor(sessionStats.sessionDamage / 500),
-        gems: Math.floor(sessionStats.criticalHits / 2),
-        potions: sessionStats.specialAbilityUsed ? 1 : 0,
-        scrolls: Math.floor(sessionStats.sessionDamage / 1000)
-      }
-    });
+      rewards,
+      inventory: await InventoryManager.getInventory(userId),
+      lootSeed,
+      ...(achievements.length > 0 && { achievements }),
+      ...(wonFactionWar && { factionBonus: FACTION_WIN_BONUS })
+    };
+    res.json(response);
   } catch (error) {
     console.error(`Error claiming rewards for user ${userId}:`, error);
+    // Nothing was credited, so let the raider claim again
+    if (unusedClaimKey) {
+      await redis.del(unusedClaimKey).catch((cleanupError: unknown) => {
+        console.error(`Failed to release the reward claim for user ${userId}:`, cleanupError);
+      });
+    }
     res.status(500).json({
       status: 'error',
       message: 'Failed to claim rewards'
@@ -700,6 +1917,7 @@ router.get('/api/boss-hp-sync', async (_, res) => {
 
     const bossInfo = await BossManager.getBossInfo(postId);
     const communityStats = await CommunityManager.getCommunityStats(postId);
+    const bossAbility = await BossAbilityManager.tick(postId, bossInfo.data, bossInfo.state);
     
     res.json({
       status: 'success',
@@ -710,7 +1928,8 @@ router.get('/api/boss-hp-sync', async (_, res) => {
       totalDamageDealt: bossInfo.state.totalDamageDealt,
       activePlayers: communityStats.activePlayers,
       attacksPerMinute: communityStats.attacksPerMinute,
-      lastSyncTime: Date.now()
+      lastSyncTime: Date.now(),
+      ...(bossAbility && { ability: bossAbility })
     });
   } catch (error) {
     console.error('Boss HP sync error:', error);
@@ -729,6 +1948,7 @@ router.get('/api/community-dps-detailed', async (_, res) => {
 
     const communityStats = await CommunityManager.getCommunityStats(postId);
     const bossInfo = await BossManager.getBossInfo(postId);
+    const factionWar = await FactionManager.getStatus(postId, bossInfo.state, context.userId);
     
     // Calculate additional DPS metrics
     const timeSinceLastDamage = Date.now() - bossInfo.state.lastDamageTime;
@@ -742,6 +1962,7 @@ router.get('/api/community-dps-detailed', async (_, res) => {
       timeSinceLastDamage,
       bossPhase: bossInfo.state.phase,
       isEnraged: bossInfo.state.isEnraged,
+      ...(factionWar && { factionWar }),
       lastUpdated: Date.now()
     });
   } catch (error) {
@@ -761,7 +1982,7 @@ router.get('/api/player-data-sync', async (_, res) => {
 
     const playerData = await PlayerManager.getPlayerData(postId, userId);
     const sessionStats = await PlayerManager.getSessionStats(postId, userId);
-    const energyState = playerData.energyState;
+    const energyState = await PlayerManager.withBonusAttacks(postId, userId, playerData.energyState);
     
     // Calculate energy cooldown times
     const now = Date.now();
@@ -834,6 +2055,7 @@ router.get('/api/live-leaderboard', async (_, res) => {
     res.json({
       status: 'success',
       leaderboard,
+      guildLeaderboard: await GuildManager.getRaidLeaderboard(postId),
       currentUserRank,
       totalPlayers: await communityManager.getTotalPlayerCount(),
       lastUpdated: Date.now()
@@ -844,138 +2066,94 @@ router.get('/api/live-leaderboard', async (_, res) => {
   }
 });
 
-// Victory Post Creation API - Auto-generate Reddit post when boss is defeated
-router.post('/api/create-victory-post', async (_, res) => {
+// Victory Status API - The wrap-up runs on the server once the boss dies; clients only report it
+router.get('/api/victory-status', async (_, res) => {
   try {
-    const { postId, subredditName } = context;
+    const { postId } = context;
     if (!postId) {
       res.status(400).json({ status: 'error', message: 'postId required' });
       return;
     }
 
-    // Check if victory post already created to prevent duplicates
-    const victoryKey = `victory_post_created:${postId}`;
-    const alreadyCreated = await redis.get(victoryKey);
-    if (alreadyCreated) {
-      res.status(400).json({ status: 'error', message: 'Victory post already created' });
+    const bossState = await BossManager.getBossState(postId);
+    const outcome = await RaidOutcomeManager.getOutcome(getRaidId(postId, bossState));
+    if (outcome?.result === 'victory') {
+      const response: VictoryStatusResponse = { status: 'success', state: 'complete', outcome };
+      res.json(response);
       return;
     }
 
-    const bossInfo = await BossManager.getBossInfo(postId);
-    
-    if (!bossInfo.data) {
-      res.status(400).json({ status: 'error', message: 'No boss data found' });
-      return;
+    const isDefeated = bossState.currentHP <= 0;
+    if (isDefeated) {
+      // Re-queue in case the killing blow's job never ran (ignored while one is pending)
+      await VictoryManager.scheduleVictory(postId);
     }
 
-    // Check if boss is actually defeated
-    const isDefeated = await BossManager.isBossDefeated(postId);
-    if (!isDefeated) {
-      res.status(400).json({ status: 'error', message: 'Boss is not defeated yet' });
+    const response: VictoryStatusResponse = { status: 'success', state: isDefeated ? 'pending' : 'active' };
+    res.json(response);
+  } catch (error) {
+    console.error('Victory status API error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get victory status' });
+  }
+});
+
+// Boss Slayers API - Permanent history of killing blows in this subreddit
+router.get('/api/slayers', async (req, res) => {
+  try {
+    const { subredditName } = context;
+    if (!subredditName) {
+      res.status(400).json({ status: 'error', message: 'subredditName required' });
       return;
     }
 
-    const communityManager = new CommunityManager(postId);
-    const topPlayers = await communityManager.getLeaderboard(3); // Top 3 for tagging
-    const fullLeaderboard = await communityManager.getLeaderboard(20); // Full leaderboard for comment
-    
-    // Get Reddit usernames for top contributors
-    const topContributors = await Promise.all(
-      topPlayers.map(async (player) => {
-        try {
-          const userData = await RedditUserService.getUserData(player.userId);
-          return {
-            ...player,
-            redditUsername: userData.username || `Player${player.rank}`
-          };
-        } catch (error) {
-          console.error(`Failed to get user data for ${player.userId}:`, error);
-          return {
-            ...player,
-            redditUsername: `Player${player.rank}`
-          };
-        }
-      })
-    );
-
-    // Create victory post content
-    const postTitle = `🎉 r/RaidDay defeated ${bossInfo.data.name}!`;
-    const postContent = `The community has successfully defeated **${bossInfo.data.name}**!\n\n` +
-                       `🏆 **Top Contributors:**\n` +
-                       topContributors.map((player, index) => 
-                         `${index + 1}. u/${player.redditUsername} - ${player.sessionDamage.toLocaleString()} damage`
-                       ).join('\n') + '\n\n' +
-                       `📊 **Battle Stats:**\n` +
-                       `• Total Damage Dealt: ${(await communityManager.getTotalDamageDealt()).toLocaleString()}\n` +
-                       `• Participants: ${await communityManager.getTotalPlayerCount()}\n` +
-                       `• Boss Theme: ${bossInfo.data.theme}\n\n` +
-                       `Thanks to everyone who participated! The next boss will spawn tomorrow at 8 AM.`;
-
-    let createdPost = null;
-    let leaderboardComment = null;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20')) || 20, 1), 100);
+    const slayers = await SlayerManager.getSlayers(subredditName, limit);
 
-    try {
-      // Create the actual Reddit post
-      if (subredditName) {
-        createdPost = await reddit.submitPost({
-          subredditName: subredditName,
-          title: postTitle,
-          text: postContent
-        });
+    const response: SlayersResponse = {
+      status: 'success',
+      slayers
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Boss slayers API error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch boss slayers' });
+  }
+});
 
-        // Add full leaderboard as comment on the victory post
-        if (createdPost && createdPost.id) {
-          const leaderboardCommentText = generateLeaderboardComment(fullLeaderboard);
-          
-          try {
-            leaderboardComment = await reddit.submitComment({
-              id: createdPost.id,
-              text: leaderboardCommentText
-            });
-          } catch (commentError) {
-            console.error('Failed to create leaderboard comment:', commentError);
-            // Continue even if comment creation fails
-          }
-        }
-      }
-    } catch (redditError) {
-      console.error('Failed to create Reddit post:', redditError);
-      // Continue with response even if Reddit post creation fails
-    }
+// Raid Outcomes API - Recap of recent raids, e.g. ?result=failed for the bosses that escaped
+router.get('/api/raid-outcomes', async (req, res) => {
+  try {
+    const result = req.query.result === 'victory' ? 'victory' : 'failed';
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '10')) || 10, 1), 50);
+    const outcomes = await RaidOutcomeManager.getRecentOutcomes(result, limit);
 
-    const victoryPostData = {
-      title: postTitle,
-      content: postContent,
-      bossName: bossInfo.data.name,
-      topPlayers: topContributors,
-      fullLeaderboard,
-      totalDamage: await communityManager.getTotalDamageDealt(),
-      participantCount: await communityManager.getTotalPlayerCount(),
-      leaderboardComment: generateLeaderboardComment(fullLeaderboard),
-      redditPostId: createdPost?.id || null,
-      redditCommentId: leaderboardComment?.id || null
+    const response: RaidOutcomesResponse = {
+      status: 'success',
+      outcomes
     };
+    res.json(response);
+  } catch (error) {
+    console.error('Raid outcomes API error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch raid outcomes' });
+  }
+});
 
-    // Mark victory post as created to prevent duplicates
-    await redis.set(victoryKey, JSON.stringify({
-      timestamp: Date.now(),
-      postId: createdPost?.id || null,
-      commentId: leaderboardComment?.id || null
-    }), {
-      expiration: new Date(Date.now() + 86400 * 1000) // 24 hours
-    });
+// Boss Roster API - Active weekday roster (moderator overrides applied)
+router.get('/api/boss-roster', async (_req, res) => {
+  try {
+    const roster = await BossRosterManager.getActiveRoster();
+    const raidDay = await RaidCalendar.getCurrentRaidDay();
 
-    res.json({
+    const response: BossRosterResponse = {
       status: 'success',
-      victoryPost: victoryPostData,
-      message: 'Victory post created successfully',
-      postCreated: true,
-      redditPostCreated: !!createdPost,
-      redditCommentCreated: !!leaderboardComment
-    });
+      roster,
+      currentDay: raidDay.weekday,
+      nextResetAt: raidDay.endsAt
+    };
+    res.json(response);
   } catch (error) {
-    console.error('Victory post creation error:', error);
-    res.status(500).json({ status: 'error', message: 'Failed to create victory post' });
+    console.error('Boss roster API error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch boss roster' });
   }
 });
 
@@ -988,34 +2166,18 @@ router.get('/api/nextBoss', async (_, res) => {
       return;
     }
 
-    // Get tomorrow's boss data
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const dayOfWeek = tomorrow.getDay();
-    
-    const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const dayName = days[dayOfWeek];
-    
-    // Get next boss from BossManager
-    const nextBossData = await BossManager.getNextBossData(dayName || 'monday');
-    
-    // Calculate time until next boss (8 AM daily reset)
-    const now = new Date();
-    const next8AM = new Date();
-    next8AM.setDate(next8AM.getDate() + 1);
-    next8AM.setHours(8, 0, 0, 0);
-    
-    // If it's already past 8 AM today, set for tomorrow
-    if (now.getHours() >= 8) {
-      next8AM.setDate(next8AM.getDate() + 1);
-    }
+    // The next boss spawns at the subreddit's next daily reset, sized by the same HP forecast
+    const now = Date.now();
+    const nextRaidDay = await RaidCalendar.getNextRaidDay(now);
+    const { bossData: nextBossData, hpForecast } = await BossManager.planSpawn(nextRaidDay);
     
-    const timeUntilNext = next8AM.getTime() - now.getTime();
+    const timeUntilNext = Math.max(0, nextRaidDay.startsAt - now);
     
     res.json({
       status: 'success',
       nextBoss: nextBossData,
-      spawnTime: next8AM.toISOString(),
+      hpForecast,
+      spawnTime: new Date(nextRaidDay.startsAt).toISOString(),
       timeUntilSpawn: timeUntilNext,
       countdown: {
         hours: Math.floor(timeUntilNext / (1000 * 60 * 60)),
@@ -0,0 +1,60 @@
+/**
+ * Shared boss ability rules for Raid Day
+ * The server triggers and resolves abilities; clients only render the broadcast state
+ */
+
+export type BossAbilityKind = 'shield' | 'reflect' | 'countdown';
+
+export type BossAbilityTrigger =
+  | { type: 'hp'; threshold: number }          // Fires once when HP percentage drops to the threshold
+  | { type: 'timer'; intervalMinutes: number }; // Fires every interval after the boss spawns
+
+export interface BossAbilityDefinition {
+  id: string;
+  name: string;
+  kind: BossAbilityKind;
+  trigger: BossAbilityTrigger;
+  telegraphSeconds: number; // Warning shown before the ability takes effect
+  durationSeconds: number;
+  warning: string;
+  message: string;
+  damageMultiplier?: number;      // shield: damage raiders deal while active
+  reflectPercent?: number;        // reflect: share of each hit bounced back at the attacker
+  requiredDamagePercent?: number; // countdown: share of max HP raiders must deal before it ends
+  penaltySeconds?: number;        // countdown: how long the boss is shielded if the deadline is missed
+  penaltyMultiplier?: number;     // countdown: damage multiplier during the penalty
+}
+
+export type BossAbilityPhase = 'telegraph' | 'active' | 'penalty';
+
+// Broadcast state of the ability currently running on a boss (times are server epoch ms)
+export interface BossAbilityState {
+  instanceId: string;
+  abilityId: string;
+  name: string;
+  kind: BossAbilityKind;
+  phase: BossAbilityPhase;
+  message: string;
+  startedAt: number;
+  activeAt: number;
+  endsAt: number;
+  penaltyEndsAt?: number | undefined;
+  damageMultiplier: number;
+  reflectPercent: number;
+  countdown?: {
+    requiredDamage: number;
+    damageDealt: number;
+    outcome?: 'met' | 'missed' | undefined;
+  } | undefined;
+}
+
+/**
+ * Work out which part of its timeline an ability is in
+ * @returns undefined once the ability (and any penalty) is over
+ */
+export function getAbilityPhase(state: BossAbilityState, now: number): BossAbilityPhase | undefined {
+  if (now < state.activeAt) return 'telegraph';
+  if (now < state.endsAt) return 'active';
+  if (state.penaltyEndsAt !== undefined && now < state.penaltyEndsAt) return 'penalty';
+  return undefined;
+}
@@ -0,0 +1,127 @@
+/**
+ * Shared achievement definitions for Raid Day
+ * Every achievement is a threshold on one lifetime stat; the server checks them after attacks, specials and claims
+ */
+
+export type AchievementStat =
+  | 'attacks'
+  | 'crits'
+  | 'specials'
+  | 'killingBlows'
+  | 'claims'
+  | 'bestHit'
+  | 'raidDays'
+  | 'dayStreak'
+  | 'totalDamage'
+  | 'classesPlayed'
+  | 'prestigeRank';
+
+export type AchievementStats = Record<AchievementStat, number>;
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  stat: AchievementStat;
+  target: number;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_blood',
+    name: 'First Blood',
+    description: 'Land your first attack',
+    icon: '🩸',
+    stat: 'attacks',
+    target: 1
+  },
+  {
+    id: 'hundred_crits',
+    name: 'Critical Mass',
+    description: 'Land 100 critical hits',
+    icon: '💥',
+    stat: 'crits',
+    target: 100
+  },
+  {
+    id: 'killing_blow',
+    name: 'Boss Slayer',
+    description: 'Land the killing blow on a boss',
+    icon: '⚔️',
+    stat: 'killingBlows',
+    target: 1
+  },
+  {
+    id: 'week_streak',
+    name: 'Creature of Habit',
+    description: 'Raid 7 days straight',
+    icon: '📅',
+    stat: 'dayStreak',
+    target: 7
+  },
+  {
+    id: 'every_class',
+    name: 'Jack of All Trades',
+    description: 'Deal damage with every class',
+    icon: '🎭',
+    stat: 'classesPlayed',
+    target: 4
+  },
+  {
+    id: 'showboat',
+    name: 'Showboat',
+    description: 'Use 25 special abilities',
+    icon: '✨',
+    stat: 'specials',
+    target: 25
+  },
+  {
+    id: 'heavy_hitter',
+    name: 'Heavy Hitter',
+    description: 'Deal 1,000 damage in a single hit',
+    icon: '🔨',
+    stat: 'bestHit',
+    target: 1000
+  },
+  {
+    id: 'millionaire',
+    name: 'Damage Millionaire',
+    description: 'Deal 1,000,000 lifetime damage',
+    icon: '💰',
+    stat: 'totalDamage',
+    target: 1_000_000
+  },
+  {
+    id: 'spoils',
+    name: 'Spoils of War',
+    description: 'Claim rewards from 10 raids',
+    icon: '🎁',
+    stat: 'claims',
+    target: 10
+  },
+  {
+    id: 'veteran',
+    name: 'Veteran',
+    description: 'Raid on 30 different days',
+    icon: '🎖️',
+    stat: 'raidDays',
+    target: 30
+  },
+  {
+    id: 'prestige',
+    name: 'Born Again',
+    description: 'Prestige for the first time',
+    icon: '🌟',
+    stat: 'prestigeRank',
+    target: 1
+  }
+];
+
+export function getAchievement(achievementId: string): AchievementDefinition | undefined {
+  return ACHIEVEMENTS.find((achievement) => achievement.id === achievementId);
+}
+
+export function isAchievementMet(achievement: AchievementDefinition, stats: AchievementStats): boolean {
+  return stats[achievement.stat] >= achievement.target;
+}
@@ -0,0 +1,535 @@
+/**
+ * Shared boss roster for Raid Day
+ * One definition per weekday; moderators can override selected fields per day
+ */
+
+import { BossAbilityDefinition } from './abilities';
+import { CharacterClassId, isCharacterClassId } from './damage';
+import { LootEntry, withCommonLoot } from './loot';
+
+export enum DailyTheme {
+  GAMING = 'gaming',
+  INTERNET = 'internet',
+  SOCIAL_MEDIA = 'social_media',
+  WORK = 'work',
+  ENTERTAINMENT = 'entertainment',
+  SPORTS = 'sports',
+  MEMES = 'memes'
+}
+
+// Indexed by Date.getDay()
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  theme: DailyTheme;
+  baseHP: number;
+  level: number;
+  spriteKey: string;
+  phase2Threshold: number; // HP percentage for phase 2
+  enrageThreshold: number; // HP percentage for enrage
+  damageResistance: {
+    phase1: number;
+    phase2: number;
+  };
+  // Per-class multipliers on top of the phase resistance (>1 = weakness, <1 = resisted)
+  classModifiers: {
+    phase1: Partial<Record<CharacterClassId, number>>;
+    phase2: Partial<Record<CharacterClassId, number>>;
+  };
+  hitEffect: {
+    particles: string;
+    screenShake: number;
+    flashColor: number;
+  };
+  attackPattern: {
+    frequency: number;
+    animation: string;
+    message: string;
+  };
+  abilities: BossAbilityDefinition[]; // Server-run mechanics (not moderator-editable)
+  lootTable: LootEntry[];             // Weighted drops rolled for each raider at claim time
+}
+
+export type BossRoster = Record<Weekday, BossDefinition>;
+
+// Effective damage multiplier for each class in one boss phase
+export type PhaseMultipliers = Record<CharacterClassId, number>;
+
+// Fields a moderator may change for a weekday
+export interface BossOverride {
+  name?: string;
+  baseHP?: number;
+  phase2Threshold?: number;
+  enrageThreshold?: number;
+  damageResistance?: {
+    phase1?: number;
+    phase2?: number;
+  };
+  spriteKey?: string;
+}
+
+export type BossRosterOverrides = Partial<Record<Weekday, BossOverride>>;
+
+// Sprites preloaded by the client Boot scene
+export const BOSS_SPRITE_KEYS = [
+  'boss_cringe',
+  'boss_lag_spike',
+  'boss_algorithm',
+  'boss_influencer',
+  'boss_deadline',
+  'boss_spoiler',
+  'boss_referee'
+] as const;
+
+export const BOSS_NAME_MAX_LENGTH = 40;
+export const BOSS_HP_RANGE = { min: 1000, max: 10000000 };
+export const BOSS_RESISTANCE_RANGE = { min: 0.1, max: 2.0 };
+
+// Daily boss rotation (7 themed bosses) - Simplified for 50,000 HP shared pool
+export const DEFAULT_BOSS_ROSTER: BossRoster = {
+  sunday: {
+    id: 'the_cringe',
+    name: 'The Cringe',
+    theme: DailyTheme.MEMES,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_cringe',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 }, // 10% resistance once phase 2 starts
+    classModifiers: { phase1: { healer: 1.25 }, phase2: { mage: 1.25, warrior: 0.8 } },
+    hitEffect: { particles: 'cringe_particles', screenShake: 2, flashColor: 0xffa500 },
+    attackPattern: { frequency: 10000, animation: 'cringe_wave', message: 'So cringe...' },
+    abilities: [
+      {
+        id: 'secondhand_embarrassment', name: 'Secondhand Embarrassment', kind: 'reflect',
+        trigger: { type: 'hp', threshold: 0.6 }, telegraphSeconds: 5, durationSeconds: 20,
+        warning: 'The Cringe is about to get awkward...', message: 'Hits bounce back as embarrassment!',
+        reflectPercent: 0.25
+      },
+      {
+        id: 'awkward_silence', name: 'Awkward Silence', kind: 'shield',
+        trigger: { type: 'timer', intervalMinutes: 15 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'An awkward silence is coming...', message: 'Damage halved by the silence',
+        damageMultiplier: 0.5
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'leather_vest', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'lucky_coin', rarity: 'rare', weight: 3 },
+      { equipmentId: 'plot_armor', rarity: 'epic', weight: 1 }
+    ])
+  },
+  monday: {
+    id: 'the_lag_spike',
+    name: 'The Lag Spike',
+    theme: DailyTheme.GAMING,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_lag_spike',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { warrior: 1.25 }, phase2: { rogue: 1.25, mage: 0.8 } },
+    hitEffect: { particles: 'glitch_particles', screenShake: 2, flashColor: 0xff0000 },
+    attackPattern: { frequency: 8000, animation: 'lag_attack', message: 'Connection unstable!' },
+    abilities: [
+      {
+        id: 'packet_loss', name: 'Packet Loss', kind: 'shield',
+        trigger: { type: 'hp', threshold: 0.75 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'Connection unstable...', message: 'Half your packets are lost!',
+        damageMultiplier: 0.5
+      },
+      {
+        id: 'rubber_band', name: 'Rubber Band', kind: 'reflect',
+        trigger: { type: 'timer', intervalMinutes: 20 }, telegraphSeconds: 5, durationSeconds: 15,
+        warning: 'Latency spike incoming!', message: 'Attacks snap back at you!',
+        reflectPercent: 0.3
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'iron_blade', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'sharpening_stone', rarity: 'rare', weight: 3 },
+      { equipmentId: 'banhammer', rarity: 'legendary', weight: 0.5 }
+    ])
+  },
+  tuesday: {
+    id: 'the_algorithm',
+    name: 'The Algorithm',
+    theme: DailyTheme.INTERNET,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_algorithm',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { rogue: 1.25 }, phase2: { rogue: 1.25, healer: 0.8 } },
+    hitEffect: { particles: 'code_particles', screenShake: 2, flashColor: 0x00ff00 },
+    attackPattern: { frequency: 7000, animation: 'data_stream', message: 'Processing...' },
+    abilities: [
+      {
+        id: 'shadowban', name: 'Shadowban', kind: 'shield',
+        trigger: { type: 'hp', threshold: 0.5 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'The Algorithm is reviewing your content...', message: 'Your reach is halved!',
+        damageMultiplier: 0.5
+      },
+      {
+        id: 'engagement_bait', name: 'Engagement Bait', kind: 'reflect',
+        trigger: { type: 'hp', threshold: 0.25 }, telegraphSeconds: 5, durationSeconds: 20,
+        warning: 'Don\'t take the bait...', message: 'Every hit feeds the Algorithm back at you!',
+        reflectPercent: 0.25
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'arcane_staff', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'rage_totem', rarity: 'rare', weight: 3 },
+      { equipmentId: 'banhammer', rarity: 'legendary', weight: 0.5 }
+    ])
+  },
+  wednesday: {
+    id: 'the_influencer',
+    name: 'The Influencer',
+    theme: DailyTheme.SOCIAL_MEDIA,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_influencer',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { mage: 1.25 }, phase2: { warrior: 1.25, rogue: 0.8 } },
+    hitEffect: { particles: 'heart_particles', screenShake: 2, flashColor: 0xff69b4 },
+    attackPattern: { frequency: 6000, animation: 'selfie_flash', message: 'Like and subscribe!' },
+    abilities: [
+      {
+        id: 'ring_light', name: 'Ring Light', kind: 'reflect',
+        trigger: { type: 'hp', threshold: 0.7 }, telegraphSeconds: 5, durationSeconds: 20,
+        warning: 'The ring light is warming up...', message: 'The glare reflects your attacks!',
+        reflectPercent: 0.25
+      },
+      {
+        id: 'sponsored_segment', name: 'Sponsored Segment', kind: 'shield',
+        trigger: { type: 'timer', intervalMinutes: 15 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'A word from our sponsor...', message: 'Damage halved during the ad read',
+        damageMultiplier: 0.5
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'mystic_robe', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'lucky_coin', rarity: 'rare', weight: 3 },
+      { equipmentId: 'golden_ring_light', rarity: 'legendary', weight: 0.5 }
+    ])
+  },
+  thursday: {
+    id: 'the_deadline',
+    name: 'The Deadline',
+    theme: DailyTheme.WORK,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_deadline',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { warrior: 1.25 }, phase2: { healer: 1.25, mage: 0.8 } },
+    hitEffect: { particles: 'stress_particles', screenShake: 5, flashColor: 0xffff00 },
+    attackPattern: { frequency: 5000, animation: 'clock_tick', message: 'Time is running out!' },
+    abilities: [
+      {
+        id: 'final_countdown', name: 'Final Countdown', kind: 'countdown',
+        trigger: { type: 'hp', threshold: 0.5 }, telegraphSeconds: 5, durationSeconds: 60,
+        warning: 'A deadline is being set...', message: 'Deal 5% of its HP before time runs out!',
+        requiredDamagePercent: 0.05, penaltySeconds: 60, penaltyMultiplier: 0.5
+      },
+      {
+        id: 'crunch_time', name: 'Crunch Time', kind: 'countdown',
+        trigger: { type: 'timer', intervalMinutes: 30 }, telegraphSeconds: 5, durationSeconds: 45,
+        warning: 'Crunch time is coming...', message: 'Deal 3% of its HP before the deadline!',
+        requiredDamagePercent: 0.03, penaltySeconds: 45, penaltyMultiplier: 0.5
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'plate_mail', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'keen_dagger', rarity: 'rare', weight: 3 },
+      { equipmentId: 'deadline_hourglass', rarity: 'epic', weight: 1 }
+    ])
+  },
+  friday: {
+    id: 'the_spoiler',
+    name: 'The Spoiler',
+    theme: DailyTheme.ENTERTAINMENT,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_spoiler',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { mage: 1.25 }, phase2: { rogue: 1.25, warrior: 0.8 } },
+    hitEffect: { particles: 'reveal_particles', screenShake: 2, flashColor: 0x800080 },
+    attackPattern: { frequency: 9000, animation: 'spoiler_reveal', message: 'The ending is...' },
+    abilities: [
+      {
+        id: 'plot_armor', name: 'Plot Armor', kind: 'shield',
+        trigger: { type: 'hp', threshold: 0.6 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'The Spoiler is too important to die...', message: 'Plot armor halves your damage!',
+        damageMultiplier: 0.5
+      },
+      {
+        id: 'twist_ending', name: 'Twist Ending', kind: 'reflect',
+        trigger: { type: 'hp', threshold: 0.3 }, telegraphSeconds: 5, durationSeconds: 20,
+        warning: 'A twist is coming...', message: 'Your attacks turn against you!',
+        reflectPercent: 0.3
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'keen_dagger', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'mystic_robe', rarity: 'rare', weight: 3 },
+      { equipmentId: 'plot_armor', rarity: 'epic', weight: 1 }
+    ])
+  },
+  saturday: {
+    id: 'the_referee',
+    name: 'The Referee',
+    theme: DailyTheme.SPORTS,
+    baseHP: 50000,
+    level: 1,
+    spriteKey: 'boss_referee',
+    phase2Threshold: 0.5,
+    enrageThreshold: 0.2,
+    damageResistance: { phase1: 1.0, phase2: 0.9 },
+    classModifiers: { phase1: { healer: 1.25 }, phase2: { warrior: 1.25, rogue: 0.8 } },
+    hitEffect: { particles: 'whistle_particles', screenShake: 8, flashColor: 0x000000 },
+    attackPattern: { frequency: 4000, animation: 'whistle_blow', message: 'FOUL!' },
+    abilities: [
+      {
+        id: 'red_card', name: 'Red Card', kind: 'reflect',
+        trigger: { type: 'hp', threshold: 0.4 }, telegraphSeconds: 5, durationSeconds: 20,
+        warning: 'The Referee reaches for a card...', message: 'Every foul costs you HP!',
+        reflectPercent: 0.3
+      },
+      {
+        id: 'video_review', name: 'Video Review', kind: 'shield',
+        trigger: { type: 'timer', intervalMinutes: 20 }, telegraphSeconds: 5, durationSeconds: 30,
+        warning: 'Play is going to review...', message: 'Damage halved while the VAR checks',
+        damageMultiplier: 0.5
+      }
+    ],
+    lootTable: withCommonLoot([
+      { equipmentId: 'plate_mail', rarity: 'uncommon', weight: 6 },
+      { equipmentId: 'sharpening_stone', rarity: 'rare', weight: 3 },
+      { equipmentId: 'banhammer', rarity: 'legendary', weight: 0.5 }
+    ])
+  }
+};
+
+const CLASS_PLURALS: Record<CharacterClassId, string> = {
+  warrior: 'Warriors',
+  mage: 'Mages',
+  rogue: 'Rogues',
+  healer: 'Healers'
+};
+
+/**
+ * Get each class's effective damage multiplier in a boss phase (resistance x class modifier)
+ */
+export function getPhaseMultipliers(boss: BossDefinition, phase: number): PhaseMultipliers {
+  const phaseKey = phase >= 2 ? 'phase2' : 'phase1';
+  const resistance = boss.damageResistance[phaseKey];
+  const modifiers = boss.classModifiers[phaseKey];
+  const multiplier = (characterClass: CharacterClassId) =>
+    Math.round(resistance * (modifiers[characterClass] ?? 1) * 100) / 100;
+
+  return {
+    warrior: multiplier('warrior'),
+    mage: multiplier('mage'),
+    rogue: multiplier('rogue'),
+    healer: multiplier('healer')
+  };
+}
+
+/**
+ * Get the damage multiplier for an attacker (unknown classes only get the phase resistance)
+ */
+export function getDamageMultiplier(boss: BossDefinition, phase: number, characterClass?: string): number {
+  if (isCharacterClassId(characterClass)) {
+    return getPhaseMultipliers(boss, phase)[characterClass];
+  }
+  return phase >= 2 ? boss.damageResistance.phase2 : boss.damageResistance.phase1;
+}
+
+/**
+ * Describe a class multiplier for the HUD, e.g. "Mages deal +25% this phase"
+ */
+export function formatPhaseMultiplier(characterClass: CharacterClassId, multiplier: number): string {
+  const percent = Math.round((multiplier - 1) * 100);
+  return `${CLASS_PLURALS[characterClass]} deal ${percent >= 0 ? '+' : ''}${percent}% this phase`;
+}
+
+// A boss that escaped returns on its next weekday with more HP and tougher resistances
+export const REVENGE_HP_MULTIPLIER = 1.5;
+// Resistance is the share of damage that lands, so scaling it down makes the boss take less
+export const REVENGE_RESISTANCE_MULTIPLIER = 0.85;
+export const REVENGE_LEVEL_BONUS = 5;
+
+/**
+ * Build the harder "revenge" version of a boss that escaped
+ */
+export function toRevengeBoss(boss: BossDefinition): BossDefinition {
+  return {
+    ...boss,
+    name: `${boss.name} (Revenge)`,
+    level: boss.level + REVENGE_LEVEL_BONUS,
+    baseHP: Math.round(boss.baseHP * REVENGE_HP_MULTIPLIER),
+    damageResistance: {
+      phase1: Math.round(boss.damageResistance.phase1 * REVENGE_RESISTANCE_MULTIPLIER * 100) / 100,
+      phase2: Math.round(boss.damageResistance.phase2 * REVENGE_RESISTANCE_MULTIPLIER * 100) / 100
+    }
+  };
+}
+
+export function isWeekday(value: unknown): value is Weekday {
+  return typeof value === 'string' && (WEEKDAYS as readonly string[]).includes(value);
+}
+
+/**
+ * Get the weekday name for a date (local time of the caller)
+ */
+export function getWeekday(date: Date = new Date()): Weekday {
+  return WEEKDAYS[date.getDay()] ?? 'monday';
+}
+
+/**
+ * Merge moderator overrides onto the default roster
+ */
+export function applyBossOverrides(overrides: BossRosterOverrides): BossRoster {
+  const roster = {} as BossRoster;
+
+  for (const day of WEEKDAYS) {
+    const base = DEFAULT_BOSS_ROSTER[day];
+    const override = overrides[day] ?? {};
+
+    roster[day] = {
+      ...base,
+      name: override.name ?? base.name,
+      baseHP: override.baseHP ?? base.baseHP,
+      spriteKey: override.spriteKey ?? base.spriteKey,
+      phase2Threshold: override.phase2Threshold ?? base.phase2Threshold,
+      enrageThreshold: override.enrageThreshold ?? base.enrageThreshold,
+      damageResistance: {
+        phase1: override.damageResistance?.phase1 ?? base.damageResistance.phase1,
+        phase2: override.damageResistance?.phase2 ?? base.damageResistance.phase2
+      }
+    };
+  }
+
+  return roster;
+}
+
+/**
+ * Validate moderator-supplied overrides (parsed JSON)
+ * @returns The cleaned overrides, or the list of problems found
+ */
+export function validateBossOverrides(
+  input: unknown
+): { valid: true; overrides: BossRosterOverrides } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const overrides: BossRosterOverrides = {};
+
+  if (!isPlainObject(input)) {
+    return { valid: false, errors: ['Roster overrides must be an object keyed by weekday'] };
+  }
+
+  for (const [day, value] of Object.entries(input)) {
+    if (!isWeekday(day)) {
+      errors.push(`Unknown weekday "${day}"`);
+      continue;
+    }
+    if (!isPlainObject(value)) {
+      errors.push(`${day}: override must be an object`);
+      continue;
+    }
+
+    const override: BossOverride = {};
+
+    for (const field of Object.keys(value)) {
+      if (!['name', 'baseHP', 'phase2Threshold', 'enrageThreshold', 'damageResistance', 'spriteKey'].includes(field)) {
+        errors.push(`${day}: "${field}" cannot be overridden`);
+      }
+    }
+
+    if (value.name !== undefined) {
+      if (typeof value.name !== 'string' || value.name.trim().length === 0 || value.name.length > BOSS_NAME_MAX_LENGTH) {
+        errors.push(`${day}.name must be 1-${BOSS_NAME_MAX_LENGTH} characters`);
+      } else {
+        override.name = value.name.trim();
+      }
+    }
+
+    if (value.baseHP !== undefined) {
+      if (!Number.isInteger(value.baseHP) || !isInRange(value.baseHP, BOSS_HP_RANGE.min, BOSS_HP_RANGE.max)) {
+        errors.push(`${day}.baseHP must be a whole number between ${BOSS_HP_RANGE.min} and ${BOSS_HP_RANGE.max}`);
+      } else {
+        override.baseHP = value.baseHP as number;
+      }
+    }
+
+    for (const field of ['phase2Threshold', 'enrageThreshold'] as const) {
+      const threshold = value[field];
+      if (threshold === undefined) continue;
+      if (typeof threshold !== 'number' || !(threshold > 0 && threshold < 1)) {
+        errors.push(`${day}.${field} must be a number between 0 and 1 (exclusive)`);
+      } else {
+        override[field] = threshold;
+      }
+    }
+
+    if (value.damageResistance !== undefined) {
+      if (!isPlainObject(value.damageResistance)) {
+        errors.push(`${day}.damageResistance must be an object with phase1/phase2`);
+      } else {
+        const resistance: NonNullable<BossOverride['damageResistance']> = {};
+        for (const phase of ['phase1', 'phase2'] as const) {
+          const multiplier = value.damageResistance[phase];
+          if (multiplier === undefined) continue;
+          if (!isInRange(multiplier, BOSS_RESISTANCE_RANGE.min, BOSS_RESISTANCE_RANGE.max)) {
+            errors.push(
+              `${day}.damageResistance.${phase} must be between ${BOSS_RESISTANCE_RANGE.min} and ${BOSS_RESISTANCE_RANGE.max}`
+            );
+          } else {
+            resistance[phase] = multiplier as number;
+          }
+        }
+        override.damageResistance = resistance;
+      }
+    }
+
+    if (value.spriteKey !== undefined) {
+      if (typeof value.spriteKey !== 'string' || !(BOSS_SPRITE_KEYS as readonly string[]).includes(value.spriteKey)) {
+        errors.push(`${day}.spriteKey must be one of: ${BOSS_SPRITE_KEYS.join(', ')}`);
+      } else {
+        override.spriteKey = value.spriteKey;
+      }
+    }
+
+    // Enrage has to come after phase 2, checked against the values that will actually apply
+    const phase2Threshold = override.phase2Threshold ?? DEFAULT_BOSS_ROSTER[day].phase2Threshold;
+    const enrageThreshold = override.enrageThreshold ?? DEFAULT_BOSS_ROSTER[day].enrageThreshold;
+    if (enrageThreshold >= phase2Threshold) {
+      errors.push(`${day}.enrageThreshold must be lower than phase2Threshold`);
+    }
+
+    overrides[day] = override;
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, overrides };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
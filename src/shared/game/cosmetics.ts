@@ -0,0 +1,13 @@
+/**
+ * Shared cosmetic rules for Raid Day
+ * Tints, damage-number styles and titles are bought in the shop; the server resolves the ones worn for the client to draw
+ */
+
+import { CosmeticCategory } from '../types/api';
+
+// One of each can be worn at a time
+export const COSMETIC_CATEGORIES: CosmeticCategory[] = ['tint', 'damage_style', 'title'];
+
+export function isCosmeticCategory(value: unknown): value is CosmeticCategory {
+  return typeof value === 'string' && (COSMETIC_CATEGORIES as string[]).includes(value);
+}
@@ -0,0 +1,203 @@
+/**
+ * Shared damage rules for Raid Day
+ * The server rolls every attack with these rules; the client only uses them for display
+ */
+
+export type CharacterClassId = 'warrior' | 'mage' | 'rogue' | 'healer';
+
+export type RandomSource = () => number;
+
+export interface AttackRoll {
+  damage: number;
+  isCritical: boolean;
+}
+
+// Base damage ranges by class (minimal differences per requirement 5.2)
+export const CLASS_DAMAGE_RANGES: Record<CharacterClassId, { min: number; max: number }> = {
+  warrior: { min: 180, max: 220 },
+  mage: { min: 170, max: 230 },
+  rogue: { min: 160, max: 240 },
+  healer: { min: 175, max: 225 }
+};
+
+// Special ability multipliers applied on top of a normal damage roll
+export const SPECIAL_ABILITY_MULTIPLIERS: Record<CharacterClassId, number> = {
+  warrior: 6,   // Rage
+  mage: 7.5,    // Fireball
+  rogue: 9,     // Stealth backstab
+  healer: 3     // Heal
+};
+
+export const CRIT_CHANCE = 0.15;
+export const CRIT_MULTIPLIER = 2.0;
+export const LEVEL_DAMAGE_SCALING = 0.02;
+export const DAMAGE_VARIANCE = 0.15;
+
+// Bonuses on top of the class rules (equipment and talents add these up)
+export interface CombatModifiers {
+  damageBonus: number;    // Fraction added to the damage range (0.1 = +10%)
+  critChance: number;     // Added to CRIT_CHANCE
+  critMultiplier: number; // Added to CRIT_MULTIPLIER
+  specialPower: number;   // Fraction added to the special ability multiplier
+}
+
+export const NO_MODIFIERS: CombatModifiers = {
+  damageBonus: 0,
+  critChance: 0,
+  critMultiplier: 0,
+  specialPower: 0
+};
+
+/**
+ * Add modifier sets together (equipment plus talents)
+ */
+export function combineModifiers(...sets: CombatModifiers[]): CombatModifiers {
+  return sets.reduce((total, set) => ({
+    damageBonus: total.damageBonus + set.damageBonus,
+    critChance: total.critChance + set.critChance,
+    critMultiplier: total.critMultiplier + set.critMultiplier,
+    specialPower: total.specialPower + set.specialPower
+  }), NO_MODIFIERS);
+}
+
+export function isCharacterClassId(value: unknown): value is CharacterClassId {
+  return typeof value === 'string' && Object.hasOwn(CLASS_DAMAGE_RANGES, value);
+}
+
+export class DamageCalculator {
+  /**
+   * Calculate damage with simplified mechanics
+   * @param playerClass Character class
+   * @param playerLevel Player level for scaling
+   * @param random Random source (defaults to Math.random)
+   * @param modifiers Equipment bonuses
+   * @returns Calculated damage amount
+   */
+  public static calculateDamage(
+    playerClass: CharacterClassId,
+    playerLevel: number = 1,
+    random: RandomSource = Math.random,
+    modifiers: CombatModifiers = NO_MODIFIERS
+  ): number {
+    const range = CLASS_DAMAGE_RANGES[playerClass];
+
+    // Random damage within class range
+    let damage = this.randomInt(range.min, range.max, random);
+
+    // Simple level scaling (2% per level)
+    damage *= (1 + playerLevel * LEVEL_DAMAGE_SCALING);
+
+    // Equipment widens the whole range
+    damage *= (1 + modifiers.damageBonus);
+
+    // Random variance ±15% for variety
+    damage *= this.randomFloat(1 - DAMAGE_VARIANCE, 1 + DAMAGE_VARIANCE, random);
+
+    return Math.floor(damage);
+  }
+
+  /**
+   * Roll for critical hit (simplified)
+   * @param _playerClass Character class (unused - all classes have same crit chance)
+   * @param random Random source (defaults to Math.random)
+   * @param modifiers Equipment bonuses
+   * @returns Whether attack is critical
+   */
+  public static rollCritical(
+    _playerClass: CharacterClassId,
+    random: RandomSource = Math.random,
+    modifiers: CombatModifiers = NO_MODIFIERS
+  ): boolean {
+    return random() < CRIT_CHANCE + modifiers.critChance;
+  }
+
+  /**
+   * Apply critical hit multiplier
+   * @param damage Base damage
+   * @param isCritical Whether hit is critical
+   * @param modifiers Equipment bonuses
+   * @returns Modified damage
+   */
+  public static applyCritical(damage: number, isCritical: boolean, modifiers: CombatModifiers = NO_MODIFIERS): number {
+    return isCritical ? Math.floor(damage * (CRIT_MULTIPLIER + modifiers.critMultiplier)) : damage;
+  }
+
+  /**
+   * Calculate complete attack damage (main method)
+   * @param playerClass Character class
+   * @param playerLevel Player level
+   * @param random Random source (defaults to Math.random)
+   * @param modifiers Equipment bonuses
+   * @returns Attack result with damage and crit status
+   */
+  public static calculateAttack(
+    playerClass: CharacterClassId,
+    playerLevel: number = 1,
+    random: RandomSource = Math.random,
+    modifiers: CombatModifiers = NO_MODIFIERS
+  ): AttackRoll {
+    const baseDamage = this.calculateDamage(playerClass, playerLevel, random, modifiers);
+    const isCritical = this.rollCritical(playerClass, random, modifiers);
+    const finalDamage = this.applyCritical(baseDamage, isCritical, modifiers);
+
+    return {
+      damage: finalDamage,
+      isCritical
+    };
+  }
+
+  /**
+   * Calculate special ability damage (never critical)
+   * @param playerClass Character class
+   * @param playerLevel Player level
+   * @param random Random source (defaults to Math.random)
+   * @param modifiers Equipment bonuses
+   * @returns Special ability damage amount
+   */
+  public static calculateSpecialDamage(
+    playerClass: CharacterClassId,
+    playerLevel: number = 1,
+    random: RandomSource = Math.random,
+    modifiers: CombatModifiers = NO_MODIFIERS
+  ): number {
+    const baseDamage = this.calculateDamage(playerClass, playerLevel, random, modifiers);
+    return Math.floor(baseDamage * SPECIAL_ABILITY_MULTIPLIERS[playerClass] * (1 + modifiers.specialPower));
+  }
+
+  /**
+   * Get damage range for display purposes
+   * @param playerClass Character class
+   * @param playerLevel Player level
+   * @param modifiers Equipment bonuses
+   * @returns Min and max damage range
+   */
+  public static getDamageRange(
+    playerClass: CharacterClassId,
+    playerLevel: number = 1,
+    modifiers: CombatModifiers = NO_MODIFIERS
+  ): { min: number; max: number } {
+    const range = CLASS_DAMAGE_RANGES[playerClass];
+    const levelMultiplier = (1 + playerLevel * LEVEL_DAMAGE_SCALING) * (1 + modifiers.damageBonus);
+
+    return {
+      min: Math.floor(range.min * levelMultiplier * (1 - DAMAGE_VARIANCE)), // With variance
+      max: Math.floor(range.max * levelMultiplier * (1 + DAMAGE_VARIANCE))
+    };
+  }
+
+  public static formatDamage(damage: number): string {
+    if (damage >= 1000) {
+      return `${(damage / 1000).toFixed(1)}K`;
+    }
+    return damage.toString();
+  }
+
+  // Utility methods
+  private static randomInt(min: number, max: number, random: RandomSource): number {
+    return Math.floor(random() * (max - min + 1)) + min;
+  }
+
+  private static randomFloat(min: number, max: number, random: RandomSource): number {
+    return random() * (max - min) + min;
+  }
+}
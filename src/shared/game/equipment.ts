@@ -0,0 +1,150 @@
+/**
+ * Shared equipment rules for Raid Day
+ * Pieces drop from boss loot tables; the server sums the stored loadout into the modifiers it rolls damage with
+ */
+
+import { EquipmentSlot, Loadout } from '../types/api';
+import { CombatModifiers, NO_MODIFIERS } from './damage';
+
+export const EQUIPMENT_SLOTS: EquipmentSlot[] = ['weapon', 'armor', 'trinket'];
+
+export interface EquipmentDefinition {
+  id: string;
+  name: string;
+  slot: EquipmentSlot;
+  icon: string;
+  modifiers: Partial<CombatModifiers>;
+}
+
+export const EQUIPMENT: Record<string, EquipmentDefinition> = {
+  iron_blade: {
+    id: 'iron_blade',
+    name: 'Iron Blade',
+    slot: 'weapon',
+    icon: '🗡️',
+    modifiers: { damageBonus: 0.08 }
+  },
+  keen_dagger: {
+    id: 'keen_dagger',
+    name: 'Keen Dagger',
+    slot: 'weapon',
+    icon: '🔪',
+    modifiers: { damageBonus: 0.03, critChance: 0.05 }
+  },
+  arcane_staff: {
+    id: 'arcane_staff',
+    name: 'Arcane Staff',
+    slot: 'weapon',
+    icon: '🪄',
+    modifiers: { specialPower: 0.2 }
+  },
+  leather_vest: {
+    id: 'leather_vest',
+    name: 'Leather Vest',
+    slot: 'armor',
+    icon: '🦺',
+    modifiers: { critChance: 0.03 }
+  },
+  plate_mail: {
+    id: 'plate_mail',
+    name: 'Plate Mail',
+    slot: 'armor',
+    icon: '🛡️',
+    modifiers: { damageBonus: 0.05 }
+  },
+  mystic_robe: {
+    id: 'mystic_robe',
+    name: 'Mystic Robe',
+    slot: 'armor',
+    icon: '🥋',
+    modifiers: { specialPower: 0.1, critChance: 0.02 }
+  },
+  lucky_coin: {
+    id: 'lucky_coin',
+    name: 'Lucky Coin',
+    slot: 'trinket',
+    icon: '🪙',
+    modifiers: { critChance: 0.04 }
+  },
+  sharpening_stone: {
+    id: 'sharpening_stone',
+    name: 'Sharpening Stone',
+    slot: 'trinket',
+    icon: '🪨',
+    modifiers: { critMultiplier: 0.3 }
+  },
+  rage_totem: {
+    id: 'rage_totem',
+    name: 'Rage Totem',
+    slot: 'trinket',
+    icon: '🗿',
+    modifiers: { damageBonus: 0.03, specialPower: 0.1 }
+  },
+  plot_armor: {
+    id: 'plot_armor',
+    name: 'Plot Armor',
+    slot: 'armor',
+    icon: '📖',
+    modifiers: { damageBonus: 0.06, critChance: 0.04 }
+  },
+  deadline_hourglass: {
+    id: 'deadline_hourglass',
+    name: 'Deadline Hourglass',
+    slot: 'trinket',
+    icon: '⏳',
+    modifiers: { specialPower: 0.25 }
+  },
+  golden_ring_light: {
+    id: 'golden_ring_light',
+    name: 'Golden Ring Light',
+    slot: 'trinket',
+    icon: '💡',
+    modifiers: { critChance: 0.06, specialPower: 0.15 }
+  },
+  banhammer: {
+    id: 'banhammer',
+    name: 'The Banhammer',
+    slot: 'weapon',
+    icon: '🔨',
+    modifiers: { damageBonus: 0.15, critMultiplier: 0.3 }
+  }
+};
+
+export function isEquipmentSlot(value: unknown): value is EquipmentSlot {
+  return typeof value === 'string' && (EQUIPMENT_SLOTS as string[]).includes(value);
+}
+
+export function getEquipment(equipmentId: string | undefined): EquipmentDefinition | undefined {
+  return equipmentId ? EQUIPMENT[equipmentId] : undefined;
+}
+
+/**
+ * Add up the modifiers of everything worn (unknown ids are ignored)
+ */
+export function getLoadoutModifiers(loadout: Loadout): CombatModifiers {
+  const total = { ...NO_MODIFIERS };
+
+  for (const slot of EQUIPMENT_SLOTS) {
+    const modifiers = getEquipment(loadout[slot])?.modifiers;
+    if (!modifiers) continue;
+
+    total.damageBonus += modifiers.damageBonus ?? 0;
+    total.critChance += modifiers.critChance ?? 0;
+    total.critMultiplier += modifiers.critMultiplier ?? 0;
+    total.specialPower += modifiers.specialPower ?? 0;
+  }
+
+  return total;
+}
+
+/**
+ * Short stat line for an equipment piece, e.g. "+8% dmg, +5% crit"
+ */
+export function formatModifiers(modifiers: Partial<CombatModifiers>): string {
+  const parts: string[] = [];
+  if (modifiers.damageBonus) parts.push(`+${Math.round(modifiers.damageBonus * 100)}% dmg`);
+  if (modifiers.critChance) parts.push(`+${Math.round(modifiers.critChance * 100)}% crit`);
+  if (modifiers.critMultiplier) parts.push(`+${modifiers.critMultiplier.toFixed(1)}x crit dmg`);
+  if (modifiers.specialPower) parts.push(`+${Math.round(modifiers.specialPower * 100)}% special`);
+  return parts.join(', ');
+}
@@ -0,0 +1,73 @@
+/**
+ * Shared faction war rules for Raid Day
+ * When a moderator turns the mode on for a raid post, every raider joins a faction on their first attack;
+ * the faction with the most damage when the boss dies wins a bonus for its members
+ */
+
+import { FactionId, FactionProgress, InventoryAsset } from '../types/api';
+
+export interface FactionDefinition {
+  id: FactionId;
+  name: string;
+  icon: string;
+  color: number;
+}
+
+export const FACTIONS: FactionDefinition[] = [
+  { id: 'ember', name: 'Ember Legion', icon: '🔥', color: 0xff5533 },
+  { id: 'tide', name: 'Tide Wardens', icon: '🌊', color: 0x3399ff },
+  { id: 'grove', name: 'Grove Keepers', icon: '🌿', color: 0x44cc55 }
+];
+
+export const MIN_FACTIONS = 2;
+export const MAX_FACTIONS = 3;
+
+// Extra claim rewards for members of the winning faction
+export const FACTION_WIN_BONUS: Partial<Record<InventoryAsset, number>> = { coins: 150, gems: 2 };
+
+export function getFactions(count: number): FactionDefinition[] {
+  return FACTIONS.slice(0, Math.min(Math.max(count, MIN_FACTIONS), MAX_FACTIONS));
+}
+
+export function getFaction(id: FactionId): FactionDefinition | undefined {
+  return FACTIONS.find((faction) => faction.id === id);
+}
+
+export function isFactionId(value: unknown): value is FactionId {
+  return FACTIONS.some((faction) => faction.id === value);
+}
+
+/**
+ * Pick the faction a new raider joins: the smallest one, ties broken by the roll
+ * @param roll 0-1, so the same raider lands in the same faction when counts are tied
+ */
+export function pickFaction(progress: Pick<FactionProgress, 'id' | 'members'>[], roll: number): FactionId | undefined {
+  const fewest = Math.min(...progress.map((faction) => faction.members));
+  const smallest = progress.filter((faction) => faction.members === fewest);
+  return smallest[Math.floor(roll * smallest.length)]?.id;
+}
+
+/**
+ * The faction with the most damage (undefined while nobody has dealt any, or on an exact tie)
+ */
+export function getLeadingFaction(progress: Pick<FactionProgress, 'id' | 'damage'>[]): FactionId | undefined {
+  const [first, second] = [...progress].sort((a, b) => b.damage - a.damage);
+  return first && first.damage > 0 && first.damage !== second?.damage ? first.id : undefined;
+}
+
+/**
+ * The faction that wins when the boss dies: the most damage, with a tie going to the killing blow's faction
+ * (or to the roll when it isn't one of the tied leaders), so every war with damage has a winner
+ */
+export function pickWarWinner(
+  progress: Pick<FactionProgress, 'id' | 'damage'>[],
+  roll: number,
+  killingFaction?: FactionId
+): FactionId | undefined {
+  const topDamage = Math.max(0, ...progress.map((faction) => faction.damage));
+  if (topDamage === 0) return undefined;
+
+  const leaders = progress.filter((faction) => faction.damage === topDamage);
+  if (killingFaction && leaders.some((faction) => faction.id === killingFaction)) return killingFaction;
+  return leaders[Math.floor(roll * leaders.length)]?.id;
+}
@@ -0,0 +1,67 @@
+/**
+ * Shared guild rules for Raid Day
+ * Guilds have one owner, any number of officers and a member cap; names and tags are unique ignoring case
+ */
+
+import { GuildRole } from '../types/api';
+
+export const GUILD_MEMBER_CAP = 25;
+export const GUILD_NAME_MIN_LENGTH = 3;
+export const GUILD_NAME_MAX_LENGTH = 24;
+export const GUILD_TAG_MIN_LENGTH = 2;
+export const GUILD_TAG_MAX_LENGTH = 4;
+
+const GUILD_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 '-]*$/;
+const GUILD_TAG_PATTERN = /^[A-Z0-9]+$/;
+
+// Higher ranks can manage lower ones
+const ROLE_RANK: Record<GuildRole, number> = { member: 0, officer: 1, owner: 2 };
+
+/**
+ * Trim and validate a guild name
+ * @returns The cleaned name, or an error message
+ */
+export function normalizeGuildName(name: unknown): { name: string } | { error: string } {
+  const cleaned = typeof name === 'string' ? name.trim().replace(/\s+/g, ' ') : '';
+  if (cleaned.length < GUILD_NAME_MIN_LENGTH || cleaned.length > GUILD_NAME_MAX_LENGTH) {
+    return { error: `Guild names are ${GUILD_NAME_MIN_LENGTH}-${GUILD_NAME_MAX_LENGTH} characters` };
+  }
+  if (!GUILD_NAME_PATTERN.test(cleaned)) {
+    return { error: 'Guild names use letters, numbers, spaces, dashes and apostrophes' };
+  }
+  return { name: cleaned };
+}
+
+/**
+ * Upper-case and validate a guild tag
+ * @returns The cleaned tag, or an error message
+ */
+export function normalizeGuildTag(tag: unknown): { tag: string } | { error: string } {
+  const cleaned = typeof tag === 'string' ? tag.trim().toUpperCase() : '';
+  if (cleaned.length < GUILD_TAG_MIN_LENGTH || cleaned.length > GUILD_TAG_MAX_LENGTH || !GUILD_TAG_PATTERN.test(cleaned)) {
+    return { error: `Guild tags are ${GUILD_TAG_MIN_LENGTH}-${GUILD_TAG_MAX_LENGTH} letters or numbers` };
+  }
+  return { tag: cleaned };
+}
+
+export function isGuildRole(value: unknown): value is GuildRole {
+  return typeof value === 'string' && Object.hasOwn(ROLE_RANK, value);
+}
+
+/**
+ * Owners can kick officers and members; officers can kick members
+ */
+export function canKick(actor: GuildRole, target: GuildRole): boolean {
+  return actor !== 'member' && ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+/**
+ * Only the owner promotes and demotes
+ */
+export function canChangeRole(actor: GuildRole): boolean {
+  return actor === 'owner';
+}
+
+export function formatGuildTag(tag: string | undefined): string {
+  return tag ? `[${tag}]` : '';
+}
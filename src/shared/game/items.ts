@@ -0,0 +1,51 @@
+/**
+ * Shared consumable item rules for Raid Day
+ * The server validates and applies every use; the client renders the item bar from these definitions
+ */
+
+import { ItemType } from '../types/api';
+
+export interface ItemDefinition {
+  id: ItemType;
+  name: string;
+  icon: string;
+  description: string;
+  healAmount?: number;       // Player HP restored (boss attacks drain it during a battle)
+  bonusAttacks?: number;     // Extra attacks added to the current session
+  damageMultiplier?: number; // Damage buff until the session ends
+  passive?: boolean;         // Used by the server on its own, never from the battle item bar
+}
+
+export const ITEMS: Record<ItemType, ItemDefinition> = {
+  potion: {
+    id: 'potion',
+    name: 'Health Potion',
+    icon: '🧪',
+    description: 'Restores 200 HP and grants 2 bonus attacks',
+    healAmount: 200,
+    bonusAttacks: 2
+  },
+  scroll: {
+    id: 'scroll',
+    name: 'Power Scroll',
+    icon: '📜',
+    description: '+25% damage for the rest of the session',
+    damageMultiplier: 1.25
+  },
+  streak_saver: {
+    id: 'streak_saver',
+    name: 'Streak Saver',
+    icon: '🛟',
+    description: 'Covers one missed raid day so your streak survives',
+    passive: true
+  }
+};
+
+export const ITEM_TYPES = Object.keys(ITEMS) as ItemType[];
+
+// Items the battle item bar offers
+export const BATTLE_ITEM_TYPES = ITEM_TYPES.filter((item) => !ITEMS[item].passive);
+
+export function isItemType(value: unknown): value is ItemType {
+  return typeof value === 'string' && Object.hasOwn(ITEMS, value);
+}
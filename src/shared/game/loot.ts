@@ -0,0 +1,123 @@
+/**
+ * Shared loot rules for Raid Day
+ * The server rolls drops at claim time from a seeded random source, so any claim can be re-rolled for an audit
+ */
+
+import { InventoryAsset, LootDrop, LootRarity } from '../types/api';
+import { RandomSource } from './damage';
+
+export const LOOT_RARITIES: LootRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export const RARITY_COLORS: Record<LootRarity, number> = {
+  common: 0xbbbbbb,
+  uncommon: 0x2ecc71,
+  rare: 0x3498db,
+  epic: 0x9b59b6,
+  legendary: 0xff9f1a
+};
+
+export type LootReward = { asset: InventoryAsset; amount: number } | { equipmentId: string };
+
+export interface LootEntry {
+  rarity: LootRarity;
+  weight: number; // Relative to the other entries in the same table
+  reward: LootReward;
+}
+
+// Every claim gets this many rolls; each one drops something with the player's drop chance
+export const LOOT_ROLLS = 4;
+export const BASE_DROP_CHANCE = 0.5;
+
+// Rank 1 gets the full rank bonus, falling off to nothing past the top 10
+export const RANK_BONUS_MAX = 0.5;
+export const RANK_BONUS_STEP = 0.05;
+
+// Time between a player's first and latest hit counts up to this cap
+export const PARTICIPATION_BONUS_MAX = 0.5;
+export const PARTICIPATION_CAP_MS = 10 * 60 * 1000;
+
+// Filler every boss can drop on top of its own signature gear
+export const COMMON_LOOT: LootEntry[] = [
+  { rarity: 'common', weight: 40, reward: { asset: 'coins', amount: 25 } },
+  { rarity: 'uncommon', weight: 20, reward: { asset: 'coins', amount: 75 } },
+  { rarity: 'uncommon', weight: 15, reward: { asset: 'potion', amount: 1 } },
+  { rarity: 'rare', weight: 8, reward: { asset: 'scroll', amount: 1 } },
+  { rarity: 'rare', weight: 6, reward: { asset: 'gems', amount: 2 } },
+  { rarity: 'epic', weight: 2, reward: { asset: 'gems', amount: 5 } }
+];
+
+/**
+ * Build a boss loot table from its signature equipment plus the common filler
+ */
+export function withCommonLoot(signature: { equipmentId: string; rarity: LootRarity; weight: number }[]): LootEntry[] {
+  return [
+    ...COMMON_LOOT,
+    ...signature.map(({ equipmentId, rarity, weight }) => ({ rarity, weight, reward: { equipmentId } }))
+  ];
+}
+
+export interface LootContext {
+  rank: number;            // Contribution rank on the raid post (0 = unranked)
+  participationMs: number;
+}
+
+/**
+ * Chance each roll drops something, scaled by contribution rank and time spent in the raid
+ * Unranked players (no damage on the post) get nothing
+ */
+export function getDropChance({ rank, participationMs }: LootContext): number {
+  if (rank <= 0) return 0;
+
+  const rankBonus = Math.max(0, RANK_BONUS_MAX - (rank - 1) * RANK_BONUS_STEP);
+  const participationBonus = Math.min(Math.max(0, participationMs) / PARTICIPATION_CAP_MS, 1) * PARTICIPATION_BONUS_MAX;
+  return Math.min(1, BASE_DROP_CHANCE * (1 + rankBonus + participationBonus));
+}
+
+/**
+ * Seed for one player's loot from one raid (the same claim always re-rolls the same drops)
+ */
+export function getLootSeed(raidId: string, userId: string): string {
+  return `${raidId}:${userId}`;
+}
+
+/**
+ * Deterministic random source for a seed (FNV-1a hash into mulberry32)
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Roll a player's drops from a loot table
+ */
+export function rollLoot(table: LootEntry[], context: LootContext, random: RandomSource): LootDrop[] {
+  const dropChance = getDropChance(context);
+  const totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
+  const drops: LootDrop[] = [];
+
+  for (let roll = 0; roll < LOOT_ROLLS; roll++) {
+    // Both numbers are drawn every roll so one roll's outcome never shifts the next
+    const dropRoll = random();
+    let pick = random() * totalWeight;
+    if (dropRoll >= dropChance) continue;
+
+    const entry = table.find((candidate) => (pick -= candidate.weight) < 0) ?? table[table.length - 1];
+    if (entry) {
+      drops.push('equipmentId' in entry.reward
+        ? { rarity: entry.rarity, amount: 1, equipmentId: entry.reward.equipmentId }
+        : { rarity: entry.rarity, amount: entry.reward.amount, asset: entry.reward.asset });
+    }
+  }
+
+  return drops;
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared raid outcome helpers for Raid Day
+ * The server records outcomes; clients show them on the next raid and in the recap
+ */
+
+import { RaidOutcomeRecord } from '../types/api';
+
+/**
+ * Share of HP a boss kept, as a whole percentage
+ * Rounds up so a boss that escaped with a sliver of HP never shows 0%
+ */
+export function getFinalHPPercent(finalHP: number, maxHP: number): number {
+  if (finalHP <= 0 || maxHP <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.ceil((finalHP / maxHP) * 100));
+}
+
+/**
+ * One-line summary, e.g. "The Spoiler escaped at 12% HP"
+ */
+export function formatOutcomeHeadline(outcome: RaidOutcomeRecord): string {
+  return outcome.result === 'failed'
+    ? `${outcome.bossName} escaped at ${outcome.finalHPPercent}% HP`
+    : `${outcome.bossName} was defeated`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Shared level progression rules for Raid Day
+ * Levels come from XP earned since the last prestige; at the level cap a player can prestige for a permanent rank
+ */
+
+import { CombatModifiers, NO_MODIFIERS } from './damage';
+
+// Level n -> n+1 costs base + increment * (n - 1) XP
+export interface XpCurve {
+  base: number;
+  increment: number;
+}
+
+// Default curve; moderators can tune it in the app settings
+export const XP_CURVE: XpCurve = { base: 1000, increment: 250 };
+
+// Profiles from before the curve levelled on a flat 1000 XP per level
+export const LEGACY_XP_CURVE: XpCurve = { base: 1000, increment: 0 };
+
+// Bounds for moderator-set curves
+export const XP_CURVE_BASE_MIN = 100;
+export const XP_CURVE_BASE_MAX = 100_000;
+export const XP_CURVE_INCREMENT_MAX = 10_000;
+
+export const LEVEL_CAP = 30;
+
+// Each prestige rank adds a little damage, up to a point
+export const PRESTIGE_DAMAGE_BONUS = 0.02;
+export const PRESTIGE_BONUS_MAX_RANK = 10;
+
+export interface LevelProgress {
+  level: number;
+  experience: number;       // Progress into the current level (0 at the cap)
+  experienceToNext: number; // XP the current level costs (0 at the cap)
+}
+
+/**
+ * XP it takes to go from a level to the next
+ */
+export function getXpToNextLevel(level: number, curve: XpCurve = XP_CURVE): number {
+  return curve.base + curve.increment * (Math.max(1, level) - 1);
+}
+
+/**
+ * Split XP earned since the last prestige into a level and the progress into that level
+ */
+export function getLevelProgress(experience: number, curve: XpCurve = XP_CURVE): LevelProgress {
+  let remaining = Math.max(0, experience);
+  let level = 1;
+
+  while (level < LEVEL_CAP && remaining >= getXpToNextLevel(level, curve)) {
+    remaining -= getXpToNextLevel(level, curve);
+    level++;
+  }
+
+  return level >= LEVEL_CAP
+    ? { level, experience: 0, experienceToNext: 0 }
+    : { level, experience: remaining, experienceToNext: getXpToNextLevel(level, curve) };
+}
+
+/**
+ * XP a level and in-level progress add up to (inverse of getLevelProgress)
+ */
+export function getTotalExperience(level: number, experience: number, curve: XpCurve = XP_CURVE): number {
+  let total = Math.max(0, experience);
+  for (let below = 1; below < Math.min(Math.max(1, level), LEVEL_CAP); below++) {
+    total += getXpToNextLevel(below, curve);
+  }
+  return total;
+}
+
+/**
+ * Re-express XP on another curve, keeping the level and the share of it already earned
+ */
+export function convertExperience(experience: number, from: XpCurve, to: XpCurve): number {
+  const { level, experience: progress, experienceToNext } = getLevelProgress(experience, from);
+  const share = experienceToNext > 0 ? progress / experienceToNext : 0;
+  return getTotalExperience(level, Math.floor(share * getXpToNextLevel(level, to)), to);
+}
+
+/**
+ * Turn raw setting values into a usable curve (falls back per field)
+ */
+export function normalizeXpCurve(base: unknown, increment: unknown): XpCurve {
+  const baseValue = typeof base === 'number' ? base : parseInt(String(base ?? ''));
+  const incrementValue = typeof increment === 'number' ? increment : parseInt(String(increment ?? ''));
+
+  return {
+    base: Number.isInteger(baseValue) && baseValue >= XP_CURVE_BASE_MIN && baseValue <= XP_CURVE_BASE_MAX
+      ? baseValue : XP_CURVE.base,
+    increment: Number.isInteger(incrementValue) && incrementValue >= 0 && incrementValue <= XP_CURVE_INCREMENT_MAX
+      ? incrementValue : XP_CURVE.increment
+  };
+}
+
+export function isSameXpCurve(a: XpCurve, b: XpCurve): boolean {
+  return a.base === b.base && a.increment === b.increment;
+}
+
+export function canPrestige(level: number): boolean {
+  return level >= LEVEL_CAP;
+}
+
+/**
+ * Permanent damage bonus from prestige ranks
+ */
+export function getPrestigeModifiers(prestigeRank: number): CombatModifiers {
+  return {
+    ...NO_MODIFIERS,
+    damageBonus: Math.min(Math.max(0, prestigeRank), PRESTIGE_BONUS_MAX_RANK) * PRESTIGE_DAMAGE_BONUS
+  };
+}
+
+/**
+ * Badge shown next to a player's name, e.g. "🥈3" (empty before the first prestige)
+ */
+export function getPrestigeBadge(prestigeRank: number): string {
+  if (prestigeRank <= 0) return '';
+  const icon = prestigeRank >= 10 ? '👑' : prestigeRank >= 5 ? '🥇' : prestigeRank >= 3 ? '🥈' : '🥉';
+  return `${icon}${prestigeRank}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Shared quest pools for Raid Day
+ * Every player gets three daily quests and one weekly quest, picked from these pools with a seed per player and period
+ */
+
+import { InventoryAsset, QuestPeriod } from '../types/api';
+import { CharacterClassId, RandomSource } from './damage';
+
+export type QuestObjective = 'attacks' | 'crits' | 'damage' | 'specials' | 'sessions';
+
+export interface QuestDefinition {
+  id: string;
+  period: QuestPeriod;
+  description: string;
+  objective: QuestObjective;
+  target: number;
+  characterClass?: CharacterClassId; // Only progress made as this class counts
+  reward: { asset: InventoryAsset; amount: number };
+}
+
+// What one attack or special adds toward quests
+export interface QuestEvent {
+  characterClass: CharacterClassId;
+  damage: number;
+  isCritical: boolean;
+  isSpecial: boolean;
+  isNewSession: boolean; // First hit of a 2-minute session
+}
+
+export const DAILY_QUEST_COUNT = 3;
+export const WEEKLY_QUEST_COUNT = 1;
+
+export const QUEST_POOL: QuestDefinition[] = [
+  {
+    id: 'daily_attacks',
+    period: 'daily',
+    description: 'Attack 20 times',
+    objective: 'attacks',
+    target: 20,
+    reward: { asset: 'coins', amount: 50 }
+  },
+  {
+    id: 'daily_crits',
+    period: 'daily',
+    description: 'Land 5 crits',
+    objective: 'crits',
+    target: 5,
+    reward: { asset: 'coins', amount: 75 }
+  },
+  {
+    id: 'daily_damage',
+    period: 'daily',
+    description: 'Deal 5,000 damage',
+    objective: 'damage',
+    target: 5000,
+    reward: { asset: 'coins', amount: 60 }
+  },
+  {
+    id: 'daily_special',
+    period: 'daily',
+    description: 'Use 2 special abilities',
+    objective: 'specials',
+    target: 2,
+    reward: { asset: 'potion', amount: 1 }
+  },
+  {
+    id: 'daily_sessions',
+    period: 'daily',
+    description: 'Attack in 3 separate sessions',
+    objective: 'sessions',
+    target: 3,
+    reward: { asset: 'coins', amount: 100 }
+  },
+  {
+    id: 'daily_warrior',
+    period: 'daily',
+    description: 'Deal 2,000 damage as Warrior',
+    objective: 'damage',
+    target: 2000,
+    characterClass: 'warrior',
+    reward: { asset: 'coins', amount: 60 }
+  },
+  {
+    id: 'daily_mage',
+    period: 'daily',
+    description: 'Deal 2,000 damage as Mage',
+    objective: 'damage',
+    target: 2000,
+    characterClass: 'mage',
+    reward: { asset: 'coins', amount: 60 }
+  },
+  {
+    id: 'daily_rogue',
+    period: 'daily',
+    description: 'Land 3 crits as Rogue',
+    objective: 'crits',
+    target: 3,
+    characterClass: 'rogue',
+    reward: { asset: 'coins', amount: 60 }
+  },
+  {
+    id: 'daily_healer',
+    period: 'daily',
+    description: 'Deal 2,000 damage as Healer',
+    objective: 'damage',
+    target: 2000,
+    characterClass: 'healer',
+    reward: { asset: 'coins', amount: 60 }
+  },
+  {
+    id: 'weekly_damage',
+    period: 'weekly',
+    description: 'Deal 50,000 damage',
+    objective: 'damage',
+    target: 50_000,
+    reward: { asset: 'gems', amount: 5 }
+  },
+  {
+    id: 'weekly_sessions',
+    period: 'weekly',
+    description: 'Attack in 15 separate sessions',
+    objective: 'sessions',
+    target: 15,
+    reward: { asset: 'scroll', amount: 2 }
+  },
+  {
+    id: 'weekly_crits',
+    period: 'weekly',
+    description: 'Land 50 crits',
+    objective: 'crits',
+    target: 50,
+    reward: { asset: 'gems', amount: 4 }
+  }
+];
+
+export function getQuest(questId: string): QuestDefinition | undefined {
+  return QUEST_POOL.find((quest) => quest.id === questId);
+}
+
+/**
+ * Pick a period's quests from the pool without repeats
+ * @param random Seeded per player and period, so the same player always gets the same quests
+ */
+export function pickQuests(period: QuestPeriod, count: number, random: RandomSource): QuestDefinition[] {
+  const candidates = QUEST_POOL.filter((quest) => quest.period === period);
+  const picked: QuestDefinition[] = [];
+
+  while (picked.length < count && candidates.length > 0) {
+    const [quest] = candidates.splice(Math.floor(random() * candidates.length), 1);
+    if (quest) picked.push(quest);
+  }
+
+  return picked;
+}
+
+/**
+ * How much an attack or special moves a quest forward
+ */
+export function getQuestProgress(quest: QuestDefinition, event: QuestEvent): number {
+  if (quest.characterClass && quest.characterClass !== event.characterClass) {
+    return 0;
+  }
+
+  switch (quest.objective) {
+    case 'attacks':
+      return event.isSpecial ? 0 : 1;
+    case 'crits':
+      return event.isCritical ? 1 : 0;
+    case 'damage':
+      return event.damage;
+    case 'specials':
+      return event.isSpecial ? 1 : 0;
+    case 'sessions':
+      return event.isNewSession ? 1 : 0;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Shared participation streak rules for Raid Day
+ * A streak counts consecutive raid days (reset to reset) with at least one attack; a streak saver bridges one missed day
+ */
+
+import { InventoryAsset } from '../types/api';
+
+export interface StreakMilestone {
+  days: number;
+  reward: Partial<Record<InventoryAsset, number>>;
+}
+
+// Rewards grow with the streak; savers are only handed out at the long milestones
+export const STREAK_MILESTONES: StreakMilestone[] = [
+  { days: 3, reward: { coins: 50 } },
+  { days: 7, reward: { coins: 150, potion: 2 } },
+  { days: 14, reward: { coins: 300, gems: 3, streak_saver: 1 } },
+  { days: 30, reward: { coins: 750, gems: 10, streak_saver: 1 } },
+  { days: 60, reward: { coins: 1500, gems: 20, streak_saver: 2 } },
+  { days: 100, reward: { coins: 3000, gems: 50, streak_saver: 3 } }
+];
+
+export function getStreakMilestone(days: number): StreakMilestone | undefined {
+  return STREAK_MILESTONES.find((milestone) => milestone.days === days);
+}
+
+export function getNextStreakMilestone(days: number): StreakMilestone | undefined {
+  return STREAK_MILESTONES.find((milestone) => milestone.days > days);
+}
+
+/**
+ * Short label for a streak, e.g. "🔥 5-day streak"
+ */
+export function formatStreak(days: number): string {
+  return days > 0 ? `🔥 ${days}-day streak` : 'No streak yet';
+}
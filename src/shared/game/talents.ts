@@ -0,0 +1,175 @@
+/**
+ * Shared talent trees for Raid Day
+ * Each class has its own tree and earns one point per level; the server applies learned ranks to every damage roll
+ */
+
+import { CharacterClassId, CombatModifiers, NO_MODIFIERS } from './damage';
+
+// Learned rank per talent id for one class
+export type TalentRanks = Record<string, number>;
+
+export interface TalentDefinition {
+  id: string;
+  name: string;
+  description: string;
+  maxRank: number;
+  modifiersPerRank?: Partial<CombatModifiers>;
+  rageStackPerRank?: number;   // Damage bonus per consecutive attack this session
+  buffSecondsPerRank?: number; // Extra community buff time from the healer's special
+}
+
+// Warrior rage stops growing after this many consecutive attacks
+export const RAGE_MAX_STACKS = 5;
+
+// Respecs refund every point of one class's tree
+export const TALENT_RESPEC_COST = 200;
+
+// The healer's special buffs everyone's damage on the raid for a while
+export const COMMUNITY_BUFF_MULTIPLIER = 1.1;
+export const COMMUNITY_BUFF_BASE_SECONDS = 30;
+
+export const TALENT_TREES: Record<CharacterClassId, TalentDefinition[]> = {
+  warrior: [
+    {
+      id: 'building_rage',
+      name: 'Building Rage',
+      description: '+2% damage per consecutive attack this session (up to 5)',
+      maxRank: 3,
+      rageStackPerRank: 0.02
+    },
+    {
+      id: 'iron_will',
+      name: 'Iron Will',
+      description: '+3% damage',
+      maxRank: 3,
+      modifiersPerRank: { damageBonus: 0.03 }
+    },
+    {
+      id: 'battle_cry',
+      name: 'Battle Cry',
+      description: '+10% Rage damage',
+      maxRank: 2,
+      modifiersPerRank: { specialPower: 0.1 }
+    }
+  ],
+  mage: [
+    {
+      id: 'arcane_splash',
+      name: 'Arcane Splash',
+      description: 'Spells splash for +4% damage',
+      maxRank: 3,
+      modifiersPerRank: { damageBonus: 0.04 }
+    },
+    {
+      id: 'spell_focus',
+      name: 'Spell Focus',
+      description: '+2% crit chance',
+      maxRank: 3,
+      modifiersPerRank: { critChance: 0.02 }
+    },
+    {
+      id: 'overcharge',
+      name: 'Overcharge',
+      description: '+15% Fireball damage',
+      maxRank: 2,
+      modifiersPerRank: { specialPower: 0.15 }
+    }
+  ],
+  rogue: [
+    {
+      id: 'deadly_precision',
+      name: 'Deadly Precision',
+      description: '+0.25x crit damage',
+      maxRank: 3,
+      modifiersPerRank: { critMultiplier: 0.25 }
+    },
+    {
+      id: 'keen_eye',
+      name: 'Keen Eye',
+      description: '+2% crit chance',
+      maxRank: 3,
+      modifiersPerRank: { critChance: 0.02 }
+    },
+    {
+      id: 'ambush',
+      name: 'Ambush',
+      description: '+10% Stealth damage',
+      maxRank: 2,
+      modifiersPerRank: { specialPower: 0.1 }
+    }
+  ],
+  healer: [
+    {
+      id: 'lingering_light',
+      name: 'Lingering Light',
+      description: 'Heal buffs the raid for 15s longer',
+      maxRank: 3,
+      buffSecondsPerRank: 15
+    },
+    {
+      id: 'blessed_strikes',
+      name: 'Blessed Strikes',
+      description: '+3% damage',
+      maxRank: 3,
+      modifiersPerRank: { damageBonus: 0.03 }
+    },
+    {
+      id: 'radiance',
+      name: 'Radiance',
+      description: '+10% Heal damage',
+      maxRank: 2,
+      modifiersPerRank: { specialPower: 0.1 }
+    }
+  ]
+};
+
+export function getTalent(characterClass: CharacterClassId, talentId: string): TalentDefinition | undefined {
+  return TALENT_TREES[characterClass].find((talent) => talent.id === talentId);
+}
+
+/**
+ * Points a level gives each class tree (one per level gained)
+ */
+export function getTalentPoints(level: number): number {
+  return Math.max(0, level - 1);
+}
+
+export function getSpentPoints(ranks: TalentRanks): number {
+  return Object.values(ranks).reduce((sum, rank) => sum + rank, 0);
+}
+
+/**
+ * Combat modifiers from a class's learned talents
+ * @param consecutiveAttacks Attacks so far this session (feeds rage)
+ */
+export function getTalentModifiers(
+  characterClass: CharacterClassId,
+  ranks: TalentRanks,
+  consecutiveAttacks: number = 0
+): CombatModifiers {
+  const total = { ...NO_MODIFIERS };
+
+  for (const talent of TALENT_TREES[characterClass]) {
+    const rank = Math.min(ranks[talent.id] ?? 0, talent.maxRank);
+    if (rank <= 0) continue;
+
+    total.damageBonus += (talent.modifiersPerRank?.damageBonus ?? 0) * rank;
+    total.critChance += (talent.modifiersPerRank?.critChance ?? 0) * rank;
+    total.critMultiplier += (talent.modifiersPerRank?.critMultiplier ?? 0) * rank;
+    total.specialPower += (talent.modifiersPerRank?.specialPower ?? 0) * rank;
+    total.damageBonus += (talent.rageStackPerRank ?? 0) * rank * Math.min(consecutiveAttacks, RAGE_MAX_STACKS);
+  }
+
+  return total;
+}
+
+/**
+ * How long the healer's special buffs the raid
+ */
+export function getCommunityBuffSeconds(ranks: TalentRanks): number {
+  const bonus = TALENT_TREES.healer.reduce(
+    (sum, talent) => sum + (talent.buffSecondsPerRank ?? 0) * Math.min(ranks[talent.id] ?? 0, talent.maxRank),
+    0
+  );
+  return COMMUNITY_BUFF_BASE_SECONDS + bonus;
+}
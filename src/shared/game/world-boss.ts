@@ -0,0 +1,21 @@
+/**
+ * Shared world boss rules for Raid Day
+ * Subreddits that opt in all fight one boss per UTC raid day; every hit on a local boss also lands on it
+ */
+
+import { SubredditContribution } from '../types/api';
+
+export const WORLD_BOSS_NAME = 'The Global Outage';
+export const WORLD_BOSS_HP = 2_000_000;
+
+// Global keys outlive the day so late announcements can still read the result
+export const WORLD_BOSS_RETENTION_DAYS = 8;
+
+/**
+ * Rank subreddits by damage, highest first
+ */
+export function rankSubreddits(damageBySubreddit: { subredditName: string; damage: number }[]): SubredditContribution[] {
+  return [...damageBySubreddit]
+    .sort((a, b) => b.damage - a.damage || a.subredditName.localeCompare(b.subredditName))
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
@@ -1,3 +1,7 @@
+import { BossAbilityState } from '../game/abilities';
+import { BossDefinition, BossRoster, PhaseMultipliers, Weekday } from '../game/bosses';
+import { XpCurve } from '../game/progression';
+
 export type InitResponse = {
   type: 'init';
   postId: string;
@@ -22,9 +26,9 @@ export type SpecialAbilityValidationResponse = {
   timeRemaining?: number;
 };
 
+// Special ability damage is rolled on the server from the stored class and level
 export type SpecialAbilityUseRequest = {
   characterClass: string;
-  damage: number;
 };
 
 export type SpecialAbilityUseResponse = {
@@ -32,20 +36,17 @@ export type SpecialAbilityUseResponse = {
   damage?: number;
   newBossHP?: number;
   characterClass?: string;
+  reflectedDamage?: number;
+  bossAbility?: BossAbilityState;
+  buff?: ActiveBuff;
+  communityBuff?: CommunityBuff;
+  achievements?: AchievementUnlock[];
+  streak?: StreakUpdate;
   message?: string;
 };
 
 // Boss and Combat API Types
-export interface BossData {
-  id: string;
-  name: string;
-  theme: string;
-  baseHP: number;
-  level: number;
-  spriteKey: string;
-  phase2Threshold: number;
-  enrageThreshold: number;
-}
+export type BossData = BossDefinition;
 
 export interface BossState {
   currentHP: number;
@@ -55,18 +56,80 @@ export interface BossState {
   lastDamageTime: number;
   totalDamageDealt: number;
   activePlayerCount: number;
+  defeatedAt?: number | undefined;
+  slayer?: BossKill | undefined;
+  hpForecast?: BossHPForecast | undefined;
+  spawnedAt?: number | undefined;
+  weekday?: Weekday | undefined;
+  dayKey?: string | undefined;
+  isRevenge?: boolean | undefined;
+}
+
+// Why a boss instance spawned with its max HP (stored alongside the boss)
+export interface BossHPForecast {
+  source: 'forecast' | 'roster'; // 'roster' = no usable history or scaling disabled
+  chosenHP: number;
+  rosterHP: number;
+  targetTimeToKillHours: number;
+  sampleDays: number;                     // Previous raid days with participation
+  forecastParticipants: number;           // Expected unique participants
+  damagePerParticipantHour: number;       // Observed damage rate per participant
+  revengeMultiplier?: number | undefined; // Extra HP for a boss returning after it escaped
+  createdAt: number;
+}
+
+// Who landed the killing blow on a boss instance
+export interface BossKill {
+  userId: string;
+  username?: string | undefined;
+  characterClass: string;
+  defeatedAt: number;
+}
+
+// Permanent per-subreddit "Boss Slayer" history entry
+export interface BossSlayerRecord extends BossKill {
+  postId: string;
+  bossId: string;
+  bossName: string;
+}
+
+export interface SlayersResponse {
+  status: 'success' | 'error';
+  slayers?: BossSlayerRecord[];
+  message?: string;
+}
+
+// Active boss roster (defaults with moderator overrides applied)
+export interface BossRosterResponse {
+  status: 'success' | 'error';
+  roster?: BossRoster;
+  currentDay?: Weekday;  // Weekday of the raid day in progress (subreddit's time zone)
+  nextResetAt?: number;  // Epoch ms of the next daily reset
+  message?: string;
 }
 
 export interface BossStatusResponse {
   data: BossData;
   state: BossState;
   isDefeated: boolean;
+  multipliers?: {
+    phase: number;
+    byClass: PhaseMultipliers; // Effective damage multiplier per class this phase
+  };
+  raid?: RaidPostStatus;
 }
 
+// Whether a post hosts the subreddit's current raid (older daily posts end instead of resetting)
+export interface RaidPostStatus {
+  isActive: boolean;
+  dayKey?: string | undefined;       // Raid day the post was created for (YYYY-MM-DD)
+  activePostId?: string | undefined; // Post hosting the current raid
+  previousOutcome?: RaidOutcomeRecord | undefined; // How the raid before this post's ended
+}
+
+// Damage and crits are rolled on the server; the client only reports its selected class
 export interface AttackRequest {
   characterClass: string;
-  damage: number;
-  isCritical?: boolean;
 }
 
 export interface AttackResponse {
@@ -79,6 +142,12 @@ export interface AttackResponse {
   playerLevel: number;
   xpGained: number;
   energyRemaining: number;
+  reflectedDamage?: number;      // Bounced back by a reflect ability
+  bossAbility?: BossAbilityState; // Ability running when the attack landed
+  buff?: ActiveBuff;              // Consumable buff that boosted the attack
+  communityBuff?: CommunityBuff;  // Healer buff that boosted the attack
+  achievements?: AchievementUnlock[]; // Unlocked by this attack
+  streak?: StreakUpdate;          // Only on the first attack of a raid day
   message?: string;
 }
 
@@ -87,8 +156,10 @@ export interface PlayerData {
   characterClass: string;
   level: number;
   experience: number;
+  xpCurve?: XpCurve;
   sessionDamage: number;
   totalDamage: number;
+  cosmetics?: Cosmetics;
   energyState: {
     current: number;
     max: number;
@@ -99,12 +170,394 @@ export interface PlayerData {
   specialAbilityUsed: boolean;
 }
 
+export type CurrencyType = 'coins' | 'gems';
+export type ItemType = 'potion' | 'scroll' | 'streak_saver';
+export type InventoryAsset = CurrencyType | ItemType;
+
+export interface Inventory {
+  currencies: Record<CurrencyType, number>;
+  items: Record<ItemType, number>;
+}
+
+// Why a balance changed; every ledger entry carries one
+export type LedgerReason = 'claim' | 'purchase' | 'use' | 'respec' | 'quest' | 'streak' | 'faction' | 'admin_grant';
+
+// One append-only inventory transaction (amount is negative for spending)
+export interface LedgerEntry {
+  id: string;
+  asset: InventoryAsset;
+  amount: number;
+  balanceAfter: number;
+  reason: LedgerReason;
+  reference?: string | undefined; // e.g. the post a claim came from
+  createdAt: number;
+}
+
+// Damage buff from a consumable; it ends with the session it was used in
+export interface ActiveBuff {
+  item: ItemType;
+  damageMultiplier: number;
+  sessionStart: number;
+}
+
+export interface UseItemRequest {
+  item: string;
+}
+
+export interface UseItemResponse {
+  status: 'success' | 'error';
+  item?: ItemType;
+  healAmount?: number;   // The client restores this much player HP
+  bonusAttacks?: number;
+  buff?: ActiveBuff;
+  energyRemaining?: number;
+  inventory?: Inventory;
+  message?: string;
+}
+
+export interface InventoryResponse {
+  status: 'success' | 'error';
+  inventory?: Inventory;
+  ledger?: LedgerEntry[];
+  message?: string;
+}
+
+export type LootRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+// One item rolled from a boss loot table (equipment drops have an equipmentId instead of an asset)
+export interface LootDrop {
+  rarity: LootRarity;
+  amount: number;
+  asset?: InventoryAsset;
+  equipmentId?: string;
+}
+
+export type EquipmentSlot = 'weapon' | 'armor' | 'trinket';
+
+// Equipment id worn in each slot (empty slots are left out)
+export type Loadout = Partial<Record<EquipmentSlot, string>>;
+
+export interface EquipmentResponse {
+  status: 'success' | 'error';
+  owned?: Record<string, number>; // Equipment id -> copies owned
+  loadout?: Loadout;
+  message?: string;
+}
+
+export interface EquipRequest {
+  slot: string;
+  equipmentId?: string; // Omit to empty the slot
+}
+
+export interface TalentsResponse {
+  status: 'success' | 'error';
+  level?: number;
+  pointsPerTree?: number;                           // Every class tree gets this many points
+  talents?: Record<string, Record<string, number>>; // Class -> talent id -> rank
+  respecCost?: number;
+  inventory?: Inventory;
+  message?: string;
+}
+
+export interface LearnTalentRequest {
+  characterClass: string;
+  talentId: string;
+}
+
+export interface RespecTalentsRequest {
+  characterClass: string;
+}
+
+// Raid-wide damage buff started by a healer's special
+export interface CommunityBuff {
+  multiplier: number;
+  expiresAt: number;
+  userId: string;
+}
+
+export type ShopCategory = 'tint' | 'damage_style' | 'title' | 'boost';
+export type CosmeticCategory = Exclude<ShopCategory, 'boost'>;
+
+// What a player wears per cosmetic category: the tint color, damage-number style or title text
+export type Cosmetics = Partial<Record<CosmeticCategory, string>>;
+
+export interface ShopPrice {
+  currency: CurrencyType;
+  amount: number;
+}
+
+export interface ShopItem {
+  id: string;
+  name: string;
+  description: string;
+  category: ShopCategory;
+  price: ShopPrice;
+  perPlayerLimit?: number;         // Most a player can ever buy (1 for cosmetics)
+  stock?: number;                  // Total units for the whole subreddit
+  grants?: Partial<Record<ItemType, number>>; // Consumables a boost puts in the inventory
+  value?: string;                  // Tint color, damage-number style or title text
+}
+
+// A catalog item as one player sees it
+export interface ShopListing extends ShopItem {
+  owned: number;
+  remainingStock?: number;
+  equipped?: boolean;              // Cosmetics only
+}
+
+export interface ShopResponse {
+  status: 'success' | 'error';
+  listings?: ShopListing[];
+  inventory?: Inventory;
+  message?: string;
+}
+
+export interface ShopPurchaseRequest {
+  itemId: string;
+}
+
+export interface ShopPurchaseResponse {
+  status: 'success' | 'error';
+  listing?: ShopListing;
+  inventory?: Inventory;
+  message?: string;
+}
+
+// Wear a cosmetic the player owns (replacing the one worn in its category), or take it off
+export interface ShopEquipRequest {
+  itemId: string;
+  equipped: boolean;
+}
+
+export interface ShopEquipResponse {
+  status: 'success' | 'error';
+  listings?: ShopListing[];
+  message?: string;
+}
+
+export interface ClassHistoryEntry {
+  damage: number;
+  firstPlayedAt: number;
+  lastPlayedAt: number;
+}
+
+// Subreddit-wide progress that carries over from one raid post to the next
+// Consecutive raid days a player attacked on
+export interface StreakStatus {
+  current: number;    // 0 once a missed day can't be covered
+  best: number;
+  raidDays: number;   // Every raid day played, streak or not
+  lastDayKey?: string | undefined; // Last raid day the player attacked on
+  playedToday: boolean;
+  streakSavers: number;
+}
+
+// What the day's first attack did to the streak
+export interface StreakUpdate {
+  streak: StreakStatus;
+  saverUsed: boolean;
+  milestone?: { days: number; reward: Partial<Record<InventoryAsset, number>> };
+}
+
+export interface StreakResponse {
+  status: 'success' | 'error';
+  streak?: StreakStatus;
+  nextMilestone?: { days: number; reward: Partial<Record<InventoryAsset, number>> };
+  message?: string;
+}
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+// One of the player's current quests
+export interface QuestStatus {
+  id: string;
+  period: QuestPeriod;
+  description: string;
+  progress: number;
+  target: number;
+  reward: { asset: InventoryAsset; amount: number };
+  claimed: boolean;
+  expiresAt: number; // Daily quests end at the raid reset, weekly ones at the Monday reset
+}
+
+export interface QuestsResponse {
+  status: 'success' | 'error';
+  quests?: QuestStatus[];
+  inventory?: Inventory;
+  message?: string;
+}
+
+export interface ClaimQuestRequest {
+  questId: string;
+}
+
+// One subreddit's share of the world boss
+export interface SubredditContribution {
+  subredditName: string;
+  damage: number;
+  rank: number;
+}
+
+// The boss every opted-in subreddit fights on the same UTC raid day
+export interface WorldBossStatus {
+  dayKey: string;
+  name: string;
+  currentHP: number;
+  maxHP: number;
+  defeatedAt?: number | undefined;
+  winner?: string | undefined;      // Subreddit with the most damage when it fell
+  subreddits: SubredditContribution[];
+  participating: boolean;           // Whether this subreddit opted in
+}
+
+export interface WorldBossResponse {
+  status: 'success' | 'error';
+  worldBoss?: WorldBossStatus;
+  message?: string;
+}
+
+export type FactionId = 'ember' | 'tide' | 'grove';
+
+export interface FactionProgress {
+  id: FactionId;
+  damage: number;
+  members: number;
+}
+
+// A raid post's faction war
+export interface FactionWarStatus {
+  factions: FactionProgress[];
+  playerFaction?: FactionId | undefined;
+  leader?: FactionId | undefined;  // Most damage so far
+  winner?: FactionId | undefined;  // Declared when the boss dies
+}
+
+export type GuildRole = 'owner' | 'officer' | 'member';
+
+export interface Guild {
+  id: string;
+  name: string;
+  tag: string;
+  ownerId: string;
+  memberCount: number;
+  totalDamage: number; // Lifetime damage dealt by members while in the guild
+  createdAt: number;
+}
+
+export interface GuildMember {
+  userId: string;
+  username?: string | undefined;
+  role: GuildRole;
+  joinedAt: number;
+  damage: number; // Damage dealt for this guild
+}
+
+export interface GuildLeaderboardEntry {
+  guildId: string;
+  name: string;
+  tag: string;
+  damage: number;
+  memberCount: number;
+  rank: number;
+}
+
+export interface GuildsResponse {
+  status: 'success' | 'error';
+  guilds?: Guild[];          // Top guilds by lifetime damage, to browse and join
+  guild?: Guild;             // The player's guild (or the one asked for)
+  members?: GuildMember[];
+  role?: GuildRole;          // The player's role in their guild
+  message?: string;
+}
+
+export interface CreateGuildRequest {
+  name: string;
+  tag: string;
+}
+
+export interface JoinGuildRequest {
+  guildId: string;
+}
+
+export interface GuildMemberRequest {
+  userId: string;
+  role?: GuildRole; // Only for role changes
+}
+
+// An achievement earned by the action that returned it
+export interface AchievementUnlock {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  unlockedAt: number;
+}
+
+// One entry in the achievements gallery
+export interface AchievementStatus {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  progress: number;  // Current value of the stat the achievement tracks
+  target: number;
+  unlockedAt?: number;
+}
+
+export interface AchievementsResponse {
+  status: 'success' | 'error';
+  achievements?: AchievementStatus[];
+  message?: string;
+}
+
+// One prestige reset, kept in the profile's history
+export interface PrestigeRecord {
+  rank: number;
+  achievedAt: number;
+  lifetimeExperience: number; // Lifetime XP when the player prestiged
+}
+
+export interface PlayerProfile {
+  userId: string;
+  level: number;
+  experience: number;         // Progress into the current level
+  experienceToNext: number;   // XP the current level costs (0 at the level cap)
+  xpCurve: XpCurve;           // Curve the level was computed on
+  lifetimeExperience: number;
+  prestigeRank: number;
+  prestigeHistory: PrestigeRecord[];
+  totalDamage: number;        // Lifetime damage across every raid
+  characterClass?: string | undefined; // Last class picked (default for new raids)
+  classHistory: Partial<Record<string, ClassHistoryEntry>>;
+  currencies: Record<CurrencyType, number>;
+  items: Record<ItemType, number>;
+  equipment: Record<string, number>;
+  loadout: Loadout;
+  cosmetics: Partial<Record<CosmeticCategory, string>>; // Shop item id worn per category
+  talents: Record<string, Record<string, number>>; // Class -> talent id -> rank
+  createdAt: number;
+  lastActiveTime: number;
+}
+
+export interface ProfileResponse {
+  status: 'success' | 'error';
+  profile?: PlayerProfile;
+  message?: string;
+}
+
+export interface PrestigeResponse extends ProfileResponse {
+  achievements?: AchievementUnlock[]; // Unlocked by this prestige
+}
+
 export interface LeaderboardEntry {
   userId: string;
   username?: string | undefined;
   redditUsername?: string | undefined;
   characterClass: string;
   level: number;
+  prestigeRank?: number;
+  guildTag?: string | undefined;
+  title?: string | undefined;     // Bought in the shop
   sessionDamage: number;
   totalDamage: number;
   rank: number;
@@ -129,6 +582,7 @@ export interface AttackEvent {
   isCritical: boolean;
   timestamp: number;
   avatarUrl?: string;
+  buff?: ActiveBuff | undefined;
 }
 
 export interface RecentAttacker {
@@ -140,11 +594,13 @@ export interface RecentAttacker {
   damage: number;
   timestamp: number;
   avatarUrl?: string | undefined;
+  buff?: ActiveBuff | undefined;
 }
 
 export interface LiveLeaderboardResponse {
   status: 'success' | 'error';
   leaderboard: LeaderboardEntry[];
+  guildLeaderboard?: GuildLeaderboardEntry[]; // Guilds by damage dealt in this raid
   currentUserRank?: number;
   totalPlayers: number;
   lastUpdated: number;
@@ -163,6 +619,58 @@ export interface SessionStats {
   specialAbilityUsed: boolean;
   sessionStartTime: number;
   playerRank: number;
+  participationMs: number; // First to latest attack on this raid post
+}
+
+export type RaidResult = 'victory' | 'failed';
+
+// What the server recorded, once, when a raid ended (killed, or escaped at the daily reset)
+export interface RaidOutcomeRecord {
+  result: RaidResult;
+  raidId: string;                 // One boss instance: postId plus the raid day it spawned on
+  postId: string;
+  dayKey?: string | undefined;
+  bossId: string;
+  bossName: string;
+  isRevenge?: boolean | undefined;
+  endedAt: number;
+  maxHP: number;
+  finalHP: number;
+  finalHPPercent: number;         // 0 for a victory
+  slayer?: BossKill | undefined;
+  topPlayers: LeaderboardEntry[];
+  totalDamage: number;
+  participantCount: number;
+  // Victory wrap-up
+  title?: string | undefined;
+  content?: string | undefined;
+  redditPostId?: string | undefined;
+  redditCommentId?: string | undefined;
+  flairedUsernames?: string[] | undefined;
+  completedAt: number;
+}
+
+export interface RaidOutcomesResponse {
+  status: 'success' | 'error';
+  outcomes?: RaidOutcomeRecord[];
+  message?: string;
+}
+
+// Victory wrap-up status for a post ('pending' = boss defeated, wrap-up still running)
+export interface VictoryStatusResponse {
+  status: 'success' | 'error';
+  state?: 'active' | 'pending' | 'complete';
+  outcome?: RaidOutcomeRecord;
+  message?: string;
+}
+
+// Victory rewards for a session (coins and gems are currencies; potions and scrolls are items)
+export interface VictoryRewards {
+  coins: number;
+  gems: number;
+  potions: number;
+  scrolls: number;
+  drops: LootDrop[]; // The rolls the totals above add up from
 }
 
 export interface VictoryDataResponse {
@@ -171,13 +679,9 @@ export interface VictoryDataResponse {
   sessionStats?: SessionStats;
   leaderboard?: LeaderboardEntry[];
   bossData?: BossData;
+  slayer?: BossKill;
   xpGained?: number;
-  rewards?: {
-    coins: number;
-    gems: number;
-    potions: number;
-    scrolls: number;
-  };
+  rewards?: VictoryRewards;
   message?: string;
 }
 
@@ -186,12 +690,11 @@ export interface ClaimRewardsResponse {
   xpGained?: number;
   newLevel?: number;
   newExperience?: number;
-  rewards?: {
-    coins: number;
-    gems: number;
-    potions: number;
-    scrolls: number;
-  };
+  rewards?: VictoryRewards;       // What was actually credited to the inventory
+  inventory?: Inventory;
+  lootSeed?: string;              // Seed the drops were rolled with (re-rolls the same loot for audits)
+  achievements?: AchievementUnlock[]; // Unlocked by this claim
+  factionBonus?: Partial<Record<InventoryAsset, number>>; // Credited when the player's faction won the war
   message?: string;
 }
 
@@ -206,7 +709,8 @@ export interface BossHPSyncResponse {
   totalDamageDealt: number;
   activePlayers: number;
   attacksPerMinute: number;
-  lastSyncTime: number;
+  lastSyncTime: number;           // Server clock, for timing ability telegraphs
+  ability?: BossAbilityState;     // Running boss ability, same for every raider
 }
 
 export interface CommunityDPSDetailedResponse {
@@ -221,6 +725,7 @@ export interface CommunityDPSDetailedResponse {
   timeSinceLastDamage: number;
   bossPhase: number;
   isEnraged: boolean;
+  factionWar?: FactionWarStatus; // Only while the post runs a faction war
   lastUpdated: number;
 }
 